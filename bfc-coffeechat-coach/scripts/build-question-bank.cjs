@@ -1,25 +1,555 @@
 /* eslint-disable @typescript-eslint/no-require-imports */
+const { createHash } = require("crypto");
 const fs = require("fs");
 const path = require("path");
 const { PDFParse } = require("pdf-parse");
+const mammoth = require("mammoth");
 
-const SOURCE_PDF = path.join(__dirname, "..", "data", "source", "interview-question-bank.pdf");
+const SOURCE_DIR = path.join(__dirname, "..", "data", "source");
+// The original shared doc keeps its unprefixed ids ("evercore-12") so manual overrides and drill decks still match.
+const LEGACY_SOURCE = "interview-question-bank.pdf";
 const OUTPUT_JSON = path.join(__dirname, "..", "data", "question-bank.json");
 const OUTPUT_META = path.join(__dirname, "..", "data", "question-bank.meta.json");
 const MANUAL_JSON = path.join(__dirname, "..", "data", "question-bank.manual.json");
 const ALLOWLIST_JSON = path.join(__dirname, "..", "data", "firm-allowlist.json");
 const ALIASES_JSON = path.join(__dirname, "..", "data", "firm-aliases.json");
+const REJECTS_JSON = path.join(__dirname, "..", "data", "question-bank.rejects.json");
+const LABELS_CACHE_JSON = path.join(__dirname, "..", "data", "question-bank.labels.json");
+const REVIEW_JSON = path.join(__dirname, "..", "data", "question-bank.review.json");
+const CLUSTERS_JSON = path.join(__dirname, "..", "data", "question-bank.clusters.json");
+const SCORING_CASES_JSON = path.join(__dirname, "..", "data", "question-bank.scoring-cases.json");
+const SRC_DIR = path.join(__dirname, "..", "src");
 
-function isFirmHeading(line) {
-  if (!line) return false;
-  if (line.length > 40) return false;
-  if (line.includes("?")) return false;
-  if (/^[A-Z0-9 &.'-]+$/.test(line)) return true;
-  return /^[A-Z][a-zA-Z&.'-]+(?:\s+[A-Z][a-zA-Z&.'-]+)*$/.test(line);
+const args = new Set(process.argv.slice(2));
+// Without these flags the build only applies labels already in the labels cache.
+const CLASSIFY = args.has("--classify") || args.has("--reclassify");
+const RECLASSIFY = args.has("--reclassify");
+
+// Lines scoring below this are written to the rejects report instead of the bank.
+const MIN_QUESTION_SCORE = 2;
+// The PDF wraps rows at roughly 100 characters; shorter unterminated lines are usually complete.
+const WRAP_WIDTH = 85;
+const MIN_PROMPT_LENGTH = 6;
+// Longer lines lose points unless they are a technical with figures (merger models and UFCF builds run long);
+// past the hard cap a line is a paragraph of notes.
+const LONG_PROMPT_LENGTH = 400;
+const MAX_PROMPT_LENGTH = 1200;
+// Token-set similarity (Jaccard) at or above which two prompts count as the same question.
+const CLUSTER_SIMILARITY = 0.6;
+
+const INTERROGATIVE_START =
+  /^(what|whats|what's|how|why|when|where|which|who|whom|whose|is|are|was|were|do|does|did|can|could|would|should|will|if|have|has)\b/i;
+const PROMPT_START =
+  /^(walk|tell|describe|explain|talk|teach|define|pitch|give|run|name|estimate|value|calculate|rank|compare|list|pick|choose|sell|assume|imagine|suppose|(a )?time (you|when|i)|favorite|recent|current|biggest|greatest|sectors?|industry|tmay|wmtyr)\b/i;
+// "Brainteaser: ..." introduces the puzzle itself; a bare "brainteasers" line does not.
+const BRAINTEASER_LEAD = /^brain ?teasers?\s*[:-]\s*\S/i;
+// Finance and behavioral topics that make a terse line like "DCF with negative cash flows" a usable prompt.
+const TOPIC_TERMS =
+  /\b(dcf|ebitda|ebit|wacc|lbo|irr|moic|valuation|multiples?|comps|precedents?|accretion|dilution|merger|synerg\w*|m&a|ipo|debt|equity|revenue|cash flows?|fcf|ufcf|lfcf|balance sheet|income statement|(3|three)[- ]statements?|depreciation|d&a|nwc|working capital|enterprise value|ev|beta|interest|tax|pik|inventory|accounting|dividends?|pensions?|p\/e|margins?|capex|leverage|distress\w*|rx|restructuring|retention|shares outstanding|share price|terminal value|deal|market|stock|bonds?|yield|inflation|fed|s&p|conflict|leader\w*|teamwork|mistake|failure|challenge|weakness\w*|strengths?|feedback)\b/i;
+const NUMERIC_SCENARIO = /\$\s?\d|\d+(\.\d+)?\s?%|\d+x\b/i;
+const NARRATIVE =
+  /^(i|we|they|he|she|it was|basically|pretty|overall|then|just|mostly|very|super|lots of|kinda|talked|spent|pulled|completely|dont|don't|forgot|interviewed)\b|\b(i said|i think|i was|i got|i forgot|they asked|he asked|she asked|asked a lot|kept ask\w*|we talked|this one|the trick|kinda|lowkey|lowk|hardo|ferda|hella|yapp\w*|lol)\b/i;
+// Contributor commentary, never something an interviewer would read out.
+const PROFANITY = /\b(fuck\w*|shit\w*|wtf|damn\w*|bullshit)\b/i;
+// A trailing aside about how the answer went ("(fucked this one up)", "(I think I messed this up)") is dropped
+// from the prompt; what remains is scored on its own.
+const TRAILING_ASIDE = /\s*\(([^()]*)\)\s*$/;
+const ASIDE_COMMENTARY = /\b(fuck\w*|shit\w*|i think|i was|i got|messed|bombed|blanked|lol)\b/i;
+// A duration only counts as logistics in scheduling context ("30 min each", "2 x 30 min", "the round was 45 minutes"),
+// so brainteasers and word problems that mention time ("ropes burn for 30 min") are kept.
+const DURATION = String.raw`\d+(?:\.\d+)?\s*(?:min|mins|minutes?|hr|hrs|hours?)\b`;
+const LOGISTICS = new RegExp(
+  [
+    String.raw`${DURATION}\s*(?:ish\s+)?(?:long|each|interviews?|rounds?|calls?|chats?|superday|behaviou?rals?|technicals?|case|q&a|questions|on\b|of\b|straight|over time|for (?:q&a|questions)|\/\s*(?:week|wk|day)|(?:a|per) (?:week|day))`,
+    String.raw`\d+\s*x\s*${DURATION}`,
+    String.raw`\b(?:interviews?|rounds?|superday|calls?|chats?|it)\s+(?:was|were|is|are|lasted|took|ran)\s+(?:like\s+|about\s+|around\s+|only\s+)?${DURATION}`,
+    String.raw`\b(?:spent(?:\s+like)?|first|last)\s+${DURATION}`,
+    String.raw`\(\s*${DURATION}`,
+    String.raw`\b(?:back[- ]to[- ]back|virtual|zoom|in[- ]person|onsite|on[- ]site|oa|wonderlic)\b`,
+  ].join("|"),
+  "i"
+);
+const SAME_AS = /^same\s+(as|questions?|techs?|behaviou?rals?|thing|stuff)\b|^(very )?(similar|identical) to\b/i;
+const DOCUMENT_NOTES = /\b(this document|circulate|unnecessary comments|no judgement|contributing)\b/i;
+// Words that mark a short capitalized line as a topic ("Recent Deal") rather than a person.
+const NOT_A_NAME =
+  /\b(deal|trend|case|market|round|interviews?|call|recruiter|hirevue|program|technicals?|behaviou?rals?|strengths?|weakness\w*|resume|questions?|fit|story|why|ib|rx|pe|hc|tech)\b/i;
+const DIVERSITY_CELL = /^(yes|no|n\/a|nah|y|n)$/i;
+const VALID_STAGES = ["coffee_chat", "hirevue", "first_round", "second_round", "superday"];
+const VALID_TYPES = ["behavioral", "accounting", "valuation", "lbo", "merger_math", "market", "brainteaser", "other"];
+// Spreadsheet and JSON field names accepted for each record field, compared lowercased.
+const COLUMN_ALIASES = {
+  firm: ["firm", "bank", "company", "employer"],
+  prompt: ["question", "questions", "prompt", "interview question"],
+  group: ["group", "team", "division", "location"],
+  stage: ["stage", "round"],
+  questionType: ["type", "question type", "questiontype", "category"],
+  difficulty: ["difficulty"],
+  candidate: ["name", "reported by", "contributor", "candidate"],
+  interviewer: ["interviewer", "interviewers", "interviewed by"],
+  notes: ["notes", "note", "comments", "comment"],
+};
+const PAGE_MARKER = /^--\s*\d+\s+of\s+\d+\s*--$/;
+// Filler words dropped before comparing prompts, so "Walk me through a DCF" matches "walk through the DCF?".
+const CLUSTER_STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "to", "in", "on", "at", "for", "with", "about", "me", "you", "your",
+  "we", "us", "i", "my", "it", "its", "this", "that", "so", "is", "are", "be", "do", "does", "did", "can",
+  "could", "would", "will", "should", "how", "what", "please", "quick", "quickly", "briefly", "tell", "was",
+  "were", "ur", "give", "example",
+]);
+// Spellings contributors use for the same concept.
+const CLUSTER_SYNONYMS = {
+  "3": "three",
+  thru: "through",
+  "d&a": "depreciation",
+  ev: "enterprise",
+  tev: "enterprise",
+};
+
+// Shorthand used throughout the shared doc.
+const ABBREVIATIONS = {
+  tmay: "Tell me about yourself",
+  wmtyr: "Walk me through your resume",
+};
+
+function splitCells(rawLine) {
+  return rawLine
+    .split("\t")
+    .map((cell) => cell.replace(/\s{2,}/g, " ").trim())
+    .filter(Boolean);
+}
+
+function isTableHeader(cells) {
+  return cells.length >= 3 && cells[0] === "Name";
+}
+
+/** Candidate rows look like "Beau \t NY Rx \t no \t same as ryan". */
+function isCandidateRow(cells) {
+  if (cells.length < 2) return false;
+  const [name, group] = cells;
+  if (name.length > 30 || group.length > 40 || group.endsWith(":") || LOGISTICS.test(group)) return false;
+  if (name.includes("?") || INTERROGATIVE_START.test(name) || PROMPT_START.test(name) || SAME_AS.test(name)) {
+    return false;
+  }
+  return /^[A-Za-z][A-Za-z .'-]*$/.test(name);
+}
+
+/**
+ * Interviewer attributions: "Jerry and Otabek", "Udani (Stanford)",
+ * "Tyler Mehlberger - Principal", "Sommer DeRudder (Analyst, super chill):".
+ */
+function isAttribution(text) {
+  if (text.length > 90 || text.includes("?")) return false;
+  if (/^(interviewed by|interviewers?:)/i.test(text)) return true;
+  if (INTERROGATIVE_START.test(text) || PROMPT_START.test(text)) return false;
+  const core = text
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/\s+[-–]\s+.*$/, "")
+    .replace(/:\s*$/, "")
+    .trim();
+  if (!core || NOT_A_NAME.test(core)) return false;
+  const name = "[A-Z][a-z][a-zA-Z'.-]*";
+  const person = `${name}(?:\\s+${name}){0,2}`;
+  return new RegExp(`^${person}(?:\\s*(?:,|and|&)\\s*${person})*$`).test(core);
+}
+
+/** Short labels such as "Case:" or "Behaviorals:" that describe the lines below them. */
+function isSectionLabel(text) {
+  return text.length <= 40 && /:$/.test(text) && !text.includes("?");
+}
+
+function isStandaloneNote(text) {
+  return /^\(.*\)$/.test(text);
 }
 
 function normalizeQuestion(line) {
-  return line.replace(/^[-•]\s*/, "").trim();
+  let cleaned = line
+    .replace(/^[-•]\s*/, "")
+    .replace(/^\d+[.)]\s+/, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  const aside = cleaned.match(TRAILING_ASIDE);
+  if (aside && ASIDE_COMMENTARY.test(aside[1])) cleaned = cleaned.slice(0, aside.index).trim();
+  return ABBREVIATIONS[cleaned.toLowerCase().replace(/[^a-z]/g, "")] || cleaned;
+}
+
+/** Decides whether `next` continues the last physical line of a question the PDF wrapped. */
+function continuesPrevious(previous, next) {
+  if (/^\d+[.)]\s/.test(next) || /^[-•]/.test(next)) return false;
+  if (/[?!]$/.test(previous)) return false;
+  if (/(,|\b(and|or|to|the|of|with|for|a|an|in|on|but|is|are))$/i.test(previous)) return true;
+  if (previous.length < WRAP_WIDTH || /\.$/.test(previous)) return false;
+  return /^[a-z(]/.test(next) || !(INTERROGATIVE_START.test(next) || PROMPT_START.test(next));
+}
+
+/**
+ * Scores how much a line reads like an interview question. Returns the score
+ * plus the reasons behind it so the rejects report can be reviewed by hand.
+ */
+function scoreQuestion(text) {
+  const reasons = [];
+  if (text.length < MIN_PROMPT_LENGTH) return { score: 0, reasons: ["too_short"] };
+  if (text.length > MAX_PROMPT_LENGTH) return { score: 0, reasons: ["too_long"] };
+  if (SAME_AS.test(text)) return { score: 0, reasons: ["refers_to_another_entry"] };
+  if (DOCUMENT_NOTES.test(text)) return { score: 0, reasons: ["document_instructions"] };
+  if (PROFANITY.test(text)) return { score: 0, reasons: ["profanity"] };
+
+  let score = 0;
+  if (text.includes("?")) {
+    score += 3;
+    reasons.push("question_mark");
+  }
+  if (INTERROGATIVE_START.test(text)) {
+    score += 2;
+    reasons.push("interrogative_start");
+  } else if (PROMPT_START.test(text) || BRAINTEASER_LEAD.test(text)) {
+    score += 2;
+    reasons.push("prompt_start");
+  }
+  if (TOPIC_TERMS.test(text)) {
+    score += 2;
+    reasons.push("topic_term");
+  }
+  if (NUMERIC_SCENARIO.test(text)) {
+    score += 1;
+    reasons.push("numeric_scenario");
+  }
+  if (NARRATIVE.test(text)) {
+    score -= 2;
+    reasons.push("narrative");
+  }
+  if (LOGISTICS.test(text)) {
+    score -= 2;
+    reasons.push("logistics");
+  }
+  if (text.length > LONG_PROMPT_LENGTH && !(TOPIC_TERMS.test(text) && NUMERIC_SCENARIO.test(text))) {
+    score -= 2;
+    reasons.push("long");
+  }
+  if (text.length < 15 && score === 0) {
+    score -= 1;
+    reasons.push("short_fragment");
+  }
+  return { score, reasons };
+}
+
+/**
+ * Lines whose keep/reject outcome has been checked by hand. The build stops
+ * before writing anything if a change to the scorer flips one of them.
+ */
+function checkScoringCases() {
+  if (!fs.existsSync(SCORING_CASES_JSON)) return;
+  const cases = JSON.parse(fs.readFileSync(SCORING_CASES_JSON, "utf8"));
+  const failures = cases.filter(({ text, expect }) => {
+    const { score } = scoreQuestion(normalizeQuestion(text));
+    return (score >= MIN_QUESTION_SCORE ? "keep" : "reject") !== expect;
+  });
+  if (failures.length > 0) {
+    const list = failures.map((item) => `- expected ${item.expect}: ${item.source} (${item.note})`).join("\n");
+    throw new Error(`${failures.length} scoring cases changed outcome:\n${list}`);
+  }
+  console.log(`Scoring cases: ${cases.length} passed.`);
+}
+
+/**
+ * Walks the raw PDF lines and groups them into firm sections. A firm heading
+ * is the last content line before each "Name / Group / Diversity" table
+ * header; everything before the first heading is the document preamble.
+ */
+function tokenizeLines(rawLines) {
+  const tokens = rawLines
+    .map((raw, idx) => ({ line: idx + 1, cells: splitCells(raw) }))
+    .filter((token) => token.cells.length > 0 && !PAGE_MARKER.test(token.cells.join(" ")));
+
+  for (let i = 0; i < tokens.length; i += 1) {
+    if (!isTableHeader(tokens[i].cells)) continue;
+    tokens[i].kind = "table_header";
+    const heading = tokens[i - 1];
+    if (heading && !heading.kind && heading.cells.length === 1) heading.kind = "firm";
+  }
+
+  let seenFirm = false;
+  for (const token of tokens) {
+    if (token.kind === "firm") seenFirm = true;
+    if (token.kind) continue;
+    const text = token.cells.join(" ");
+    if (!seenFirm) token.kind = "preamble";
+    else if (isCandidateRow(token.cells)) token.kind = "candidate";
+    else if (isAttribution(text)) token.kind = "attribution";
+    else if (isSectionLabel(text)) token.kind = "section";
+    else if (isStandaloneNote(text)) token.kind = "note";
+    else token.kind = "content";
+  }
+  return tokens;
+}
+
+/**
+ * Markdown notes (and Word docs, converted to Markdown) use headings instead
+ * of the PDF's tables: `#`/`##` name the firm, deeper headings are section
+ * labels, and `Group:` / `Interviewer:` lines set the context for the
+ * questions below them.
+ */
+function tokenizeMarkdown(rawLines) {
+  const tokens = [];
+  rawLines.forEach((raw, idx) => {
+    const line = idx + 1;
+    const text = stripMarkdown(raw.trim());
+    if (!text || /^(-{3,}|\*{3,}|_{3,}|```.*|\|[-:| ]+\|)$/.test(text)) return;
+    const heading = text.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      tokens.push({ kind: heading[1].length <= 2 ? "firm" : "section", line, cells: [heading[2]] });
+      return;
+    }
+    const group = text.match(/^(group|team)\s*:\s*(.+)$/i);
+    if (group) {
+      tokens.push({ kind: "candidate", line, cells: ["", group[2]] });
+      return;
+    }
+    const cells = [text.replace(/^>\s*/, "").replace(/^[*+]\s+/, "- ")];
+    if (/^>/.test(text)) tokens.push({ kind: "note", line, cells: [`(${cells[0]})`] });
+    else if (isAttribution(cells[0])) tokens.push({ kind: "attribution", line, cells });
+    else if (isStandaloneNote(cells[0])) tokens.push({ kind: "note", line, cells });
+    else if (isSectionLabel(cells[0])) tokens.push({ kind: "section", line, cells });
+    else tokens.push({ kind: "content", line, cells });
+  });
+  return tokens;
+}
+
+function stripMarkdown(text) {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/\\([\\`*_{}[\]()#+\-.!>])/g, "$1");
+}
+
+/**
+ * Turns line tokens into question candidates. Context (candidate, group,
+ * interviewer, section, notes) carries down until the next firm or candidate
+ * row, and content lines the source wrapped are joined back together.
+ */
+function collectFromTokens(tokens, defaultFirm) {
+  const candidates = [];
+  const rejects = [];
+  let currentFirm = defaultFirm;
+  let context = { candidate: "", group: "unknown", interviewer: "", section: "", notes: [] };
+  let pending = null;
+
+  const flush = () => {
+    if (pending) candidates.push(pending);
+    pending = null;
+  };
+
+  for (const token of tokens) {
+    const text = token.cells.join(" ");
+    if (token.kind !== "content") flush();
+
+    switch (token.kind) {
+      case "table_header":
+        break;
+      case "preamble":
+        rejects.push({ line: token.line, firm: "", text, score: 0, reasons: ["document_instructions"] });
+        break;
+      case "firm":
+        currentFirm = text;
+        context = { candidate: "", group: "unknown", interviewer: "", section: "", notes: [] };
+        break;
+      case "candidate": {
+        // Cells after name, group and diversity are free-form remarks ("same as ryan").
+        const [candidate, ...rest] = token.cells;
+        const group = DIVERSITY_CELL.test(rest[0]) ? "unknown" : rest.shift();
+        const remarks = rest.filter((cell) => !DIVERSITY_CELL.test(cell));
+        context = { candidate, group, interviewer: "", section: "", notes: remarks };
+        break;
+      }
+      case "attribution":
+        context = {
+          ...context,
+          interviewer: text.replace(/^(interviewed by|interviewers?:)\s*/i, "").replace(/:\s*$/, ""),
+          section: "",
+        };
+        break;
+      case "section":
+        context = { ...context, section: text.replace(/:\s*$/, "") };
+        break;
+      case "note":
+        context = { ...context, notes: [...context.notes, text.replace(/^\(|\)$/g, "")] };
+        break;
+      default:
+        if (pending && continuesPrevious(pending.lastLine, text)) {
+          pending.text = `${pending.text} ${text}`;
+          pending.lastLine = text;
+        } else {
+          flush();
+          pending = { line: token.line, firm: currentFirm, text, lastLine: text, context };
+        }
+    }
+  }
+  flush();
+  return { candidates, rejects };
+}
+
+function fieldsFor(entry) {
+  const fields = {};
+  for (const [key, value] of Object.entries(entry)) {
+    const column = key.trim().toLowerCase();
+    const field = Object.keys(COLUMN_ALIASES).find((name) => COLUMN_ALIASES[name].includes(column));
+    if (field && value !== null && value !== undefined && String(value).trim()) fields[field] = String(value).trim();
+  }
+  return fields;
+}
+
+/**
+ * Spreadsheet rows and JSON entries are already one question each, so they
+ * skip continuation handling. Stage, type and difficulty columns are kept
+ * when they hold a known value.
+ */
+function collectFromRows(rows, defaultFirm) {
+  const candidates = [];
+  const rejects = [];
+  for (const row of rows) {
+    const fields = fieldsFor(row.entry);
+    if (!fields.prompt) {
+      if (Object.keys(fields).length > 0) {
+        rejects.push({ line: row.line, firm: fields.firm || "", text: "", score: 0, reasons: ["missing_question"] });
+      }
+      continue;
+    }
+    const stage = fields.stage?.toLowerCase().replace(/[\s-]+/g, "_");
+    const questionType = fields.questionType?.toLowerCase().replace(/[\s-]+/g, "_");
+    const difficulty = Number(fields.difficulty);
+    candidates.push({
+      line: row.line,
+      firm: fields.firm || defaultFirm,
+      text: fields.prompt.replace(/\s+/g, " "),
+      context: {
+        candidate: fields.candidate || "",
+        group: fields.group || "unknown",
+        interviewer: fields.interviewer || "",
+        section: fields.stage || "",
+        notes: fields.notes ? [fields.notes] : [],
+      },
+      labels: {
+        stage: VALID_STAGES.includes(stage) ? stage : undefined,
+        questionType: VALID_TYPES.includes(questionType) ? questionType : undefined,
+        difficulty: [1, 2, 3].includes(difficulty) ? difficulty : undefined,
+      },
+    });
+  }
+  return { candidates, rejects };
+}
+
+/** RFC 4180 parsing (quoted cells, doubled quotes, embedded newlines); rows keep the line they start on. */
+function parseDelimited(text, delimiter) {
+  const rows = [];
+  let cells = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim())) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line += 1;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      endRow();
+      line += 1;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length > 0) endRow();
+  return rows;
+}
+
+function rowsFromDelimited(text, delimiter) {
+  const [header, ...rows] = parseDelimited(text.replace(/^\uFEFF/, ""), delimiter);
+  if (!header) return [];
+  return rows.map((row) => ({
+    line: row.line,
+    entry: Object.fromEntries(header.cells.map((name, idx) => [name, row.cells[idx] ?? ""])),
+  }));
+}
+
+function rowsFromJson(text) {
+  const data = JSON.parse(text);
+  const entries = Array.isArray(data) ? data : Array.isArray(data?.questions) ? data.questions : [];
+  // JSON has no reliable line per entry, so its "line" is the 1-based entry number.
+  return entries
+    .map((entry, idx) => ({ line: idx + 1, entry: typeof entry === "string" ? { question: entry } : entry }))
+    .filter((row) => row.entry && typeof row.entry === "object");
+}
+
+async function readPdfLines(filePath) {
+  const parser = new PDFParse({ data: fs.readFileSync(filePath) });
+  const pdfData = await parser.getText();
+  return pdfData.text.split(/\r?\n/);
+}
+
+/**
+ * One adapter per file extension. Each returns question candidates
+ * ({ line, firm, text, context, labels? }) and lines it rejected outright;
+ * scoring, firm normalization and ids are shared by every source.
+ */
+const SOURCE_ADAPTERS = {
+  ".pdf": async (filePath, defaultFirm) => collectFromTokens(tokenizeLines(await readPdfLines(filePath)), defaultFirm),
+  ".docx": async (filePath, defaultFirm) => {
+    const { value } = await mammoth.convertToMarkdown({ path: filePath });
+    return collectFromTokens(tokenizeMarkdown(value.split(/\r?\n/)), defaultFirm);
+  },
+  ".md": async (filePath, defaultFirm) =>
+    collectFromTokens(tokenizeMarkdown(fs.readFileSync(filePath, "utf8").split(/\r?\n/)), defaultFirm),
+  ".csv": async (filePath, defaultFirm) => collectFromRows(rowsFromDelimited(fs.readFileSync(filePath, "utf8"), ","), defaultFirm),
+  ".tsv": async (filePath, defaultFirm) => collectFromRows(rowsFromDelimited(fs.readFileSync(filePath, "utf8"), "\t"), defaultFirm),
+  ".json": async (filePath, defaultFirm) => collectFromRows(rowsFromJson(fs.readFileSync(filePath, "utf8")), defaultFirm),
+};
+SOURCE_ADAPTERS[".markdown"] = SOURCE_ADAPTERS[".md"];
+
+function listSourceFiles(dir) {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => !entry.name.startsWith("."))
+    .flatMap((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? listSourceFiles(fullPath) : [fullPath];
+    })
+    .sort();
+}
+
+function slugify(text) {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+function notesFor(context) {
+  const notes = [];
+  if (context.candidate) notes.push(`Reported by ${context.candidate}`);
+  if (context.interviewer) notes.push(`Interviewer: ${context.interviewer}`);
+  if (context.section) notes.push(context.section);
+  notes.push(...context.notes);
+  return notes.join("; ");
 }
 
 function questionTypeFor(text) {
@@ -91,28 +621,198 @@ function normalizeFirm(rawFirm, allowlistMap, aliases) {
   return "Other";
 }
 
+// Same hash as promptFingerprint in src/lib/question-bank.ts.
+function promptFingerprint(prompt) {
+  const normalized = prompt.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+/**
+ * Ids are positional, so an override made from a generated question carries
+ * that question's `sourceFingerprint`. When its id now holds another prompt,
+ * it moves to the record with the fingerprint, or is skipped if none has it.
+ * Overrides without a fingerprint apply by id.
+ */
 function mergeManual(records, manualRecords) {
   if (!Array.isArray(manualRecords) || manualRecords.length === 0) return records;
   const byId = new Map(records.map((record) => [record.id, record]));
+  const byFingerprint = new Map();
+  for (const record of records) {
+    const fingerprint = promptFingerprint(record.prompt);
+    if (!byFingerprint.has(fingerprint)) byFingerprint.set(fingerprint, record.id);
+  }
+  let stale = 0;
   for (const manual of manualRecords) {
     if (!manual?.id) continue;
-    byId.set(manual.id, manual);
+    let id = manual.id;
+    const fingerprint = manual.sourceFingerprint;
+    const current = byId.get(id);
+    if (fingerprint && !(current && promptFingerprint(current.prompt) === fingerprint)) {
+      id = byFingerprint.get(fingerprint);
+      if (!id) {
+        stale += 1;
+        console.warn(`Skipping manual override ${manual.id}: its question is no longer in the sources.`);
+        continue;
+      }
+    }
+    // Deleted entries are kept in the manual layer so the PDF cannot bring them back.
+    if (manual.deleted) {
+      byId.delete(id);
+    } else {
+      byId.set(id, { ...manual, id });
+    }
   }
+  if (stale > 0) console.warn(`${stale} manual overrides no longer match a question; fix or remove them.`);
   return Array.from(byId.values());
 }
 
-async function buildQuestionBank() {
-  if (!fs.existsSync(SOURCE_PDF)) {
-    throw new Error(`Missing PDF at ${SOURCE_PDF}`);
+function clusterTokens(prompt) {
+  const tokens = prompt
+    .toLowerCase()
+    .replace(/discounted cash flows?/g, "dcf")
+    .replace(/[^a-z0-9&/ ]+/g, " ")
+    .split(/\s+/)
+    .filter((token) => (token.length > 1 || /\d/.test(token)) && !CLUSTER_STOPWORDS.has(token))
+    .map((token) => CLUSTER_SYNONYMS[token] || token)
+    // Crude stemming is enough to line up "statements"/"statement" and "valuing"/"value".
+    .map((token) => (token.length > 4 ? token.replace(/(ing|es|s|e)$/, "") : token));
+  return new Set(tokens);
+}
+
+function similarity(a, b) {
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Groups near-duplicate prompts. Each cluster is led by its first record and
+ * later records join the most similar leader, so clusters do not chain
+ * through loosely related phrasings. Every record gets the leader's id as
+ * `canonicalId` and `askedAtFirms`, the number of named firms in its cluster.
+ */
+function clusterQuestions(records) {
+  const leaders = [];
+  const leadersByToken = new Map();
+  const clusterOf = new Map();
+
+  for (const record of records) {
+    const tokens = clusterTokens(record.prompt);
+    let best = null;
+    let bestScore = 0;
+    const candidates = new Set();
+    for (const token of tokens) for (const leader of leadersByToken.get(token) || []) candidates.add(leader);
+    for (const leader of candidates) {
+      const score = similarity(tokens, leader.tokens);
+      if (score > bestScore) {
+        best = leader;
+        bestScore = score;
+      }
+    }
+    if (!best || bestScore < CLUSTER_SIMILARITY) {
+      best = { canonicalId: record.id, prompt: record.prompt, tokens, members: [] };
+      leaders.push(best);
+      for (const token of tokens) {
+        if (!leadersByToken.has(token)) leadersByToken.set(token, []);
+        leadersByToken.get(token).push(best);
+      }
+    }
+    best.members.push(record);
+    clusterOf.set(record.id, best);
   }
 
-  const pdfBuffer = fs.readFileSync(SOURCE_PDF);
-  const parser = new PDFParse({ data: pdfBuffer });
-  const pdfData = await parser.getText();
-  const lines = pdfData.text
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter(Boolean);
+  const clusters = [];
+  for (const leader of leaders) {
+    const firms = {};
+    for (const member of leader.members) firms[member.firm] = (firms[member.firm] || 0) + 1;
+    const askedAtFirms = Object.keys(firms).filter((firm) => firm !== "Other").length;
+    for (const member of leader.members) {
+      member.canonicalId = leader.canonicalId;
+      member.askedAtFirms = askedAtFirms;
+    }
+    if (leader.members.length > 1) {
+      clusters.push({
+        canonicalId: leader.canonicalId,
+        prompt: leader.prompt,
+        size: leader.members.length,
+        askedAtFirms,
+        firms,
+        ids: leader.members.map((member) => member.id),
+      });
+    }
+  }
+  clusters.sort((a, b) => b.askedAtFirms - a.askedAtFirms || b.size - a.size);
+  return clusters;
+}
+
+function loadEnvFiles() {
+  // Next loads these for the app; the script needs the same provider settings.
+  for (const file of [".env.local", ".env"]) {
+    const envPath = path.join(__dirname, "..", file);
+    if (fs.existsSync(envPath)) process.loadEnvFile(envPath);
+  }
+}
+
+/**
+ * Relabels type, difficulty, stage and group from the labels cache. With
+ * --classify, prompts missing from the cache go through the app's provider
+ * layer (src/lib/question-classifier.ts); with LLM_PROVIDER=local the labels
+ * come from the offline heuristic model. A plain build never calls the
+ * provider and leaves the cache file as it is.
+ */
+async function applyClassification(questions, { cacheOnly }) {
+  loadEnvFiles();
+  const { createJiti } = require("jiti");
+  const jiti = createJiti(__filename, { alias: { "@": SRC_DIR } });
+  const { classifyQuestions, LOW_CONFIDENCE_THRESHOLD } = await jiti.import(
+    path.join(SRC_DIR, "lib", "question-classifier.ts")
+  );
+
+  const cache = fs.existsSync(LABELS_CACHE_JSON) ? JSON.parse(fs.readFileSync(LABELS_CACHE_JSON, "utf8")) : {};
+  const inputs = questions.map(({ id, prompt, notes, group }) => ({ id, prompt, notes, group }));
+  const result = await classifyQuestions(inputs, cache, {
+    cacheOnly,
+    refresh: RECLASSIFY,
+    onProgress: (done, total) => process.stdout.write(`\rClassifying ${done}/${total}`),
+  });
+  if (result.stats.classified + result.stats.fallbacks > 0) process.stdout.write("\n");
+
+  const review = [];
+  for (const question of questions) {
+    const label = result.labels.get(question.id);
+    if (!label) continue;
+    question.questionType = label.questionType;
+    question.difficulty = label.difficulty;
+    question.stage = label.stage;
+    question.group = label.group;
+    question.classification = { source: label.source, model: label.model, confidence: label.confidence };
+    if (label.confidence < LOW_CONFIDENCE_THRESHOLD) {
+      review.push({ id: question.id, prompt: question.prompt, notes: question.notes, ...label });
+    }
+  }
+
+  if (!cacheOnly) fs.writeFileSync(LABELS_CACHE_JSON, JSON.stringify(result.cache, null, 2));
+  fs.writeFileSync(
+    REVIEW_JSON,
+    JSON.stringify({ threshold: LOW_CONFIDENCE_THRESHOLD, total: review.length, questions: review }, null, 2)
+  );
+
+  const { cached, classified, fallbacks, failedBatches, uncached } = result.stats;
+  if (cacheOnly) {
+    console.log(`Labels: ${cached} cached, ${uncached} not in the cache (run with --classify to label them).`);
+  } else {
+    console.log(`Labels: ${cached} cached, ${classified} classified, ${fallbacks} heuristic fallbacks.`);
+  }
+  if (failedBatches > 0) console.warn(`${failedBatches} classification batches failed; fell back to heuristics.`);
+  console.log(`${review.length} low-confidence labels; see ${path.relative(process.cwd(), REVIEW_JSON)}.`);
+}
+
+async function buildQuestionBank() {
+  checkScoringCases();
+  const sourceFiles = listSourceFiles(SOURCE_DIR);
+  if (sourceFiles.length === 0) {
+    throw new Error(`No question sources under ${SOURCE_DIR}`);
+  }
 
   const allowlist = loadAllowlist();
   const allowlistMap = new Map(
@@ -120,37 +820,53 @@ async function buildQuestionBank() {
   );
   const aliases = loadAliases();
 
-  let currentFirm = "Unknown";
   const questions = [];
-  const perFirmCount = {};
+  const rejects = [];
+  const perIdPrefixCount = {};
+  const perSourceCount = {};
 
-  for (const line of lines) {
-    if (isFirmHeading(line)) {
-      currentFirm = line.replace(/\s{2,}/g, " ").trim();
-      if (!perFirmCount[currentFirm]) perFirmCount[currentFirm] = 0;
+  for (const filePath of sourceFiles) {
+    const extension = path.extname(filePath).toLowerCase();
+    const source = path.relative(SOURCE_DIR, filePath).split(path.sep).join("/");
+    const adapter = SOURCE_ADAPTERS[extension];
+    if (!adapter) {
+      console.warn(`Skipping ${source}: no adapter for ${extension || "files without an extension"}.`);
       continue;
     }
+    // A file named after a firm ("evercore.md") needs no firm heading or column.
+    const defaultFirm = path.basename(filePath, path.extname(filePath));
+    const sourceSlug = source === LEGACY_SOURCE ? "" : slugify(source.replace(/\.[^.]+$/, ""));
+    const { candidates, rejects: skipped } = await adapter(filePath, defaultFirm);
+    rejects.push(...skipped.map((reject) => ({ source, ...reject })));
 
-    const cleaned = normalizeQuestion(line);
-    if (!cleaned) continue;
-    const looksLikeQuestion = cleaned.endsWith("?") || cleaned.length > 15;
-    if (!looksLikeQuestion) continue;
-
-    const normalizedFirm = normalizeFirm(currentFirm, allowlistMap, aliases);
-    const idx = (perFirmCount[currentFirm] = (perFirmCount[currentFirm] || 0) + 1);
-    const id = `${normalizedFirm.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${idx}`;
-    const stage = stageFor(cleaned);
-    questions.push({
-      id,
-      firm: normalizedFirm,
-      group: "unknown",
-      stage,
-      questionType: questionTypeFor(cleaned),
-      difficulty: difficultyFor(cleaned),
-      prompt: cleaned,
-      notes: "",
-      source: "interview-question-bank.pdf",
-    });
+    for (const candidate of candidates) {
+      const prompt = normalizeQuestion(candidate.text);
+      const { score, reasons } = scoreQuestion(prompt);
+      if (score < MIN_QUESTION_SCORE) {
+        rejects.push({ source, line: candidate.line, firm: candidate.firm, text: candidate.text, score, reasons });
+        continue;
+      }
+      const normalizedFirm = normalizeFirm(candidate.firm, allowlistMap, aliases);
+      const idPrefix = [slugify(normalizedFirm), sourceSlug].filter(Boolean).join("-");
+      const idx = (perIdPrefixCount[idPrefix] = (perIdPrefixCount[idPrefix] || 0) + 1);
+      const labels = candidate.labels || {};
+      questions.push({
+        id: `${idPrefix}-${idx}`,
+        firm: normalizedFirm,
+        group: candidate.context.group,
+        stage: labels.stage || stageFor(`${prompt} ${candidate.context.section}`),
+        questionType: labels.questionType || questionTypeFor(prompt),
+        difficulty: labels.difficulty || difficultyFor(prompt),
+        prompt,
+        notes: notesFor(candidate.context),
+        source: `${source}:${candidate.line}`,
+      });
+      perSourceCount[source] = (perSourceCount[source] || 0) + 1;
+    }
+  }
+
+  if (CLASSIFY || fs.existsSync(LABELS_CACHE_JSON)) {
+    await applyClassification(questions, { cacheOnly: !CLASSIFY });
   }
 
   let merged = questions;
@@ -159,11 +875,29 @@ async function buildQuestionBank() {
     merged = mergeManual(questions, manual);
   }
 
+  const clusters = clusterQuestions(merged);
   fs.writeFileSync(OUTPUT_JSON, JSON.stringify(merged, null, 2));
   const meta = buildMeta(merged);
   fs.writeFileSync(OUTPUT_META, JSON.stringify(meta, null, 2));
+  const rejectReasons = {};
+  for (const reject of rejects) {
+    for (const reason of reject.reasons) rejectReasons[reason] = (rejectReasons[reason] || 0) + 1;
+  }
+  fs.writeFileSync(
+    REJECTS_JSON,
+    JSON.stringify({ minScore: MIN_QUESTION_SCORE, total: rejects.length, reasons: rejectReasons, rejects }, null, 2)
+  );
+  fs.writeFileSync(
+    CLUSTERS_JSON,
+    JSON.stringify({ similarity: CLUSTER_SIMILARITY, total: clusters.length, clusters }, null, 2)
+  );
 
+  for (const [source, count] of Object.entries(perSourceCount)) console.log(`${source}: ${count} questions`);
   console.log(`Generated ${merged.length} questions across ${meta.firms.length} firms.`);
+  console.log(
+    `Grouped ${clusters.reduce((sum, cluster) => sum + cluster.size, 0)} near-duplicates into ${clusters.length} clusters; see ${path.relative(process.cwd(), CLUSTERS_JSON)}.`
+  );
+  console.log(`Rejected ${rejects.length} lines; see ${path.relative(process.cwd(), REJECTS_JSON)}.`);
 }
 
 buildQuestionBank().catch((err) => {
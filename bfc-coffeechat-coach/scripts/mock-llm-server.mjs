@@ -0,0 +1,596 @@
+#!/usr/bin/env node
+/**
+ * Offline Mock LLM Server
+ *
+ * Stands in for the OpenAI, Anthropic and ElevenLabs endpoints the API routes
+ * call, so the coffee chat and mock interview flows (and scripts/test-loop.mjs)
+ * can run without live keys. Responses are scripted from the prompt text:
+ *
+ * 1. POST /v1/responses                 — OpenAI Responses API (plan, grade, interviewer, summaries)
+ * 2. POST /v1/messages                  — Anthropic Messages API (same scripts)
+ *    Both honour `stream: true` with the provider's SSE event format.
+ * 3. POST /v1/realtime/calls            — Realtime WebRTC SDP answer
+ * 4. POST /v1/realtime/client_secrets   — Realtime ephemeral token
+ * 5. POST /v1/text-to-speech/:voiceId   — ElevenLabs TTS (silent MP3)
+ *
+ * Point the app at it with:
+ *   OPENAI_BASE_URL=http://localhost:4010/v1
+ *   ANTHROPIC_BASE_URL=http://localhost:4010/v1
+ *   ELEVENLABS_BASE_URL=http://localhost:4010/v1
+ * (the API key env vars still need any non-empty value).
+ *
+ * Usage:
+ *   node scripts/mock-llm-server.mjs                 # Listen on port 4010
+ *   node scripts/mock-llm-server.mjs --port 5050     # Custom port
+ *   node scripts/mock-llm-server.mjs --latency 300   # Add 300ms to every response
+ */
+
+import http from "node:http";
+
+const PORT = parseInt(getArg("--port") || process.env.MOCK_LLM_PORT || "4010", 10);
+const LATENCY_MS = parseInt(getArg("--latency") || process.env.MOCK_LLM_LATENCY_MS || "0", 10);
+
+function getArg(name) {
+  const idx = process.argv.indexOf(name);
+  return idx !== -1 && process.argv[idx + 1] ? process.argv[idx + 1] : null;
+}
+
+function log(level, msg) {
+  const ts = new Date().toISOString().slice(11, 19);
+  const colors = { info: "\x1b[36m", warn: "\x1b[33m", error: "\x1b[31m", ok: "\x1b[32m", dim: "\x1b[90m" };
+  const reset = "\x1b[0m";
+  const c = colors[level] || "";
+  console.log(`${colors.dim}${ts}${reset} ${c}[${level.toUpperCase()}]${reset} ${msg}`);
+}
+
+// ── Scripted payloads ───────────────────────────────────────────────
+
+const COFFEE_CHAT_QUESTIONS = [
+  "Thanks for sharing that. What drew you to this group specifically?",
+  "That makes sense. What have you done so far to learn about the role?",
+  "Interesting. Which deal or trend in the sector has caught your attention lately?",
+  "Got it. What questions do you have for me about the team?",
+  "Great chatting with you. Anything else I can help with before we wrap up?",
+];
+
+function matchLine(text, pattern) {
+  return text.match(pattern)?.[1]?.trim() || "";
+}
+
+function sectionAfter(text, heading) {
+  const idx = text.lastIndexOf(heading);
+  return idx === -1 ? "" : text.slice(idx + heading.length).trim();
+}
+
+function wordCount(text) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function planPayload(prompt) {
+  const targetCount = parseInt(matchLine(prompt, /Create a plan of (\d+) questions/), 10) || 4;
+  const resumeCount = parseInt(matchLine(prompt, /^Resume questions: (\d+)$/m), 10) || 0;
+  const resumeLines = (prompt.split("Candidate resume:\n")[1] ?? "")
+    .split("\n\n")[0]
+    .split("\n")
+    .filter((line) => /^\s+- /.test(line))
+    .map((line) => line.replace(/^\s+- /, "").trim());
+  const seeds = Array.from(prompt.matchAll(/^\d+\. \[(\w+)\] (.+)$/gm)).map((match) => ({
+    type: match[1],
+    prompt: match[2].trim(),
+  }));
+  const pool = seeds.length > 0 ? seeds : [{ type: "behavioral", prompt: "Walk me through your resume." }];
+  const plan = Array.from({ length: targetCount }, (_, idx) => {
+    const resumeItem = idx < resumeCount ? resumeLines[idx % resumeLines.length] : undefined;
+    if (resumeItem) {
+      return {
+        qIndex: idx + 1,
+        type: "behavioral",
+        interviewerQuestion: `You mentioned "${resumeItem}". Walk me through your role and the key numbers.`,
+        expectedRubric: "- Clear ownership of the work\n- Specific figures\n- What they would do differently",
+        idealAnswerOutline: "- Set up the situation\n- Walk through what you did and the numbers\n- Close with the result",
+        resumeItem,
+      };
+    }
+    const seedIdx = Math.max(0, idx - resumeCount) % pool.length;
+    const seed = pool[seedIdx];
+    return {
+      qIndex: idx + 1,
+      type: seed.type,
+      interviewerQuestion: seed.prompt,
+      expectedRubric: "- Direct answer up front\n- Correct mechanics\n- Clear structure",
+      idealAnswerOutline: "- State the answer\n- Explain the reasoning step by step\n- Close with a takeaway",
+      seedIndex: seeds.length > 0 ? seedIdx + 1 : undefined,
+    };
+  });
+  return JSON.stringify({ plan });
+}
+
+function storyCoachPayload(prompt) {
+  const story = sectionAfter(prompt, "Story:");
+  const part = (label) => matchLine(story, new RegExp(`^${label}: (.+)$`, "m"));
+  const result = part("Result");
+  const hasNumber = /\d/.test(result);
+  return JSON.stringify({
+    score0to10: Math.max(3, Math.min(9, Math.round(wordCount(story) / 15) + (hasNumber ? 2 : 0))),
+    strengths: ["The story has a clear situation and a defined task."],
+    gaps: [hasNumber ? "Cut the situation to two sentences." : "Put a number on the result."],
+    revised: {
+      situation: part("Situation"),
+      task: part("Task"),
+      action: part("Action"),
+      result: hasNumber ? result : `${result} [number]`,
+    },
+  });
+}
+
+// Compares against the first listed story by length alone: longer tellings count as improvements.
+function storyComparisonPayload(prompt, answerWords) {
+  const stored = sectionAfter(prompt, "story bank (id in brackets):").split("\n\n")[0];
+  const storyId = matchLine(stored, /^\[([^\]]+)\]/m);
+  if (!storyId) return undefined;
+  const storedWords = wordCount(stored.split("\n").slice(1).join(" "));
+  const verdict = answerWords > storedWords * 1.1 ? "improves" : answerWords < storedWords * 0.7 ? "weaker" : "matches";
+  return {
+    storyId,
+    verdict,
+    notes: [verdict === "weaker" ? "The stored version had more detail on the result." : "Kept the core of the stored story."],
+  };
+}
+
+function gradePayload(prompt) {
+  const words = wordCount(sectionAfter(prompt, "User answer:"));
+  return JSON.stringify({
+    score0to10: Math.max(2, Math.min(9, Math.round(words / 12))),
+    strengths: [words > 40 ? "Answer covered the core mechanics." : "Answer was concise."],
+    gaps: [words > 40 ? "Lead with the conclusion before the detail." : "Add more specifics and structure."],
+    correctedAnswerOutline: "- Lead with the answer\n- Walk through the mechanics\n- Tie back to the question",
+    nextBestSentence: "To summarize, the key driver here is the impact on cash flow.",
+    storyComparison: storyComparisonPayload(prompt, words),
+  });
+}
+
+// Labels every question the same way; enough to exercise the build's classification pass.
+function classifyPayload(prompt) {
+  let questions = [];
+  try {
+    questions = JSON.parse(sectionAfter(prompt, "Questions (JSON):"));
+  } catch {
+    questions = [];
+  }
+  return JSON.stringify({
+    labels: questions.map((question) => ({
+      id: question.id,
+      questionType: question.prompt.includes("?") ? "behavioral" : "other",
+      difficulty: 1,
+      stage: "unknown",
+      group: "unknown",
+      confidence: 0.5,
+    })),
+  });
+}
+
+function reportPayload(prompt) {
+  const types = [...new Set(Array.from(prompt.matchAll(/^\d+\. \[(\w+)\] /gm)).map((match) => match[1]))];
+  return JSON.stringify({
+    overallScore0to10: 6.5,
+    categoryScores: Object.fromEntries(
+      (types.length > 0 ? types : ["behavioral"]).map((type) => [type, { score0to10: 6.5, comment: "Covered the basics." }])
+    ),
+    recommendation: "lean_hire",
+    recommendationRationale: "Solid fundamentals, but answers need sharper structure to clear the bar.",
+    strengths: ["Stayed composed and answered every question."],
+    gaps: ["Lead with the answer before the detail."],
+    studyPlan: [{ topic: "Answer structure", action: "Practice 60-second answers that open with the conclusion." }],
+  });
+}
+
+function scorecardPayload(prompt) {
+  const userLines = Array.from(prompt.matchAll(/^User: (.+)$/gm)).map((match) => match[1].trim());
+  const quote = (line) => (line ? [line.split(/(?<=[.!?])\s/)[0]] : []);
+  const rating = (rating1to5, line, fix) => ({ rating1to5, evidence: quote(line), fix });
+  return JSON.stringify({
+    ratings: {
+      tone: rating(4, userLines[0], "Keep the warmth, and trim apologetic openers."),
+      structure: rating(3, userLines[1], "Answer in two or three sentences, then stop."),
+      content: rating(3, userLines[1], "Name one concrete deal or experience that shows why this group."),
+      rapport: rating(3, userLines.find((line) => line.includes("?")), "Follow up on something they said."),
+      referral_path: rating(2, userLines.at(-1), "Ask for the referral explicitly once you have earned it."),
+    },
+    wouldReferPercent: 45,
+    wouldReferRationale: "Friendly and engaged, but the ask for help never became specific.",
+    topImprovements: ["Lead with a crisp 30-second story.", "Close with a specific, low-pressure referral ask."],
+    introRewrite:
+      "I'm a finance student focused on technology deals, and my internship building comps sharpened my interest in advisory work.",
+    suggestedQuestions: ["What differentiates this team on live deals?", "How do analysts get staffed across sectors?"],
+    referralAskScript: "Once they have offered advice: \"Would you be comfortable referring me for the analyst role?\"",
+  });
+}
+
+const PM_QUESTIONS = [
+  "What exactly is the market missing here, and why hasn't it priced it in already?",
+  "Walk me through the price target. What multiple, on what earnings, and why is that multiple right?",
+  "What's the catalyst, and when does it hit? Why won't this just sit there for two years?",
+  "Give me the other side's best argument. What would make you close the position?",
+  "If you had to size this today, how big and where is your stop?",
+];
+
+function pitchTurnPayload(prompt) {
+  if (/^That was the last question\./m.test(prompt)) {
+    return "Alright, I've heard enough. Thanks for walking me through it.";
+  }
+  const questionNumber = parseInt(matchLine(prompt, /^Ask question (\d+) of/m), 10) || 1;
+  return PM_QUESTIONS[(questionNumber - 1) % PM_QUESTIONS.length];
+}
+
+function pitchScorecardPayload(prompt) {
+  const ticker = matchLine(prompt, /^Ticker: (.+)$/m) || "the stock";
+  const section = (label) => matchLine(prompt, new RegExp(`^${label}: (.+)$`, "m"));
+  const firstAnswer = matchLine(prompt, /^Candidate: (.+)$/m);
+  const quote = (text) => (text ? [text.split(/(?<=[.!?])\s/)[0]] : []);
+  const rating = (rating1to5, text, fix) => ({ rating1to5, evidence: quote(text), fix });
+  return JSON.stringify({
+    ratings: {
+      thesis: rating(3, section("Thesis"), "State the variant view in one sentence."),
+      valuation: rating(3, section("Valuation"), "Show the multiple, the earnings and the implied upside."),
+      catalyst: rating(3, section("Catalyst"), "Put a date on the catalyst."),
+      risks: rating(2, section("Risks"), "Size the main risk and name your exit signal."),
+      defense: rating(3, firstAnswer, "Answer the question first, then defend it with one number."),
+    },
+    overallScore0to10: 5,
+    pmVerdict: "needs_work",
+    pmVerdictRationale: "Interesting idea, but I don't yet know why the market is wrong or when it finds out.",
+    weakestAnswers: [{ question: PM_QUESTIONS[3], betterAnswer: "I'd close it if gross margin falls two quarters in a row." }],
+    memo: {
+      headline: `${matchLine(prompt, /^Direction: (.+)$/m) === "short" ? "Short" : "Long"} ${ticker}: the market is mispricing the next leg of earnings`,
+      thesis: section("Thesis"),
+      valuation: section("Valuation"),
+      catalysts: section("Catalyst"),
+      risks: section("Risks"),
+      openQuestions: "- Size the downside case",
+    },
+  });
+}
+
+function liveCoachPayload(prompt) {
+  const answer = sectionAfter(prompt, "Last user answer:");
+  return JSON.stringify({
+    tone: "warm",
+    clarity: answer.length > 500 ? "rambling" : "clear",
+    structure: answer.includes("?") ? "has story" : "missing story",
+    referral: "building",
+    bullets: ["Keep the tone warm and concise.", "Add one specific question to show curiosity."],
+  });
+}
+
+const RESUME_PAYLOAD = JSON.stringify({
+  name: "Jordan Lee",
+  education: [
+    {
+      school: "State University",
+      degree: "B.S. Finance",
+      dates: "Expected May 2026",
+      details: ["GPA: 3.8/4.0", "Relevant Coursework: Corporate Finance, Valuation"],
+    },
+  ],
+  experiences: [
+    {
+      organization: "Harbor Capital Advisors",
+      role: "Investment Banking Summer Analyst",
+      dates: "Jun 2025 – Aug 2025",
+      bullets: [
+        "Built the operating model for a $450M sale of a vertical SaaS company",
+        "Drafted the teaser and CIM sections on the company's unit economics",
+      ],
+    },
+    {
+      organization: "Student Investment Fund",
+      role: "Sector Head, Industrials",
+      dates: "Sep 2023 – Present",
+      bullets: ["Led a team of four analysts covering 12 positions", "Pitched a long on a rail operator that returned 18%"],
+    },
+  ],
+  deals: [
+    {
+      name: "$450M sale of a vertical SaaS company",
+      role: "Investment Banking Summer Analyst, Harbor Capital Advisors",
+      details: "Built the operating model for a $450M sale of a vertical SaaS company",
+    },
+  ],
+  skills: ["Excel", "PowerPoint", "Capital IQ", "Spanish"],
+});
+
+const SUMMARY_PAYLOAD = [
+  "Top 3 improvements:",
+  "1. Lead with the answer before the detail.",
+  "2. Quantify impact in every story.",
+  "3. Close each answer with a one-line takeaway.",
+  "",
+  "Suggested 30-second intro rewrite:",
+  "I'm a finance student focused on technology deals, and my internship building comps sharpened my interest in advisory work.",
+  "",
+  "Best 3 questions:",
+  "- What differentiates this team on live deals?",
+  "- How do analysts get staffed across sectors?",
+  "- What separates top first-years here?",
+  "",
+  "Overall: solid foundation; tighten structure and specificity.",
+].join("\n");
+
+const FEEDBACK_PAYLOAD = [
+  "- Content: covers the core idea; add one concrete number.",
+  "- Structure: lead with the answer, then the reasoning.",
+  "- Depth: name the second-order effect.",
+  "- Phrasing: swap hedges for direct statements.",
+  "- Focus: practice a 60-second version.",
+].join("\n");
+
+const TURN_REVIEW_PAYLOAD = [
+  "Strength: clear intent and a friendly tone.",
+  "Fix: anchor your story with one specific example.",
+  "Better phrasing: \"What I enjoyed most was...\" instead of \"I guess I liked...\"",
+  `Next question: ${COFFEE_CHAT_QUESTIONS[1]}`,
+].join("\n");
+
+const COACH_PAYLOAD = [
+  "**What went well**",
+  "- Warm opening",
+  "- Clear interest in the group",
+  "",
+  "**Better next question**",
+  "- What does success look like for a first-year analyst on your team?",
+  "",
+  "**Referral ask**",
+  "- If it makes sense after I learn more, would you be open to a referral down the line?",
+].join("\n");
+
+/**
+ * Picks a scripted reply by recognising the prompt each route sends.
+ * Returns [kind, text] so the request log shows which script answered.
+ */
+function scriptedReply(messages) {
+  const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n");
+  const userMessages = messages.filter((m) => m.role === "user");
+  const prompt = userMessages.at(-1)?.content || "";
+
+  if (prompt.includes("mock interview plan")) return ["plan", planPayload(prompt)];
+  if (prompt.startsWith("Write the final report")) return ["report", reportPayload(prompt)];
+  if (prompt.startsWith("Grade the user's answer")) return ["grade", gradePayload(prompt)];
+  if (prompt.startsWith("Classify the user's last answer")) return ["live-coach", liveCoachPayload(prompt)];
+  if (prompt.startsWith("Classify interview questions")) return ["classify", classifyPayload(prompt)];
+  if (prompt.startsWith("Score this coffee chat")) return ["scorecard", scorecardPayload(prompt)];
+  if (prompt.startsWith("Score this stock pitch")) return ["pitch-scorecard", pitchScorecardPayload(prompt)];
+  if (prompt.startsWith("Cross-examine the pitch")) return ["pitch-pm", pitchTurnPayload(prompt)];
+  if (prompt.startsWith("Coach this STAR story")) return ["story-coach", storyCoachPayload(prompt)];
+  if (prompt.startsWith("Structure this resume")) return ["resume", RESUME_PAYLOAD];
+  if (prompt.startsWith("Provide a final summary")) return ["summary", SUMMARY_PAYLOAD];
+  if (prompt.startsWith("Provide concise coaching bullets")) return ["feedback", FEEDBACK_PAYLOAD];
+  if (prompt.startsWith("Provide a short turn review")) return ["turn-review", TURN_REVIEW_PAYLOAD];
+
+  const firstQuestion = matchLine(prompt, /^Question: (.+)$/m);
+  if (firstQuestion) {
+    return ["interviewer", `Thanks for making the time today. Let's dive in. ${firstQuestion}`];
+  }
+  const followUp = matchLine(prompt, /^Ask a brief follow-up on: (.+)$/m);
+  if (followUp) return ["interviewer", `Thanks. Can you go one level deeper on that? ${followUp}`];
+  if (/^That was the last question\./m.test(prompt)) {
+    return ["interviewer", "Thanks, that covers everything I had for today. I appreciate your time."];
+  }
+  const next = matchLine(prompt, /^Ask the next question: (.+)$/m);
+  if (next) return ["interviewer", `Got it, thank you. Next question: ${next}`];
+
+  if (system.includes("coffee chat interviewer")) {
+    const idx = Math.min(Math.max(userMessages.length - 1, 0), COFFEE_CHAT_QUESTIONS.length - 1);
+    return ["interviewer", COFFEE_CHAT_QUESTIONS[idx]];
+  }
+  if (system.includes("coffee chat coach")) return ["coach", COACH_PAYLOAD];
+
+  return ["fallback", "Thanks. Could you tell me a bit more about that?"];
+}
+
+function normalizeInput(input) {
+  if (typeof input === "string") return [{ role: "user", content: input }];
+  if (!Array.isArray(input)) return [];
+  return input.map((item) => ({
+    role: item?.role || "user",
+    content: Array.isArray(item?.content)
+      ? item.content.map((part) => part?.text || "").join("")
+      : String(item?.content || ""),
+  }));
+}
+
+// ── Audio ───────────────────────────────────────────────────────────
+
+/**
+ * A short run of silent MPEG-1 Layer III frames (128kbps, 44.1kHz), which is
+ * enough for browsers to decode and fire the "ended" event.
+ */
+function silentMp3(frames = 20) {
+  const frameSize = 417;
+  const buffer = Buffer.alloc(frameSize * frames);
+  for (let i = 0; i < frames; i += 1) {
+    buffer.writeUInt32BE(0xfffb9064, i * frameSize);
+  }
+  return buffer;
+}
+
+const MOCK_TRANSCRIPT =
+  "Sure. I would start with enterprise value, subtract net debt, and then divide the equity value by diluted shares outstanding.";
+
+/** Whisper verbose_json shape, with word timestamps spaced at a steady speaking pace. */
+function transcriptionPayload() {
+  const words = MOCK_TRANSCRIPT.split(/\s+/).map((word, i) => ({
+    word,
+    start: +(i * 0.35).toFixed(2),
+    end: +(i * 0.35 + 0.3).toFixed(2),
+  }));
+  return {
+    task: "transcribe",
+    language: "english",
+    duration: words.at(-1).end,
+    text: MOCK_TRANSCRIPT,
+    words,
+    segments: [{ id: 0, start: 0, end: words.at(-1).end, text: MOCK_TRANSCRIPT }],
+  };
+}
+
+const MOCK_SDP_ANSWER = [
+  "v=0",
+  "o=- 0 0 IN IP4 127.0.0.1",
+  "s=mock-realtime",
+  "t=0 0",
+  "m=audio 9 UDP/TLS/RTP/SAVPF 111",
+  "c=IN IP4 0.0.0.0",
+  "a=rtpmap:111 opus/48000/2",
+  "a=sendrecv",
+  "",
+].join("\r\n");
+
+// ── Server ──────────────────────────────────────────────────────────
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/** Streams `text` word by word as SSE: one `deltaEvent(word)` per word, then `finalEvents`. */
+async function sendStream(res, text, deltaEvent, finalEvents = []) {
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+  const write = ([event, data]) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  for (const word of text.match(/\S+\s*/g) || []) {
+    write(deltaEvent(word));
+    await new Promise((resolve) => setTimeout(resolve, 15));
+  }
+  finalEvents.forEach(write);
+  res.end();
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  const path = url.pathname;
+
+  if (req.method === "GET" && (path === "/" || path === "/health")) {
+    return sendJson(res, 200, { ok: true });
+  }
+  if (req.method !== "POST") {
+    return sendJson(res, 405, { error: { message: "Method not allowed" } });
+  }
+
+  const raw = await readBody(req);
+  if (LATENCY_MS > 0) {
+    await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+  }
+
+  if (path === "/v1/responses") {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return sendJson(res, 400, { error: { message: "Invalid JSON" } });
+    }
+    const [kind, text] = scriptedReply(normalizeInput(body.input));
+    log("ok", `responses → ${kind} (${body.model || "no model"})${body.stream ? " [stream]" : ""}`);
+    if (body.stream) {
+      return sendStream(
+        res,
+        text,
+        (word) => ["response.output_text.delta", { type: "response.output_text.delta", delta: word }],
+        [["response.completed", { type: "response.completed" }]]
+      );
+    }
+    return sendJson(res, 200, {
+      id: `resp_mock_${Date.now()}`,
+      object: "response",
+      model: body.model || "mock",
+      output_text: text,
+      output: [
+        {
+          type: "message",
+          role: "assistant",
+          content: [{ type: "output_text", text }],
+        },
+      ],
+    });
+  }
+
+  if (path === "/v1/messages") {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return sendJson(res, 400, { error: { message: "Invalid JSON" } });
+    }
+    const messages = normalizeInput(body.messages);
+    if (body.system) messages.unshift({ role: "system", content: String(body.system) });
+    const [kind, text] = scriptedReply(messages);
+    log("ok", `messages → ${kind} (${body.model || "no model"})${body.stream ? " [stream]" : ""}`);
+    if (body.stream) {
+      return sendStream(
+        res,
+        text,
+        (word) => ["content_block_delta", { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: word } }],
+        [["message_stop", { type: "message_stop" }]]
+      );
+    }
+    return sendJson(res, 200, {
+      id: `msg_mock_${Date.now()}`,
+      type: "message",
+      role: "assistant",
+      model: body.model || "mock",
+      content: [{ type: "text", text }],
+      stop_reason: "end_turn",
+    });
+  }
+
+  if (path === "/v1/realtime/calls") {
+    log("ok", "realtime/calls → SDP answer");
+    res.writeHead(201, { "Content-Type": "application/sdp" });
+    return res.end(MOCK_SDP_ANSWER);
+  }
+
+  if (path === "/v1/realtime/client_secrets") {
+    log("ok", "realtime/client_secrets → token");
+    return sendJson(res, 200, {
+      value: `ek_mock_${Date.now()}`,
+      expires_at: Math.floor(Date.now() / 1000) + 60,
+    });
+  }
+
+  if (path === "/v1/audio/transcriptions") {
+    log("ok", "audio/transcriptions → scripted transcript");
+    return sendJson(res, 200, transcriptionPayload());
+  }
+
+  if (path.startsWith("/v1/text-to-speech/")) {
+    log("ok", `tts → silent mp3 (${path.split("/").pop()})`);
+    res.writeHead(200, { "Content-Type": "audio/mpeg" });
+    return res.end(silentMp3());
+  }
+
+  log("warn", `unhandled ${req.method} ${path}`);
+  return sendJson(res, 404, { error: { message: `No mock for ${path}` } });
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((err) => {
+    log("error", err?.message || String(err));
+    sendJson(res, 500, { error: { message: "Mock server error" } });
+  });
+});
+
+server.listen(PORT, () => {
+  log("info", `Mock LLM server listening on http://localhost:${PORT}`);
+  log("info", `Set OPENAI_BASE_URL / ANTHROPIC_BASE_URL / ELEVENLABS_BASE_URL to http://localhost:${PORT}/v1`);
+});
+
+process.on("SIGINT", () => {
+  server.close(() => process.exit(0));
+});
@@ -1,4 +1,5 @@
 /* eslint-disable @typescript-eslint/no-require-imports */
+const { createHash } = require("crypto");
 const fs = require("fs");
 const path = require("path");
 
@@ -20,3 +21,26 @@ console.log(`Loaded ${data.length} questions from ${firms.length} firms.`);
 for (const firm of firms) {
   console.log(`${firm}: ${counts[firm]}`);
 }
+
+function promptFingerprint(prompt) {
+  const normalized = prompt.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+const KEYS_JSON = path.join(__dirname, "..", "data", "question-bank.answer-keys.json");
+if (fs.existsSync(KEYS_JSON)) {
+  const keys = JSON.parse(fs.readFileSync(KEYS_JSON, "utf8"));
+  const byId = new Map(data.map((item) => [item.id, item]));
+  console.log(`Answer keys: ${Object.keys(keys).length}`);
+  for (const [id, key] of Object.entries(keys)) {
+    const question = byId.get(id);
+    if (!question) {
+      console.warn(`Answer key for unknown question id: ${id}`);
+    } else if (key.promptFingerprint !== promptFingerprint(question.prompt)) {
+      // Same hash as promptFingerprint in src/lib/question-bank.ts.
+      console.warn(
+        `Answer key for ${id} does not match its prompt (promptFingerprint ${promptFingerprint(question.prompt)}): ${question.prompt}`
+      );
+    }
+  }
+}
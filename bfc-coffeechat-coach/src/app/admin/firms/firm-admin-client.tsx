@@ -0,0 +1,386 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { FirmProfile, FirmProfileInput } from "@/lib/firm-profiles";
+import { formatDateTime } from "@/lib/format";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+type Props = {
+  initialProfiles: FirmProfile[];
+};
+
+/** List fields are edited as plain text: aliases and offices comma-separated, culture one note per line. */
+type Draft = Omit<FirmProfileInput, "aliases" | "culture" | "offices"> & {
+  aliases: string;
+  culture: string;
+  offices: string;
+};
+
+function parseJsonRecord(text: string) {
+  if (!text) return {} as Record<string, unknown>;
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+const inputClass =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-slate-900";
+
+const emptyDraft: Draft = {
+  firm: "",
+  aliases: "",
+  overview: "",
+  groups: [],
+  culture: "",
+  notableDeals: [],
+  offices: "",
+  recruitingTimeline: [],
+};
+
+function draftFrom(profile: FirmProfile): Draft {
+  return {
+    firm: profile.firm,
+    aliases: profile.aliases.join(", "),
+    overview: profile.overview,
+    groups: profile.groups,
+    culture: profile.culture.join("\n"),
+    notableDeals: profile.notableDeals,
+    offices: profile.offices.join(", "),
+    recruitingTimeline: profile.recruitingTimeline,
+  };
+}
+
+function splitList(text: string, separator: RegExp) {
+  return text
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Rows left blank in the editor are dropped rather than rejected.
+function inputFrom(draft: Draft): FirmProfileInput {
+  return {
+    firm: draft.firm.trim(),
+    aliases: splitList(draft.aliases, /,/),
+    overview: draft.overview.trim(),
+    groups: draft.groups.filter((group) => group.name.trim()),
+    culture: splitList(draft.culture, /\n/),
+    notableDeals: draft.notableDeals.filter((deal) => deal.name.trim()),
+    offices: splitList(draft.offices, /,/),
+    recruitingTimeline: draft.recruitingTimeline.filter((step) => step.stage.trim() && step.timing.trim()),
+  };
+}
+
+export default function FirmAdminClient({ initialProfiles }: Props) {
+  const [profiles, setProfiles] = useState(initialProfiles);
+  const [activeFirm, setActiveFirm] = useState<string | null>(initialProfiles[0]?.firm ?? null);
+  const [draft, setDraft] = useState<Draft>(() => (initialProfiles[0] ? draftFrom(initialProfiles[0]) : emptyDraft));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const activeProfile = profiles.find((profile) => profile.firm === activeFirm) ?? null;
+
+  const openProfile = (profile: FirmProfile | null) => {
+    setActiveFirm(profile?.firm ?? null);
+    setDraft(profile ? draftFrom(profile) : emptyDraft);
+    setError(null);
+    setNotice(null);
+  };
+
+  const update = (changes: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/admin/firms", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          profile: inputFrom(draft),
+          create: !activeProfile,
+          ...(activeProfile ? { previousFirm: activeProfile.firm } : {}),
+        }),
+      });
+      const payload = parseJsonRecord(await res.text());
+      if (!res.ok) {
+        const msg = (payload.error as string) || res.statusText;
+        const requestId = payload.requestId as string | undefined;
+        throw new Error(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+      }
+      const saved = payload.profile as FirmProfile;
+      setProfiles((prev) =>
+        [
+          ...prev.filter((profile) => profile.firm !== saved.firm && profile.firm !== activeProfile?.firm),
+          saved,
+        ].sort((a, b) => a.firm.localeCompare(b.firm))
+      );
+      setActiveFirm(saved.firm);
+      setDraft(draftFrom(saved));
+      setNotice(`Saved ${saved.firm}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the profile.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-6xl px-6 pb-16 pt-10">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Admin</div>
+          <h1 className="mt-1 text-2xl font-semibold text-slate-900">Firm profiles</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Facts the mock interview planner, grader and coffee chat interviewer use for firm-specific questions. Each
+            profile is saved to data/firms/.
+          </p>
+        </div>
+        <Link href="/admin/questions" className="text-sm font-semibold text-slate-600 hover:text-slate-900">
+          Question bank →
+        </Link>
+      </div>
+
+      {error ? (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      ) : null}
+      {notice ? (
+        <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-700">{notice}</div>
+      ) : null}
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[220px_1fr]">
+        <Card className="h-fit space-y-1 p-4">
+          {profiles.map((profile) => (
+            <button
+              key={profile.firm}
+              type="button"
+              onClick={() => openProfile(profile)}
+              className={`block w-full rounded-md px-3 py-1.5 text-left text-sm transition hover:bg-slate-50 ${
+                profile.firm === activeFirm ? "bg-slate-100 font-semibold text-slate-900" : "text-slate-700"
+              }`}
+            >
+              {profile.firm}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => openProfile(null)}
+            className={`block w-full rounded-md px-3 py-1.5 text-left text-sm font-semibold transition hover:bg-slate-50 ${
+              activeFirm === null ? "bg-slate-100 text-slate-900" : "text-slate-600"
+            }`}
+          >
+            + New firm
+          </button>
+        </Card>
+
+        <Card className="space-y-5 p-6 text-sm">
+          {activeProfile ? (
+            <div className="text-xs text-slate-500">
+              Last updated {formatDateTime(activeProfile.updatedAt)} by {activeProfile.updatedBy}
+            </div>
+          ) : null}
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="flex flex-col gap-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Firm</span>
+              <input
+                value={draft.firm}
+                onChange={(event) => update({ firm: event.target.value })}
+                placeholder="Name as the question bank uses it"
+                className={inputClass}
+              />
+              {activeProfile && draft.firm.trim() !== activeProfile.firm ? (
+                <span className="text-xs text-amber-700">
+                  Saving renames this profile. Add &ldquo;{activeProfile.firm}&rdquo; under Also known as if the
+                  question bank still uses that name.
+                </span>
+              ) : null}
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Also known as</span>
+              <input
+                value={draft.aliases}
+                onChange={(event) => update({ aliases: event.target.value })}
+                placeholder="Comma-separated"
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="flex flex-col gap-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Overview</span>
+            <textarea
+              value={draft.overview}
+              onChange={(event) => update({ overview: event.target.value })}
+              rows={3}
+              maxLength={1000}
+              className={inputClass}
+            />
+          </label>
+
+          <div className="space-y-2">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Groups</div>
+            {draft.groups.map((group, idx) => (
+              <div key={idx} className="grid gap-2 md:grid-cols-[200px_1fr_auto]">
+                <input
+                  value={group.name}
+                  onChange={(event) =>
+                    update({ groups: draft.groups.map((item, i) => (i === idx ? { ...item, name: event.target.value } : item)) })
+                  }
+                  placeholder="Group"
+                  className={inputClass}
+                />
+                <input
+                  value={group.notes}
+                  onChange={(event) =>
+                    update({ groups: draft.groups.map((item, i) => (i === idx ? { ...item, notes: event.target.value } : item)) })
+                  }
+                  placeholder="Notes"
+                  className={inputClass}
+                />
+                <Button type="button" variant="ghost" onClick={() => update({ groups: draft.groups.filter((_, i) => i !== idx) })}>
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ groups: [...draft.groups, { name: "", notes: "" }] })}
+              className="text-xs font-semibold text-slate-600 hover:text-slate-900"
+            >
+              + Add group
+            </button>
+          </div>
+
+          <label className="flex flex-col gap-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Culture notes (one per line)</span>
+            <textarea
+              value={draft.culture}
+              onChange={(event) => update({ culture: event.target.value })}
+              rows={4}
+              className={inputClass}
+            />
+          </label>
+
+          <div className="space-y-2">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Notable deals</div>
+            {draft.notableDeals.map((deal, idx) => (
+              <div key={idx} className="grid gap-2 md:grid-cols-[1fr_80px_1fr_auto]">
+                <input
+                  value={deal.name}
+                  onChange={(event) =>
+                    update({
+                      notableDeals: draft.notableDeals.map((item, i) => (i === idx ? { ...item, name: event.target.value } : item)),
+                    })
+                  }
+                  placeholder="Deal"
+                  className={inputClass}
+                />
+                <input
+                  value={deal.year}
+                  onChange={(event) =>
+                    update({
+                      notableDeals: draft.notableDeals.map((item, i) => (i === idx ? { ...item, year: event.target.value } : item)),
+                    })
+                  }
+                  placeholder="Year"
+                  className={inputClass}
+                />
+                <input
+                  value={deal.role}
+                  onChange={(event) =>
+                    update({
+                      notableDeals: draft.notableDeals.map((item, i) => (i === idx ? { ...item, role: event.target.value } : item)),
+                    })
+                  }
+                  placeholder="Role, e.g. Advised the seller"
+                  className={inputClass}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => update({ notableDeals: draft.notableDeals.filter((_, i) => i !== idx) })}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ notableDeals: [...draft.notableDeals, { name: "", year: "", role: "" }] })}
+              className="text-xs font-semibold text-slate-600 hover:text-slate-900"
+            >
+              + Add deal
+            </button>
+          </div>
+
+          <label className="flex flex-col gap-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Offices</span>
+            <input
+              value={draft.offices}
+              onChange={(event) => update({ offices: event.target.value })}
+              placeholder="Comma-separated"
+              className={inputClass}
+            />
+          </label>
+
+          <div className="space-y-2">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Recruiting timeline</div>
+            {draft.recruitingTimeline.map((step, idx) => (
+              <div key={idx} className="grid gap-2 md:grid-cols-[200px_1fr_auto]">
+                <input
+                  value={step.stage}
+                  onChange={(event) =>
+                    update({
+                      recruitingTimeline: draft.recruitingTimeline.map((item, i) =>
+                        i === idx ? { ...item, stage: event.target.value } : item
+                      ),
+                    })
+                  }
+                  placeholder="Stage"
+                  className={inputClass}
+                />
+                <input
+                  value={step.timing}
+                  onChange={(event) =>
+                    update({
+                      recruitingTimeline: draft.recruitingTimeline.map((item, i) =>
+                        i === idx ? { ...item, timing: event.target.value } : item
+                      ),
+                    })
+                  }
+                  placeholder="When and what to expect"
+                  className={inputClass}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => update({ recruitingTimeline: draft.recruitingTimeline.filter((_, i) => i !== idx) })}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ recruitingTimeline: [...draft.recruitingTimeline, { stage: "", timing: "" }] })}
+              className="text-xs font-semibold text-slate-600 hover:text-slate-900"
+            >
+              + Add stage
+            </button>
+          </div>
+
+          <div>
+            <Button type="button" onClick={() => void save()} disabled={saving || !draft.firm.trim()}>
+              {saving ? "Saving..." : activeProfile ? "Save profile" : "Add firm"}
+            </Button>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
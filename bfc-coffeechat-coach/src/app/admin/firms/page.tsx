@@ -0,0 +1,18 @@
+import { getServerSession } from "next-auth/next";
+import { notFound, redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { isAdminEmail } from "@/lib/auth-allowlist";
+import { loadFirmProfiles } from "@/lib/firm-profiles";
+import FirmAdminClient from "./firm-admin-client";
+
+export const dynamic = "force-dynamic";
+
+export default async function FirmAdminPage() {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) redirect("/api/auth/signin");
+  // Non-officers get the same 404 as any unknown page.
+  if (!isAdminEmail(email)) notFound();
+
+  return <FirmAdminClient initialProfiles={loadFirmProfiles()} />;
+}
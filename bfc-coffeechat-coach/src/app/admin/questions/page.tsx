@@ -0,0 +1,30 @@
+import { getServerSession } from "next-auth/next";
+import { notFound, redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { isAdminEmail } from "@/lib/auth-allowlist";
+import { listQuestionAudit, questionSearchSchema, searchAdminQuestions } from "@/lib/question-bank-admin";
+import { loadQuestionBankMeta } from "@/lib/question-bank";
+import QuestionAdminClient from "./question-admin-client";
+
+export const dynamic = "force-dynamic";
+
+export default async function QuestionAdminPage() {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) redirect("/api/auth/signin");
+  // Non-officers get the same 404 as any unknown page.
+  if (!isAdminEmail(email)) notFound();
+
+  const initialSearch = questionSearchSchema.parse({});
+  const audit = await listQuestionAudit(30);
+  const initialResults = searchAdminQuestions(initialSearch);
+  const firms = Object.keys(loadQuestionBankMeta().countsByFirm).sort();
+  return (
+    <QuestionAdminClient
+      firms={firms}
+      initialSearch={initialSearch}
+      initialResults={initialResults}
+      initialAudit={audit}
+    />
+  );
+}
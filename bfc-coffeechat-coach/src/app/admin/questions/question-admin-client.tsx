@@ -0,0 +1,488 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import type { AdminQuestion, QuestionAuditEntry, QuestionEdit, QuestionSearch } from "@/lib/question-bank-admin";
+import type { QuestionStage, QuestionType } from "@/lib/question-bank";
+import { questionTypeOptions } from "@/lib/mock-interview";
+import { questionGroupOptions, questionStageOptions } from "@/lib/question-heuristics";
+import { formatDateTime, formatStage } from "@/lib/format";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select } from "@/components/ui/select";
+
+type SearchResults = {
+  total: number;
+  pageSize: number;
+  results: AdminQuestion[];
+};
+
+type Props = {
+  firms: string[];
+  initialSearch: QuestionSearch;
+  initialResults: SearchResults;
+  initialAudit: QuestionAuditEntry[];
+};
+
+type Draft = Pick<AdminQuestion, "id" | "prompt" | "notes" | "firm" | "group" | "stage" | "questionType" | "difficulty">;
+
+function parseJsonRecord(text: string) {
+  if (!text) return {} as Record<string, unknown>;
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+const inputClass =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-slate-900";
+
+const difficultyOptions = [
+  { value: "1", label: "Easy" },
+  { value: "2", label: "Medium" },
+  { value: "3", label: "Hard" },
+];
+
+const keepOption = { value: "", label: "Keep as is" };
+
+export default function QuestionAdminClient({ firms, initialSearch, initialResults, initialAudit }: Props) {
+  const [search, setSearch] = useState<QuestionSearch>(initialSearch);
+  const [results, setResults] = useState<SearchResults>(initialResults);
+  const [audit, setAudit] = useState<QuestionAuditEntry[]>(initialAudit);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [keepId, setKeepId] = useState<string | null>(null);
+  const [retag, setRetag] = useState({ questionType: "", difficulty: "", stage: "" });
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const firmOptions = [{ value: "All", label: "All firms" }, ...firms.map((firm) => ({ value: firm, label: firm }))];
+  const typeOptions = questionTypeOptions.map((type) => ({ value: type, label: formatStage(type) }));
+  const stageOptions = questionStageOptions.map((stage) => ({ value: stage, label: formatStage(stage) }));
+  const pageCount = Math.max(1, Math.ceil(results.total / results.pageSize));
+  const mergeKeepId = keepId && selected.includes(keepId) ? keepId : selected[0];
+
+  const post = useCallback(async (url: string, body: unknown) => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const payload = parseJsonRecord(await res.text());
+    if (!res.ok) {
+      const msg = (payload.error as string) || res.statusText;
+      const requestId = payload.requestId as string | undefined;
+      throw new Error(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+    }
+    return payload;
+  }, []);
+
+  const runSearch = useCallback(
+    async (next: QuestionSearch) => {
+      setSearch(next);
+      setLoading(true);
+      setError(null);
+      try {
+        const payload = await post("/api/admin/questions/search", next);
+        setResults({
+          total: payload.total as number,
+          pageSize: payload.pageSize as number,
+          results: payload.results as AdminQuestion[],
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Search failed.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [post]
+  );
+
+  const submitEdit = useCallback(
+    async (edit: QuestionEdit) => {
+      setLoading(true);
+      setError(null);
+      setNotice(null);
+      try {
+        const payload = await post("/api/admin/questions", edit);
+        const entry = payload.entry as QuestionAuditEntry;
+        setAudit((prev) => [entry, ...prev].slice(0, 30));
+        setNotice(entry.summary);
+        setSelected([]);
+        setDraft(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save the change.");
+        setLoading(false);
+        return;
+      }
+      await runSearch(search);
+    },
+    [post, runSearch, search]
+  );
+
+  const updateSearch = (update: Partial<QuestionSearch>) => {
+    void runSearch({ ...search, page: 0, ...update });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]));
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const original = results.results.find((question) => question.id === draft.id);
+    if (!original) return;
+    const changes: Record<string, unknown> = {};
+    for (const key of ["prompt", "notes", "firm", "group", "stage", "questionType", "difficulty"] as const) {
+      if (draft[key] !== original[key]) changes[key] = draft[key];
+    }
+    if (Object.keys(changes).length === 0) {
+      setDraft(null);
+      return;
+    }
+    void submitEdit({ action: "update", id: draft.id, changes } as QuestionEdit);
+  };
+
+  const applyRetag = () => {
+    const changes: Record<string, unknown> = {};
+    if (retag.questionType) changes.questionType = retag.questionType;
+    if (retag.difficulty) changes.difficulty = Number(retag.difficulty);
+    if (retag.stage) changes.stage = retag.stage;
+    if (Object.keys(changes).length === 0) return;
+    void submitEdit({ action: "retag", ids: selected, changes } as QuestionEdit);
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-6xl px-6 pb-16 pt-10">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Admin</div>
+          <h1 className="mt-1 text-2xl font-semibold text-slate-900">Question bank</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Changes are saved as overrides in the manual layer and survive a rebuild of the bank. Every change is logged
+            below.
+          </p>
+        </div>
+        <Link href="/admin/firms" className="text-sm font-semibold text-slate-600 hover:text-slate-900">
+          Firm profiles →
+        </Link>
+      </div>
+
+      <Card className="mt-6 grid gap-4 p-6 md:grid-cols-4">
+        <label className="flex flex-col gap-2 text-sm md:col-span-4">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Search</span>
+          <input
+            value={search.query}
+            onChange={(event) => setSearch((prev) => ({ ...prev, query: event.target.value }))}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") updateSearch({});
+            }}
+            placeholder="Prompt, notes or id — press Enter"
+            className={inputClass}
+          />
+        </label>
+        <Select label="Firm" value={search.firm} options={firmOptions} onChange={(value) => updateSearch({ firm: value })} />
+        <Select
+          label="Question type"
+          value={search.questionType}
+          options={[{ value: "all", label: "All types" }, ...typeOptions]}
+          onChange={(value) => updateSearch({ questionType: value as QuestionSearch["questionType"] })}
+        />
+        <Select
+          label="Status"
+          value={search.status}
+          options={[
+            { value: "all", label: "All" },
+            { value: "edited", label: "Edited" },
+            { value: "deleted", label: "Deleted" },
+            { value: "needs_review", label: "Low-confidence labels" },
+          ]}
+          onChange={(value) => updateSearch({ status: value as QuestionSearch["status"] })}
+        />
+        <div className="flex items-end text-sm text-slate-500">
+          {results.total} match{results.total === 1 ? "" : "es"}
+        </div>
+      </Card>
+
+      {error ? (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      ) : null}
+      {notice ? (
+        <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-800">{notice}</div>
+      ) : null}
+
+      {selected.length > 0 ? (
+        <motion.div initial={{ opacity: 0, y: 6 }} animate={{ opacity: 1, y: 0 }}>
+          <Card className="sticky top-20 z-10 mt-6 space-y-4 p-4">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span className="font-semibold text-slate-900">{selected.length} selected</span>
+              <Button type="button" variant="ghost" onClick={() => setSelected([])}>
+                Clear
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                disabled={loading}
+                onClick={() => void submitEdit({ action: "delete", ids: selected })}
+              >
+                Delete
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                disabled={loading}
+                onClick={() => void submitEdit({ action: "restore", ids: selected })}
+              >
+                Restore generated version
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                disabled={loading || selected.length < 2}
+                onClick={() =>
+                  void submitEdit({
+                    action: "merge",
+                    keepId: mergeKeepId,
+                    duplicateIds: selected.filter((id) => id !== mergeKeepId),
+                  })
+                }
+              >
+                Merge into {mergeKeepId}
+              </Button>
+            </div>
+            <div className="grid gap-3 md:grid-cols-4">
+              <Select
+                label="Type"
+                value={retag.questionType}
+                options={[keepOption, ...typeOptions]}
+                onChange={(value) => setRetag((prev) => ({ ...prev, questionType: value }))}
+              />
+              <Select
+                label="Difficulty"
+                value={retag.difficulty}
+                options={[keepOption, ...difficultyOptions]}
+                onChange={(value) => setRetag((prev) => ({ ...prev, difficulty: value }))}
+              />
+              <Select
+                label="Stage"
+                value={retag.stage}
+                options={[keepOption, ...stageOptions]}
+                onChange={(value) => setRetag((prev) => ({ ...prev, stage: value }))}
+              />
+              <div className="flex items-end">
+                <Button
+                  type="button"
+                  disabled={loading || (!retag.questionType && !retag.difficulty && !retag.stage)}
+                  onClick={applyRetag}
+                >
+                  Retag selected
+                </Button>
+              </div>
+            </div>
+          </Card>
+        </motion.div>
+      ) : null}
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[1fr_20rem]">
+        <div className="space-y-3">
+          {results.results.length === 0 ? (
+            <Card className="p-10 text-center text-sm text-slate-400">No questions match these filters.</Card>
+          ) : (
+            results.results.map((question) => {
+              const isSelected = selected.includes(question.id);
+              const isEditing = draft?.id === question.id;
+              return (
+                <Card key={question.id} className={`p-4 ${question.deleted ? "opacity-60" : ""}`}>
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      onChange={() => toggleSelected(question.id)}
+                      className="mt-1 accent-slate-900"
+                      aria-label={`Select ${question.id}`}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span className="font-mono text-[11px] text-slate-400">{question.id}</span>
+                        <Badge tone="neutral">{question.firm}</Badge>
+                        <Badge tone="neutral" className="capitalize">{formatStage(question.questionType)}</Badge>
+                        <Badge tone="neutral">D{question.difficulty}</Badge>
+                        {question.stage !== "unknown" ? <Badge tone="neutral">{formatStage(question.stage)}</Badge> : null}
+                        {question.group !== "unknown" ? <Badge tone="neutral">{question.group}</Badge> : null}
+                        {question.edited && !question.deleted ? <Badge tone="success">Edited</Badge> : null}
+                        {question.deleted ? (
+                          <Badge tone="warning">{question.mergedInto ? `Merged into ${question.mergedInto}` : "Deleted"}</Badge>
+                        ) : null}
+                        {question.classification ? (
+                          <span className="text-[11px] text-slate-400">
+                            {question.classification.source} · {Math.round(question.classification.confidence * 100)}%
+                          </span>
+                        ) : null}
+                        {selected.length > 1 && isSelected ? (
+                          <label className="ml-auto flex items-center gap-1 text-[11px] text-slate-500">
+                            <input
+                              type="radio"
+                              name="merge-keep"
+                              checked={mergeKeepId === question.id}
+                              onChange={() => setKeepId(question.id)}
+                              className="accent-slate-900"
+                            />
+                            Keep when merging
+                          </label>
+                        ) : null}
+                      </div>
+
+                      {isEditing && draft ? (
+                        <div className="mt-3 space-y-3">
+                          <textarea
+                            value={draft.prompt}
+                            onChange={(event) => setDraft({ ...draft, prompt: event.target.value })}
+                            rows={3}
+                            className={inputClass}
+                          />
+                          <textarea
+                            value={draft.notes}
+                            onChange={(event) => setDraft({ ...draft, notes: event.target.value })}
+                            rows={2}
+                            placeholder="Notes"
+                            className={inputClass}
+                          />
+                          <div className="grid gap-3 md:grid-cols-3">
+                            <label className="flex flex-col gap-2 text-sm">
+                              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Firm</span>
+                              <input
+                                value={draft.firm}
+                                onChange={(event) => setDraft({ ...draft, firm: event.target.value })}
+                                list="admin-firms"
+                                className={inputClass}
+                              />
+                            </label>
+                            <label className="flex flex-col gap-2 text-sm">
+                              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Group</span>
+                              <input
+                                value={draft.group}
+                                onChange={(event) => setDraft({ ...draft, group: event.target.value })}
+                                list="admin-groups"
+                                className={inputClass}
+                              />
+                            </label>
+                            <Select
+                              label="Type"
+                              value={draft.questionType}
+                              options={typeOptions}
+                              onChange={(value) => setDraft({ ...draft, questionType: value as QuestionType })}
+                            />
+                            <Select
+                              label="Difficulty"
+                              value={String(draft.difficulty)}
+                              options={difficultyOptions}
+                              onChange={(value) => setDraft({ ...draft, difficulty: Number(value) as 1 | 2 | 3 })}
+                            />
+                            <Select
+                              label="Stage"
+                              value={draft.stage}
+                              options={stageOptions}
+                              onChange={(value) => setDraft({ ...draft, stage: value as QuestionStage })}
+                            />
+                          </div>
+                          <div className="flex gap-2">
+                            <Button type="button" onClick={saveDraft} disabled={loading || draft.prompt.trim().length < 3}>
+                              Save
+                            </Button>
+                            <Button type="button" variant="ghost" onClick={() => setDraft(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="mt-2 text-sm text-slate-900">{question.prompt}</div>
+                          {question.notes ? <div className="mt-1 text-xs text-slate-500">{question.notes}</div> : null}
+                          {!question.deleted ? (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setDraft({
+                                  id: question.id,
+                                  prompt: question.prompt,
+                                  notes: question.notes,
+                                  firm: question.firm,
+                                  group: question.group,
+                                  stage: question.stage,
+                                  questionType: question.questionType,
+                                  difficulty: question.difficulty,
+                                })
+                              }
+                              className="mt-2 text-xs font-semibold text-slate-500 hover:text-slate-900"
+                            >
+                              Edit
+                            </button>
+                          ) : null}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })
+          )}
+
+          <div className="flex items-center justify-between pt-2 text-sm text-slate-500">
+            <Button
+              type="button"
+              variant="secondary"
+              disabled={loading || search.page === 0}
+              onClick={() => void runSearch({ ...search, page: search.page - 1 })}
+            >
+              ← Previous
+            </Button>
+            <span>
+              Page {search.page + 1} of {pageCount}
+            </span>
+            <Button
+              type="button"
+              variant="secondary"
+              disabled={loading || search.page + 1 >= pageCount}
+              onClick={() => void runSearch({ ...search, page: search.page + 1 })}
+            >
+              Next →
+            </Button>
+          </div>
+        </div>
+
+        <Card className="h-fit p-5">
+          <div className="text-base font-semibold text-slate-900">Audit trail</div>
+          {audit.length === 0 ? (
+            <div className="mt-4 py-4 text-center text-sm text-slate-400">No changes yet.</div>
+          ) : (
+            <ul className="mt-4 space-y-3 text-xs">
+              {audit.map((entry) => (
+                <li key={entry.id} className="border-b border-slate-100 pb-3 last:border-0">
+                  <div className="font-medium text-slate-900">{entry.summary}</div>
+                  <div className="mt-0.5 text-slate-500">
+                    {entry.actor} · {formatDateTime(entry.at)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+
+      <datalist id="admin-firms">
+        {firms.map((firm) => (
+          <option key={firm} value={firm} />
+        ))}
+      </datalist>
+      <datalist id="admin-groups">
+        {questionGroupOptions.map((group) => (
+          <option key={group} value={group} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAdminEmail } from "@/lib/auth-allowlist";
+import { firmProfileInputSchema, firmSlug, loadFirmProfiles, saveFirmProfile } from "@/lib/firm-profiles";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+
+const LIMIT = 60;
+const WINDOW_MS = 10 * 60 * 1000;
+
+const saveSchema = z.object({
+  profile: firmProfileInputSchema,
+  /** Set when adding a firm, so a new profile cannot silently replace an existing one. */
+  create: z.boolean().default(false),
+  /** Firm name of the profile being edited; differs from `profile.firm` when the edit renames it. */
+  previousFirm: z.string().trim().min(1).optional(),
+});
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAdminEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof saveSchema>;
+  try {
+    body = saveSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  const slug = firmSlug(body.profile.firm);
+  if (!slug) {
+    return NextResponse.json({ error: "Firm name needs letters or numbers", requestId }, { status: 400 });
+  }
+  const slugs = new Set(loadFirmProfiles().map((profile) => firmSlug(profile.firm)));
+  const previousSlug = body.create ? undefined : firmSlug(body.previousFirm ?? body.profile.firm);
+  if (previousSlug !== undefined && !slugs.has(previousSlug)) {
+    return NextResponse.json({ error: "Firm profile not found", requestId }, { status: 404 });
+  }
+  if (slug !== previousSlug && slugs.has(slug)) {
+    return NextResponse.json({ error: "A profile for this firm already exists", requestId }, { status: 409 });
+  }
+
+  try {
+    const profile = await saveFirmProfile(email, body.profile, previousSlug);
+    return NextResponse.json({ profile, requestId });
+  } catch {
+    console.info(`[admin/firms] save failed ${requestId}`);
+    return NextResponse.json({ error: "Failed to save the profile", requestId }, { status: 500 });
+  }
+}
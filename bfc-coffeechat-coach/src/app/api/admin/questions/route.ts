@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/auth";
+import { isAdminEmail } from "@/lib/auth-allowlist";
+import {
+  type QuestionEdit,
+  QuestionEditError,
+  applyQuestionEdit,
+  questionEditSchema,
+} from "@/lib/question-bank-admin";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+
+const LIMIT = 120;
+const WINDOW_MS = 10 * 60 * 1000;
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAdminEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: QuestionEdit;
+  try {
+    body = questionEditSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  try {
+    const { entry, records } = await applyQuestionEdit(email, body);
+    return NextResponse.json({ entry, records, requestId });
+  } catch (err) {
+    if (err instanceof QuestionEditError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: 400 });
+    }
+    console.info(`[admin/questions] edit failed ${requestId}`);
+    return NextResponse.json({ error: "Failed to save the change", requestId }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/auth";
+import { isAdminEmail } from "@/lib/auth-allowlist";
+import { type QuestionSearch, questionSearchSchema, searchAdminQuestions } from "@/lib/question-bank-admin";
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAdminEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  let body: QuestionSearch;
+  try {
+    body = questionSearchSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ ...searchAdminQuestions(body), requestId });
+  } catch {
+    return NextResponse.json({ error: "Failed to load the question bank", requestId }, { status: 500 });
+  }
+}
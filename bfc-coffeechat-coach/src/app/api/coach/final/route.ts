@@ -2,9 +2,15 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { generateJson, LlmError } from "@/lib/llm";
+import {
+  type CoffeeChatScorecard,
+  coffeeChatRubric,
+  coffeeChatScorecardSchema,
+  rubricKeySchema,
+} from "@/lib/networking-scenarios";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
 
-const MODEL = "gpt-4o-mini";
 const LIMIT = 10;
 const WINDOW_MS = 10 * 60 * 1000;
 const MAX_TOTAL_CHARS = 6000;
@@ -34,12 +40,26 @@ function buildPrompt(messages: Message[], scenario: ScenarioPayload) {
     .map((msg) => `${msg.role === "interviewer" ? "Interviewer" : "User"}: ${msg.content}`)
     .join("\n");
 
-  return `Create an end-of-call summary for a coffee chat practice.
-Output plain text with sections:
-- Top 3 improvements
-- Suggested 30-second intro rewrite
-- Best 3 questions tailored to the scenario
-- Referral ask script + timing advice
+  const rubric = rubricKeySchema.options
+    .map((key) => `- ${key} (${coffeeChatRubric[key].label}): ${coffeeChatRubric[key].criteria}`)
+    .join("\n");
+
+  return `Score this coffee chat practice against the rubric. Output strict JSON only.
+
+Rubric:
+${rubric}
+
+Return JSON with keys:
+- ratings (object with every rubric key above; each value is { rating1to5, evidence, fix })
+  - rating1to5: integer 1-5, where 3 is adequate and 5 would stand out to a banker
+  - evidence: 0-3 short quotes copied word for word from the User's lines that justify the rating
+  - fix: one sentence on what to change next time
+- wouldReferPercent (integer 0-100): how likely this person is to refer the candidate after this call, given the vibe and difficulty
+- wouldReferRationale (one sentence)
+- topImprovements (array of 1-3 strings, most important first)
+- introRewrite (a 30-second intro rewrite)
+- suggestedQuestions (array of 1-3 questions tailored to the scenario)
+- referralAskScript (the referral ask, with advice on when to make it)
 
 Scenario:
 - Track: ${scenario.track}
@@ -53,38 +73,36 @@ Conversation transcript:
 ${transcript}`;
 }
 
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
-    }
-  }
-  return parts.join("").trim();
+function normalizeQuote(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9'$%]+/g, " ")
+    .trim();
 }
 
-function buildDebugMeta(data: unknown) {
-  const payload = data as {
-    output?: Array<{ type?: string }>;
-    refusal?: unknown;
-  };
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  return {
-    modelUsed: MODEL,
-    outputKeys: Object.keys((payload as Record<string, unknown>) || {}),
-    outputItemTypes: outputItems.map((item) => item?.type).filter(Boolean),
-    hadRefusal: Boolean(payload?.refusal),
-  };
+/**
+ * Drops evidence the candidate never said. Models paraphrase when asked for
+ * quotes, and a paraphrase shown as a quote misleads more than no evidence.
+ */
+function groundEvidence(scorecard: CoffeeChatScorecard, messages: Message[]): CoffeeChatScorecard {
+  const said = normalizeQuote(
+    messages
+      .filter((msg) => msg.role === "user")
+      .map((msg) => msg.content)
+      .join(" \n ")
+  );
+  const ratings = Object.fromEntries(
+    rubricKeySchema.options.map((key) => {
+      const rating = scorecard.ratings[key];
+      const evidence = rating.evidence.filter((quote) => {
+        const normalized = normalizeQuote(quote);
+        return normalized.length > 0 && said.includes(normalized);
+      });
+      return [key, { ...rating, evidence }];
+    })
+  ) as CoffeeChatScorecard["ratings"];
+  return { ...scorecard, ratings };
 }
 
 export async function POST(req: Request) {
@@ -146,57 +164,23 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Payload too large", requestId }, { status: 413 });
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
-
-  const payload = {
-    model: MODEL,
-    input: [
-      {
-        role: "system",
-        content:
-          "You are a coffee chat coach. Keep the summary concise and practical. Output plain text.",
-      },
-      { role: "user", content: buildPrompt(messages, scenario) },
-    ],
-  };
-
   try {
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      return NextResponse.json(
-        { error: errorText || resp.statusText, requestId },
-        { status: 502 }
-      );
-    }
-
-    const data = await resp.json();
-    const outputText = extractOutputText(data);
-
-    if (!outputText) {
-      return NextResponse.json(
+    const result = await generateJson(coffeeChatScorecardSchema, {
+      route: "coach_final",
+      messages: [
         {
-          error: "Empty model output",
-          requestId,
-          ...(process.env.NEXT_PUBLIC_DEBUG_INTERVIEW === "true" ? buildDebugMeta(data) : {}),
+          role: "system",
+          content: "You are a coffee chat coach. Score honestly and keep every field concise and practical.",
         },
-        { status: 502 }
-      );
-    }
+        { role: "user", content: buildPrompt(messages, scenario) },
+      ],
+    });
 
-    return NextResponse.json({ finalSummary: outputText.trim(), requestId });
-  } catch {
+    return NextResponse.json({ scorecard: groundEvidence(result.data, messages), requestId });
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
     return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
 }
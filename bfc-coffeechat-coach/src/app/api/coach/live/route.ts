@@ -1,10 +1,12 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { countFillers } from "@/lib/delivery";
+import { generateJson, LlmError } from "@/lib/llm";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
 
-const MODEL = "gpt-4o-mini";
 const LIMIT = 120;
 const WINDOW_MS = 10 * 60 * 1000;
 const MAX_TURN_CHARS = 1200;
@@ -19,6 +21,14 @@ type ScenarioPayload = {
   phase?: string;
 };
 
+const liveCoachSchema = z.object({
+  tone: z.string().min(1),
+  clarity: z.string().min(1),
+  structure: z.string().min(1),
+  referral: z.string().min(1),
+  bullets: z.array(z.string()),
+});
+
 type LiveCoachRequest = {
   lastUserTurn?: string;
   scenario?: ScenarioPayload;
@@ -48,9 +58,7 @@ ${lastUserTurn}`;
 }
 
 function heuristicLiveCoach(text: string) {
-  const lower = text.toLowerCase();
-  const fillerWords = ["um", "uh", "like", "you know", "sort of", "kind of"];
-  const fillerCount = fillerWords.reduce((sum, word) => sum + (lower.split(word).length - 1), 0);
+  const fillerCount = countFillers(text).total;
   const longAnswer = text.length > 500;
   const questions = (text.match(/\?/g) || []).length;
   const entitlement = /(i deserve|i should|get me|give me)/i.test(text);
@@ -67,40 +75,6 @@ function heuristicLiveCoach(text: string) {
   };
 }
 
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
-    }
-  }
-  return parts.join("").trim();
-}
-
-function buildDebugMeta(data: unknown) {
-  const payload = data as {
-    output?: Array<{ type?: string }>;
-    refusal?: unknown;
-  };
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  return {
-    modelUsed: MODEL,
-    outputKeys: Object.keys((payload as Record<string, unknown>) || {}),
-    outputItemTypes: outputItems.map((item) => item?.type).filter(Boolean),
-    hadRefusal: Boolean(payload?.refusal),
-  };
-}
-
 export async function POST(req: Request) {
   const requestId = crypto.randomUUID();
   const session = await getServerSession(authOptions);
@@ -151,79 +125,28 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "User turn too long", requestId }, { status: 413 });
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
-
-  const payload = {
-    model: MODEL,
-    input: [
-      {
-        role: "system",
-        content:
-          "You are a coffee chat coach. Output must be JSON only, no markdown. Keep bullets short.",
-      },
-      { role: "user", content: buildPrompt(lastUserTurn, scenario, phase) },
-    ],
-  };
-
   try {
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      return NextResponse.json(
-        { error: errorText || resp.statusText, requestId },
-        { status: 502 }
-      );
-    }
-
-    const data = await resp.json();
-    const outputText = extractOutputText(data);
-
-    if (!outputText) {
-      return NextResponse.json(
+    const result = await generateJson(liveCoachSchema, {
+      route: "coach_live",
+      messages: [
         {
-          error: "Empty model output",
-          requestId,
-          ...(process.env.NEXT_PUBLIC_DEBUG_INTERVIEW === "true" ? buildDebugMeta(data) : {}),
+          role: "system",
+          content:
+            "You are a coffee chat coach. Output must be JSON only, no markdown. Keep bullets short.",
         },
-        { status: 502 }
-      );
-    }
-
-    try {
-      const parsed = JSON.parse(outputText) as {
-        tone: string;
-        clarity: string;
-        structure: string;
-        referral: string;
-        bullets: string[];
-      };
-      if (
-        parsed?.tone &&
-        parsed?.clarity &&
-        parsed?.structure &&
-        parsed?.referral &&
-        Array.isArray(parsed.bullets)
-      ) {
-        return NextResponse.json({ ...parsed, requestId });
-      }
-    } catch {
+        { role: "user", content: buildPrompt(lastUserTurn, scenario, phase) },
+      ],
+    });
+    return NextResponse.json({ ...result.data, requestId });
+  } catch (err) {
+    if (err instanceof LlmError && err.kind === "invalid_output") {
       // fall through to heuristic
+      const fallback = heuristicLiveCoach(lastUserTurn);
+      return NextResponse.json({ ...fallback, requestId });
+    }
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
     }
-
-    const fallback = heuristicLiveCoach(lastUserTurn);
-    return NextResponse.json({ ...fallback, requestId });
-  } catch {
     return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
 }
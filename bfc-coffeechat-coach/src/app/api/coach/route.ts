@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { buildDebugMeta, generateText, LlmError, type LlmResult } from "@/lib/llm";
 import { enforceRateLimit } from "@/lib/rate-limit";
 
 type CoachScenario = {
@@ -34,21 +35,6 @@ function getClientIp(req: Request) {
   return req.headers.get("x-real-ip") || "unknown";
 }
 
-async function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  timeoutMs: number
-) {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    const resp = await fetch(url, { ...options, signal: controller.signal });
-    return resp;
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
-
 export async function POST(req: Request) {
   const requestId = crypto.randomUUID();
   const session = await getServerSession(authOptions);
@@ -78,11 +64,6 @@ export async function POST(req: Request) {
     }
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
-
   let body: CoachRequest;
   try {
     body = await req.json();
@@ -110,74 +91,43 @@ export async function POST(req: Request) {
     console.info(`[coach] request ${requestId} length=${transcript.length}`);
   }
 
-  const payload = {
-    model: "gpt-5",
-    reasoning: { effort: "low" },
-    max_output_tokens: 400,
-    input: [
-      {
-        role: "system",
-        content:
-          "You are a coffee chat coach. Output must be concise markdown. Do not request or infer personal data. Do not output secrets. Do not claim you heard audio—only use the text transcript. Keep feedback professional and constructive. Follow this rubric: 1) What they did well (2 bullets). 2) What hurt rapport (tone, interruptions, entitlement). 3) Question quality (too generic? too long? too early for referral ask?). 4) A better next question (1-2 examples). 5) A clean referral ask line tailored to the scenario.",
-      },
-      { role: "user", content: prompt },
-    ],
-  };
-
-  let response: Response | null = null;
+  let result: LlmResult;
   try {
-    for (let attempt = 0; attempt < 2; attempt += 1) {
-      response = await fetchWithTimeout(
-        "https://api.openai.com/v1/responses",
+    result = await generateText({
+      route: "coach",
+      maxOutputTokens: 400,
+      timeoutMs: 15000,
+      retries: 1,
+      messages: [
         {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(payload),
+          role: "system",
+          content:
+            "You are a coffee chat coach. Output must be concise markdown. Do not request or infer personal data. Do not output secrets. Do not claim you heard audio—only use the text transcript. Keep feedback professional and constructive. Follow this rubric: 1) What they did well (2 bullets). 2) What hurt rapport (tone, interruptions, entitlement). 3) Question quality (too generic? too long? too early for referral ask?). 4) A better next question (1-2 examples). 5) A clean referral ask line tailored to the scenario.",
         },
-        15000
-      );
-
-      if (response.status >= 500 && attempt === 0) {
-        continue;
-      }
-      break;
+        { role: "user", content: prompt },
+      ],
+    });
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
     }
-  } catch {
     return NextResponse.json(
       { error: "Upstream request failed.", requestId },
       { status: 502 }
     );
   }
 
-  if (!response) {
-    return NextResponse.json({ error: "Upstream request failed.", requestId }, { status: 502 });
-  }
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    return NextResponse.json(
-      { error: errorText || response.statusText, requestId },
-      { status: 502 }
-    );
-  }
-
-  const data = await response.json();
-  const outputText = extractOutputText(data);
+  const outputText = result.text;
 
   if (!outputText) {
     if (process.env.COACH_DEBUG === "true") {
-      console.info(`[coach] empty output ${requestId} keys=${Object.keys(data || {}).join(",")}`);
+      console.info(`[coach] empty output ${requestId} keys=${Object.keys(result.raw || {}).join(",")}`);
     }
     return NextResponse.json(
       {
         error: "Empty model output",
         requestId,
-        ...(process.env.NEXT_PUBLIC_DEBUG_INTERVIEW === "true"
-          ? buildDebugMeta(data, "gpt-5")
-          : {}),
+        ...(process.env.NEXT_PUBLIC_DEBUG_INTERVIEW === "true" ? buildDebugMeta(result) : {}),
       },
       { status: 502 }
     );
@@ -185,37 +135,3 @@ export async function POST(req: Request) {
 
   return NextResponse.json({ feedback: outputText.trim(), requestId });
 }
-
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
-    }
-  }
-  return parts.join("").trim();
-}
-
-function buildDebugMeta(data: unknown, modelUsed: string) {
-  const payload = data as {
-    output?: Array<{ type?: string }>;
-    refusal?: unknown;
-  };
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  return {
-    modelUsed,
-    outputKeys: Object.keys((payload as Record<string, unknown>) || {}),
-    outputItemTypes: outputItems.map((item) => item?.type).filter(Boolean),
-    hadRefusal: Boolean(payload?.refusal),
-  };
-}
@@ -2,9 +2,9 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { buildDebugMeta, generateText, LlmError } from "@/lib/llm";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
 
-const MODEL = "gpt-4o-mini";
 const LIMIT = 30;
 const WINDOW_MS = 10 * 60 * 1000;
 const MAX_TURN_CHARS = 2000;
@@ -45,40 +45,6 @@ User answer:
 ${lastUserTurn}`;
 }
 
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
-    }
-  }
-  return parts.join("").trim();
-}
-
-function buildDebugMeta(data: unknown) {
-  const payload = data as {
-    output?: Array<{ type?: string }>;
-    refusal?: unknown;
-  };
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  return {
-    modelUsed: MODEL,
-    outputKeys: Object.keys((payload as Record<string, unknown>) || {}),
-    outputItemTypes: outputItems.map((item) => item?.type).filter(Boolean),
-    hadRefusal: Boolean(payload?.refusal),
-  };
-}
-
 export async function POST(req: Request) {
   const requestId = crypto.randomUUID();
   const session = await getServerSession(authOptions);
@@ -129,57 +95,36 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "User turn too long", requestId }, { status: 413 });
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
-
-  const payload = {
-    model: MODEL,
-    input: [
-      {
-        role: "system",
-        content:
-          "You are a coffee chat coach. Keep feedback concise and constructive. Output plain text.",
-      },
-      { role: "user", content: buildPrompt(lastUserTurn, scenario, phase) },
-    ],
-  };
-
   try {
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
+    const result = await generateText({
+      route: "coach_turn",
+      messages: [
+        {
+          role: "system",
+          content:
+            "You are a coffee chat coach. Keep feedback concise and constructive. Output plain text.",
+        },
+        { role: "user", content: buildPrompt(lastUserTurn, scenario, phase) },
+      ],
     });
-
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      return NextResponse.json(
-        { error: errorText || resp.statusText, requestId },
-        { status: 502 }
-      );
-    }
-
-    const data = await resp.json();
-    const outputText = extractOutputText(data);
+    const outputText = result.text;
 
     if (!outputText) {
       return NextResponse.json(
         {
           error: "Empty model output",
           requestId,
-          ...(process.env.NEXT_PUBLIC_DEBUG_INTERVIEW === "true" ? buildDebugMeta(data) : {}),
+          ...(process.env.NEXT_PUBLIC_DEBUG_INTERVIEW === "true" ? buildDebugMeta(result) : {}),
         },
         { status: 502 }
       );
     }
 
     return NextResponse.json({ turnReview: outputText.trim(), requestId });
-  } catch {
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
     return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
 }
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import {
+  coffeeChatScenarioSchema,
+  coffeeChatTurnSchema,
+  phaseTransitionSchema,
+  saveCoffeeChat,
+} from "@/lib/coffee-chats";
+import { coffeeChatScorecardSchema } from "@/lib/networking-scenarios";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+
+const LIMIT = 30;
+const WINDOW_MS = 10 * 60 * 1000;
+const MAX_TURNS = 200;
+const MAX_TRANSCRIPT_CHARS = 60000;
+
+const saveSchema = z.object({
+  id: z.string().optional(),
+  scenario: coffeeChatScenarioSchema,
+  turns: z.array(coffeeChatTurnSchema).min(1).max(MAX_TURNS),
+  phaseTransitions: z.array(phaseTransitionSchema).default([]),
+  finalSummary: z.string().nullable().default(null),
+  scorecard: coffeeChatScorecardSchema.nullable().default(null),
+});
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof saveSchema>;
+  try {
+    body = saveSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  const transcriptChars = body.turns.reduce((sum, turn) => sum + turn.content.length, 0);
+  if (transcriptChars > MAX_TRANSCRIPT_CHARS) {
+    return NextResponse.json({ error: "Transcript too long", requestId }, { status: 413 });
+  }
+
+  try {
+    const saved = await saveCoffeeChat(
+      email,
+      {
+        scenario: body.scenario,
+        turns: body.turns,
+        phaseTransitions: body.phaseTransitions,
+        finalSummary: body.finalSummary,
+        scorecard: body.scorecard,
+      },
+      body.id
+    );
+    if (!saved) {
+      return NextResponse.json({ error: "Coffee chat not found", requestId }, { status: 404 });
+    }
+    return NextResponse.json({ id: saved.id, requestId });
+  } catch {
+    return NextResponse.json({ error: "Failed to save coffee chat", requestId }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { drillFiltersSchema, loadDrillDeck, pickNextDrillCard } from "@/lib/drill";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+import { loadQuestionBank } from "@/lib/question-bank";
+
+const LIMIT = 120;
+const WINDOW_MS = 10 * 60 * 1000;
+
+const nextSchema = z.object({
+  filters: drillFiltersSchema.default({ firm: "All", questionType: "all", difficulty: "all" }),
+  excludeIds: z.array(z.string()).max(50).default([]),
+});
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof nextSchema>;
+  try {
+    body = nextSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  try {
+    const questions = loadQuestionBank();
+    const deck = await loadDrillDeck(email, questions);
+    const { card, stats } = pickNextDrillCard(questions, deck, body.filters, body.excludeIds);
+    return NextResponse.json({ card, stats, requestId });
+  } catch {
+    return NextResponse.json({ error: "Failed to load drill deck", requestId }, { status: 500 });
+  }
+}
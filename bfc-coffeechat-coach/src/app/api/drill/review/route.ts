@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import {
+  drillFiltersSchema,
+  pickNextDrillCard,
+  recordDrillReview,
+  updateDrillDeck,
+} from "@/lib/drill";
+import { answerCheckAdjustment, type AnswerCheck, checkAnswerKey, formatAnswerCheckForPrompt } from "@/lib/answer-key";
+import { generateJson, LlmError } from "@/lib/llm";
+import { type GradeResponse, gradeResponseSchema } from "@/lib/mock-interview";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+import { loadQuestionBank } from "@/lib/question-bank";
+
+const LIMIT = 90;
+const WINDOW_MS = 10 * 60 * 1000;
+const MAX_ANSWER_CHARS = 4000;
+
+const reviewSchema = z
+  .object({
+    questionId: z.string().min(1),
+    userAnswer: z.string().default(""),
+    skipped: z.boolean().default(false),
+    filters: drillFiltersSchema.default({ firm: "All", questionType: "all", difficulty: "all" }),
+  })
+  .refine((body) => body.skipped || body.userAnswer.trim().length > 0, {
+    message: "Answer required unless skipped",
+  });
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof reviewSchema>;
+  try {
+    body = reviewSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  if (body.userAnswer.length > MAX_ANSWER_CHARS) {
+    return NextResponse.json({ error: "Answer too long", requestId }, { status: 413 });
+  }
+
+  const questions = loadQuestionBank();
+  const question = questions.find((q) => q.id === body.questionId);
+  if (!question) {
+    return NextResponse.json({ error: "Unknown question id", requestId }, { status: 400 });
+  }
+
+  // "I don't know" counts as a failed recall without spending a model call.
+  let grade: GradeResponse | null = null;
+  let answerCheck: AnswerCheck | null = null;
+  if (!body.skipped) {
+    answerCheck = question.answerKey ? checkAnswerKey(question.answerKey, body.userAnswer) : null;
+    const prompt = `Grade the user's answer to a finance interview flashcard.
+Return strict JSON with:
+score0to10 (0-10),
+strengths (array),
+gaps (array),
+correctedAnswerOutline (bullets),
+nextBestSentence (single sentence).
+
+Score 8-10 only for an answer that is correct, complete and interview-ready.
+Score below 5 when the core mechanics or conclusion are wrong or missing.
+
+Firm: ${question.firm}
+Question type: ${question.questionType}
+Difficulty: ${question.difficulty}/3
+${question.notes ? `Notes: ${question.notes}\n` : ""}
+Question: ${question.prompt}
+${answerCheck ? `\n${formatAnswerCheckForPrompt(answerCheck)}\n` : ""}
+User answer:
+${body.userAnswer}`;
+
+    try {
+      const { data: result } = await generateJson(gradeResponseSchema, {
+        route: "drill_grade",
+        messages: [
+          {
+            role: "system",
+            content: "You are a finance interview coach. Output valid JSON only, no markdown.",
+          },
+          { role: "user", content: prompt },
+        ],
+      });
+      const keyed = answerCheck ? answerCheckAdjustment(answerCheck) : { cap: 10, gaps: [] };
+      grade = {
+        ...result,
+        score0to10: Math.max(0, Math.min(10, keyed.cap, result.score0to10)),
+        gaps: [...keyed.gaps, ...result.gaps],
+      };
+    } catch (err) {
+      if (err instanceof LlmError && err.kind === "invalid_output") {
+        return NextResponse.json({ error: "Invalid grading output", requestId }, { status: 502 });
+      }
+      if (err instanceof LlmError) {
+        return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+      }
+      return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
+    }
+  }
+
+  try {
+    const { deck, result: state } = await updateDrillDeck(email, questions, (current) =>
+      recordDrillReview(current, question, grade?.score0to10 ?? 0)
+    );
+    const { card, stats } = pickNextDrillCard(questions, deck, body.filters, [question.id]);
+    return NextResponse.json({ grade, answerCheck, state, next: card, stats, requestId });
+  } catch {
+    return NextResponse.json({ error: "Failed to save drill progress", requestId }, { status: 500 });
+  }
+}
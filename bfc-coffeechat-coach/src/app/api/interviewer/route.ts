@@ -2,17 +2,24 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { buildDebugMeta, generateText, LlmError, type LlmMessage, streamText } from "@/lib/llm";
+import { type FirmProfile, findFirmProfile, formatFirmProfileForPrompt } from "@/lib/firm-profiles";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
+import { formatResumeForPrompt, type ResumeProfile } from "@/lib/resume-profile";
+import { getResume } from "@/lib/resumes";
+import { sseResponse } from "@/lib/streaming";
 
 const LIMIT = 30;
 const WINDOW_MS = 10 * 60 * 1000;
 const MAX_TOTAL_CHARS = 4000;
 const MAX_MESSAGE_CHARS = 1000;
-const MODEL = "gpt-4o-mini";
+const MAX_INTERVIEWER_CHARS = 280;
 
 type ScenarioPayload = {
   track: string;
   firmType: string;
+  /** A named target firm; its profile grounds the chat when data/firms/ has one. */
+  firm?: string;
   group: string;
   interviewerVibe: string;
   difficulty: string;
@@ -41,7 +48,9 @@ type InterviewerRequest = {
 function buildSystemPrompt(
   scenario: ScenarioPayload,
   hasUserMessages: boolean,
-  lastInterviewerText?: string
+  lastInterviewerText?: string,
+  resume?: ResumeProfile,
+  firmProfile?: FirmProfile
 ) {
   const phase = scenario.phase || "opening";
   const persona = scenario.persona;
@@ -67,6 +76,24 @@ function buildSystemPrompt(
     ? `\nYour last response was: "${lastInterviewerText}"\nDo NOT repeat or closely rephrase it. Ask a different follow-up.`
     : "";
 
+  const firmSection = firmProfile
+    ? `
+Facts about your firm (draw on them naturally; do not recite them):
+${formatFirmProfileForPrompt(firmProfile)}
+
+When the user explains why they want ${firmProfile.firm}, check it against these facts. Probe generic answers ("great culture", "top deals") by asking which group, deal or office they mean, and gently correct anything that contradicts the facts.
+`
+    : "";
+
+  const resumeSection = resume
+    ? `
+Candidate resume (you have read it before the chat):
+${formatResumeForPrompt(resume)}
+
+When the user mentions something from their resume, ask a specific follow-up on it rather than a generic one, e.g. "You said you led the model on that sale. What was the EBITDA?". Only cite details that are on the resume or in their answers.
+`
+    : "";
+
   return `You are a realistic finance coffee chat interviewer.
 - Ask exactly 1 question at a time.
 - Keep a warm, conversational tone (not an interview).
@@ -83,12 +110,12 @@ ${introGuard}${dedupLine}
 
 Scenario:
 - Track: ${scenario.track}
-- Firm type: ${scenario.firmType}
+- Firm type: ${scenario.firmType}${scenario.firm ? `\n- Firm: ${scenario.firm}` : ""}
 - Group: ${scenario.group}
 - Interviewer vibe: ${scenario.interviewerVibe}
 - Difficulty: ${scenario.difficulty}
 - Goal: ${scenario.goal}
-`;
+${firmSection}${resumeSection}`;
 }
 
 function truncateAtSentence(text: string, maxLen: number): string {
@@ -163,103 +190,84 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Payload too large", requestId }, { status: 413 });
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
-
   const hasUserMessages = messages.some((msg) => msg.role === "user");
+  // The chat runs fine without a resume, so a read failure is not worth surfacing.
+  const resume = await getResume(email).catch(() => null);
+  const llmMessages: LlmMessage[] = [
+    {
+      role: "system",
+      content: buildSystemPrompt(
+        scenario,
+        hasUserMessages,
+        lastInterviewerText || undefined,
+        resume?.profile,
+        findFirmProfile(scenario.firm) ?? undefined
+      ),
+    },
+    ...messages.map((msg) => ({
+      role: msg.role === "interviewer" ? ("assistant" as const) : ("user" as const),
+      content: msg.content,
+    })),
+  ];
 
-  const payload = {
-    model: MODEL,
-    input: [
-      {
-        role: "system",
-        content: buildSystemPrompt(
-          scenario,
-          hasUserMessages,
-          lastInterviewerText || undefined
-        ),
-      },
-      ...messages.map((msg) => ({
-        role: msg.role === "interviewer" ? "assistant" : "user",
-        content: msg.content,
-      })),
-    ],
-  };
+  if (req.headers.get("accept")?.includes("text/event-stream")) {
+    let stream: Awaited<ReturnType<typeof streamText>>;
+    try {
+      stream = await streamText({ route: "interviewer", messages: llmMessages });
+    } catch (err) {
+      if (err instanceof LlmError) {
+        return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+      }
+      return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
+    }
 
-  try {
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
+    // Events: "delta" {text} as tokens arrive, then "done" {interviewerText, requestId} with the
+    // trimmed final text, or "error" {error, requestId}.
+    return sseResponse(async (send) => {
+      let streamedText = "";
+      try {
+        for await (const chunk of stream.chunks) {
+          // Read a little past the cap so truncateAtSentence sees the overflow and cuts at a sentence end.
+          const piece = chunk.slice(0, MAX_INTERVIEWER_CHARS + 40 - streamedText.length);
+          if (piece) {
+            streamedText += piece;
+            send("delta", { text: piece });
+          }
+          if (streamedText.length >= MAX_INTERVIEWER_CHARS + 40) break;
+        }
+      } catch (err) {
+        send("error", { error: err instanceof LlmError ? err.message : "Upstream request failed", requestId });
+        return;
+      }
+      if (!streamedText.trim()) {
+        send("error", { error: "Empty model output", requestId });
+        return;
+      }
+      send("done", { interviewerText: truncateAtSentence(streamedText.trim(), MAX_INTERVIEWER_CHARS), requestId });
     });
+  }
 
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      return NextResponse.json(
-        { error: errorText || resp.statusText, requestId },
-        { status: 502 }
-      );
-    }
-
-    const data = await resp.json();
-    const outputText = extractOutputText(data);
+  try {
+    const result = await generateText({ route: "interviewer", messages: llmMessages });
+    const outputText = result.text;
 
     if (!outputText) {
       return NextResponse.json(
         {
           error: "Empty model output",
           requestId,
-          ...(process.env.NEXT_PUBLIC_DEBUG_INTERVIEW === "true"
-            ? buildDebugMeta(data, MODEL)
-            : {}),
+          ...(process.env.NEXT_PUBLIC_DEBUG_INTERVIEW === "true" ? buildDebugMeta(result) : {}),
         },
         { status: 502 }
       );
     }
 
-    const interviewerText = truncateAtSentence(outputText.trim(), 280);
+    const interviewerText = truncateAtSentence(outputText.trim(), MAX_INTERVIEWER_CHARS);
     return NextResponse.json({ interviewerText, requestId });
-  } catch {
-    return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
-  }
-}
-
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
     }
+    return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
-  return parts.join("").trim();
-}
-
-function buildDebugMeta(data: unknown, modelUsed: string) {
-  const payload = data as {
-    output?: Array<{ type?: string }>;
-    refusal?: unknown;
-  };
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  return {
-    modelUsed,
-    outputKeys: Object.keys((payload as Record<string, unknown>) || {}),
-    outputItemTypes: outputItems.map((item) => item?.type).filter(Boolean),
-    hadRefusal: Boolean(payload?.refusal),
-  };
 }
-
@@ -3,18 +3,36 @@ import { getServerSession } from "next-auth/next";
 import z from "zod/v4";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import {
+  type DeliverySummary,
+  deliveryMetricsSchema,
+  formatDeliveryForPrompt,
+  summarizeDelivery,
+} from "@/lib/delivery";
+import { getInterviewSession, type InterviewSession, updateInterviewSession } from "@/lib/interview-sessions";
+import { generateJson, generateText, LlmError } from "@/lib/llm";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
 import {
+  averageGradeScore,
+  type FinalReport,
+  finalReportSchema,
+  formatTiming,
+  hireBarByPressure,
   type InterviewMode,
+  type InterviewModeConfig,
   interviewModeConfigs,
+  questionTypeOptions,
+  recommendationFor,
+  recommendationSummary,
   settingsSchema,
   sumConversationChars,
 } from "@/lib/mock-interview";
 
 const LIMIT = 10;
 const WINDOW_MS = 10 * 60 * 1000;
-const MODEL = "gpt-4o-mini";
 const MAX_HISTORY_CHARS = 8000;
+const MAX_TRANSCRIPT_CHARS = 60000;
+const MAX_DELIVERY_ANSWERS = 50;
 
 const conversationSchema = z.object({
   role: z.enum(["interviewer", "user"]),
@@ -26,6 +44,10 @@ const endSchema = z.object({
   interviewMode: z.string().optional(),
   askedQuestionIds: z.array(z.string()).default([]),
   conversation: z.array(conversationSchema).default([]),
+  sessionId: z.string().optional(),
+  fullConversation: z.array(conversationSchema).optional(),
+  /** Per-answer delivery metrics measured by the client, in answer order. */
+  delivery: z.array(deliveryMetricsSchema).max(MAX_DELIVERY_ANSWERS).default([]),
 });
 
 function buildSummaryPrompt(
@@ -33,7 +55,8 @@ function buildSummaryPrompt(
   conversation: string,
   modeLabel: string,
   modeContext: string,
-  gradingFocus: string
+  gradingFocus: string,
+  delivery: DeliverySummary | null
 ) {
   return `Provide a final summary for a ${modeLabel} mock interview.
 Include:
@@ -42,33 +65,97 @@ Include:
 - Best 3 follow-up questions tailored to the scenario
 - Overall readiness assessment for this interview type
 ${gradingFocus ? `- Apply this grading lens: ${gradingFocus}` : ""}
+${delivery ? "- One line on delivery, using the measured metrics below" : ""}
 ${modeContext ? `\nInterview context:\n${modeContext}\n` : ""}
 Settings:
 - Firm: ${settings.firm}
 - Stage: ${settings.stage}
+${delivery ? `\nDelivery metrics (measured from speech timing):\n${formatDeliveryForPrompt(delivery)}\n` : ""}
+Conversation:
+${conversation}`;
+}
+
+function buildReportPrompt(
+  settings: z.infer<typeof settingsSchema>,
+  conversation: string,
+  modeConfig: InterviewModeConfig,
+  session: InterviewSession | null,
+  delivery: DeliverySummary | null
+) {
+  const questions = session?.plan.length
+    ? session.plan.map((item) => `${item.qIndex}. [${item.type}] ${item.interviewerQuestion}`).join("\n")
+    : "";
+  const grades = session?.grades.length
+    ? session.grades
+        .map(
+          (entry) =>
+            `- Q${entry.qIndex}: ${entry.grade.score0to10}/10${entry.timing ? ` (${formatTiming(entry.timing)})` : ""}`
+        )
+        .join("\n")
+    : "";
+  const bar = hireBarByPressure[modeConfig.pressureLevel];
+  return `Write the final report for a ${modeConfig.label} mock interview. Output strict JSON only.
 
+Return JSON with keys:
+- overallScore0to10 (number 0-10)
+- categoryScores (object keyed by question type, only for types that were asked; each value is { score0to10, comment }). Question types: ${questionTypeOptions.join(", ")}
+- recommendation (hire, lean_hire, lean_no_hire or no_hire)
+- recommendationRationale (one or two sentences)
+- strengths (array of 1-5 strings)
+- gaps (array of 1-5 strings)
+- studyPlan (array of 1-6 items { topic, action, questionType }, highest priority first)
+
+Calibration: this interview runs at ${modeConfig.pressureLevel} pressure. A hire needs an overall score of at least ${bar}/10. One point below the bar is lean_hire, two below is lean_no_hire, and anything lower is no_hire.
+${modeConfig.gradingFocus ? `Grading lens: ${modeConfig.gradingFocus}\n` : ""}
+Settings:
+- Firm: ${settings.firm}
+- Stage: ${settings.stage}
+${questions ? `\nQuestions asked:\n${questions}\n` : ""}${grades ? `\nPer-answer grades:\n${grades}\n` : ""}${
+    delivery ? `\nDelivery metrics (measured from speech timing):\n${formatDeliveryForPrompt(delivery)}\n` : ""
+  }
 Conversation:
 ${conversation}`;
 }
 
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
+/**
+ * Replaces the model's scores with the per-answer grades wherever the
+ * session has them, so reports stay comparable across sessions, then
+ * derives the recommendation from the overall score and the mode's bar.
+ * The rationale opens with the score against the bar; the model's own
+ * rationale is kept only when it argued for the same recommendation.
+ */
+function groundReport(
+  report: FinalReport,
+  session: InterviewSession | null,
+  pressureLevel: InterviewModeConfig["pressureLevel"]
+): FinalReport {
+  const categoryScores = { ...report.categoryScores };
+  let overallScore0to10 = report.overallScore0to10;
+  if (session && session.grades.length > 0) {
+    const typeByIndex = new Map(session.plan.map((item) => [item.qIndex, item.type]));
+    for (const type of questionTypeOptions) {
+      const average = averageGradeScore(session.grades.filter((entry) => typeByIndex.get(entry.qIndex) === type));
+      if (average === null) continue;
+      categoryScores[type] = {
+        score0to10: average,
+        comment: categoryScores[type]?.comment ?? "Scored from the per-answer grades.",
+      };
     }
+    overallScore0to10 = averageGradeScore(session.grades) ?? overallScore0to10;
   }
-  return parts.join("").trim();
+  const recommendation = recommendationFor(overallScore0to10, pressureLevel);
+  const summary = recommendationSummary(overallScore0to10, pressureLevel);
+  const graded = session?.grades.length ?? 0;
+  const planned = session?.plan.length ?? 0;
+  return {
+    ...report,
+    overallScore0to10,
+    categoryScores,
+    recommendation,
+    recommendationRationale:
+      report.recommendation === recommendation ? `${summary} ${report.recommendationRationale}` : summary,
+    partial: session && graded < planned ? { graded, planned } : null,
+  };
 }
 
 export async function POST(req: Request) {
@@ -110,6 +197,9 @@ export async function POST(req: Request) {
   if (sumConversationChars(body.conversation) > MAX_HISTORY_CHARS) {
     return NextResponse.json({ error: "Conversation history too long", requestId }, { status: 413 });
   }
+  if (body.fullConversation && sumConversationChars(body.fullConversation) > MAX_TRANSCRIPT_CHARS) {
+    return NextResponse.json({ error: "Transcript too long", requestId }, { status: 413 });
+  }
 
   const mode = (body.interviewMode || "standard") as InterviewMode;
   const modeConfig = interviewModeConfigs[mode] || interviewModeConfigs.standard;
@@ -118,55 +208,83 @@ export async function POST(req: Request) {
     .map((msg) => `${msg.role === "interviewer" ? "Interviewer" : "User"}: ${msg.content}`)
     .join("\n");
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
+  const delivery = body.delivery.length > 0 ? summarizeDelivery(body.delivery, "interview") : null;
+  const storedSession = body.sessionId ? await getInterviewSession(body.sessionId, email) : null;
+  const transcriptText = (body.fullConversation ?? body.conversation)
+    .map((msg) => `${msg.role === "interviewer" ? "Interviewer" : "User"}: ${msg.content}`)
+    .join("\n");
 
-  try {
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
+  // The report runs alongside the prose summary; if it fails the summary still comes back.
+  const reportRequest = generateJson(finalReportSchema, {
+    route: "mock_interview_report",
+    messages: [
+      {
+        role: "system",
+        content: `You are a hiring committee member scoring ${modeConfig.label} interviews. Output must be JSON only, no markdown.`,
       },
-      body: JSON.stringify({
-        model: MODEL,
-        input: [
-          {
-            role: "system",
-            content: `You are a mock interview coach specializing in ${modeConfig.label} interviews. Keep the summary concise and practical.`,
-          },
-          {
-            role: "user",
-            content: buildSummaryPrompt(
-              body.settings,
-              conversationText,
-              modeConfig.label,
-              modeConfig.promptContext,
-              modeConfig.gradingFocus
-            ),
-          },
-        ],
-      }),
-    });
-
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      return NextResponse.json(
-        { error: errorText || resp.statusText, requestId },
-        { status: 502 }
+      {
+        role: "user",
+        content: buildReportPrompt(body.settings, transcriptText, modeConfig, storedSession, delivery),
+      },
+    ],
+  }).then(
+    (result) => groundReport(result.data, storedSession, modeConfig.pressureLevel),
+    (err: unknown) => {
+      console.info(
+        `[mock-interview/end] report failed ${requestId}: ${err instanceof Error ? err.message : "unknown error"}`
       );
+      return null;
     }
+  );
+
+  try {
+    const result = await generateText({
+      route: "mock_interview_end",
+      messages: [
+        {
+          role: "system",
+          content: `You are a mock interview coach specializing in ${modeConfig.label} interviews. Keep the summary concise and practical.`,
+        },
+        {
+          role: "user",
+          content: buildSummaryPrompt(
+            body.settings,
+            conversationText,
+            modeConfig.label,
+            modeConfig.promptContext,
+            modeConfig.gradingFocus,
+            delivery
+          ),
+        },
+      ],
+    });
 
-    const data = await resp.json();
-    const finalSummary = extractOutputText(data);
+    const finalSummary = result.text;
     if (!finalSummary) {
       return NextResponse.json({ error: "Empty model output", requestId }, { status: 502 });
     }
+    const report = await reportRequest;
 
-    return NextResponse.json({ finalSummary, requestId });
-  } catch {
+    if (body.sessionId) {
+      try {
+        await updateInterviewSession(body.sessionId, email, (stored) => ({
+          ...stored,
+          status: "completed",
+          conversation: body.fullConversation ?? body.conversation,
+          finalSummary,
+          report,
+          delivery,
+        }));
+      } catch {
+        console.info(`[mock-interview/end] session save failed ${requestId}`);
+      }
+    }
+
+    return NextResponse.json({ finalSummary, report, delivery, requestId });
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
     return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
 }
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { verifyExerciseParams } from "@/lib/exercise-tokens";
+import { exerciseParamsSchema, gradeWorksheet, worksheetInputsSchema } from "@/lib/modeling-exercises";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+
+const LIMIT = 60;
+const WINDOW_MS = 10 * 60 * 1000;
+
+const gradeSchema = z.object({
+  params: exerciseParamsSchema,
+  /** Signature from /api/mock-interview/exercise over the params. */
+  token: z.string().min(1).max(200),
+  inputs: worksheetInputsSchema,
+});
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof gradeSchema>;
+  try {
+    body = gradeSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  if (!verifyExerciseParams(email, body.params, body.token)) {
+    return NextResponse.json({ error: "Exercise was not issued by the server", requestId }, { status: 400 });
+  }
+
+  return NextResponse.json({ result: gradeWorksheet(body.params, body.inputs), requestId });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { signExerciseParams } from "@/lib/exercise-tokens";
+import { exerciseKindSchema, generateExercise } from "@/lib/modeling-exercises";
+import { type InterviewMode, interviewModeConfigs } from "@/lib/mock-interview";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+
+const LIMIT = 60;
+const WINDOW_MS = 10 * 60 * 1000;
+
+const exerciseSchema = z.object({
+  kind: exerciseKindSchema,
+  interviewMode: z.string(),
+});
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof exerciseSchema>;
+  try {
+    body = exerciseSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  // Worksheets are only offered by the modes that list them.
+  const modeConfig = Object.hasOwn(interviewModeConfigs, body.interviewMode)
+    ? interviewModeConfigs[body.interviewMode as InterviewMode]
+    : undefined;
+  if (!modeConfig?.exercises.includes(body.kind)) {
+    return NextResponse.json({ error: "Exercise not offered in this mode", requestId }, { status: 400 });
+  }
+
+  // Only the inputs go to the client; grading solves the model again from them
+  // and only for inputs signed here, so a client cannot pick its own numbers.
+  const exercise = generateExercise(body.kind);
+  return NextResponse.json({ exercise, token: signExerciseParams(email, exercise.params), requestId });
+}
@@ -3,24 +3,51 @@ import { getServerSession } from "next-auth/next";
 import z from "zod/v4";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { generateJson, LlmError } from "@/lib/llm";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
 import {
+  type Adaptation,
+  type AnsweredQuestion,
+  decideAdaptation,
+  pickAdaptiveSeed,
+  planItemDifficulty,
+  planItemFromSeed,
+} from "@/lib/adaptive-difficulty";
+import { answerCheckAdjustment, checkAnswerKey, formatAnswerCheckForPrompt } from "@/lib/answer-key";
+import { findFirmProfile, formatFirmProfileForPrompt } from "@/lib/firm-profiles";
+import { type InterviewSession, recordSessionAdaptation, recordSessionGrade } from "@/lib/interview-sessions";
+import {
+  answerTimingSchema,
+  type GradeResponse,
+  gradeResponseSchema,
   type InterviewMode,
   interviewModeConfigs,
-  questionTypeSchema,
+  type PlanItem,
+  planItemSchema,
+  questionTypeOptions,
+  timingPenalty,
 } from "@/lib/mock-interview";
+import { loadQuestionBank } from "@/lib/question-bank";
+import {
+  formatStoryForPrompt,
+  groundStoryComparison,
+  parseStoryComparison,
+  rankStoriesForQuestion,
+  type StoryComparison,
+} from "@/lib/star-stories";
+import { generateStatementDrills } from "@/lib/statement-drills";
+import { listStories } from "@/lib/story-bank";
 
 const LIMIT = 90;
 const WINDOW_MS = 10 * 60 * 1000;
-const MODEL = "gpt-4o-mini";
 const MAX_ANSWER_CHARS = 4000;
+const ADAPTIVE_DRILL_CANDIDATES = 8;
+const MAX_PROMPT_STORIES = 4;
 
-const planItemSchema = z.object({
-  qIndex: z.number().int().min(1),
-  type: questionTypeSchema,
-  interviewerQuestion: z.string().min(1),
-  expectedRubric: z.string().min(1),
-  idealAnswerOutline: z.string().min(1),
+// The grader also says which stored story a behavioral answer retells, if any.
+// It is read leniently afterwards so a malformed comparison never fails the grade.
+const storyGradeSchema = gradeResponseSchema.extend({
+  storyComparison: z.unknown(),
 });
 
 const gradeSchema = z.object({
@@ -29,53 +56,54 @@ const gradeSchema = z.object({
   firm: z.string(),
   stage: z.string(),
   interviewMode: z.string().optional(),
+  sessionId: z.string().optional(),
+  /** Sent in timed mode. */
+  timing: answerTimingSchema.optional(),
 });
 
-const gradeResponseSchema = z.object({
-  score0to10: z.number().min(0).max(10),
-  strengths: z.array(z.string()).min(1),
-  gaps: z.array(z.string()).min(1),
-  correctedAnswerOutline: z.string().min(1),
-  nextBestSentence: z.string().min(1),
-});
+/**
+ * In adaptive mode, retargets the question after `qIndex` from the grades
+ * stored so far. Returns null when the planned question already fits or
+ * the bank has nothing better.
+ */
+function adaptNextQuestion(session: InterviewSession, qIndex: number) {
+  const next = session.plan.find((item) => item.qIndex === qIndex + 1);
+  if (!next) return null;
+  const itemsByIndex = new Map(session.plan.map((item) => [item.qIndex, item]));
+  const answered: AnsweredQuestion[] = session.grades.flatMap((entry) => {
+    const item = itemsByIndex.get(entry.qIndex);
+    if (!item || entry.qIndex > qIndex) return [];
+    return [{ qIndex: entry.qIndex, type: item.type, difficulty: planItemDifficulty(item), score: entry.grade.score0to10 }];
+  });
+  const selected = session.settings.questionTypes;
+  const allowedTypes =
+    selected.length === 0 || selected.includes("all")
+      ? questionTypeOptions
+      : questionTypeOptions.filter((type) => selected.includes(type));
 
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
-    }
-  }
-  return parts.join("").trim();
-}
+  const target = decideAdaptation(answered, next, allowedTypes);
+  if (!target) return null;
+  // Generated drills give accounting a basic tier the bank lacks.
+  const questions = session.settings.statementDrills
+    ? [...loadQuestionBank(), ...generateStatementDrills(ADAPTIVE_DRILL_CANDIDATES)]
+    : loadQuestionBank();
+  const seed = pickAdaptiveSeed(questions, target, {
+    firm: session.settings.firm,
+    stage: session.settings.stage,
+    excludeIds: session.plan.flatMap((item) => (item.seedId ? [item.seedId] : [])),
+  });
+  if (!seed) return null;
 
-function parseJsonFromText(text: string) {
-  if (!text) return null;
-  const stripped = text.replace(/^```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/i, "").trim();
-  try {
-    return JSON.parse(stripped);
-  } catch {
-    const start = stripped.indexOf("{");
-    const end = stripped.lastIndexOf("}");
-    if (start !== -1 && end !== -1 && end > start) {
-      try {
-        return JSON.parse(stripped.slice(start, end + 1));
-      } catch {
-        return null;
-      }
-    }
-  }
-  return null;
+  const planItem: PlanItem = planItemFromSeed(seed, next.qIndex);
+  const adaptation: Adaptation = {
+    afterQIndex: qIndex,
+    direction: target.direction,
+    reason: target.reason,
+    from: { type: next.type, difficulty: planItemDifficulty(next), question: next.interviewerQuestion },
+    to: { type: planItem.type, difficulty: planItemDifficulty(planItem), question: planItem.interviewerQuestion },
+    at: new Date().toISOString(),
+  };
+  return { adaptation, planItem };
 }
 
 export async function POST(req: Request) {
@@ -118,11 +146,6 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Answer too long", requestId }, { status: 413 });
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
-
   const mode = (body.interviewMode || "standard") as InterviewMode;
   const modeConfig = interviewModeConfigs[mode] || interviewModeConfigs.standard;
   const gradingFocus = modeConfig.gradingFocus ? `\nGrading focus: ${modeConfig.gradingFocus}\n` : "";
@@ -146,6 +169,38 @@ export async function POST(req: Request) {
   };
 
   const typeHint = typeGuidance[body.planItem.type] || "";
+  const answerCheck = body.planItem.answerKey ? checkAnswerKey(body.planItem.answerKey, body.userAnswer) : null;
+  const answerCheckSection = answerCheck ? `\n${formatAnswerCheckForPrompt(answerCheck)}\n` : "";
+
+  // Firm facts let the grader judge how specific a "why this firm" answer is.
+  const firmProfile = body.planItem.type === "behavioral" ? findFirmProfile(body.firm) : null;
+  const firmSection = firmProfile
+    ? `
+Firm facts for ${firmProfile.firm}:
+${formatFirmProfileForPrompt(firmProfile)}
+
+If the answer talks about the firm, judge its specificity against these facts: credit accurate specifics (a group, a deal, a culture point, an office), list claims that contradict them as gaps, and do not penalize true facts that are missing from this list. Generic praise that fits any bank is a gap.
+`
+    : "";
+
+  // The story bank is optional context, so a read failure grades without it.
+  const stories =
+    body.planItem.type === "behavioral"
+      ? rankStoriesForQuestion(
+          await listStories(email).catch(() => []),
+          body.planItem.interviewerQuestion,
+          MAX_PROMPT_STORIES
+        )
+      : [];
+  const storySection =
+    stories.length > 0
+      ? `
+The user keeps these STAR stories in a story bank (id in brackets):
+${stories.map((story) => formatStoryForPrompt(story)).join("\n\n")}
+
+Also return storyComparison: { storyId (the bracketed id of the stored story this answer retells, or "" if none), verdict ("improves" if the answer adds specifics or a stronger result than the stored version, "matches" if it tells it about as well, "weaker" if it drops numbers, actions or the result, "no_match" if it tells none of them), notes (max 3: what the answer added or left out compared with the stored version) }.
+`
+      : "";
 
   const prompt = `Grade the user's answer against the rubric and ideal outline.
 Return strict JSON with:
@@ -169,58 +224,76 @@ ${body.planItem.expectedRubric}
 
 Ideal outline:
 ${body.planItem.idealAnswerOutline}
-
+${answerCheckSection}${firmSection}${storySection}
 User answer:
 ${body.userAnswer}`;
 
+  let grade: GradeResponse;
+  let storyComparison: StoryComparison | null = null;
   try {
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        input: [
-          {
-            role: "system",
-            content:
-              "You are a finance interview coach. Output valid JSON only, no markdown.",
-          },
-          { role: "user", content: prompt },
-        ],
-        text: { format: { type: "json_object" } },
-      }),
+    const { data: result } = await generateJson(storyGradeSchema, {
+      route: "mock_interview_grade",
+      messages: [
+        {
+          role: "system",
+          content:
+            "You are a finance interview coach. Output valid JSON only, no markdown.",
+        },
+        { role: "user", content: prompt },
+      ],
     });
 
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      return NextResponse.json(
-        { error: errorText || resp.statusText, requestId },
-        { status: 502 }
-      );
-    }
-
-    const data = await resp.json();
-    const outputText = extractOutputText(data);
-    const parsed = parseJsonFromText(outputText);
-    const validated = gradeResponseSchema.safeParse(parsed);
-    if (!validated.success) {
-      return NextResponse.json({ error: "Invalid grading output", requestId }, { status: 502 });
-    }
-
-    const result = validated.data;
-    const score0to10 = Math.max(0, Math.min(10, result.score0to10));
-    return NextResponse.json({
-      score0to10,
+    // Time and keyed figures are scored here rather than by the model, so the
+    // deduction is the same for every answer.
+    const penalty = body.timing ? timingPenalty(body.timing) : { points: 0, gaps: [] };
+    const keyed = answerCheck ? answerCheckAdjustment(answerCheck) : { cap: 10, gaps: [] };
+    grade = {
+      score0to10: Math.max(0, Math.min(10, keyed.cap, result.score0to10) - penalty.points),
       strengths: result.strengths,
-      gaps: result.gaps,
+      gaps: [...keyed.gaps, ...penalty.gaps, ...result.gaps],
       correctedAnswerOutline: result.correctedAnswerOutline,
       nextBestSentence: result.nextBestSentence,
-      requestId,
-    });
-  } catch {
+    };
+    const comparison = stories.length > 0 ? parseStoryComparison(result.storyComparison) : null;
+    storyComparison = comparison ? groundStoryComparison(comparison, stories) : null;
+  } catch (err) {
+    if (err instanceof LlmError && err.kind === "invalid_output") {
+      return NextResponse.json({ error: "Invalid grading output", requestId }, { status: 502 });
+    }
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
     return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
+
+  // A failed save should not cost the user their feedback.
+  let adapted: ReturnType<typeof adaptNextQuestion> = null;
+  if (body.sessionId) {
+    try {
+      const stored = await recordSessionGrade(body.sessionId, email, {
+        qIndex: body.planItem.qIndex,
+        userAnswer: body.userAnswer,
+        grade,
+        timing: body.timing ?? null,
+        answerCheck,
+        storyComparison,
+      });
+      adapted = stored?.settings.adaptive ? adaptNextQuestion(stored, body.planItem.qIndex) : null;
+      if (adapted) {
+        await recordSessionAdaptation(body.sessionId, email, adapted.adaptation, adapted.planItem);
+      }
+    } catch {
+      adapted = null;
+      console.info(`[mock-interview/grade] session save failed ${requestId}`);
+    }
+  }
+
+  return NextResponse.json({
+    ...grade,
+    answerCheck,
+    storyComparison,
+    adaptation: adapted?.adaptation ?? null,
+    nextPlanItem: adapted?.planItem ?? null,
+    requestId,
+  });
 }
@@ -3,12 +3,21 @@ import { getServerSession } from "next-auth/next";
 import z from "zod/v4";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { planItemFromSeed } from "@/lib/adaptive-difficulty";
+import { keepsFigures } from "@/lib/answer-key";
+import { generateJson, LlmError } from "@/lib/llm";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
-import { loadQuestionBank } from "@/lib/question-bank";
+import { loadQuestionBank, type QuestionRecord } from "@/lib/question-bank";
+import { generateStatementDrills } from "@/lib/statement-drills";
+import { findFirmProfile, formatFirmProfileForPrompt } from "@/lib/firm-profiles";
+import { createInterviewSession } from "@/lib/interview-sessions";
+import { formatResumeForPrompt } from "@/lib/resume-profile";
+import { getResume } from "@/lib/resumes";
 import {
   capText,
   type InterviewMode,
   interviewModeConfigs,
+  type PlanItem,
   questionTypeOptions,
   settingsSchema,
   questionTypeSchema,
@@ -16,7 +25,6 @@ import {
 
 const LIMIT = 20;
 const WINDOW_MS = 10 * 60 * 1000;
-const MODEL = "gpt-4o-mini";
 
 const planSchema = z.object({
   firm: z.string(),
@@ -25,58 +33,16 @@ const planSchema = z.object({
   numQuestions: z.number().min(1).max(12).default(6),
   randomize: z.boolean().optional(),
   interviewMode: z.string().optional(),
-});
-
-const planItemSchema = z.object({
-  qIndex: z.number().int().min(1),
-  type: questionTypeSchema,
-  interviewerQuestion: z.string().min(1),
-  expectedRubric: z.string().min(1),
-  idealAnswerOutline: z.string().min(1),
+  followUps: z.boolean().optional(),
+  adaptive: z.boolean().optional(),
+  statementDrills: z.boolean().optional(),
+  useResume: z.boolean().optional(),
+  timed: settingsSchema.shape.timed,
 });
 
 // Plan items are coerced manually from the model response instead of
 // strict schema validation, to handle model output variations gracefully.
-
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
-    }
-  }
-  return parts.join("").trim();
-}
-
-function parseJsonFromText(text: string) {
-  if (!text) return null;
-  // Strip markdown code fences if present
-  const stripped = text.replace(/^```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/i, "").trim();
-  try {
-    return JSON.parse(stripped);
-  } catch {
-    const start = stripped.indexOf("{");
-    const end = stripped.lastIndexOf("}");
-    if (start !== -1 && end !== -1 && end > start) {
-      try {
-        return JSON.parse(stripped.slice(start, end + 1));
-      } catch {
-        return null;
-      }
-    }
-  }
-  return null;
-}
+const rawPlanResponseSchema = z.record(z.string(), z.unknown());
 
 function normalizeTypes(types: string[]) {
   if (!types || types.length === 0 || types.includes("all")) {
@@ -85,6 +51,19 @@ function normalizeTypes(types: string[]) {
   return types.filter((type) => questionTypeOptions.includes(type as (typeof questionTypeOptions)[number]));
 }
 
+// One seed per near-duplicate cluster, so the plan never asks the same concept twice.
+// Runs on the already filtered pool: a cluster's first record usually belongs to
+// another firm, and deduping the whole bank would drop it from this firm's pool.
+function dedupeByConcept(questions: ReturnType<typeof loadQuestionBank>) {
+  const seen = new Set<string>();
+  return questions.filter((question) => {
+    const key = question.canonicalId ?? question.id;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 function selectSeeds(
   questions: ReturnType<typeof loadQuestionBank>,
   firm: string,
@@ -92,25 +71,34 @@ function selectSeeds(
   types: string[]
 ) {
   const normalizedTypes = normalizeTypes(types);
-  const byFirmStageType = questions.filter(
-    (question) =>
-      question.firm === firm &&
-      question.stage === stage &&
-      normalizedTypes.includes(question.questionType)
-  );
-  if (byFirmStageType.length > 0) return { seeds: byFirmStageType, seedCount: byFirmStageType.length };
-
-  const byFirmStage = questions.filter(
-    (question) => question.firm === firm && question.stage === stage
-  );
-  if (byFirmStage.length > 0) return { seeds: byFirmStage, seedCount: byFirmStage.length };
-
-  const byFirm = questions.filter((question) => question.firm === firm);
-  if (byFirm.length > 0) return { seeds: byFirm, seedCount: byFirm.length };
-
+  const firmQuestions = questions.filter((question) => question.firm === firm);
+  const pools = [
+    firmQuestions.filter(
+      (question) => question.stage === stage && normalizedTypes.includes(question.questionType)
+    ),
+    firmQuestions.filter((question) => question.stage === stage),
+    firmQuestions,
+  ];
+  for (const pool of pools) {
+    const seeds = dedupeByConcept(pool);
+    if (seeds.length > 0) return { seeds, seedCount: seeds.length };
+  }
   return { seeds: [], seedCount: 0 };
 }
 
+// Every third question is a generated drill, so they are spread through the interview.
+function interleaveDrills(plan: PlanItem[], drills: QuestionRecord[]) {
+  const merged: PlanItem[] = [];
+  const queue = [...drills];
+  for (const item of plan) {
+    merged.push(item);
+    const drill = merged.length % 3 === 2 ? queue.shift() : undefined;
+    if (drill) merged.push(planItemFromSeed(drill, 0));
+  }
+  merged.push(...queue.map((drill) => planItemFromSeed(drill, 0)));
+  return merged.map((item, idx) => ({ ...item, qIndex: idx + 1 }));
+}
+
 function shuffle<T>(arr: T[]) {
   const copy = [...arr];
   for (let i = copy.length - 1; i > 0; i -= 1) {
@@ -169,17 +157,20 @@ export async function POST(req: Request) {
   }
 
   const targetCount = Math.min(body.numQuestions, Math.max(1, seedCount));
+  const drillCount =
+    body.statementDrills && targetCount > 1 && normalizeTypes(body.questionTypes).includes("accounting")
+      ? Math.max(1, Math.floor(targetCount / 3))
+      : 0;
+  // A missing or unreadable resume just means a plan without resume questions.
+  const resume = body.useResume ? await getResume(email).catch(() => null) : null;
+  const resumeCount = resume && targetCount - drillCount > 1 ? Math.max(1, Math.floor(targetCount / 4)) : 0;
+  const bankCount = targetCount - drillCount - resumeCount;
   const seedPool = body.randomize ? shuffle(seeds) : seeds;
   const seedSlice = seedPool.slice(0, Math.min(seedPool.length, Math.max(8, targetCount)));
   const seedList = seedSlice
     .map((seed, idx) => `${idx + 1}. [${seed.questionType}] ${seed.prompt}`)
     .join("\n");
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
-
   const mode = (body.interviewMode || "standard") as InterviewMode;
   const modeConfig = interviewModeConfigs[mode] || interviewModeConfigs.standard;
   const modeContext = modeConfig.promptContext
@@ -193,8 +184,26 @@ export async function POST(req: Request) {
 - Types available: ${[...new Set(seeds.map(s => s.questionType))].join(", ")}
 - Difficulty range: ${Math.min(...seeds.map(s => s.difficulty))}-${Math.max(...seeds.map(s => s.difficulty))}
 Ensure questions progress from easier to harder. Mix question types for a realistic interview flow.`;
+  const resumeSection =
+    resume && resumeCount > 0
+      ? `
+Resume questions: ${resumeCount}
+Make the first ${resumeCount} plan items resume questions instead of seed questions. Each one names a specific experience, deal or figure from the candidate's resume below and probes it the way an interviewer would, e.g. "You said you led the buyer outreach on the SaaS sale. What was the EBITDA, and what multiple did it clear at?". Use the type the question tests (behavioral unless it asks for technical detail), omit seedIndex, and add resumeItem: the resume line it is about, copied as written.
+
+Candidate resume:
+${formatResumeForPrompt(resume.profile)}
+`
+      : "";
+  const firmProfile = findFirmProfile(body.firm);
+  const firmSection = firmProfile
+    ? `
+Firm profile (facts to ground firm-specific questions; do not contradict them):
+${formatFirmProfileForPrompt(firmProfile)}
+For questions about this firm, such as "Why ${firmProfile.firm}?", base expectedRubric and idealAnswerOutline on specifics from the profile (groups, deals, culture, offices) so the grader can check the answer against them.
+`
+    : "";
   const prompt = `You are creating a mock interview plan. Use the seed questions below as grounding.
-Create a plan of ${targetCount} questions. Questions should be similar or rephrased, not invented.
+Create a plan of ${bankCount + resumeCount} questions. Apart from resume questions, questions should be similar or rephrased, not invented. Keep every figure from a seed question exactly as given.
 Return strict JSON with the shape: { "plan": [ ... ] }.
 
 Each plan item must include:
@@ -203,6 +212,7 @@ Each plan item must include:
 - interviewerQuestion (<= 280 characters)
 - expectedRubric (bullet rubric, speak-independent)
 - idealAnswerOutline (bullets)
+- seedIndex (number of the seed question it is based on; each seed at most once)
 
 Firm: ${body.firm}
 Stage: ${body.stage}
@@ -210,51 +220,22 @@ Interview mode: ${modeConfig.label}
 ${modeContext}
 Seed questions:
 ${seedList}
-
+${resumeSection}${firmSection}
 ${bankStats}`;
 
   try {
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        input: [
-          {
-            role: "system",
-            content:
-              "You are a structured planner. Output valid JSON only, no markdown or commentary.",
-          },
-          { role: "user", content: prompt },
-        ],
-        text: { format: { type: "json_object" } },
-      }),
+    const { data: parsed } = await generateJson(rawPlanResponseSchema, {
+      route: "mock_interview_plan",
+      messages: [
+        {
+          role: "system",
+          content:
+            "You are a structured planner. Output valid JSON only, no markdown or commentary.",
+        },
+        { role: "user", content: prompt },
+      ],
     });
 
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      return NextResponse.json(
-        { error: errorText || resp.statusText, requestId },
-        { status: 502 }
-      );
-    }
-
-    const data = await resp.json();
-    const outputText = extractOutputText(data);
-    if (!outputText) {
-      return NextResponse.json({ error: "Empty model response", requestId }, { status: 502 });
-    }
-    const parsed = parseJsonFromText(outputText);
-    if (!parsed || typeof parsed !== "object") {
-      return NextResponse.json(
-        { error: "Could not parse model response as JSON", requestId },
-        { status: 502 }
-      );
-    }
-
     // The model may use "plan", "questions", "interview_plan", or other keys
     const rawPlan: unknown[] = Array.isArray(parsed.plan)
       ? parsed.plan
@@ -273,22 +254,33 @@ ${bankStats}`;
 
     // Coerce each item into a valid plan item instead of strict schema validation
     const validTypes = new Set(["behavioral", "accounting", "valuation", "lbo", "merger_math", "market", "brainteaser", "other"]);
-    const plan: z.infer<typeof planItemSchema>[] = [];
-    for (let i = 0; i < Math.min(rawPlan.length, targetCount); i++) {
+    const plan: PlanItem[] = [];
+    for (let i = 0; i < Math.min(rawPlan.length, bankCount + resumeCount); i++) {
       const raw = rawPlan[i] as Record<string, unknown> | null;
       if (!raw || typeof raw !== "object") continue;
 
       const questionText = String(raw.interviewerQuestion || raw.question || raw.text || "");
       if (!questionText) continue;
 
+      const seedIndex = Number(raw.seedIndex);
+      const seed = Number.isInteger(seedIndex) ? seedSlice[seedIndex - 1] : undefined;
+      // A keyed question must ask about the figures its key was written for.
+      const keyedQuestion =
+        seed?.answerKey && !keepsFigures(seed.prompt, questionText) ? seed.prompt : questionText;
       plan.push({
         qIndex: i + 1,
         type: (typeof raw.type === "string" && validTypes.has(raw.type)
           ? raw.type
           : "other") as z.infer<typeof questionTypeSchema>,
-        interviewerQuestion: capText(questionText, 280),
+        interviewerQuestion: capText(keyedQuestion, 280),
         expectedRubric: String(raw.expectedRubric || raw.rubric || raw.expected_rubric || "Evaluate accuracy, structure, and depth."),
         idealAnswerOutline: String(raw.idealAnswerOutline || raw.ideal_answer || raw.ideal_answer_outline || "Provide a structured, specific answer."),
+        ...(seed?.askedAtFirms ? { askedAtFirms: seed.askedAtFirms } : {}),
+        ...(seed ? { difficulty: seed.difficulty, seedId: seed.canonicalId ?? seed.id } : {}),
+        ...(seed?.answerKey ? { answerKey: seed.answerKey } : {}),
+        ...(!seed && resumeCount > 0 && typeof raw.resumeItem === "string" && raw.resumeItem.trim()
+          ? { resumeItem: capText(raw.resumeItem.trim(), 280) }
+          : {}),
       });
     }
 
@@ -299,12 +291,42 @@ ${bankStats}`;
       );
     }
 
+    const interviewPlan = drillCount > 0 ? interleaveDrills(plan, generateStatementDrills(drillCount)) : plan;
+
+    let sessionId: string | null = null;
+    try {
+      const stored = await createInterviewSession({
+        userEmail: email,
+        settings: {
+          firm: body.firm,
+          stage: body.stage,
+          questionTypes: body.questionTypes,
+          randomize: body.randomize ?? true,
+          followUps: body.followUps ?? true,
+          adaptive: body.adaptive ?? false,
+          statementDrills: body.statementDrills ?? false,
+          useResume: resumeCount > 0,
+          timed: body.timed ?? null,
+        },
+        interviewMode: mode,
+        plan: interviewPlan,
+      });
+      sessionId = stored.id;
+    } catch {
+      // The interview still works without history; the client just won't save it.
+      console.info(`[mock-interview/plan] session save failed ${requestId}`);
+    }
+
     return NextResponse.json({
-      plan,
+      plan: interviewPlan,
       seedCount,
+      sessionId,
       requestId,
     });
-  } catch {
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
     return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
 }
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next";
 import z from "zod/v4";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { generateText, LlmError } from "@/lib/llm";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
 import { loadQuestionBank } from "@/lib/question-bank";
 import {
@@ -17,7 +18,6 @@ import {
 
 const LIMIT = 20;
 const WINDOW_MS = 10 * 60 * 1000;
-const MODEL = "gpt-4o-mini";
 
 const startSchema = z.object({
   settings: settingsSchema,
@@ -40,26 +40,6 @@ Stage: ${settings.stage}
 `;
 }
 
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
-    }
-  }
-  return parts.join("").trim();
-}
-
 export async function POST(req: Request) {
   const requestId = crypto.randomUUID();
   const session = await getServerSession(authOptions);
@@ -110,43 +90,22 @@ export async function POST(req: Request) {
     );
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
-
   try {
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        input: [
-          {
-            role: "system",
-            content: `You are a mock interviewer conducting a ${modeConfig.label} interview. Keep responses concise, professional, and one question at a time.`,
-          },
-          {
-            role: "user",
-            content: buildIntroPrompt(settings, firstQuestion.prompt, modeConfig.label, modeConfig.promptContext),
-          },
-        ],
-      }),
+    const result = await generateText({
+      route: "mock_interview_start",
+      messages: [
+        {
+          role: "system",
+          content: `You are a mock interviewer conducting a ${modeConfig.label} interview. Keep responses concise, professional, and one question at a time.`,
+        },
+        {
+          role: "user",
+          content: buildIntroPrompt(settings, firstQuestion.prompt, modeConfig.label, modeConfig.promptContext),
+        },
+      ],
     });
 
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      return NextResponse.json(
-        { error: errorText || resp.statusText, requestId },
-        { status: 502 }
-      );
-    }
-
-    const data = await resp.json();
-    const interviewerText = extractOutputText(data);
+    const interviewerText = result.text;
     if (!interviewerText) {
       return NextResponse.json({ error: "Empty model output", requestId }, { status: 502 });
     }
@@ -157,7 +116,10 @@ export async function POST(req: Request) {
       questionId: firstQuestion.id,
       requestId,
     });
-  } catch {
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
     return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
 }
@@ -3,7 +3,9 @@ import { getServerSession } from "next-auth/next";
 import z from "zod/v4";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { generateText, LlmError } from "@/lib/llm";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
+import { elevenLabsUrl } from "@/lib/upstream";
 import { loadQuestionBank } from "@/lib/question-bank";
 import {
   capText,
@@ -28,7 +30,6 @@ import {
 
 const LIMIT = 60;
 const WINDOW_MS = 10 * 60 * 1000;
-const MODEL = "gpt-4o-mini";
 const MAX_TURN_CHARS = 4000;
 const MAX_HISTORY_CHARS = 8000;
 
@@ -47,26 +48,6 @@ const turnSchema = z.object({
   includeAudio: z.boolean().optional(), // If true, include TTS audio in response
 });
 
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
-    }
-  }
-  return parts.join("").trim();
-}
-
 async function generateTTS(text: string): Promise<ArrayBuffer | null> {
   const apiKey = process.env.ELEVENLABS_API_KEY;
   const voiceId = process.env.ELEVENLABS_VOICE_ID;
@@ -78,7 +59,9 @@ async function generateTTS(text: string): Promise<ArrayBuffer | null> {
 
   try {
     const resp = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128&optimize_streaming_latency=3`,
+      elevenLabsUrl(
+        `text-to-speech/${voiceId}?output_format=mp3_44100_128&optimize_streaming_latency=3`
+      ),
       {
         method: "POST",
         headers: {
@@ -148,11 +131,6 @@ export async function POST(req: Request) {
     nextQuestion = pickQuestion(eligible, settings.randomize);
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
-
   const nextLine = shouldFollowUp
     ? `Ask a brief follow-up on: ${currentQuestion.prompt}`
     : `Ask the next question: ${nextQuestion?.prompt || currentQuestion.prompt}`;
@@ -176,29 +154,18 @@ Settings:
   // Step 1: Generate interviewer text
   let interviewerText = "";
   try {
-    const interviewerResp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        input: [
-          { role: "system", content: `You are a mock interview interviewer conducting a ${modeConfig.label} interview. One question at a time, keep it concise and professional.` },
-          { role: "user", content: interviewerPrompt },
-        ],
-      }),
+    const result = await generateText({
+      route: "mock_interview_turn",
+      messages: [
+        { role: "system", content: `You are a mock interview interviewer conducting a ${modeConfig.label} interview. One question at a time, keep it concise and professional.` },
+        { role: "user", content: interviewerPrompt },
+      ],
     });
-
-    if (!interviewerResp.ok) {
-      const errorText = await interviewerResp.text();
-      return NextResponse.json({ error: errorText || interviewerResp.statusText, requestId }, { status: 502 });
+    interviewerText = result.text;
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
     }
-
-    const data = await interviewerResp.json();
-    interviewerText = extractOutputText(data);
-  } catch {
     return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
 
@@ -216,19 +183,13 @@ Settings:
     // Feedback — runs in parallel
     (async () => {
       try {
-        const feedbackResp = await fetch("https://api.openai.com/v1/responses", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: MODEL,
-            input: [
-              { role: "system", content: `You are a mock interview coach for a ${modeConfig.label} interview. Keep feedback tight and skimmable.` },
-              {
-                role: "user",
-                content: `Provide concise coaching bullets for the user's last answer in a ${modeConfig.label} mock interview.
+        const result = await generateText({
+          route: "mock_interview_feedback",
+          messages: [
+            { role: "system", content: `You are a mock interview coach for a ${modeConfig.label} interview. Keep feedback tight and skimmable.` },
+            {
+              role: "user",
+              content: `Provide concise coaching bullets for the user's last answer in a ${modeConfig.label} mock interview.
 Format as 4-5 bullet lines:
 - Technical accuracy / content quality
 - Structure / clarity
@@ -242,15 +203,10 @@ Settings:
 
 Answer:
 ${lastUserTurn}`,
-              },
-            ],
-          }),
+            },
+          ],
         });
-        if (feedbackResp.ok) {
-          const data = await feedbackResp.json();
-          return extractOutputText(data);
-        }
-        return "";
+        return result.text;
       } catch {
         return "";
       }
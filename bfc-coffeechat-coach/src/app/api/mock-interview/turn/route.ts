@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next";
 import z from "zod/v4";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { generateText, LlmError, type LlmMessage, streamText } from "@/lib/llm";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
 import { loadQuestionBank } from "@/lib/question-bank";
 import {
@@ -15,41 +16,50 @@ import {
   settingsSchema,
   sumConversationChars,
 } from "@/lib/mock-interview";
+import { sseResponse } from "@/lib/streaming";
 
 const LIMIT = 60;
 const WINDOW_MS = 10 * 60 * 1000;
-const MODEL = "gpt-4o-mini";
 const MAX_TURN_CHARS = 4000;
 const MAX_HISTORY_CHARS = 8000;
+const MAX_INTERVIEWER_CHARS = 280;
 
 const conversationSchema = z.object({
   role: z.enum(["interviewer", "user"]),
   content: z.string().min(1),
 });
 
-const turnSchema = z.object({
-  settings: settingsSchema,
-  conversation: z.array(conversationSchema).default([]),
-  lastQuestionId: z.string().min(1),
-  askedQuestionIds: z.array(z.string()).default([]),
-  lastUserTurn: z.string().min(1),
-  interviewMode: z.string().optional(),
-});
+// Bank-driven sessions send lastQuestionId and the route picks what comes next.
+// Plan-driven sessions (the mock interview page) send the question text they
+// are on and the next plan question, or null after the last one.
+const turnSchema = z
+  .object({
+    settings: settingsSchema,
+    conversation: z.array(conversationSchema).default([]),
+    lastQuestionId: z.string().min(1).optional(),
+    currentQuestion: z.string().min(1).max(600).optional(),
+    nextQuestion: z.string().min(1).max(600).nullable().optional(),
+    askedQuestionIds: z.array(z.string()).default([]),
+    lastUserTurn: z.string().min(1),
+    interviewMode: z.string().optional(),
+    /** Timed mode ran out the clock on this answer. */
+    cutIn: z.boolean().optional(),
+  })
+  .refine((body) => Boolean(body.lastQuestionId || body.currentQuestion));
 
 function buildInterviewerPrompt(
   settings: MockInterviewSettings,
-  lastQuestionPrompt: string,
-  nextQuestionPrompt: string | null,
+  nextLine: string,
   lastUserTurn: string,
-  shouldFollowUp: boolean,
   modeLabel: string,
-  modeContext: string
+  modeContext: string,
+  cutIn: boolean
 ) {
-  const nextLine = shouldFollowUp
-    ? `Ask a brief follow-up on: ${lastQuestionPrompt}`
-    : `Ask the next question: ${nextQuestionPrompt}`;
+  const opening = cutIn
+    ? `The user ran out of time on that answer. Cut in politely but firmly ("Let me stop you there in the interest of time"), without commenting on the answer, then ask one question.`
+    : "Acknowledge the user's answer briefly, then ask one question.";
   return `You are a mock interview interviewer conducting a ${modeLabel} interview.
-Acknowledge the user's answer briefly, then ask one question.
+${opening}
 Keep it concise and speakable (<= 280 characters).
 ${modeContext ? `\n${modeContext}\n` : ""}
 Last user answer:
@@ -85,26 +95,6 @@ Answer:
 ${lastUserTurn}`;
 }
 
-function extractOutputText(data: unknown) {
-  const payload = data as {
-    output_text?: string;
-    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
-  };
-  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
-  if (direct) return direct;
-  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
-  const parts: string[] = [];
-  for (const item of outputItems) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const part of content) {
-      if (typeof part?.text === "string") {
-        parts.push(part.text);
-      }
-    }
-  }
-  return parts.join("").trim();
-}
-
 export async function POST(req: Request) {
   const requestId = crypto.randomUUID();
   const session = await getServerSession(authOptions);
@@ -153,118 +143,139 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Conversation history too long", requestId }, { status: 413 });
   }
 
-  const questions = loadQuestionBank();
-  const currentQuestion = questions.find((question) => question.id === lastQuestionId);
-  if (!currentQuestion) {
-    return NextResponse.json({ error: "Unknown question id", requestId }, { status: 400 });
-  }
+  let currentPrompt: string;
+  let nextPrompt: string | null;
+  let shouldFollowUp = false;
+  let nextQuestionId: string | null = null;
+  let done: boolean;
+  if (body.currentQuestion) {
+    currentPrompt = body.currentQuestion;
+    nextPrompt = body.nextQuestion ?? null;
+    done = nextPrompt === null;
+  } else {
+    const questions = loadQuestionBank();
+    const currentQuestion = questions.find((question) => question.id === lastQuestionId);
+    if (!currentQuestion) {
+      return NextResponse.json({ error: "Unknown question id", requestId }, { status: 400 });
+    }
 
-  const shouldFollowUp =
-    settings.followUps && lastUserTurn.trim().length < 220 && lastUserTurn.split(" ").length < 50;
+    shouldFollowUp =
+      settings.followUps && lastUserTurn.trim().length < 220 && lastUserTurn.split(" ").length < 50;
 
-  let nextQuestion = null;
-  if (!shouldFollowUp) {
-    const eligible = filterQuestions(questions, settings, askedQuestionIds);
-    nextQuestion = pickQuestion(eligible, settings.randomize);
+    let nextQuestion = null;
+    if (!shouldFollowUp) {
+      const eligible = filterQuestions(questions, settings, askedQuestionIds);
+      nextQuestion = pickQuestion(eligible, settings.randomize);
+    }
+    currentPrompt = currentQuestion.prompt;
+    nextPrompt = nextQuestion?.prompt || currentQuestion.prompt;
+    done = !nextQuestion && !shouldFollowUp;
+    nextQuestionId = shouldFollowUp || done ? currentQuestion.id : nextQuestion?.id || currentQuestion.id;
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY", requestId }, { status: 500 });
-  }
+  const nextLine = shouldFollowUp
+    ? `Ask a brief follow-up on: ${currentPrompt}`
+    : nextPrompt
+      ? `Ask the next question: ${nextPrompt}`
+      : "That was the last question. Thank them and close the interview without asking anything new.";
+  const messages: LlmMessage[] = [
+    {
+      role: "system",
+      content: `You are a mock interview interviewer conducting a ${modeConfig.label} interview. One question at a time, keep it concise and professional.`,
+    },
+    {
+      role: "user",
+      content: buildInterviewerPrompt(
+        settings,
+        nextLine,
+        lastUserTurn,
+        modeConfig.label,
+        modeConfig.promptContext,
+        body.cutIn ?? false
+      ),
+    },
+  ];
 
-  let interviewerText = "";
-  try {
-    const interviewerResp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        input: [
+  // Plan-driven sessions are graded by /api/mock-interview/grade, so they skip the quick feedback.
+  // It does not depend on the interviewer text, so it runs alongside it.
+  const feedbackPromise = body.currentQuestion
+    ? Promise.resolve("")
+    : generateText({
+        route: "mock_interview_feedback",
+        messages: [
           {
             role: "system",
-            content: `You are a mock interview interviewer conducting a ${modeConfig.label} interview. One question at a time, keep it concise and professional.`,
-          },
-          {
-            role: "user",
-            content: buildInterviewerPrompt(
-              settings,
-              currentQuestion.prompt,
-              nextQuestion?.prompt || currentQuestion.prompt,
-              lastUserTurn,
-              shouldFollowUp,
-              modeConfig.label,
-              modeConfig.promptContext
-            ),
+            content: `You are a mock interview coach for a ${modeConfig.label} interview. Keep feedback tight and skimmable.`,
           },
+          { role: "user", content: buildRealtimeFeedbackPrompt(settings, lastUserTurn, modeConfig.label, modeConfig.gradingFocus) },
         ],
-      }),
-    });
+      })
+        .then((result) => result.text)
+        // Non-blocking
+        .catch(() => "");
 
-    if (!interviewerResp.ok) {
-      const errorText = await interviewerResp.text();
-      return NextResponse.json(
-        { error: errorText || interviewerResp.statusText, requestId },
-        { status: 502 }
-      );
+  if (req.headers.get("accept")?.includes("text/event-stream")) {
+    let stream: Awaited<ReturnType<typeof streamText>>;
+    try {
+      stream = await streamText({ route: "mock_interview_turn", messages });
+    } catch (err) {
+      if (err instanceof LlmError) {
+        return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+      }
+      return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
     }
 
-    const data = await interviewerResp.json();
-    interviewerText = extractOutputText(data);
-  } catch {
-    return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
-  }
-
-  if (!interviewerText) {
-    return NextResponse.json({ error: "Empty model output", requestId }, { status: 502 });
+    // Events: "delta" {text} as tokens arrive, then "done" with the same fields as the JSON
+    // response, or "error" {error, requestId} if the stream breaks.
+    return sseResponse(async (send) => {
+      let streamedText = "";
+      try {
+        for await (const chunk of stream.chunks) {
+          const piece = chunk.slice(0, MAX_INTERVIEWER_CHARS - streamedText.length);
+          if (piece) {
+            streamedText += piece;
+            send("delta", { text: piece });
+          }
+          if (streamedText.length >= MAX_INTERVIEWER_CHARS) break;
+        }
+      } catch (err) {
+        send("error", { error: err instanceof LlmError ? err.message : "Upstream request failed", requestId });
+        return;
+      }
+      if (!streamedText.trim()) {
+        send("error", { error: "Empty model output", requestId });
+        return;
+      }
+      send("done", {
+        interviewerText: capText(streamedText.trim(), MAX_INTERVIEWER_CHARS),
+        realtimeFeedback: await feedbackPromise,
+        nextQuestionId,
+        done,
+        requestId,
+      });
+    });
   }
 
-  let realtimeFeedback = "";
+  let interviewerText = "";
   try {
-    const feedbackResp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        input: [
-          {
-            role: "system",
-            content: `You are a mock interview coach for a ${modeConfig.label} interview. Keep feedback tight and skimmable.`,
-          },
-          { role: "user", content: buildRealtimeFeedbackPrompt(settings, lastUserTurn, modeConfig.label, modeConfig.gradingFocus) },
-        ],
-      }),
-    });
-
-    if (feedbackResp.ok) {
-      const data = await feedbackResp.json();
-      realtimeFeedback = extractOutputText(data);
+    const result = await generateText({ route: "mock_interview_turn", messages });
+    interviewerText = result.text;
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
     }
-  } catch {
-    // Non-blocking
+    return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
   }
 
-  if (!nextQuestion && !shouldFollowUp) {
-    return NextResponse.json({
-      interviewerText: capText(interviewerText, 280),
-      realtimeFeedback,
-      nextQuestionId: currentQuestion.id,
-      done: true,
-      requestId,
-    });
+  if (!interviewerText) {
+    return NextResponse.json({ error: "Empty model output", requestId }, { status: 502 });
   }
 
   return NextResponse.json({
-    interviewerText: capText(interviewerText, 280),
-    realtimeFeedback,
-    nextQuestionId: shouldFollowUp ? currentQuestion.id : nextQuestion?.id || currentQuestion.id,
-    done: false,
+    interviewerText: capText(interviewerText, MAX_INTERVIEWER_CHARS),
+    realtimeFeedback: await feedbackPromise,
+    nextQuestionId,
+    done,
     requestId,
   });
 }
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { savePitchMemo } from "@/lib/pitch-memos";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+import {
+  PITCH_CROSS_EXAM_QUESTIONS,
+  pitchMemoSchema,
+  pitchScorecardSchema,
+  pitchSetupSchema,
+  pitchTurnSchema,
+} from "@/lib/stock-pitch";
+
+const LIMIT = 30;
+const WINDOW_MS = 10 * 60 * 1000;
+
+const saveSchema = z.object({
+  id: z.string().optional(),
+  setup: pitchSetupSchema,
+  memo: pitchMemoSchema,
+  /** The graded cross-exam, sent once when the memo is first saved after it. */
+  attempt: z
+    .object({
+      transcript: z.array(pitchTurnSchema).min(1).max(PITCH_CROSS_EXAM_QUESTIONS * 2 + 1),
+      scorecard: pitchScorecardSchema,
+    })
+    .optional(),
+});
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof saveSchema>;
+  try {
+    body = saveSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  try {
+    const saved = await savePitchMemo(
+      email,
+      {
+        setup: body.setup,
+        memo: body.memo,
+        attempt: body.attempt ? { setup: body.setup, ...body.attempt } : undefined,
+      },
+      body.id
+    );
+    if (!saved) {
+      return NextResponse.json({ error: "Pitch not found", requestId }, { status: 404 });
+    }
+    return NextResponse.json({ id: saved.id, requestId });
+  } catch {
+    return NextResponse.json({ error: "Failed to save pitch", requestId }, { status: 500 });
+  }
+}
@@ -0,0 +1,173 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { generateJson, LlmError } from "@/lib/llm";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+import {
+  formatPitchSetup,
+  type PitchMemo,
+  type PitchScorecard,
+  type PitchSetup,
+  type PitchTurn,
+  PITCH_CROSS_EXAM_QUESTIONS,
+  pitchMemoFields,
+  pitchMemoSchema,
+  pitchOverallScore,
+  pitchRubric,
+  pitchRubricKeySchema,
+  pitchScorecardSchema,
+  pitchSetupSchema,
+  pitchTurnSchema,
+} from "@/lib/stock-pitch";
+
+const LIMIT = 10;
+const WINDOW_MS = 10 * 60 * 1000;
+const MAX_TRANSCRIPT_CHARS = 12000;
+
+const gradeSchema = z.object({
+  setup: pitchSetupSchema,
+  messages: z
+    .array(pitchTurnSchema)
+    .min(1)
+    .max(PITCH_CROSS_EXAM_QUESTIONS * 2 + 1),
+  /** The saved memo when re-pitching, so the rewrite builds on it. */
+  previousMemo: pitchMemoSchema.nullable().default(null),
+});
+
+function buildPrompt(setup: PitchSetup, messages: PitchTurn[], previousMemo: PitchMemo | null) {
+  const transcript = messages.map((msg) => `${msg.role === "pm" ? "PM" : "Candidate"}: ${msg.content}`).join("\n");
+  const rubric = pitchRubricKeySchema.options
+    .map((key) => `- ${key} (${pitchRubric[key].label}): ${pitchRubric[key].criteria}`)
+    .join("\n");
+  const memo = previousMemo
+    ? pitchMemoFields.map((field) => `${field.label}: ${previousMemo[field.key] || "(empty)"}`).join("\n")
+    : "(none, this is the first attempt)";
+
+  return `Score this stock pitch against the rubric. Output strict JSON only.
+
+Rubric:
+${rubric}
+
+Return JSON with keys:
+- ratings (object with every rubric key above; each value is { rating1to5, evidence, fix })
+  - rating1to5: integer 1-5, where 3 is adequate and 5 would get capital at a multi-manager fund
+  - evidence: 0-3 short quotes copied word for word from the declared pitch or the Candidate's lines
+  - fix: one sentence on what to change next time
+  - Rate the declared pitch and what the cross-examination revealed about it. A component that fell apart under questioning cannot score above 3.
+- overallScore0to10 (number)
+- pmVerdict ("would_invest", "needs_work" or "pass")
+- pmVerdictRationale (one sentence, in the PM's voice)
+- weakestAnswers (0-3 objects { question, betterAnswer }: PM questions the candidate handled worst, with a 2-3 sentence stronger answer)
+- memo (object with keys ${pitchMemoFields.map((field) => field.key).join(", ")}): the pitch memo rewritten to hold up against this cross-examination. Keep the candidate's numbers unless the cross-examination showed they were wrong. headline is one line such as "Long ${setup.ticker}: ...". openQuestions lists what the candidate still needs to research.
+
+Declared pitch:
+${formatPitchSetup(setup)}
+
+Previous memo:
+${memo}
+
+Cross-examination transcript:
+${transcript}`;
+}
+
+function normalizeQuote(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9'$%.]+/g, " ")
+    .trim();
+}
+
+/**
+ * Keeps only evidence the candidate actually said or wrote, and derives the
+ * overall score from the ratings so the two never disagree.
+ */
+function groundScorecard(scorecard: PitchScorecard, setup: PitchSetup, messages: PitchTurn[]): PitchScorecard {
+  const said = normalizeQuote(
+    [setup.thesis, setup.valuation, setup.catalyst, setup.risks]
+      .concat(messages.filter((msg) => msg.role === "candidate").map((msg) => msg.content))
+      .join(" \n ")
+  );
+  const ratings = Object.fromEntries(
+    pitchRubricKeySchema.options.map((key) => {
+      const rating = scorecard.ratings[key];
+      const evidence = rating.evidence.filter((quote) => {
+        const normalized = normalizeQuote(quote);
+        return normalized.length > 0 && said.includes(normalized);
+      });
+      return [key, { ...rating, evidence }];
+    })
+  ) as PitchScorecard["ratings"];
+  return { ...scorecard, ratings, overallScore0to10: pitchOverallScore(ratings) };
+}
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof gradeSchema>;
+  try {
+    body = gradeSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  const transcriptChars = body.messages.reduce((sum, msg) => sum + msg.content.length, 0);
+  if (transcriptChars > MAX_TRANSCRIPT_CHARS) {
+    return NextResponse.json({ error: "Transcript too long", requestId }, { status: 413 });
+  }
+  if (!body.messages.some((msg) => msg.role === "candidate")) {
+    return NextResponse.json({ error: "Answer at least one question before grading", requestId }, { status: 400 });
+  }
+
+  try {
+    const result = await generateJson(pitchScorecardSchema, {
+      route: "pitch_grade",
+      messages: [
+        {
+          role: "system",
+          content:
+            "You are a hedge fund portfolio manager grading a candidate's stock pitch. Score honestly; most pitches are a 2 or 3 on at least one component.",
+        },
+        { role: "user", content: buildPrompt(body.setup, body.messages, body.previousMemo) },
+      ],
+    });
+
+    return NextResponse.json({
+      scorecard: groundScorecard(result.data, body.setup, body.messages),
+      requestId,
+    });
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
+    return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
+  }
+}
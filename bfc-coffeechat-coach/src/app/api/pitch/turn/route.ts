@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { generateText, LlmError } from "@/lib/llm";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+import {
+  buildPmSystemPrompt,
+  PITCH_CROSS_EXAM_QUESTIONS,
+  type PitchTurn,
+  pitchSetupSchema,
+  pitchTurnSchema,
+} from "@/lib/stock-pitch";
+
+const LIMIT = 40;
+const WINDOW_MS = 10 * 60 * 1000;
+const MAX_TRANSCRIPT_CHARS = 12000;
+const MAX_PM_CHARS = 400;
+
+const turnSchema = z.object({
+  setup: pitchSetupSchema,
+  messages: z.array(pitchTurnSchema).max(PITCH_CROSS_EXAM_QUESTIONS * 2),
+});
+
+function formatTranscript(messages: PitchTurn[]) {
+  return messages.map((msg) => `${msg.role === "pm" ? "PM" : "Candidate"}: ${msg.content}`).join("\n");
+}
+
+function buildPrompt(messages: PitchTurn[], questionNumber: number) {
+  const nextLine =
+    questionNumber > PITCH_CROSS_EXAM_QUESTIONS
+      ? "That was the last question. Close the meeting in one or two sentences without asking anything new or giving a verdict."
+      : `Ask question ${questionNumber} of ${PITCH_CROSS_EXAM_QUESTIONS}.${
+          questionNumber === PITCH_CROSS_EXAM_QUESTIONS ? " Make it the one you most want answered." : ""
+        }`;
+  const transcript = messages.length > 0 ? formatTranscript(messages) : "(The candidate has just finished the pitch.)";
+  return `Cross-examine the pitch. Reply with only what you say out loud.
+
+Cross-examination so far:
+${transcript}
+
+${nextLine}`;
+}
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof turnSchema>;
+  try {
+    body = turnSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  if (body.messages.at(-1)?.role === "pm") {
+    return NextResponse.json({ error: "Waiting for the candidate's answer", requestId }, { status: 400 });
+  }
+  const transcriptChars = body.messages.reduce((sum, msg) => sum + msg.content.length, 0);
+  if (transcriptChars > MAX_TRANSCRIPT_CHARS) {
+    return NextResponse.json({ error: "Transcript too long", requestId }, { status: 413 });
+  }
+
+  const questionNumber = body.messages.filter((msg) => msg.role === "pm").length + 1;
+  const done = questionNumber > PITCH_CROSS_EXAM_QUESTIONS;
+
+  try {
+    const result = await generateText({
+      route: "pitch_cross_exam",
+      messages: [
+        { role: "system", content: buildPmSystemPrompt(body.setup) },
+        { role: "user", content: buildPrompt(body.messages, questionNumber) },
+      ],
+    });
+    const pmText = result.text.trim().slice(0, MAX_PM_CHARS);
+    if (!pmText) {
+      return NextResponse.json({ error: "Empty model output", requestId }, { status: 502 });
+    }
+    return NextResponse.json({ pmText, done, requestId });
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
+    return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
 import { enforceRateLimit } from "@/lib/rate-limit";
+import { openaiUrl } from "@/lib/upstream";
 
 function getClientIp(req: Request) {
   const forwardedFor = req.headers.get("x-forwarded-for");
@@ -97,7 +98,7 @@ export async function POST(req: Request) {
 
   const instructions = buildInstructions(body.scenario);
 
-  const resp = await fetch("https://api.openai.com/v1/realtime/client_secrets", {
+  const resp = await fetch(openaiUrl("realtime/client_secrets"), {
     method: "POST",
     headers: {
       Authorization: `Bearer ${apiKey}`,
@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { generateJson, LlmError } from "@/lib/llm";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+import {
+  capResumeProfile,
+  isEmptyResumeProfile,
+  parseResumeLocally,
+  type ResumeProfile,
+  resumeProfileSchema,
+} from "@/lib/resume-profile";
+import { extractResumeText, resumeFileKind } from "@/lib/resume-text";
+import { deleteResume, saveResume } from "@/lib/resumes";
+
+/**
+ * Uploads a resume as multipart form data (`file`, PDF or DOCX). The text is
+ * extracted on the server, sent to the configured LLM provider (the
+ * resume_parse route) and structured into a profile that the planner
+ * and the coffee chat interviewer ask about. DELETE removes it.
+ */
+
+const LIMIT = 10;
+const WINDOW_MS = 10 * 60 * 1000;
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_TEXT_CHARS = 20000;
+const MIN_TEXT_CHARS = 80;
+
+function buildPrompt(text: string) {
+  return `Structure this resume into JSON. Output strict JSON only.
+
+Return JSON with keys:
+- name (string, empty if not found)
+- education (array of { school, degree, dates, details }; details are GPA, honors and coursework lines)
+- experiences (array of { organization, role, dates, bullets }; copy bullets as written, most recent role first)
+- deals (array of { name, role, details }): every transaction mentioned anywhere, including inside experience bullets. name is the project or deal name or a short description such as "$450M sale of SaaS company". role is what the candidate did. details keeps every figure as written.
+- skills (array of short strings: technical skills, languages, certifications and interests)
+
+Do not invent anything that is not in the text.
+
+Resume text:
+${text}`;
+}
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        { error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`, requestId, retryAfterSeconds: retryAfter },
+        { status: 429, headers: { "Retry-After": retryAfter.toString() } }
+      );
+    }
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  const file = form.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    return NextResponse.json({ error: "A resume file is required", requestId }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json({ error: "Resume too large (max 5 MB)", requestId }, { status: 413 });
+  }
+  const kind = resumeFileKind(file);
+  if (!kind) {
+    return NextResponse.json({ error: "Upload a PDF or DOCX file", requestId }, { status: 415 });
+  }
+
+  let text: string;
+  try {
+    text = (await extractResumeText(await file.arrayBuffer(), kind)).trim().slice(0, MAX_TEXT_CHARS);
+  } catch {
+    return NextResponse.json({ error: `Could not read the ${kind.toUpperCase()} file`, requestId }, { status: 422 });
+  }
+  if (text.length < MIN_TEXT_CHARS) {
+    // Scanned PDFs have no text layer.
+    return NextResponse.json(
+      { error: "No text found in the file. Upload a text-based PDF or a DOCX.", requestId },
+      { status: 422 }
+    );
+  }
+
+  let profile: ResumeProfile;
+  let parsedBy: "model" | "heuristic" = "model";
+  try {
+    const result = await generateJson(resumeProfileSchema, {
+      route: "resume_parse",
+      messages: [
+        { role: "system", content: "You extract structured data from resumes. Output valid JSON only." },
+        { role: "user", content: buildPrompt(text) },
+      ],
+    });
+    profile = capResumeProfile(result.data);
+  } catch (err) {
+    // The section parser handles the usual finance layout well enough to keep going.
+    console.info(
+      `[resume] model parse failed ${requestId}: ${err instanceof LlmError ? err.message : "unknown error"}`
+    );
+    profile = parseResumeLocally(text);
+    parsedBy = "heuristic";
+  }
+  if (isEmptyResumeProfile(profile)) {
+    return NextResponse.json(
+      { error: "Could not find education, experience or deals in the resume", requestId },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const saved = await saveResume(email, { fileName: file.name.slice(0, 200), parsedBy, profile });
+    return NextResponse.json({ resume: saved, requestId });
+  } catch {
+    return NextResponse.json({ error: "Failed to save resume", requestId }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+  try {
+    await deleteResume(email);
+    return NextResponse.json({ ok: true, requestId });
+  } catch {
+    return NextResponse.json({ error: "Failed to delete resume", requestId }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { generateJson, LlmError } from "@/lib/llm";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+import { formatStoryForPrompt, storyFeedbackSchema } from "@/lib/star-stories";
+import { getStory, saveStoryFeedback, type StoryRecord } from "@/lib/story-bank";
+
+/**
+ * Coaches a saved STAR story and stores the feedback on it. The revised
+ * version keeps the user's facts; applying it is left to the user.
+ */
+
+const LIMIT = 20;
+const WINDOW_MS = 10 * 60 * 1000;
+
+const coachSchema = z.object({
+  id: z.string().min(1),
+});
+
+function buildPrompt(story: StoryRecord) {
+  return `Coach this STAR story for finance behavioral interviews. Output strict JSON only.
+
+Return JSON with keys:
+- score0to10 (0-10): how well it would land as a 90-second answer
+- strengths (array, max 4)
+- gaps (array, max 4): missing specifics, a vague action, a result without a number, too much situation
+- revised: { situation, task, action, result }, the same story tightened. Keep every fact and figure the user gave and do not add new ones; where a number is missing, write [number] for the user to fill in. Action should say what the user did, in the first person.
+
+Story:
+${formatStoryForPrompt(story)}`;
+}
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof coachSchema>;
+  try {
+    body = coachSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  const story = await getStory(body.id, email);
+  if (!story) {
+    return NextResponse.json({ error: "Story not found", requestId }, { status: 404 });
+  }
+
+  try {
+    const result = await generateJson(storyFeedbackSchema, {
+      route: "story_coach",
+      messages: [
+        {
+          role: "system",
+          content: "You are a finance recruiting coach who helps candidates sharpen behavioral stories. Output valid JSON only.",
+        },
+        { role: "user", content: buildPrompt(story) },
+      ],
+    });
+
+    // A failed save should not cost the user their feedback.
+    const saved = await saveStoryFeedback(story.id, email, result.data).catch(() => null);
+    return NextResponse.json({ feedback: result.data, story: saved ?? { ...story, feedback: result.data }, requestId });
+  } catch (err) {
+    if (err instanceof LlmError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
+    return NextResponse.json({ error: "Upstream request failed", requestId }, { status: 502 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import z from "zod/v4";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+import { starStoryInputSchema } from "@/lib/star-stories";
+import { deleteStory, saveStory } from "@/lib/story-bank";
+
+const LIMIT = 60;
+const WINDOW_MS = 10 * 60 * 1000;
+
+const saveSchema = z.object({
+  id: z.string().optional(),
+  story: starStoryInputSchema,
+});
+
+const deleteSchema = z.object({
+  id: z.string().min(1),
+});
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          requestId,
+          retryAfterSeconds: retryAfter,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": retryAfter.toString() },
+        }
+      );
+    }
+  }
+
+  let body: z.infer<typeof saveSchema>;
+  try {
+    body = saveSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  try {
+    const saved = await saveStory(email, body.story, body.id);
+    if (!saved) {
+      return NextResponse.json({ error: "Story not found", requestId }, { status: 404 });
+    }
+    return NextResponse.json({ story: saved, requestId });
+  } catch {
+    return NextResponse.json({ error: "Failed to save story", requestId }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  let body: z.infer<typeof deleteSchema>;
+  try {
+    body = deleteSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteStory(body.id, email);
+    if (!deleted) {
+      return NextResponse.json({ error: "Story not found", requestId }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, requestId });
+  } catch {
+    return NextResponse.json({ error: "Failed to delete story", requestId }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/auth";
+import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { enforceUserRateLimit } from "@/lib/rate-limit";
+import { SttError, transcribeAudio } from "@/lib/stt";
+
+/**
+ * Transcribes one recorded answer. Used by the practice and mock interview
+ * pages when the browser has no SpeechRecognition (Firefox, flaky Safari):
+ * they record with MediaRecorder and post the audio here as multipart form
+ * data, with the clip in `audio` and an optional `prompt` vocabulary hint.
+ */
+
+const LIMIT = 60;
+const WINDOW_MS = 10 * 60 * 1000;
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+const MAX_PROMPT_CHARS = 800;
+const TIMEOUT_MS = 60_000;
+
+const audioExtensions: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav",
+  "audio/mp4": "mp4",
+  "audio/mpeg": "mp3",
+};
+
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    return NextResponse.json({ error: "Unauthorized", requestId }, { status: 401 });
+  }
+  if (!isAllowedEmail(email)) {
+    return NextResponse.json({ error: "Forbidden", requestId }, { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rate = enforceUserRateLimit({ key: email, limit: LIMIT, windowMs: WINDOW_MS });
+    if (!rate.allowed) {
+      const retryAfter = Math.ceil(rate.retryAfterMs / 1000);
+      return NextResponse.json(
+        { error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`, requestId, retryAfterSeconds: retryAfter },
+        { status: 429, headers: { "Retry-After": retryAfter.toString() } }
+      );
+    }
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body", requestId }, { status: 400 });
+  }
+
+  const audio = form.get("audio");
+  if (!(audio instanceof Blob) || audio.size === 0) {
+    return NextResponse.json({ error: "Audio is required", requestId }, { status: 400 });
+  }
+  if (audio.size > MAX_AUDIO_BYTES) {
+    return NextResponse.json({ error: "Audio too long (max 10 MB)", requestId }, { status: 413 });
+  }
+  // Recorders report types like "audio/webm;codecs=opus".
+  const mimeType = audio.type.split(";")[0].trim().toLowerCase();
+  const extension = audioExtensions[mimeType];
+  if (!extension) {
+    return NextResponse.json(
+      { error: `Unsupported audio type: ${audio.type || "unknown"}`, requestId },
+      { status: 415 }
+    );
+  }
+
+  const prompt = form.get("prompt");
+  try {
+    const transcript = await transcribeAudio({
+      audio,
+      filename: `answer.${extension}`,
+      prompt: typeof prompt === "string" && prompt.trim() ? prompt.trim().slice(0, MAX_PROMPT_CHARS) : undefined,
+      language: "en",
+      timeoutMs: TIMEOUT_MS,
+    });
+    return NextResponse.json({
+      text: transcript.text,
+      words: transcript.words,
+      durationSeconds: transcript.durationSeconds,
+      requestId,
+    });
+  } catch (err) {
+    if (err instanceof SttError) {
+      return NextResponse.json({ error: err.message, requestId }, { status: err.status });
+    }
+    return NextResponse.json({ error: "Transcription failed", requestId }, { status: 502 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
+import { elevenLabsUrl } from "@/lib/upstream";
 
 export async function POST() {
   const session = await getServerSession(authOptions);
@@ -24,7 +25,9 @@ export async function POST() {
 
   try {
     const resp = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128&optimize_streaming_latency=3`,
+      elevenLabsUrl(
+        `text-to-speech/${voiceId}?output_format=mp3_44100_128&optimize_streaming_latency=3`
+      ),
       {
         method: "POST",
         headers: {
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/auth";
 import { isAllowedEmail } from "@/lib/auth-allowlist";
 import { enforceUserRateLimit } from "@/lib/rate-limit";
+import { elevenLabsUrl } from "@/lib/upstream";
 
 const MAX_TEXT_CHARS = 800;
 const WINDOW_MS = 10 * 60 * 1000;
@@ -69,7 +70,9 @@ export async function POST(req: Request) {
 
   try {
     const resp = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128&optimize_streaming_latency=3`,
+      elevenLabsUrl(
+        `text-to-speech/${voiceId}?output_format=mp3_44100_128&optimize_streaming_latency=3`
+      ),
       {
       method: "POST",
       headers: {
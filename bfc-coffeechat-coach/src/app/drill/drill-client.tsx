@@ -0,0 +1,284 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { motion } from "framer-motion";
+import type { AnswerCheck } from "@/lib/answer-key";
+import type { DrillCard, DrillCardState, DrillFilters, DrillStats } from "@/lib/drill";
+import { type GradeResponse, questionTypeOptions } from "@/lib/mock-interview";
+import type { QuestionBankMeta } from "@/lib/question-bank";
+import { formatDateTime, formatStage } from "@/lib/format";
+import { AnswerCheckList } from "@/components/answer-check";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select } from "@/components/ui/select";
+
+type Props = {
+  meta: QuestionBankMeta;
+};
+
+type ReviewResult = {
+  grade: GradeResponse | null;
+  answerCheck: AnswerCheck | null;
+  state: DrillCardState;
+};
+
+function parseJsonRecord(text: string) {
+  if (!text) return {} as Record<string, unknown>;
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+const difficultyLabels: Record<1 | 2 | 3, string> = { 1: "Easy", 2: "Medium", 3: "Hard" };
+
+export default function DrillClient({ meta }: Props) {
+  const [filters, setFilters] = useState<DrillFilters>({ firm: "All", questionType: "all", difficulty: "all" });
+  const [card, setCard] = useState<DrillCard | null>(null);
+  const [nextCard, setNextCard] = useState<DrillCard | null>(null);
+  const [stats, setStats] = useState<DrillStats | null>(null);
+  const [answer, setAnswer] = useState("");
+  const [result, setResult] = useState<ReviewResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [started, setStarted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const firmOptions = [{ value: "All", label: "All firms" }, ...meta.firms.map((firm) => ({ value: firm, label: firm }))];
+  const typeOptions = [
+    { value: "all", label: "All types" },
+    ...questionTypeOptions.map((type) => ({ value: type, label: formatStage(type) })),
+  ];
+  const difficultyOptions = [
+    { value: "all", label: "Any difficulty" },
+    { value: "1", label: "Easy" },
+    { value: "2", label: "Medium" },
+    { value: "3", label: "Hard" },
+  ];
+
+  const loadNext = useCallback(async (nextFilters: DrillFilters) => {
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    setAnswer("");
+    try {
+      const res = await fetch("/api/drill/next", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ filters: nextFilters }),
+      });
+      const payload = parseJsonRecord(await res.text());
+      if (!res.ok) {
+        const msg = (payload.error as string) || res.statusText;
+        const requestId = payload.requestId as string | undefined;
+        setError(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+        return;
+      }
+      setCard((payload.card as DrillCard | null) ?? null);
+      setStats((payload.stats as DrillStats) ?? null);
+      setStarted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the next card.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const submitReview = useCallback(
+    async (skipped: boolean) => {
+      if (!card) return;
+      if (!skipped && !answer.trim()) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/drill/review", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ questionId: card.id, userAnswer: answer, skipped, filters }),
+        });
+        const payload = parseJsonRecord(await res.text());
+        if (!res.ok) {
+          const msg = (payload.error as string) || res.statusText;
+          const requestId = payload.requestId as string | undefined;
+          setError(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+          return;
+        }
+        setResult({
+          grade: (payload.grade as GradeResponse | null) ?? null,
+          answerCheck: (payload.answerCheck as AnswerCheck | null) ?? null,
+          state: payload.state as DrillCardState,
+        });
+        setNextCard((payload.next as DrillCard | null) ?? null);
+        setStats((payload.stats as DrillStats) ?? null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to grade the answer.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [answer, card, filters]
+  );
+
+  const advance = () => {
+    setCard(nextCard);
+    setNextCard(null);
+    setResult(null);
+    setAnswer("");
+  };
+
+  const updateFilters = (update: Partial<DrillFilters>) => {
+    const next = { ...filters, ...update };
+    setFilters(next);
+    if (started) void loadNext(next);
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-4xl px-6 pb-16 pt-10">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Drill</div>
+          <h1 className="mt-1 text-2xl font-semibold text-slate-900">Spaced-repetition flashcards</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Due reviews come first, then new questions. Strong answers push a card further out; misses bring it back tomorrow.
+          </p>
+        </div>
+        {stats ? (
+          <div className="flex flex-wrap gap-2">
+            <Badge tone={stats.dueNow > 0 ? "warning" : "success"}>{stats.dueNow} due</Badge>
+            <Badge tone="neutral">{stats.newAvailable} new</Badge>
+            <Badge tone="neutral">{stats.learned} scheduled</Badge>
+            <Badge tone="neutral">{stats.reviewedToday} today</Badge>
+          </div>
+        ) : null}
+      </div>
+
+      <Card className="mt-6 grid gap-4 p-6 md:grid-cols-3">
+        <Select label="Firm" value={filters.firm} options={firmOptions} onChange={(value) => updateFilters({ firm: value })} />
+        <Select
+          label="Question type"
+          value={filters.questionType}
+          options={typeOptions}
+          onChange={(value) => updateFilters({ questionType: value as DrillFilters["questionType"] })}
+        />
+        <Select
+          label="Difficulty"
+          value={String(filters.difficulty)}
+          options={difficultyOptions}
+          onChange={(value) =>
+            updateFilters({ difficulty: value === "all" ? "all" : (Number(value) as 1 | 2 | 3) })
+          }
+        />
+      </Card>
+
+      {error ? (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      ) : null}
+
+      {!started ? (
+        <Card className="mt-6 p-10 text-center">
+          <div className="text-sm text-slate-500">Ten minutes is enough for a useful session.</div>
+          <Button type="button" className="mt-4" onClick={() => void loadNext(filters)} disabled={loading}>
+            {loading ? "Loading…" : "Start drilling"}
+          </Button>
+        </Card>
+      ) : card ? (
+        <motion.div key={card.id} initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }}>
+          <Card className="mt-6 p-6">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge tone={card.isNew ? "success" : "warning"}>{card.isNew ? "New" : "Review"}</Badge>
+              <Badge tone="neutral">{card.firm}</Badge>
+              <Badge tone="neutral" className="capitalize">{formatStage(card.questionType)}</Badge>
+              <Badge tone="neutral">{difficultyLabels[card.difficulty]}</Badge>
+              {(card.askedAtFirms ?? 0) > 1 ? <Badge tone="neutral">Asked at {card.askedAtFirms} firms</Badge> : null}
+              {card.state ? (
+                <span className="text-xs text-slate-400">
+                  Last score {card.state.lastScore}/10 · {card.state.reviews} reviews
+                </span>
+              ) : null}
+            </div>
+            <div className="mt-4 text-lg font-semibold text-slate-900">{card.prompt}</div>
+
+            {result ? (
+              <div className="mt-6 space-y-4 text-sm text-slate-700">
+                {result.grade ? (
+                  <>
+                    <div className="flex items-center gap-3">
+                      <div
+                        className={`flex h-12 w-12 items-center justify-center rounded-full text-lg font-bold text-white ${
+                          result.grade.score0to10 >= 7
+                            ? "bg-emerald-500"
+                            : result.grade.score0to10 >= 4
+                              ? "bg-amber-500"
+                              : "bg-red-500"
+                        }`}
+                      >
+                        {result.grade.score0to10}
+                      </div>
+                      <div className="text-sm text-slate-600">
+                        Next review {result.state.intervalDays === 1 ? "tomorrow" : `in ${result.state.intervalDays} days`} (
+                        {formatDateTime(result.state.dueAt)})
+                      </div>
+                    </div>
+                    {result.answerCheck ? <AnswerCheckList check={result.answerCheck} /> : null}
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div>
+                        <div className="font-semibold text-slate-900">Strengths</div>
+                        <ul className="mt-1 list-disc space-y-1 pl-4">
+                          {result.grade.strengths.map((item, idx) => (
+                            <li key={idx}>{item}</li>
+                          ))}
+                        </ul>
+                      </div>
+                      <div>
+                        <div className="font-semibold text-slate-900">Gaps</div>
+                        <ul className="mt-1 list-disc space-y-1 pl-4">
+                          {result.grade.gaps.map((item, idx) => (
+                            <li key={idx}>{item}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                    <div className="rounded-lg border border-slate-100 bg-slate-50 p-3">
+                      <div className="font-semibold text-slate-900">Better outline</div>
+                      <div className="mt-2 whitespace-pre-wrap text-xs">{result.grade.correctedAnswerOutline}</div>
+                    </div>
+                  </>
+                ) : (
+                  <div className="rounded-lg border border-amber-100 bg-amber-50 p-3 text-amber-900">
+                    Marked as unknown — this card comes back tomorrow.
+                  </div>
+                )}
+                <Button type="button" onClick={advance}>
+                  {nextCard ? "Next card →" : "Finish"}
+                </Button>
+              </div>
+            ) : (
+              <div className="mt-6">
+                <textarea
+                  value={answer}
+                  onChange={(event) => setAnswer(event.target.value)}
+                  rows={6}
+                  placeholder="Answer as you would out loud in the interview…"
+                  className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-slate-900"
+                />
+                <div className="mt-3 flex flex-wrap gap-3">
+                  <Button type="button" onClick={() => void submitReview(false)} disabled={loading || !answer.trim()}>
+                    {loading ? "Grading…" : "Submit answer"}
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={() => void submitReview(true)} disabled={loading}>
+                    I don&apos;t know
+                  </Button>
+                </div>
+              </div>
+            )}
+          </Card>
+        </motion.div>
+      ) : (
+        <Card className="mt-6 p-10 text-center text-sm text-slate-500">
+          Nothing due for these filters. Come back later or widen the filters.
+        </Card>
+      )}
+    </div>
+  );
+}
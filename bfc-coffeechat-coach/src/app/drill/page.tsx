@@ -0,0 +1,12 @@
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { loadQuestionBankMeta } from "@/lib/question-bank";
+import DrillClient from "./drill-client";
+
+export default async function DrillPage() {
+  const session = await getServerSession(authOptions);
+  if (!session) redirect("/api/auth/signin");
+  const meta = loadQuestionBankMeta();
+  return <DrillClient meta={meta} />;
+}
@@ -0,0 +1,21 @@
+import { getServerSession } from "next-auth/next";
+import { notFound, redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { getInterviewSession } from "@/lib/interview-sessions";
+import SessionClient from "./session-client";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function HistorySessionPage({ params }: Props) {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) redirect("/api/auth/signin");
+  const { id } = await params;
+  const interview = await getInterviewSession(id, email);
+  if (!interview) notFound();
+  return <SessionClient session={interview} />;
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import Link from "next/link";
+import { motion } from "framer-motion";
+import type { InterviewSession } from "@/lib/interview-sessions";
+import { averageGradeScore, formatTiming, type InterviewMode, interviewModeConfigs } from "@/lib/mock-interview";
+import { formatDateTime, formatStage } from "@/lib/format";
+import { AnswerCheckList } from "@/components/answer-check";
+import { DeliveryStats } from "@/components/delivery-stats";
+import { FinalReportView } from "@/components/final-report";
+import { StoryComparisonNote } from "@/components/story-comparison";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+
+type Props = {
+  session: InterviewSession;
+};
+
+function scoreClass(score: number) {
+  if (score >= 7) return "bg-emerald-500";
+  if (score >= 4) return "bg-amber-500";
+  return "bg-red-500";
+}
+
+export default function SessionClient({ session }: Props) {
+  const modeConfig =
+    interviewModeConfigs[session.interviewMode as InterviewMode] || interviewModeConfigs.standard;
+  const avg = averageGradeScore(session.grades);
+  const gradesByIndex = new Map(session.grades.map((entry) => [entry.qIndex, entry]));
+  // Keyed by the question the adaptation swapped in.
+  const adaptationsByIndex = new Map(session.adaptations.map((entry) => [entry.afterQIndex + 1, entry]));
+
+  return (
+    <div className="mx-auto w-full max-w-5xl px-6 pb-16 pt-10">
+      <Link href="/history" className="text-sm font-semibold text-slate-500 hover:text-slate-900">
+        ← All sessions
+      </Link>
+
+      <div className="mt-3 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            {formatDateTime(session.createdAt)}
+          </div>
+          <h1 className="mt-1 text-2xl font-semibold text-slate-900">
+            {modeConfig.label} · {session.settings.firm}
+          </h1>
+          <div className="mt-1 text-sm text-slate-500">
+            {formatStage(session.settings.stage)} · {session.grades.length}/{session.plan.length} answered
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {avg !== null ? <Badge tone="neutral">Avg {avg}/10</Badge> : null}
+          <Badge tone={session.status === "completed" ? "success" : "neutral"}>
+            {session.status === "completed" ? "Completed" : "In progress"}
+          </Badge>
+          <Badge tone="warning">Read-only</Badge>
+        </div>
+      </div>
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[1.2fr_0.8fr]">
+        <div className="flex flex-col gap-4">
+          {session.plan.map((item) => {
+            const entry = gradesByIndex.get(item.qIndex);
+            const adaptation = adaptationsByIndex.get(item.qIndex);
+            return (
+              <motion.div key={item.qIndex} initial={{ opacity: 0, y: 6 }} animate={{ opacity: 1, y: 0 }}>
+                <Card className="p-5">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                        Q{item.qIndex} · {item.type.replace(/_/g, " ")}
+                        {(item.askedAtFirms ?? 0) > 1 ? ` · asked at ${item.askedAtFirms} firms` : ""}
+                        {item.resumeItem ? " · from your resume" : ""}
+                      </div>
+                      <div className="mt-1 text-sm font-semibold text-slate-900">{item.interviewerQuestion}</div>
+                      {adaptation ? (
+                        <div className="mt-1 text-xs text-slate-500">
+                          {adaptation.direction === "harder" ? "Stepped up" : "Eased off"} from a difficulty{" "}
+                          {adaptation.from.difficulty} {adaptation.from.type.replace(/_/g, " ")} question.{" "}
+                          {adaptation.reason}
+                        </div>
+                      ) : null}
+                    </div>
+                    {entry ? (
+                      <div
+                        className={`flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full text-sm font-bold text-white ${scoreClass(
+                          entry.grade.score0to10
+                        )}`}
+                      >
+                        {entry.grade.score0to10}
+                      </div>
+                    ) : (
+                      <Badge tone="neutral">Not answered</Badge>
+                    )}
+                  </div>
+                  {entry ? (
+                    <div className="mt-4 space-y-3 text-sm text-slate-700">
+                      <div className="rounded-lg border border-slate-100 bg-slate-50 p-3">
+                        <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Your answer</div>
+                        <div className="mt-1 whitespace-pre-wrap">{entry.userAnswer}</div>
+                        {entry.timing ? (
+                          <div className="mt-2 text-xs text-slate-500">{formatTiming(entry.timing)}</div>
+                        ) : null}
+                      </div>
+                      {entry.answerCheck ? <AnswerCheckList check={entry.answerCheck} /> : null}
+                      {entry.storyComparison ? <StoryComparisonNote comparison={entry.storyComparison} /> : null}
+                      <div className="grid gap-3 md:grid-cols-2">
+                        <div>
+                          <div className="font-semibold text-slate-900">Strengths</div>
+                          <ul className="mt-1 list-disc space-y-1 pl-4">
+                            {entry.grade.strengths.map((point, idx) => (
+                              <li key={idx}>{point}</li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div>
+                          <div className="font-semibold text-slate-900">Gaps</div>
+                          <ul className="mt-1 list-disc space-y-1 pl-4">
+                            {entry.grade.gaps.map((point, idx) => (
+                              <li key={idx}>{point}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                      <div>
+                        <div className="font-semibold text-slate-900">Better outline</div>
+                        <div className="mt-1 whitespace-pre-wrap text-xs">{entry.grade.correctedAnswerOutline}</div>
+                      </div>
+                      <div className="rounded-lg border border-emerald-100 bg-emerald-50 p-3 text-emerald-900">
+                        {entry.grade.nextBestSentence}
+                      </div>
+                    </div>
+                  ) : null}
+                </Card>
+              </motion.div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col gap-6">
+          {session.report ? (
+            <Card className="p-6">
+              <div className="text-base font-semibold text-slate-900">Final Report</div>
+              <div className="mt-4">
+                <FinalReportView report={session.report} pressureLevel={modeConfig.pressureLevel} />
+              </div>
+            </Card>
+          ) : null}
+          <Card className="p-6">
+            <div className="text-base font-semibold text-slate-900">Final Summary</div>
+            <div className="mt-4 whitespace-pre-wrap text-sm text-slate-800">
+              {session.finalSummary || (
+                <span className="block py-6 text-center text-slate-400">
+                  This interview was not finished, so there is no summary.
+                </span>
+              )}
+            </div>
+          </Card>
+          {session.delivery ? (
+            <Card className="p-6">
+              <div className="text-base font-semibold text-slate-900">Delivery</div>
+              <div className="mt-4 text-sm text-slate-700">
+                <DeliveryStats metrics={session.delivery} />
+              </div>
+            </Card>
+          ) : null}
+          {session.conversation.length > 0 ? (
+            <Card className="p-6">
+              <div className="text-base font-semibold text-slate-900">Transcript</div>
+              <div className="mt-4 space-y-3">
+                {session.conversation.map((msg, idx) => (
+                  <div key={idx} className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}>
+                    <div
+                      className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm ${
+                        msg.role === "user"
+                          ? "bg-slate-900 text-white"
+                          : "border border-slate-200 bg-slate-50 text-slate-900"
+                      }`}
+                    >
+                      {msg.content}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
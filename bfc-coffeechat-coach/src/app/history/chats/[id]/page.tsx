@@ -0,0 +1,21 @@
+import { getServerSession } from "next-auth/next";
+import { notFound, redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { getCoffeeChat } from "@/lib/coffee-chats";
+import ReplayClient from "./replay-client";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function CoffeeChatReplayPage({ params }: Props) {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) redirect("/api/auth/signin");
+  const { id } = await params;
+  const chat = await getCoffeeChat(id, email);
+  if (!chat) notFound();
+  return <ReplayClient chat={chat} />;
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import type { CoffeeChatRecord, CoffeeChatTurn } from "@/lib/coffee-chats";
+import { formatDateTime, formatStage } from "@/lib/format";
+import { CoffeeChatScorecardView } from "@/components/coffee-chat-scorecard";
+import { DeliveryStats } from "@/components/delivery-stats";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+type Props = {
+  chat: CoffeeChatRecord;
+};
+
+function toneFor(value: string): "neutral" | "success" | "warning" {
+  const lower = value.toLowerCase();
+  if (["warm", "clear", "has story", "ready"].includes(lower)) return "success";
+  if (["abrupt", "rambling", "vague", "missing story", "too early"].includes(lower)) return "warning";
+  return "neutral";
+}
+
+function TurnCoaching({ turn }: { turn: CoffeeChatTurn }) {
+  if (!turn.liveCoach && !turn.turnReview && !turn.delivery) {
+    return <div className="text-xs text-slate-400">No coaching recorded for this answer.</div>;
+  }
+  return (
+    <div className="space-y-3 text-xs text-slate-700">
+      {turn.liveCoach ? (
+        <>
+          <div className="flex flex-wrap gap-1.5">
+            <Badge tone={toneFor(turn.liveCoach.tone)}>Tone: {turn.liveCoach.tone}</Badge>
+            <Badge tone={toneFor(turn.liveCoach.clarity)}>Clarity: {turn.liveCoach.clarity}</Badge>
+            <Badge tone={toneFor(turn.liveCoach.structure)}>Structure: {turn.liveCoach.structure}</Badge>
+            <Badge tone={toneFor(turn.liveCoach.referral)}>Referral: {turn.liveCoach.referral}</Badge>
+          </div>
+          {turn.liveCoach.bullets.length > 0 ? (
+            <ul className="list-disc space-y-1 pl-4">
+              {turn.liveCoach.bullets.map((bullet, idx) => (
+                <li key={idx}>{bullet}</li>
+              ))}
+            </ul>
+          ) : null}
+        </>
+      ) : null}
+      {turn.turnReview ? (
+        <div className="whitespace-pre-wrap rounded-lg border border-slate-100 bg-slate-50 p-3">{turn.turnReview}</div>
+      ) : null}
+      {turn.delivery ? <DeliveryStats metrics={turn.delivery} /> : null}
+    </div>
+  );
+}
+
+export default function ReplayClient({ chat }: Props) {
+  const [step, setStep] = useState(1);
+  const [playing, setPlaying] = useState(false);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+  const total = chat.turns.length;
+
+  // Phase changes keyed by the number of user answers that preceded them.
+  const transitionsByTurn = useMemo(
+    () => new Map(chat.phaseTransitions.map((transition) => [transition.afterTurn, transition])),
+    [chat.phaseTransitions]
+  );
+  const userTurnNumbers = useMemo(() => {
+    const numbers: number[] = [];
+    for (const turn of chat.turns) {
+      const previous = numbers.at(-1) ?? 0;
+      numbers.push(turn.role === "user" ? previous + 1 : previous);
+    }
+    return numbers;
+  }, [chat.turns]);
+
+  // Playback stops on its own once the last turn is shown.
+  const isPlaying = playing && step < total;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => setStep((prev) => Math.min(total, prev + 1)), 1800);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, total]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [step]);
+
+  const visible = chat.turns.slice(0, step);
+  const currentPhase = visible.at(-1)?.phase ?? "opening";
+
+  return (
+    <div className="mx-auto w-full max-w-5xl px-6 pb-16 pt-10">
+      <Link href="/history" className="text-sm font-semibold text-slate-500 hover:text-slate-900">
+        ← All sessions
+      </Link>
+
+      <div className="mt-3 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            {formatDateTime(chat.createdAt)} · Coffee chat replay
+          </div>
+          <h1 className="mt-1 text-2xl font-semibold text-slate-900">
+            {chat.scenario.persona.name}, {chat.scenario.persona.title} · {chat.scenario.firmType} {chat.scenario.group}
+          </h1>
+          <div className="mt-1 text-sm text-slate-500">
+            {chat.scenario.track} · {chat.scenario.interviewerVibe} vibe · {chat.scenario.difficulty}
+          </div>
+        </div>
+        <Badge tone="neutral">Phase: {formatStage(currentPhase)}</Badge>
+      </div>
+
+      <Card className="sticky top-20 z-10 mt-6 flex flex-wrap items-center gap-3 p-4">
+        <Button type="button" variant="secondary" onClick={() => setStep((prev) => Math.max(1, prev - 1))} disabled={step <= 1}>
+          ← Prev
+        </Button>
+        <Button type="button" variant="secondary" onClick={() => setStep((prev) => Math.min(total, prev + 1))} disabled={step >= total}>
+          Next →
+        </Button>
+        <Button
+          type="button"
+          variant={isPlaying ? "ghost" : "primary"}
+          onClick={() => {
+            if (step >= total) setStep(1);
+            setPlaying(!isPlaying);
+          }}
+        >
+          {isPlaying ? "Pause" : "Play"}
+        </Button>
+        <input
+          type="range"
+          min={1}
+          max={Math.max(1, total)}
+          value={step}
+          onChange={(event) => {
+            setPlaying(false);
+            setStep(Number(event.target.value));
+          }}
+          className="min-w-[160px] flex-1 accent-slate-900"
+          aria-label="Replay position"
+        />
+        <div className="text-xs font-semibold text-slate-500">
+          {step}/{total}
+        </div>
+        <Button type="button" variant="ghost" onClick={() => setStep(total)} disabled={step >= total}>
+          Show all
+        </Button>
+      </Card>
+
+      <div className="mt-6 space-y-4">
+        {visible.map((turn, idx) => {
+          const transition = turn.role === "user" ? transitionsByTurn.get(userTurnNumbers[idx]) : undefined;
+          return (
+            <div key={idx}>
+              <motion.div
+                initial={{ opacity: 0, y: 6 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="grid gap-3 md:grid-cols-[1.1fr_0.9fr]"
+              >
+                <div className={`flex ${turn.role === "user" ? "justify-end" : "justify-start"}`}>
+                  <div
+                    className={`max-w-[90%] rounded-2xl px-4 py-2.5 text-sm ${
+                      turn.role === "user"
+                        ? "bg-slate-900 text-white"
+                        : "border border-slate-200 bg-slate-50 text-slate-900"
+                    }`}
+                  >
+                    {turn.content}
+                  </div>
+                </div>
+                {turn.role === "user" ? (
+                  <Card className="p-4">
+                    <TurnCoaching turn={turn} />
+                  </Card>
+                ) : (
+                  <div />
+                )}
+              </motion.div>
+              {transition ? (
+                <div className="mt-4 flex items-center gap-3 text-xs font-semibold uppercase tracking-wide text-slate-400">
+                  <span className="h-px flex-1 bg-slate-200" />
+                  {formatStage(transition.from)} → {formatStage(transition.to)}
+                  <span className="h-px flex-1 bg-slate-200" />
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      {step >= total ? (
+        <Card className="mt-8 p-6">
+          <div className="flex items-center justify-between">
+            <div className="text-base font-semibold text-slate-900">{chat.scorecard ? "Scorecard" : "Final summary"}</div>
+            <Badge tone="neutral">End of call</Badge>
+          </div>
+          {chat.scorecard ? (
+            <div className="mt-4">
+              <CoffeeChatScorecardView scorecard={chat.scorecard} />
+            </div>
+          ) : (
+            <div className="mt-4 whitespace-pre-wrap text-sm text-slate-800">
+              {chat.finalSummary || (
+                <span className="block py-6 text-center text-slate-400">No summary was generated for this chat.</span>
+              )}
+            </div>
+          )}
+        </Card>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import Link from "next/link";
+import { motion } from "framer-motion";
+import type { CoffeeChatRecord } from "@/lib/coffee-chats";
+import type { InterviewSession } from "@/lib/interview-sessions";
+import type { PitchMemoRecord } from "@/lib/pitch-memos";
+import {
+  averageGradeScore,
+  hireRecommendationLabels,
+  type InterviewMode,
+  interviewModeConfigs,
+} from "@/lib/mock-interview";
+import { formatDateTime, formatStage } from "@/lib/format";
+import { pmVerdictLabels } from "@/lib/stock-pitch";
+import { recommendationTones } from "@/components/final-report";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+type Props = {
+  sessions: InterviewSession[];
+  chats: CoffeeChatRecord[];
+  pitches: PitchMemoRecord[];
+};
+
+export default function HistoryClient({ sessions, chats, pitches }: Props) {
+  return (
+    <div className="mx-auto w-full max-w-4xl px-6 pb-16 pt-10">
+      <div>
+        <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">History</div>
+        <h1 className="mt-1 text-2xl font-semibold text-slate-900">Your practice sessions</h1>
+      </div>
+
+      <section className="mt-8">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h2 className="text-base font-semibold text-slate-900">Mock interviews</h2>
+          <Link href="/mock-interview">
+            <Button type="button" variant="secondary">New interview</Button>
+          </Link>
+        </div>
+        {sessions.length === 0 ? (
+          <Card className="mt-4 p-8 text-center text-sm text-slate-500">
+            No saved interviews yet. Finish a mock interview and it will show up here.
+          </Card>
+        ) : (
+          <div className="mt-4 space-y-3">
+            {sessions.map((session, idx) => {
+              const modeConfig =
+                interviewModeConfigs[session.interviewMode as InterviewMode] || interviewModeConfigs.standard;
+              const avg = averageGradeScore(session.grades);
+              return (
+                <motion.div
+                  key={session.id}
+                  initial={{ opacity: 0, y: 6 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: Math.min(idx, 10) * 0.03 }}
+                >
+                  <Link href={`/history/${session.id}`} className="block">
+                    <Card className="flex flex-wrap items-center justify-between gap-4 p-5 transition hover:border-slate-300">
+                      <div>
+                        <div className="text-sm font-semibold text-slate-900">
+                          {modeConfig.label} · {session.settings.firm}
+                        </div>
+                        <div className="mt-1 text-xs text-slate-500">
+                          {formatDateTime(session.createdAt)} · {formatStage(session.settings.stage)} ·{" "}
+                          {session.grades.length}/{session.plan.length} answered
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {avg !== null ? (
+                          <Badge tone={avg >= 7 ? "success" : avg >= 4 ? "warning" : "neutral"}>
+                            Avg {avg}/10
+                          </Badge>
+                        ) : null}
+                        {session.report ? (
+                          <Badge tone={recommendationTones[session.report.recommendation]}>
+                            {hireRecommendationLabels[session.report.recommendation]}
+                          </Badge>
+                        ) : null}
+                        <Badge tone={session.status === "completed" ? "success" : "neutral"}>
+                          {session.status === "completed" ? "Completed" : "In progress"}
+                        </Badge>
+                      </div>
+                    </Card>
+                  </Link>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      <section className="mt-10">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h2 className="text-base font-semibold text-slate-900">Coffee chats</h2>
+          <Link href="/practice">
+            <Button type="button" variant="secondary">New coffee chat</Button>
+          </Link>
+        </div>
+        {chats.length === 0 ? (
+          <Card className="mt-4 p-8 text-center text-sm text-slate-500">
+            No saved coffee chats yet. End a chat and it will show up here for replay.
+          </Card>
+        ) : (
+          <div className="mt-4 space-y-3">
+            {chats.map((chat, idx) => {
+              const userTurns = chat.turns.filter((turn) => turn.role === "user").length;
+              const lastPhase = chat.turns.at(-1)?.phase ?? "opening";
+              return (
+                <motion.div
+                  key={chat.id}
+                  initial={{ opacity: 0, y: 6 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: Math.min(idx, 10) * 0.03 }}
+                >
+                  <Link href={`/history/chats/${chat.id}`} className="block">
+                    <Card className="flex flex-wrap items-center justify-between gap-4 p-5 transition hover:border-slate-300">
+                      <div>
+                        <div className="text-sm font-semibold text-slate-900">
+                          {chat.scenario.persona.name} · {chat.scenario.persona.title}, {chat.scenario.firmType}{" "}
+                          {chat.scenario.group}
+                        </div>
+                        <div className="mt-1 text-xs text-slate-500">
+                          {formatDateTime(chat.createdAt)} · {chat.scenario.track} · {userTurns} answers · reached{" "}
+                          {formatStage(lastPhase)}
+                        </div>
+                      </div>
+                      {chat.scorecard ? (
+                        <Badge tone="success">Would refer {chat.scorecard.wouldReferPercent}%</Badge>
+                      ) : (
+                        <Badge tone={chat.finalSummary ? "success" : "neutral"}>
+                          {chat.finalSummary ? "Summary" : "No summary"}
+                        </Badge>
+                      )}
+                    </Card>
+                  </Link>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      <section className="mt-10">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h2 className="text-base font-semibold text-slate-900">Stock pitches</h2>
+          <Link href="/pitch">
+            <Button type="button" variant="secondary">New pitch</Button>
+          </Link>
+        </div>
+        {pitches.length === 0 ? (
+          <Card className="mt-4 p-8 text-center text-sm text-slate-500">
+            No saved pitches yet. Save the memo after a cross-exam and it will show up here.
+          </Card>
+        ) : (
+          <div className="mt-4 space-y-3">
+            {pitches.map((pitch, idx) => {
+              const last = pitch.attempts.at(-1);
+              return (
+                <motion.div
+                  key={pitch.id}
+                  initial={{ opacity: 0, y: 6 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: Math.min(idx, 10) * 0.03 }}
+                >
+                  <Link href={`/pitch?id=${pitch.id}`} className="block">
+                    <Card className="flex flex-wrap items-center justify-between gap-4 p-5 transition hover:border-slate-300">
+                      <div>
+                        <div className="text-sm font-semibold text-slate-900">
+                          {pitch.memo.headline ||
+                            `${pitch.setup.direction === "long" ? "Long" : "Short"} ${pitch.setup.ticker}`}
+                        </div>
+                        <div className="mt-1 text-xs text-slate-500">
+                          Updated {formatDateTime(pitch.updatedAt)} · {pitch.attempts.length}{" "}
+                          {pitch.attempts.length === 1 ? "attempt" : "attempts"}
+                        </div>
+                      </div>
+                      {last ? (
+                        <div className="flex items-center gap-2">
+                          <Badge tone={last.scorecard.overallScore0to10 >= 7 ? "success" : "neutral"}>
+                            {last.scorecard.overallScore0to10}/10
+                          </Badge>
+                          <Badge tone="neutral">{pmVerdictLabels[last.scorecard.pmVerdict]}</Badge>
+                        </div>
+                      ) : null}
+                    </Card>
+                  </Link>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
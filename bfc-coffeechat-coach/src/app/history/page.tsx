@@ -0,0 +1,21 @@
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { listCoffeeChats } from "@/lib/coffee-chats";
+import { listInterviewSessions } from "@/lib/interview-sessions";
+import { listPitchMemos } from "@/lib/pitch-memos";
+import HistoryClient from "./history-client";
+
+export const dynamic = "force-dynamic";
+
+export default async function HistoryPage() {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) redirect("/api/auth/signin");
+  const [sessions, chats, pitches] = await Promise.all([
+    listInterviewSessions(email),
+    listCoffeeChats(email),
+    listPitchMemos(email),
+  ]);
+  return <HistoryClient sessions={sessions} chats={chats} pitches={pitches} />;
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import {
+  type Exercise,
+  type ExerciseKind,
+  exerciseKindLabels,
+  EXERCISE_YEARS,
+  type WorksheetField,
+  type WorksheetGrade,
+  type WorksheetStep,
+} from "@/lib/modeling-exercises";
+import { type InterviewMode, interviewModeConfigs } from "@/lib/mock-interview";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select } from "@/components/ui/select";
+
+type ExerciseClientProps = {
+  mode: InterviewMode;
+  initialKind: ExerciseKind;
+};
+
+function parseJsonRecord(text: string) {
+  if (!text) return {} as Record<string, unknown>;
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+const unitHints: Record<WorksheetField["unit"], string> = { $: "$M", x: "x", "%": "%" };
+
+const stepClasses: Record<WorksheetStep["status"], string> = {
+  correct: "border-emerald-300 bg-emerald-50",
+  carried: "border-amber-300 bg-amber-50",
+  incorrect: "border-red-300 bg-red-50",
+  blank: "border-slate-200 bg-white",
+};
+
+const stepTones = { correct: "success", carried: "warning", incorrect: "warning", blank: "neutral" } as const;
+
+const stepLabels: Record<WorksheetStep["status"], string> = {
+  correct: "Correct",
+  carried: "Follows from your numbers",
+  incorrect: "Off",
+  blank: "Blank",
+};
+
+const years = Array.from({ length: EXERCISE_YEARS }, (_, idx) => idx + 1);
+
+// Accepts what people type on a worksheet: "$1,000", "14.8%", "2.0x".
+function parseWorksheetNumber(value: string) {
+  const cleaned = value.replace(/[$,%x\s]/gi, "");
+  if (!cleaned) return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function formatExpected(step: WorksheetStep) {
+  if (step.unit === "x") return `${step.expected.toFixed(2)}x`;
+  if (step.unit === "%") return `${step.expected.toFixed(1)}%`;
+  return `$${step.expected.toLocaleString(undefined, { maximumFractionDigits: 1 })}M`;
+}
+
+function groupFields(fields: WorksheetField[]) {
+  const groups: Array<{ name: string; fields: WorksheetField[] }> = [];
+  for (const field of fields) {
+    const group = groups.find((entry) => entry.name === field.group);
+    if (group) group.fields.push(field);
+    else groups.push({ name: field.group, fields: [field] });
+  }
+  return groups;
+}
+
+export default function ExerciseClient({ mode, initialKind }: ExerciseClientProps) {
+  const modeConfig = interviewModeConfigs[mode];
+  const [kind, setKind] = useState<ExerciseKind>(initialKind);
+  const [exercise, setExercise] = useState<Exercise | null>(null);
+  const [token, setToken] = useState("");
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<WorksheetGrade | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadExercise = useCallback(
+    async (nextKind: ExerciseKind) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/mock-interview/exercise", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ kind: nextKind, interviewMode: mode }),
+        });
+        const payload = parseJsonRecord(await res.text());
+        if (!res.ok) {
+          const msg = (payload.error as string) || res.statusText;
+          const requestId = payload.requestId as string | undefined;
+          setError(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+          return;
+        }
+        setExercise(payload.exercise as Exercise);
+        setToken(payload.token as string);
+        setInputs({});
+        setResult(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load the exercise.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [mode]
+  );
+
+  useEffect(() => {
+    void loadExercise(initialKind);
+  }, [initialKind, loadExercise]);
+
+  const submit = async () => {
+    if (!exercise) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const numbers = Object.fromEntries(
+        exercise.fields.map((field) => [field.key, parseWorksheetNumber(inputs[field.key] ?? "")])
+      );
+      const res = await fetch("/api/mock-interview/exercise/grade", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ params: exercise.params, token, inputs: numbers }),
+      });
+      const payload = parseJsonRecord(await res.text());
+      if (!res.ok) {
+        const msg = (payload.error as string) || res.statusText;
+        const requestId = payload.requestId as string | undefined;
+        setError(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+        return;
+      }
+      setResult(payload.result as WorksheetGrade);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to grade the worksheet.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const stepFor = (key: string) => result?.steps.find((step) => step.key === key) ?? null;
+
+  const renderInput = (field: WorksheetField) => {
+    const step = stepFor(field.key);
+    return (
+      <div key={field.key}>
+        <input
+          type="text"
+          inputMode="decimal"
+          aria-label={field.year ? `${field.label}, year ${field.year}` : field.label}
+          placeholder={unitHints[field.unit]}
+          value={inputs[field.key] ?? ""}
+          onChange={(event) => setInputs((prev) => ({ ...prev, [field.key]: event.target.value }))}
+          className={`w-full rounded-md border px-2 py-1.5 text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-slate-900 ${
+            stepClasses[step?.status ?? "blank"]
+          }`}
+        />
+        {step && step.status !== "correct" ? (
+          <div className="mt-0.5 text-[11px] text-slate-500" title={stepLabels[step.status]}>
+            {formatExpected(step)}
+          </div>
+        ) : null}
+      </div>
+    );
+  };
+
+  const kindOptions = modeConfig.exercises.map((value) => ({ value, label: exerciseKindLabels[value] }));
+
+  return (
+    <div className="mx-auto w-full max-w-5xl px-6 pb-16 pt-10">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            {modeConfig.label} · Modeling exercise
+          </div>
+          <h1 className="mt-1 text-2xl font-semibold text-slate-900">{exerciseKindLabels[kind]} worksheet</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Work it on paper, fill in each step, then check. Every step is graded, and a slip early on only costs you
+            once if the rest follows from your numbers.
+          </p>
+        </div>
+        <Link href="/mock-interview" className="text-sm font-semibold text-slate-600 hover:text-slate-900">
+          ← Back to mock interview
+        </Link>
+      </div>
+
+      <Card className="mt-6 flex flex-wrap items-end gap-4 p-6">
+        {kindOptions.length > 1 ? (
+          <Select
+            label="Exercise"
+            value={kind}
+            options={kindOptions}
+            onChange={(value) => {
+              setKind(value as ExerciseKind);
+              void loadExercise(value as ExerciseKind);
+            }}
+            disabled={loading}
+            className="min-w-48"
+          />
+        ) : null}
+        <Button type="button" variant="secondary" onClick={() => void loadExercise(kind)} disabled={loading}>
+          New numbers
+        </Button>
+      </Card>
+
+      {error ? (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      ) : null}
+
+      {exercise ? (
+        <motion.div key={JSON.stringify(exercise.params)} initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }}>
+          <Card className="mt-6 p-6">
+            <div className="text-sm text-slate-800">{exercise.prompt}</div>
+            <div className="mt-4 grid gap-2 sm:grid-cols-2 md:grid-cols-4">
+              {exercise.givens.map((given) => (
+                <div key={given.label} className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2">
+                  <div className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">{given.label}</div>
+                  <div className="text-sm font-semibold text-slate-900">{given.value}</div>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          {groupFields(exercise.fields).map((group) => {
+            const byYear = group.fields.some((field) => field.year !== undefined);
+            const rowLabels = Array.from(new Set(group.fields.map((field) => field.label)));
+            return (
+              <Card key={group.name} className="mt-4 p-6">
+                <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">{group.name}</div>
+                {byYear ? (
+                  <div className="mt-3 overflow-x-auto">
+                    <table className="w-full min-w-[560px] text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-slate-500">
+                          <th className="pb-2 pr-3 font-semibold">$M</th>
+                          {years.map((year) => (
+                            <th key={year} className="pb-2 pr-2 font-semibold">
+                              Year {year}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rowLabels.map((label) => (
+                          <tr key={label} className="align-top">
+                            <td className="py-1 pr-3 text-slate-700">{label}</td>
+                            {years.map((year) => {
+                              const field = group.fields.find((entry) => entry.label === label && entry.year === year);
+                              return (
+                                <td key={year} className="py-1 pr-2">
+                                  {field ? renderInput(field) : null}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="mt-3 grid gap-3 md:grid-cols-2">
+                    {group.fields.map((field) => (
+                      <label key={field.key} className="flex items-start justify-between gap-3 text-sm text-slate-700">
+                        <span className="pt-1.5">{field.label}</span>
+                        <div className="w-40">{renderInput(field)}</div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            );
+          })}
+
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <Button type="button" onClick={() => void submit()} disabled={loading}>
+              {loading ? "Checking…" : "Check worksheet"}
+            </Button>
+            {result ? (
+              <>
+                <Badge tone={result.score0to10 >= 7 ? "success" : result.score0to10 >= 4 ? "neutral" : "warning"}>
+                  {result.score0to10}/10
+                </Badge>
+                <span className="text-sm text-slate-600">
+                  {result.correct} of {result.total} steps correct
+                  {result.carried > 0 ? `, ${result.carried} following from your own numbers` : ""}
+                </span>
+              </>
+            ) : null}
+          </div>
+          {result ? (
+            <div className="mt-3 flex flex-wrap gap-2 text-xs text-slate-500">
+              {(["correct", "carried", "incorrect"] as const).map((status) => (
+                <Badge key={status} tone={stepTones[status]}>
+                  {stepLabels[status]}
+                </Badge>
+              ))}
+              <span className="self-center">The correct figure is shown under every step you missed.</span>
+            </div>
+          ) : null}
+        </motion.div>
+      ) : loading ? (
+        <Card className="mt-6 p-10 text-center text-sm text-slate-500">Loading exercise…</Card>
+      ) : null}
+    </div>
+  );
+}
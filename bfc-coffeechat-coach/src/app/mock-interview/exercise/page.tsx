@@ -0,0 +1,23 @@
+import { getServerSession } from "next-auth/next";
+import { notFound, redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { exerciseKindSchema } from "@/lib/modeling-exercises";
+import { type InterviewMode, interviewModeConfigs } from "@/lib/mock-interview";
+import ExerciseClient from "./exercise-client";
+
+type Props = {
+  searchParams: Promise<{ mode?: string; kind?: string }>;
+};
+
+export default async function ExercisePage({ searchParams }: Props) {
+  const session = await getServerSession(authOptions);
+  if (!session) redirect("/api/auth/signin");
+  const { mode, kind } = await searchParams;
+  const modeConfig =
+    mode && Object.hasOwn(interviewModeConfigs, mode) ? interviewModeConfigs[mode as InterviewMode] : undefined;
+  if (!modeConfig || modeConfig.exercises.length === 0) notFound();
+  const parsedKind = exerciseKindSchema.safeParse(kind);
+  const initialKind =
+    parsedKind.success && modeConfig.exercises.includes(parsedKind.data) ? parsedKind.data : modeConfig.exercises[0];
+  return <ExerciseClient mode={mode as InterviewMode} initialKind={initialKind} />;
+}
@@ -1,9 +1,13 @@
 "use client";
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { motion } from "framer-motion";
 import type { QuestionBankMeta } from "@/lib/question-bank";
 import {
+  type AnswerTiming,
+  type FinalReport,
+  formatTiming,
   type InterviewMode,
   type MockInterviewSettings,
   interviewModeConfigs,
@@ -11,6 +15,23 @@ import {
   questionStageOptions,
   questionTypeOptions,
 } from "@/lib/mock-interview";
+import {
+  analyzeDelivery,
+  createAnswerTimeline,
+  type DeliveryMetrics,
+  type DeliverySummary,
+  estimateSpeakingSeconds,
+} from "@/lib/delivery";
+import type { Adaptation } from "@/lib/adaptive-difficulty";
+import type { AnswerCheck } from "@/lib/answer-key";
+import type { StoryComparison } from "@/lib/star-stories";
+import { exerciseKindLabels } from "@/lib/modeling-exercises";
+import { type AudioRecording, canRecordAudio, startRecording, transcribeRecording } from "@/lib/audio-recorder";
+import { readTextStream, takeCompleteSentences } from "@/lib/streaming";
+import { AnswerCheckList } from "@/components/answer-check";
+import { DeliveryStats } from "@/components/delivery-stats";
+import { FinalReportView } from "@/components/final-report";
+import { StoryComparisonNote } from "@/components/story-comparison";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -37,11 +58,16 @@ type PlanItem = {
   interviewerQuestion: string;
   expectedRubric: string;
   idealAnswerOutline: string;
+  askedAtFirms?: number;
+  difficulty?: number;
+  seedId?: string;
+  resumeItem?: string;
 };
 
 type PlanResponse = {
   plan: PlanItem[];
   seedCount: number;
+  sessionId?: string | null;
   requestId?: string;
 };
 
@@ -51,6 +77,13 @@ type GradeResponse = {
   gaps: string[];
   correctedAnswerOutline: string;
   nextBestSentence: string;
+  /** Set when the question has an answer key. */
+  answerCheck?: AnswerCheck | null;
+  /** Set for behavioral answers when the user has stories in the bank. */
+  storyComparison?: StoryComparison | null;
+  /** Set in adaptive mode when this grade changed the next question. */
+  adaptation?: Adaptation | null;
+  nextPlanItem?: PlanItem | null;
   requestId?: string;
 };
 
@@ -66,8 +99,28 @@ function parseJsonRecord(text: string) {
 
 type Props = {
   meta: QuestionBankMeta;
+  /** Whether the user has a resume on file for resume questions. */
+  hasResume: boolean;
 };
 
+const MAX_RECORDING_MS = 3 * 60 * 1000;
+const CLOCK_TICK_MS = 250;
+// Sent for grading when the clock runs out before anything was said.
+const NO_ANSWER_TEXT = "(No answer before time ran out.)";
+
+const DEFAULT_TIME_BUDGET = { perQuestionSeconds: 120, totalMinutes: 30 };
+const perQuestionOptions = [45, 60, 90, 120, 180].map((seconds) => ({ value: String(seconds), label: `${seconds} seconds` }));
+const totalMinutesOptions = [10, 20, 30, 45, 60].map((minutes) => ({ value: String(minutes), label: `${minutes} minutes` }));
+
+function formatClock(ms: number) {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function round1(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
 function getSpeechRecognition(): SpeechRecognition | null {
   if (typeof window === "undefined") return null;
   const SpeechRecognitionImpl = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -75,21 +128,38 @@ function getSpeechRecognition(): SpeechRecognition | null {
   return new SpeechRecognitionImpl();
 }
 
-export default function MockInterviewClient({ meta }: Props) {
+export default function MockInterviewClient({ meta, hasResume }: Props) {
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const recordingRef = useRef<AudioRecording | null>(null);
+  const recordingStartedAtRef = useRef(0);
+  const timelineRef = useRef(createAnswerTimeline());
+  // Interviewer playback time since the last answer, for the talk-time ratio.
+  const interviewerTalkMsRef = useRef(0);
+  const deliveryLogRef = useRef<DeliveryMetrics[]>([]);
   const ttsAudioRef = useRef<HTMLAudioElement | null>(null);
   const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const currentUserTurnRef = useRef("");
   const conversationRef = useRef<Message[]>([]);
   const inFlightRef = useRef(false);
+  const pendingGradesRef = useRef(new Set<Promise<unknown>>());
   const finalizeTurnRef = useRef<() => void>(() => {});
   const startTranscriptionRef = useRef<() => void>(() => {});
   const statusRef = useRef<InterviewStatus>("idle");
   const holdToTalkRef = useRef(false);
   const isTranscribingRef = useRef(false);
+  const interimTextRef = useRef("");
+  // Timed mode: mic-open time on the current question, when the first word
+  // was heard on that clock, and whole-interview time outside pauses.
+  const answerClockMsRef = useRef(0);
+  const firstWordMsRef = useRef<number | null>(null);
+  const totalClockMsRef = useRef(0);
+  const cutInRef = useRef(false);
+  const cutInAnswerRef = useRef<() => void>(() => {});
+  const endInterviewRef = useRef<() => void>(() => {});
 
   const [status, setStatus] = useState<InterviewStatus>("idle");
   const [speechSupported, setSpeechSupported] = useState(true);
+  const [recordingSupported, setRecordingSupported] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [speechError, setSpeechError] = useState<string | null>(null);
   const [interimTranscript, setInterimTranscript] = useState("");
@@ -100,7 +170,14 @@ export default function MockInterviewClient({ meta }: Props) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [seedCount, setSeedCount] = useState<number | null>(null);
   const [finalSummary, setFinalSummary] = useState<string>("");
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [feedback, setFeedback] = useState<GradeResponse | null>(null);
+  const [delivery, setDelivery] = useState<DeliveryMetrics | null>(null);
+  const [deliverySummary, setDeliverySummary] = useState<DeliverySummary | null>(null);
+  const [report, setReport] = useState<FinalReport | null>(null);
+  const [adaptations, setAdaptations] = useState<Adaptation[]>([]);
+  const [clock, setClock] = useState<{ questionMs: number; totalMs: number }>({ questionMs: 0, totalMs: 0 });
+  const [lastTiming, setLastTiming] = useState<AnswerTiming | null>(null);
   const [apiError, setApiError] = useState<string | null>(null);
   const [pendingNext, setPendingNext] = useState(false);
   const [holdToTalk, setHoldToTalk] = useState(false);
@@ -114,6 +191,9 @@ export default function MockInterviewClient({ meta }: Props) {
     questionTypes: ["all"],
     randomize: true,
     followUps: true,
+    adaptive: false,
+    statementDrills: false,
+    useResume: hasResume,
   });
   const [numQuestions, setNumQuestions] = useState(6);
   const [showOtherFirms, setShowOtherFirms] = useState(false);
@@ -131,9 +211,12 @@ export default function MockInterviewClient({ meta }: Props) {
       typeof window !== "undefined" &&
         ("SpeechRecognition" in window || "webkitSpeechRecognition" in window)
     );
+    setRecordingSupported(canRecordAudio());
     return () => {
       recognitionRef.current?.stop();
       recognitionRef.current = null;
+      recordingRef.current?.cancel();
+      recordingRef.current = null;
       if (silenceTimerRef.current) {
         clearTimeout(silenceTimerRef.current);
       }
@@ -148,6 +231,7 @@ export default function MockInterviewClient({ meta }: Props) {
       questionTypes: config.suggestedTypes.length > 0 ? config.suggestedTypes : ["all"],
     }));
     setNumQuestions(config.defaultNumQuestions);
+    setSettings((prev: MockInterviewSettings) => ({ ...prev, timed: config.timeBudget }));
   }, [interviewMode]);
 
   const firmOptions = useMemo(() => {
@@ -220,82 +304,123 @@ export default function MockInterviewClient({ meta }: Props) {
     }
   }, []);
 
-  /**
-   * speak() returns a Promise that resolves when audio playback ENDS (not when
-   * it starts). This ensures callers can sequence: speak → then start listening,
-   * preventing the microphone from picking up TTS audio output.
-   */
-  const speak = useCallback(
-    (text: string): Promise<void> => {
-      const trimmed = text.trim();
-      if (!trimmed) return Promise.resolve();
-      setTtsError(null);
-      const speakText = trimmed.length > 280 ? `${trimmed.slice(0, 277)}...` : trimmed;
+  /** Fetches TTS audio for one utterance; resolves to an object URL, or null after reporting the error. */
+  const fetchSpeech = useCallback(async (text: string): Promise<string | null> => {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    const speakText = trimmed.length > 280 ? `${trimmed.slice(0, 277)}...` : trimmed;
+    try {
+      const res = await fetch("/api/tts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: speakText }),
+      });
+
+      if (!res.ok) {
+        const errorText = await res.text();
+        let payload: { error?: string } = {};
+        try {
+          payload = errorText ? (JSON.parse(errorText) as { error?: string }) : {};
+        } catch {
+          payload = {};
+        }
+        throw new Error(payload.error || errorText || res.statusText);
+      }
+
+      const blob = await res.blob();
+      return URL.createObjectURL(blob);
+    } catch (err) {
+      setTtsError(err instanceof Error ? err.message : "TTS failed.");
+      // Reset status so the UI doesn't stay stuck on "speaking"
+      setStatus((prev) =>
+        prev === "speaking" || prev === "speaking_intro" ? "listening" : prev
+      );
+      return null;
+    }
+  }, []);
 
+  /** Plays fetched audio; resolves when playback ends or fails. */
+  const playSpeech = useCallback(
+    (audioUrl: string | null): Promise<void> => {
+      if (!audioUrl) return Promise.resolve();
       return new Promise<void>((resolve) => {
         void (async () => {
+          const audioEl = ensureTtsAudio();
+          audioEl.pause();
+          audioEl.currentTime = 0;
+          audioEl.src = audioUrl;
+          setStatus((prev) => (prev === "paused" ? prev : "speaking"));
           try {
-            const res = await fetch("/api/tts", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ text: speakText }),
-            });
-
-            if (!res.ok) {
-              const errorText = await res.text();
-              let payload: { error?: string } = {};
-              try {
-                payload = errorText ? (JSON.parse(errorText) as { error?: string }) : {};
-              } catch {
-                payload = {};
-              }
-              throw new Error(payload.error || errorText || res.statusText);
-            }
-
-            const blob = await res.blob();
-            const audioUrl = URL.createObjectURL(blob);
-            const audioEl = ensureTtsAudio();
-            audioEl.pause();
-            audioEl.currentTime = 0;
-            audioEl.src = audioUrl;
-            setStatus((prev) => (prev === "paused" ? prev : "speaking"));
-            try {
-              await audioEl.play();
-              setAudioNeedsClick(false);
-            } catch {
-              setAudioNeedsClick(true);
-              // Reset status so the UI doesn't stay stuck on "speaking"
-              setStatus((prev) =>
-                prev === "speaking" || prev === "speaking_intro" ? "listening" : prev
-              );
-              resolve();
-              return;
-            }
-            audioEl.onended = () => {
-              URL.revokeObjectURL(audioUrl);
-              setStatus((prev) => (prev === "paused" ? prev : "listening"));
-              resolve();
-            };
-            audioEl.onerror = () => {
-              setStatus((prev) =>
-                prev === "speaking" || prev === "speaking_intro" ? "listening" : prev
-              );
-              resolve();
-            };
-          } catch (err) {
-            setTtsError(err instanceof Error ? err.message : "TTS failed.");
+            await audioEl.play();
+            setAudioNeedsClick(false);
+          } catch {
+            setAudioNeedsClick(true);
             // Reset status so the UI doesn't stay stuck on "speaking"
             setStatus((prev) =>
               prev === "speaking" || prev === "speaking_intro" ? "listening" : prev
             );
             resolve();
+            return;
           }
+          const playStartedAt = Date.now();
+          audioEl.onended = () => {
+            interviewerTalkMsRef.current += Date.now() - playStartedAt;
+            URL.revokeObjectURL(audioUrl);
+            setStatus((prev) => (prev === "paused" ? prev : "listening"));
+            resolve();
+          };
+          audioEl.onerror = () => {
+            setStatus((prev) =>
+              prev === "speaking" || prev === "speaking_intro" ? "listening" : prev
+            );
+            resolve();
+          };
         })();
       });
     },
     [ensureTtsAudio]
   );
 
+  /**
+   * speak() returns a Promise that resolves when audio playback ENDS (not when
+   * it starts). This ensures callers can sequence: speak → then start listening,
+   * preventing the microphone from picking up TTS audio output.
+   */
+  const speak = useCallback(
+    async (text: string): Promise<void> => {
+      setTtsError(null);
+      await playSpeech(await fetchSpeech(text));
+    },
+    [fetchSpeech, playSpeech]
+  );
+
+  /**
+   * Speaks sentences as they stream in. Each sentence's audio is fetched as
+   * soon as it is queued and played in order, so the interviewer starts
+   * talking after the first sentence rather than the whole reply.
+   */
+  const createSpeechQueue = useCallback(() => {
+    let playback = Promise.resolve();
+    let cancelled = false;
+    return {
+      push(sentence: string) {
+        const audio = fetchSpeech(sentence);
+        playback = playback.then(async () => {
+          const audioUrl = await audio;
+          if (cancelled) {
+            if (audioUrl) URL.revokeObjectURL(audioUrl);
+            return;
+          }
+          await playSpeech(audioUrl);
+        });
+      },
+      cancel() {
+        cancelled = true;
+      },
+      finished: () => playback,
+    };
+  }, [fetchSpeech, playSpeech]);
+
   const retryAudio = useCallback(async () => {
     if (!ttsAudioRef.current) return;
     try {
@@ -318,18 +443,80 @@ export default function MockInterviewClient({ meta }: Props) {
     }
     recognitionRef.current?.stop();
     recognitionRef.current = null;
+    recordingRef.current?.cancel();
+    recordingRef.current = null;
     isTranscribingRef.current = false;
     setIsTranscribing(false);
+    interimTextRef.current = "";
     setInterimTranscript("");
   }, []);
 
+  /**
+   * Ends a fallback recording: uploads the answer to /api/stt and finalizes
+   * the turn with the transcript, as a pause does with SpeechRecognition.
+   */
+  const finishRecording = useCallback(async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    isTranscribingRef.current = false;
+    setIsTranscribing(false);
+    setInterimTranscript("Transcribing...");
+    try {
+      const audio = await recording.stop();
+      const question = conversationRef.current.filter((msg) => msg.role === "interviewer").at(-1)?.content;
+      const { text, words } = await transcribeRecording(audio, question);
+      if (words?.length) timelineRef.current.addWords(words, recordingStartedAtRef.current);
+      // Recording starts with the mic, so the first word's offset is on the answer clock.
+      if (words?.length && firstWordMsRef.current === null) firstWordMsRef.current = words[0].start * 1000;
+      if (text.trim()) {
+        currentUserTurnRef.current = `${currentUserTurnRef.current} ${text.trim()}`.trim();
+      }
+      if (statusRef.current !== "listening") return;
+      if (currentUserTurnRef.current.trim()) {
+        void finalizeTurnRef.current();
+      } else if (!holdToTalkRef.current) {
+        // Nothing intelligible was said; keep listening.
+        startTranscriptionRef.current();
+      }
+    } catch (err) {
+      setSpeechError(err instanceof Error ? err.message : "Transcription failed.");
+    } finally {
+      setInterimTranscript("");
+    }
+  }, []);
+
   const startTranscription = useCallback(() => {
     setSpeechError(null);
+    if (isTranscribingRef.current) return;
     if (!speechSupported) {
-      setSpeechError("Speech recognition not supported — use Chrome or enable fallback.");
+      if (!recordingSupported) {
+        setSpeechError("Speech input is not supported in this browser — try Chrome.");
+        return;
+      }
+      isTranscribingRef.current = true;
+      setIsTranscribing(true);
+      setStatus("listening");
+      startRecording({
+        onSilence: holdToTalkRef.current ? undefined : () => void finishRecording(),
+        maxMs: MAX_RECORDING_MS,
+      })
+        .then((recording) => {
+          // Stopped while the permission prompt was open.
+          if (!isTranscribingRef.current) {
+            recording.cancel();
+            return;
+          }
+          recordingStartedAtRef.current = Date.now();
+          recordingRef.current = recording;
+        })
+        .catch(() => {
+          setSpeechError("Microphone blocked. Click the lock icon → allow microphone → reload.");
+          isTranscribingRef.current = false;
+          setIsTranscribing(false);
+        });
       return;
     }
-    if (isTranscribingRef.current) return;
 
     const recognition = getSpeechRecognition();
     if (!recognition) {
@@ -347,6 +534,10 @@ export default function MockInterviewClient({ meta }: Props) {
       for (let i = event.resultIndex; i < event.results.length; i += 1) {
         const result = event.results[i];
         const chunk = result[0]?.transcript ?? "";
+        if (chunk.trim()) {
+          timelineRef.current.heard();
+          if (firstWordMsRef.current === null) firstWordMsRef.current = answerClockMsRef.current;
+        }
         if (result.isFinal) {
           finalText += chunk;
         } else {
@@ -362,6 +553,7 @@ export default function MockInterviewClient({ meta }: Props) {
 
       const trimmedFinal = finalText.trim();
       if (trimmedFinal) {
+        timelineRef.current.addFinal(trimmedFinal);
         currentUserTurnRef.current = `${currentUserTurnRef.current} ${trimmedFinal}`.trim();
         if (!holdToTalkRef.current) {
           if (silenceTimerRef.current) {
@@ -372,6 +564,7 @@ export default function MockInterviewClient({ meta }: Props) {
           }, 900);
         }
       }
+      interimTextRef.current = interimText.trim();
       setInterimTranscript(interimText.trim());
     };
 
@@ -410,15 +603,15 @@ export default function MockInterviewClient({ meta }: Props) {
     isTranscribingRef.current = true;
     setIsTranscribing(true);
     setStatus("listening");
-  }, [speechSupported, stopSpeaking]);
+  }, [finishRecording, recordingSupported, speechSupported, stopSpeaking]);
 
   useEffect(() => {
     startTranscriptionRef.current = startTranscription;
   }, [startTranscription]);
 
   const advanceToQuestion = useCallback(
-    async (index: number) => {
-      const nextItem = plan[index];
+    async (index: number, items: PlanItem[] = plan) => {
+      const nextItem = items[index];
       if (!nextItem) {
         setStatus("idle");
         return;
@@ -441,13 +634,102 @@ export default function MockInterviewClient({ meta }: Props) {
     [plan, speak, stopTranscription, updateConversation]
   );
 
+  /**
+   * Moves to the next plan question through the streaming turn route: the
+   * interviewer acknowledges the answer and asks the question, with text
+   * rendered and spoken sentence by sentence as it arrives. Falls back to
+   * reading the plan question verbatim if the stream fails.
+   */
+  const streamToQuestion = useCallback(
+    async (index: number, lastUserTurn: string, items: PlanItem[] = plan, cutIn = false) => {
+      const currentItem = items[index - 1];
+      const nextItem = items[index];
+      if (!currentItem || !nextItem) {
+        await advanceToQuestion(index, items);
+        return;
+      }
+      stopTranscription();
+      setTtsError(null);
+      const baseConversation = conversationRef.current;
+      const queue = createSpeechQueue();
+      let streamed = "";
+      let unspoken = "";
+      try {
+        const res = await fetch("/api/mock-interview/turn", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+          body: JSON.stringify({
+            settings,
+            currentQuestion: currentItem.interviewerQuestion,
+            nextQuestion: nextItem.interviewerQuestion,
+            lastUserTurn,
+            interviewMode,
+            cutIn,
+          }),
+        });
+        if (!res.ok) {
+          const payload = parseJsonRecord(await res.text());
+          throw new Error((payload.error as string) || res.statusText);
+        }
+        const final = await readTextStream<{ interviewerText?: string }>(res, (delta) => {
+          streamed += delta;
+          const { sentences, rest } = takeCompleteSentences(unspoken + delta);
+          sentences.forEach((sentence) => queue.push(sentence));
+          unspoken = rest;
+          updateConversation([...baseConversation, { role: "interviewer", content: streamed.trim() }]);
+        });
+        const interviewerText = final.interviewerText?.trim() || streamed.trim();
+        // The route may trim the reply; speak whatever part of the final text was not queued yet.
+        const spoken = streamed.slice(0, streamed.length - unspoken.length).trim();
+        const remainder = interviewerText.startsWith(spoken) ? interviewerText.slice(spoken.length).trim() : "";
+        if (remainder) queue.push(remainder);
+        setCurrentIndex(index);
+        updateConversation([...baseConversation, { role: "interviewer", content: interviewerText }]);
+      } catch {
+        queue.cancel();
+        stopSpeaking();
+        updateConversation(baseConversation);
+        await advanceToQuestion(index, items);
+        return;
+      }
+      await queue.finished();
+      if (statusRef.current !== "paused" && statusRef.current !== "idle") {
+        startTranscriptionRef.current();
+      }
+    },
+    [
+      advanceToQuestion,
+      createSpeechQueue,
+      interviewMode,
+      plan,
+      settings,
+      stopSpeaking,
+      stopTranscription,
+      updateConversation,
+    ]
+  );
+
   const startInterview = useCallback(async () => {
     setApiError(null);
     setFinalSummary("");
     setFeedback(null);
+    setDelivery(null);
+    setDeliverySummary(null);
+    setReport(null);
+    setAdaptations([]);
+    setLastTiming(null);
+    setClock({ questionMs: 0, totalMs: 0 });
+    answerClockMsRef.current = 0;
+    firstWordMsRef.current = null;
+    totalClockMsRef.current = 0;
+    cutInRef.current = false;
+    setSessionId(null);
     setSeedCount(null);
     setSpeechError(null);
     currentUserTurnRef.current = "";
+    deliveryLogRef.current = [];
+    timelineRef.current.reset();
+    interviewerTalkMsRef.current = 0;
     updateConversation([]);
     setPlan([]);
     setCurrentIndex(0);
@@ -463,6 +745,11 @@ export default function MockInterviewClient({ meta }: Props) {
           questionTypes: settings.questionTypes,
           numQuestions,
           randomize: settings.randomize,
+          followUps: settings.followUps,
+          adaptive: settings.adaptive,
+          statementDrills: settings.statementDrills,
+          useResume: settings.useResume,
+          timed: settings.timed,
           interviewMode,
         }),
       });
@@ -492,6 +779,7 @@ export default function MockInterviewClient({ meta }: Props) {
       }
       setPlan(response.plan);
       setSeedCount(response.seedCount);
+      setSessionId(response.sessionId ?? null);
       setCurrentIndex(0);
       const firstQuestion = response.plan[0];
       updateConversation([{ role: "interviewer", content: firstQuestion.interviewerQuestion }]);
@@ -515,6 +803,38 @@ export default function MockInterviewClient({ meta }: Props) {
     // Stop recognition while processing to avoid stale audio capture
     stopTranscription();
 
+    const interviewerText = conversationRef.current.filter((msg) => msg.role === "interviewer").at(-1)?.content;
+    const answerDelivery = analyzeDelivery(
+      {
+        text: lastUserTurn,
+        segments: timelineRef.current.segments(),
+        interviewerSeconds:
+          interviewerTalkMsRef.current > 0
+            ? interviewerTalkMsRef.current / 1000
+            : interviewerText
+              ? estimateSpeakingSeconds(interviewerText)
+              : null,
+      },
+      "interview"
+    );
+    timelineRef.current.reset();
+    interviewerTalkMsRef.current = 0;
+    deliveryLogRef.current = [...deliveryLogRef.current, answerDelivery];
+    setDelivery(answerDelivery);
+
+    const timing: AnswerTiming | undefined = settings.timed
+      ? {
+          timeToFirstWordSeconds: firstWordMsRef.current === null ? null : round1(firstWordMsRef.current / 1000),
+          answerSeconds: round1(answerClockMsRef.current / 1000),
+          budgetSeconds: settings.timed.perQuestionSeconds,
+          cutIn: cutInRef.current,
+        }
+      : undefined;
+    answerClockMsRef.current = 0;
+    firstWordMsRef.current = null;
+    cutInRef.current = false;
+    if (timing) setLastTiming(timing);
+
     const updatedConversation: Message[] = [
       ...conversationRef.current,
       { role: "user", content: lastUserTurn },
@@ -527,48 +847,81 @@ export default function MockInterviewClient({ meta }: Props) {
     inFlightRef.current = true;
 
     try {
-      const res = await fetch("/api/mock-interview/grade", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          planItem: currentItem,
-          userAnswer: lastUserTurn,
-          firm: settings.firm,
-          stage: settings.stage,
-          interviewMode,
-        }),
-      });
-      const text = await res.text();
-      const payload = parseJsonRecord(text);
-
-      if (!res.ok) {
-        const msg = (payload.error as string) || res.statusText;
-        const requestId = payload.requestId as string | undefined;
-        setApiError(requestId ? `${msg} (Request ID: ${requestId})` : msg);
-        setStatus("idle");
-        return;
-      }
-
-      const response = payload as GradeResponse;
-      setFeedback(response);
+      // Grading runs alongside the interviewer's reply, so the next question is not held up by it.
+      const gradeRequest = (async () => {
+        const res = await fetch("/api/mock-interview/grade", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            planItem: currentItem,
+            userAnswer: lastUserTurn,
+            firm: settings.firm,
+            stage: settings.stage,
+            interviewMode,
+            sessionId: sessionId ?? undefined,
+            timing,
+          }),
+        });
+        const text = await res.text();
+        const payload = parseJsonRecord(text);
+
+        if (!res.ok) {
+          const msg = (payload.error as string) || res.statusText;
+          const requestId = payload.requestId as string | undefined;
+          throw new Error(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+        }
+        return payload as GradeResponse;
+      })();
+      // The session report is built from stored grades, so ending waits for these.
+      const pendingGrades = pendingGradesRef.current;
+      const settled = gradeRequest.catch(() => undefined);
+      pendingGrades.add(settled);
+      void settled.then(() => pendingGrades.delete(settled));
 
       const nextIndex = currentIndex + 1;
       if (nextIndex >= plan.length) {
+        setFeedback(await gradeRequest);
         setStatus("idle");
         return;
       }
+      if (settings.adaptive) {
+        // The next question depends on this grade, so wait for it before moving on.
+        let items = plan;
+        try {
+          const graded = await gradeRequest;
+          setFeedback(graded);
+          const { adaptation, nextPlanItem } = graded;
+          if (adaptation && nextPlanItem) {
+            items = plan.map((item) => (item.qIndex === nextPlanItem.qIndex ? nextPlanItem : item));
+            setPlan(items);
+            setAdaptations((prev) => [...prev, adaptation]);
+          }
+        } catch (err) {
+          setApiError(err instanceof Error ? err.message : "Failed to grade the answer.");
+        }
+        if (statusRef.current === "paused") {
+          setPendingNext(true);
+          return;
+        }
+        await streamToQuestion(nextIndex, lastUserTurn, items, timing?.cutIn);
+        return;
+      }
       if (statusRef.current === "paused") {
+        setFeedback(await gradeRequest);
         setPendingNext(true);
         return;
       }
-      await advanceToQuestion(nextIndex);
+      void gradeRequest.then(setFeedback, (err: unknown) =>
+        setApiError(err instanceof Error ? err.message : "Failed to grade the answer.")
+      );
+      await streamToQuestion(nextIndex, lastUserTurn, plan, timing?.cutIn);
     } catch (err) {
       setApiError(err instanceof Error ? err.message : "Failed to process turn.");
       setStatus("idle");
     } finally {
       inFlightRef.current = false;
     }
-  }, [advanceToQuestion, currentIndex, interviewMode, plan, settings, stopTranscription, updateConversation]);
+  }, [currentIndex, interviewMode, plan, sessionId, settings, stopTranscription, streamToQuestion, updateConversation]);
 
   useEffect(() => {
     finalizeTurnRef.current = finalizeTurn;
@@ -609,6 +962,7 @@ export default function MockInterviewClient({ meta }: Props) {
     setCurrentIndex(0);
     setPendingNext(false);
     try {
+      await Promise.all(pendingGradesRef.current);
       const res = await fetch("/api/mock-interview/end", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -617,6 +971,9 @@ export default function MockInterviewClient({ meta }: Props) {
           interviewMode,
           askedQuestionIds: plan.map((item) => String(item.qIndex)),
           conversation: conversationRef.current.slice(-8),
+          sessionId: sessionId ?? undefined,
+          fullConversation: sessionId ? conversationRef.current : undefined,
+          delivery: deliveryLogRef.current,
         }),
       });
       const text = await res.text();
@@ -629,12 +986,70 @@ export default function MockInterviewClient({ meta }: Props) {
         return;
       }
 
-      const response = payload as { finalSummary?: string };
+      const response = payload as {
+        finalSummary?: string;
+        report?: FinalReport | null;
+        delivery?: DeliverySummary | null;
+      };
       setFinalSummary(response.finalSummary || "");
+      setReport(response.report ?? null);
+      setDeliverySummary(response.delivery ?? null);
     } catch (err) {
       setApiError(err instanceof Error ? err.message : "Failed to end interview.");
     }
-  }, [interviewMode, plan, settings, stopSpeaking, stopTranscription, updateConversation]);
+  }, [interviewMode, plan, sessionId, settings, stopSpeaking, stopTranscription, updateConversation]);
+
+  /**
+   * Timed mode: the question clock ran out. Ends the answer where it stands,
+   * including any words still being recognized, and lets the interviewer cut in.
+   */
+  const cutInAnswer = useCallback(async () => {
+    cutInRef.current = true;
+    if (recordingRef.current) {
+      await finishRecording();
+      if (statusRef.current !== "listening") return;
+    }
+    const pending = `${currentUserTurnRef.current} ${interimTextRef.current}`.trim();
+    currentUserTurnRef.current = pending || NO_ANSWER_TEXT;
+    await finalizeTurnRef.current();
+  }, [finishRecording]);
+
+  useEffect(() => {
+    cutInAnswerRef.current = () => void cutInAnswer();
+    endInterviewRef.current = () => void endInterview();
+  }, [cutInAnswer, endInterview]);
+
+  // The question clock runs while the mic is open; the interview clock runs whenever it is not paused.
+  const timed = settings.timed;
+  const interviewRunning = plan.length > 0;
+  useEffect(() => {
+    if (!timed || !interviewRunning) return;
+    let last = Date.now();
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const elapsed = now - last;
+      last = now;
+      const current = statusRef.current;
+      if (current === "idle" || current === "paused") return;
+      totalClockMsRef.current += elapsed;
+      if (current === "listening") answerClockMsRef.current += elapsed;
+      setClock({ questionMs: answerClockMsRef.current, totalMs: totalClockMsRef.current });
+      if (totalClockMsRef.current >= timed.totalMinutes * 60_000) {
+        clearInterval(interval);
+        endInterviewRef.current();
+        return;
+      }
+      if (
+        current === "listening" &&
+        !cutInRef.current &&
+        !inFlightRef.current &&
+        answerClockMsRef.current >= timed.perQuestionSeconds * 1000
+      ) {
+        cutInAnswerRef.current();
+      }
+    }, CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, [interviewRunning, timed]);
 
   const handleHoldStart = () => {
     if (!holdToTalk) return;
@@ -643,6 +1058,10 @@ export default function MockInterviewClient({ meta }: Props) {
 
   const handleHoldEnd = () => {
     if (!holdToTalk) return;
+    if (recordingRef.current) {
+      void finishRecording();
+      return;
+    }
     stopTranscription();
   };
 
@@ -656,6 +1075,8 @@ export default function MockInterviewClient({ meta }: Props) {
   };
 
   const currentStatusStyle = statusStyles[status];
+  const shownDelivery = deliverySummary ?? delivery;
+  const currentAdaptation = adaptations.findLast((entry) => entry.afterQIndex === currentIndex);
 
   return (
     <div className="mx-auto w-full max-w-6xl px-6 pb-16 pt-10">
@@ -691,6 +1112,30 @@ export default function MockInterviewClient({ meta }: Props) {
                         Pressure: {modeConfig.pressureLevel}
                       </span>
                     ) : null}
+                    {modeConfig.exercises.length > 0 ? (
+                      <div className="mt-1">
+                        Worksheets:{" "}
+                        {modeConfig.exercises.map((kind, idx) => (
+                          <React.Fragment key={kind}>
+                            {idx > 0 ? " · " : null}
+                            <Link
+                              href={`/mock-interview/exercise?mode=${interviewMode}&kind=${kind}`}
+                              className="font-semibold underline hover:text-blue-900"
+                            >
+                              {exerciseKindLabels[kind]}
+                            </Link>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    ) : null}
+                    {modeConfig.stockPitch ? (
+                      <div className="mt-1">
+                        Stock pitch:{" "}
+                        <Link href="/pitch" className="font-semibold underline hover:text-blue-900">
+                          Pitch to a skeptical PM
+                        </Link>
+                      </div>
+                    ) : null}
                   </div>
                 ) : null}
                 <Select
@@ -789,7 +1234,103 @@ export default function MockInterviewClient({ meta }: Props) {
                   />
                   <span>Allow 1 follow-up before moving on</span>
                 </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={settings.adaptive ?? false}
+                    onChange={(event) =>
+                      setSettings((prev: MockInterviewSettings) => ({
+                        ...prev,
+                        adaptive: event.target.checked,
+                      }))
+                    }
+                  />
+                  <span>Adapt difficulty to my answers</span>
+                </label>
+                <div className="text-xs text-slate-500">
+                  Adaptive: two weak answers on a topic bring an easier question; two strong answers step up to LBO or
+                  merger math.
+                </div>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={settings.statementDrills ?? false}
+                    onChange={(event) =>
+                      setSettings((prev: MockInterviewSettings) => ({
+                        ...prev,
+                        statementDrills: event.target.checked,
+                      }))
+                    }
+                  />
+                  <span>Mix in generated three-statement drills</span>
+                </label>
+                {hasResume ? (
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.useResume ?? false}
+                      onChange={(event) =>
+                        setSettings((prev: MockInterviewSettings) => ({
+                          ...prev,
+                          useResume: event.target.checked,
+                        }))
+                      }
+                    />
+                    <span>
+                      Ask about my{" "}
+                      <Link href="/resume" className="underline">
+                        resume
+                      </Link>
+                    </span>
+                  </label>
+                ) : (
+                  <div className="text-xs text-slate-500">
+                    <Link href="/resume" className="underline">
+                      Upload a resume
+                    </Link>{" "}
+                    to get questions about your own deals and experience.
+                  </div>
+                )}
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(settings.timed)}
+                    onChange={(event) =>
+                      setSettings((prev: MockInterviewSettings) => ({
+                        ...prev,
+                        timed: event.target.checked ? (modeConfig.timeBudget ?? DEFAULT_TIME_BUDGET) : null,
+                      }))
+                    }
+                  />
+                  <span>Timed: the interviewer cuts in when the clock runs out</span>
+                </label>
               </div>
+              {settings.timed ? (
+                <div className="mt-4 grid gap-4 md:grid-cols-2">
+                  <Select
+                    label="Time per question"
+                    value={String(settings.timed.perQuestionSeconds)}
+                    options={perQuestionOptions}
+                    onChange={(value) =>
+                      setSettings((prev: MockInterviewSettings) => ({
+                        ...prev,
+                        timed: { ...(prev.timed ?? DEFAULT_TIME_BUDGET), perQuestionSeconds: Number.parseInt(value, 10) },
+                      }))
+                    }
+                  />
+                  <Select
+                    label="Interview length"
+                    value={String(settings.timed.totalMinutes)}
+                    options={totalMinutesOptions}
+                    onChange={(value) =>
+                      setSettings((prev: MockInterviewSettings) => ({
+                        ...prev,
+                        timed: { ...(prev.timed ?? DEFAULT_TIME_BUDGET), totalMinutes: Number.parseInt(value, 10) },
+                      }))
+                    }
+                  />
+                </div>
+              ) : null}
             </Card>
           </motion.div>
 
@@ -819,6 +1360,48 @@ export default function MockInterviewClient({ meta }: Props) {
                 </div>
               </div>
 
+              {settings.timed && plan.length > 0 ? (
+                <div className="mt-4 grid gap-3 md:grid-cols-2">
+                  {[
+                    {
+                      label: "Answer clock",
+                      remainingMs: settings.timed.perQuestionSeconds * 1000 - clock.questionMs,
+                      budgetMs: settings.timed.perQuestionSeconds * 1000,
+                    },
+                    {
+                      label: "Interview clock",
+                      remainingMs: settings.timed.totalMinutes * 60_000 - clock.totalMs,
+                      budgetMs: settings.timed.totalMinutes * 60_000,
+                    },
+                  ].map((entry) => {
+                    const urgent = entry.remainingMs <= Math.min(15_000, entry.budgetMs * 0.2);
+                    return (
+                      <div key={entry.label} className="rounded-lg border border-slate-200 bg-white p-3">
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                            {entry.label}
+                          </span>
+                          <span
+                            className={`font-mono text-lg font-semibold ${urgent ? "text-red-600" : "text-slate-900"}`}
+                          >
+                            {formatClock(entry.remainingMs)}
+                          </span>
+                        </div>
+                        <div className="mt-2 h-1.5 w-full rounded-full bg-slate-200">
+                          <div
+                            className={`h-1.5 rounded-full ${urgent ? "bg-red-500" : "bg-slate-900"}`}
+                            style={{ width: `${Math.max(0, Math.min(100, (entry.remainingMs / entry.budgetMs) * 100))}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {lastTiming ? (
+                    <div className="text-xs text-slate-500 md:col-span-2">Last answer: {formatTiming(lastTiming)}</div>
+                  ) : null}
+                </div>
+              ) : null}
+
               <div className="mt-4 flex flex-wrap gap-3">
                 <Button onClick={startInterview} type="button">
                   Start Interview
@@ -911,7 +1494,9 @@ export default function MockInterviewClient({ meta }: Props) {
               ) : null}
               {!speechSupported ? (
                 <div className="mt-3 text-sm text-amber-700">
-                  Speech recognition not supported — use Chrome or enable fallback.
+                  {recordingSupported
+                    ? "Live captions are not available in this browser — answers are recorded and transcribed when you pause."
+                    : "Speech input is not supported in this browser — try Chrome."}
                 </div>
               ) : null}
               {speechError ? (
@@ -967,6 +1552,24 @@ export default function MockInterviewClient({ meta }: Props) {
                 <div className="mt-4 rounded-lg border border-slate-100 bg-slate-50 p-3 text-sm text-slate-700">
                   <span className="font-semibold text-slate-900">Current question:</span>{" "}
                   {plan[currentIndex].interviewerQuestion}
+                  {(plan[currentIndex].askedAtFirms ?? 0) > 1 ? (
+                    <Badge tone="neutral" className="ml-2">
+                      Asked at {plan[currentIndex].askedAtFirms} firms
+                    </Badge>
+                  ) : null}
+                  {plan[currentIndex].resumeItem ? (
+                    <Badge tone="neutral" className="ml-2" title={plan[currentIndex].resumeItem}>
+                      From your resume
+                    </Badge>
+                  ) : null}
+                  {currentAdaptation ? (
+                    <div className="mt-2 flex items-start gap-2 text-xs text-slate-500">
+                      <Badge tone={currentAdaptation.direction === "harder" ? "success" : "warning"}>
+                        {currentAdaptation.direction === "harder" ? "Stepped up" : "Eased off"}
+                      </Badge>
+                      <span>{currentAdaptation.reason}</span>
+                    </div>
+                  ) : null}
                 </div>
               ) : null}
               <div className="mt-4 space-y-3">
@@ -1048,6 +1651,8 @@ export default function MockInterviewClient({ meta }: Props) {
                       </div>
                     </div>
                   </div>
+                  {feedback.answerCheck ? <AnswerCheckList check={feedback.answerCheck} /> : null}
+                  {feedback.storyComparison ? <StoryComparisonNote comparison={feedback.storyComparison} /> : null}
                   <div>
                     <div className="font-semibold text-slate-900">Strengths</div>
                     <ul className="mt-2 space-y-1.5">
@@ -1087,6 +1692,48 @@ export default function MockInterviewClient({ meta }: Props) {
             </Card>
           </motion.div>
 
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            whileHover={{ y: -2 }}
+            transition={{ duration: 0.3 }}
+          >
+            <Card className="p-6">
+              <div className="flex items-center justify-between">
+                <div className="text-base font-semibold text-slate-900">Delivery</div>
+                <Badge tone="neutral">{deliverySummary ? "Whole interview" : "Last answer"}</Badge>
+              </div>
+              <div className="mt-4 text-sm text-slate-700">
+                {shownDelivery ? (
+                  <DeliveryStats metrics={shownDelivery} />
+                ) : (
+                  <div className="py-6 text-center text-sm text-slate-400">
+                    Pace, fillers and pauses appear after each answer.
+                  </div>
+                )}
+              </div>
+            </Card>
+          </motion.div>
+
+          {report ? (
+            <motion.div
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              whileHover={{ y: -2 }}
+              transition={{ duration: 0.3 }}
+            >
+              <Card className="p-6">
+                <div className="flex items-center justify-between">
+                  <div className="text-base font-semibold text-slate-900">Final Report</div>
+                  <Badge tone="neutral">{modeConfig.label}</Badge>
+                </div>
+                <div className="mt-4">
+                  <FinalReportView report={report} pressureLevel={modeConfig.pressureLevel} />
+                </div>
+              </Card>
+            </motion.div>
+          ) : null}
+
           <motion.div
             initial={{ opacity: 0, y: 8 }}
             animate={{ opacity: 1, y: 0 }}
@@ -1104,14 +1751,19 @@ export default function MockInterviewClient({ meta }: Props) {
                 )}
               </div>
               {finalSummary ? (
-                <Button
-                  variant="secondary"
-                  type="button"
-                  className="mt-4"
-                  onClick={() => void speak(finalSummary)}
-                >
-                  Speak summary
-                </Button>
+                <div className="mt-4 flex flex-wrap items-center gap-3">
+                  <Button variant="secondary" type="button" onClick={() => void speak(finalSummary)}>
+                    Speak summary
+                  </Button>
+                  {sessionId ? (
+                    <Link
+                      href={`/history/${sessionId}`}
+                      className="text-sm font-semibold text-slate-700 underline-offset-4 hover:underline"
+                    >
+                      Saved to history →
+                    </Link>
+                  ) : null}
+                </div>
               ) : null}
             </Card>
           </motion.div>
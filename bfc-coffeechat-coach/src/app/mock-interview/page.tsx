@@ -1,7 +1,15 @@
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/auth";
 import { loadQuestionBankMeta } from "@/lib/question-bank";
+import { getResume } from "@/lib/resumes";
 import MockInterviewClient from "./mock-interview-client";
 
-export default function MockInterviewPage() {
+export const dynamic = "force-dynamic";
+
+export default async function MockInterviewPage() {
   const meta = loadQuestionBankMeta();
-  return <MockInterviewClient meta={meta} />;
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  const resume = email ? await getResume(email).catch(() => null) : null;
+  return <MockInterviewClient meta={meta} hasResume={Boolean(resume)} />;
 }
@@ -0,0 +1,21 @@
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { listPitchMemos } from "@/lib/pitch-memos";
+import PitchClient from "./pitch-client";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  searchParams: Promise<{ id?: string }>;
+};
+
+export default async function PitchPage({ searchParams }: Props) {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) redirect("/api/auth/signin");
+  const { id } = await searchParams;
+  const pitches = await listPitchMemos(email);
+  const initialId = pitches.some((pitch) => pitch.id === id) ? (id as string) : null;
+  return <PitchClient pitches={pitches} initialId={initialId} />;
+}
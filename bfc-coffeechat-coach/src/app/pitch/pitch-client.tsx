@@ -0,0 +1,450 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import type { PitchMemoRecord } from "@/lib/pitch-memos";
+import {
+  PITCH_CROSS_EXAM_QUESTIONS,
+  type PitchMemo,
+  type PitchScorecard,
+  type PitchSetup,
+  type PitchTurn,
+  pitchMemoFields,
+  pitchSetupSchema,
+  setupFromMemo,
+} from "@/lib/stock-pitch";
+import { formatDateTime } from "@/lib/format";
+import { PitchScorecardView } from "@/components/pitch-scorecard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select } from "@/components/ui/select";
+
+type Props = {
+  pitches: PitchMemoRecord[];
+  initialId: string | null;
+};
+
+type Stage = "setup" | "cross_exam" | "graded";
+
+function parseJsonRecord(text: string) {
+  if (!text) return {} as Record<string, unknown>;
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+async function postJson(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const payload = parseJsonRecord(await res.text());
+  if (!res.ok) {
+    const msg = (payload.error as string) || res.statusText;
+    const requestId = payload.requestId as string | undefined;
+    throw new Error(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+  }
+  return payload;
+}
+
+const emptySetup: PitchSetup = { ticker: "", direction: "long", thesis: "", valuation: "", catalyst: "", risks: "" };
+
+const setupFields: Array<{ key: "thesis" | "valuation" | "catalyst" | "risks"; label: string; placeholder: string }> = [
+  { key: "thesis", label: "Thesis", placeholder: "What does the market have wrong, and why?" },
+  { key: "valuation", label: "Valuation", placeholder: "Price target, method and upside, e.g. 18x 2026 EPS of $6 = $108, 35% upside" },
+  { key: "catalyst", label: "Catalyst", placeholder: "What closes the gap, and when?" },
+  { key: "risks", label: "Risks", placeholder: "The other side's best argument and what would make you exit" },
+];
+
+const inputClass =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-slate-900";
+
+function initialSetup(record: PitchMemoRecord | undefined) {
+  return record ? setupFromMemo(record.setup, record.memo) : emptySetup;
+}
+
+export default function PitchClient({ pitches: initialPitches, initialId }: Props) {
+  const [pitches, setPitches] = useState(initialPitches);
+  const initialRecord = initialPitches.find((pitch) => pitch.id === initialId);
+  const [activeId, setActiveId] = useState<string | null>(initialRecord?.id ?? null);
+  const [setup, setSetup] = useState<PitchSetup>(() => initialSetup(initialRecord));
+  const [stage, setStage] = useState<Stage>("setup");
+  const [messages, setMessages] = useState<PitchTurn[]>([]);
+  const [answer, setAnswer] = useState("");
+  const [done, setDone] = useState(false);
+  const [scorecard, setScorecard] = useState<PitchScorecard | null>(null);
+  const [memo, setMemo] = useState<PitchMemo | null>(initialRecord?.memo ?? null);
+  const [attemptSaved, setAttemptSaved] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const activePitch = pitches.find((pitch) => pitch.id === activeId) ?? null;
+  const pmQuestions = messages.filter((msg) => msg.role === "pm").length;
+
+  const openPitch = (record: PitchMemoRecord | null) => {
+    setActiveId(record?.id ?? null);
+    setSetup(initialSetup(record ?? undefined));
+    setMemo(record?.memo ?? null);
+    setStage("setup");
+    setMessages([]);
+    setScorecard(null);
+    setDone(false);
+    setAttemptSaved(true);
+    setSaveState("idle");
+    setError(null);
+  };
+
+  const askPm = async (history: PitchTurn[], pitch: PitchSetup) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await postJson("/api/pitch/turn", { setup: pitch, messages: history });
+      setMessages([...history, { role: "pm", content: payload.pmText as string }]);
+      setDone(Boolean(payload.done));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "The PM did not respond.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startCrossExam = async () => {
+    const parsed = pitchSetupSchema.safeParse(setup);
+    if (!parsed.success) {
+      setError("Fill in a ticker (letters and numbers only) and every section of the pitch before you start.");
+      return;
+    }
+    setSetup(parsed.data);
+    setMessages([]);
+    setScorecard(null);
+    setDone(false);
+    setStage("cross_exam");
+    await askPm([], parsed.data);
+  };
+
+  const sendAnswer = async () => {
+    const content = answer.trim();
+    if (!content) return;
+    setAnswer("");
+    const history: PitchTurn[] = [...messages, { role: "candidate", content }];
+    setMessages(history);
+    await askPm(history, setup);
+  };
+
+  const grade = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await postJson("/api/pitch/grade", {
+        setup,
+        messages,
+        previousMemo: activePitch?.memo ?? null,
+      });
+      const next = payload.scorecard as PitchScorecard;
+      setScorecard(next);
+      setMemo(next.memo);
+      setAttemptSaved(false);
+      setSaveState("idle");
+      setStage("graded");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to grade the pitch.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveMemo = async () => {
+    if (!memo) return;
+    setSaveState("saving");
+    setError(null);
+    try {
+      const attempt = !attemptSaved && scorecard ? { transcript: messages, scorecard } : undefined;
+      const payload = await postJson("/api/pitch-memos", { id: activeId ?? undefined, setup, memo, attempt });
+      const id = payload.id as string;
+      const now = new Date().toISOString();
+      setPitches((prev) => {
+        const existing = prev.find((pitch) => pitch.id === id);
+        const attempts = [
+          ...(existing?.attempts ?? []),
+          ...(attempt ? [{ ...attempt, setup, at: now }] : []),
+        ];
+        const record: PitchMemoRecord = {
+          id,
+          userEmail: existing?.userEmail ?? "",
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+          setup,
+          memo,
+          attempts,
+        };
+        return [record, ...prev.filter((pitch) => pitch.id !== id)];
+      });
+      setActiveId(id);
+      setAttemptSaved(true);
+      setSaveState("saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the memo.");
+      setSaveState("idle");
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-5xl px-6 pb-16 pt-10">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">HF Interview · Stock pitch</div>
+          <h1 className="mt-1 text-2xl font-semibold text-slate-900">
+            {setup.ticker ? `${setup.direction === "long" ? "Long" : "Short"} ${setup.ticker}` : "Pitch me a stock"}
+          </h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Lay out the pitch, then defend it against {PITCH_CROSS_EXAM_QUESTIONS} questions from a skeptical PM. You get a
+            scorecard per component and a memo to keep refining.
+          </p>
+        </div>
+        <Link href="/mock-interview" className="text-sm font-semibold text-slate-600 hover:text-slate-900">
+          ← Back to mock interview
+        </Link>
+      </div>
+
+      {error ? (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      ) : null}
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[1fr_280px]">
+        <div className="space-y-6">
+          {stage === "setup" ? (
+            <Card className="space-y-4 p-6">
+              <div className="grid gap-4 md:grid-cols-2">
+                <label className="flex flex-col gap-2 text-sm">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Ticker</span>
+                  <input
+                    value={setup.ticker}
+                    onChange={(event) => setSetup((prev) => ({ ...prev, ticker: event.target.value.toUpperCase() }))}
+                    placeholder="e.g. NVDA"
+                    maxLength={10}
+                    disabled={Boolean(activeId)}
+                    className={inputClass}
+                  />
+                </label>
+                <Select
+                  label="Position"
+                  value={setup.direction}
+                  options={[
+                    { value: "long", label: "Long" },
+                    { value: "short", label: "Short" },
+                  ]}
+                  onChange={(value) => setSetup((prev) => ({ ...prev, direction: value as PitchSetup["direction"] }))}
+                  disabled={Boolean(activeId)}
+                />
+              </div>
+              {setupFields.map((field) => (
+                <label key={field.key} className="flex flex-col gap-2 text-sm">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{field.label}</span>
+                  <textarea
+                    value={setup[field.key]}
+                    onChange={(event) => setSetup((prev) => ({ ...prev, [field.key]: event.target.value }))}
+                    rows={3}
+                    maxLength={1500}
+                    placeholder={field.placeholder}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+              <div className="flex flex-wrap items-center gap-3">
+                <Button type="button" onClick={() => void startCrossExam()} disabled={loading}>
+                  {activeId ? "Pitch it again" : "Start the cross-exam"}
+                </Button>
+                {activeId ? (
+                  <span className="text-xs text-slate-500">Prefilled from your saved memo.</span>
+                ) : null}
+              </div>
+            </Card>
+          ) : (
+            <Card className="p-6">
+              <div className="flex items-center justify-between">
+                <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Cross-examination</div>
+                <Badge tone="neutral">
+                  {Math.min(pmQuestions, PITCH_CROSS_EXAM_QUESTIONS)}/{PITCH_CROSS_EXAM_QUESTIONS} questions
+                </Badge>
+              </div>
+              <div className="mt-4 space-y-3">
+                {messages.map((msg, idx) => (
+                  <motion.div
+                    key={idx}
+                    initial={{ opacity: 0, y: 6 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className={`rounded-lg px-3 py-2 text-sm ${
+                      msg.role === "pm" ? "bg-slate-900 text-slate-50" : "ml-8 border border-slate-200 bg-white text-slate-800"
+                    }`}
+                  >
+                    <div className="text-[11px] font-semibold uppercase tracking-wide opacity-70">
+                      {msg.role === "pm" ? "PM" : "You"}
+                    </div>
+                    {msg.content}
+                  </motion.div>
+                ))}
+                {loading && stage === "cross_exam" ? (
+                  <div className="text-xs text-slate-500">The PM is thinking…</div>
+                ) : null}
+              </div>
+              {stage === "cross_exam" ? (
+                <div className="mt-4">
+                  {!done ? (
+                    <textarea
+                      value={answer}
+                      onChange={(event) => setAnswer(event.target.value)}
+                      rows={4}
+                      maxLength={2000}
+                      placeholder="Defend the pitch…"
+                      className={inputClass}
+                    />
+                  ) : null}
+                  <div className="mt-3 flex flex-wrap gap-3">
+                    {!done ? (
+                      <Button
+                        type="button"
+                        onClick={() => void sendAnswer()}
+                        disabled={loading || !answer.trim() || messages.at(-1)?.role !== "pm"}
+                      >
+                        Answer
+                      </Button>
+                    ) : null}
+                    <Button
+                      type="button"
+                      variant={done ? "primary" : "secondary"}
+                      onClick={() => void grade()}
+                      disabled={loading || !messages.some((msg) => msg.role === "candidate")}
+                    >
+                      {done ? "Get the scorecard" : "End and grade"}
+                    </Button>
+                  </div>
+                </div>
+              ) : null}
+            </Card>
+          )}
+
+          {scorecard ? (
+            <Card className="p-6">
+              <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Scorecard</div>
+              <div className="mt-4">
+                <PitchScorecardView scorecard={scorecard} />
+              </div>
+            </Card>
+          ) : null}
+
+          {memo ? (
+            <Card className="space-y-4 p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Pitch memo</div>
+                  <div className="mt-1 text-xs text-slate-500">
+                    {scorecard
+                      ? "Rewritten to hold up against this cross-exam. Edit it, then save."
+                      : "Your saved memo. Edit it here, or pitch it again."}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  {saveState === "saved" ? <Badge tone="success">Saved</Badge> : null}
+                  <Button type="button" onClick={() => void saveMemo()} disabled={saveState === "saving"}>
+                    {saveState === "saving" ? "Saving…" : "Save memo"}
+                  </Button>
+                </div>
+              </div>
+              {pitchMemoFields.map((field) => (
+                <label key={field.key} className="flex flex-col gap-2 text-sm">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{field.label}</span>
+                  {field.key === "headline" ? (
+                    <input
+                      value={memo.headline}
+                      onChange={(event) => {
+                        setMemo({ ...memo, headline: event.target.value });
+                        setSaveState("idle");
+                      }}
+                      maxLength={300}
+                      className={inputClass}
+                    />
+                  ) : (
+                    <textarea
+                      value={memo[field.key]}
+                      onChange={(event) => {
+                        setMemo({ ...memo, [field.key]: event.target.value });
+                        setSaveState("idle");
+                      }}
+                      rows={4}
+                      maxLength={4000}
+                      className={inputClass}
+                    />
+                  )}
+                </label>
+              ))}
+              {stage === "graded" ? (
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => {
+                    setSetup(setupFromMemo(setup, memo));
+                    setStage("setup");
+                    setMessages([]);
+                    setScorecard(null);
+                    setDone(false);
+                  }}
+                  disabled={!attemptSaved}
+                  title={attemptSaved ? undefined : "Save the memo first"}
+                >
+                  Pitch the refined version
+                </Button>
+              ) : null}
+            </Card>
+          ) : null}
+        </div>
+
+        <Card className="h-fit p-5">
+          <div className="flex items-center justify-between">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Saved pitches</div>
+            {activeId ? (
+              <button type="button" onClick={() => openPitch(null)} className="text-xs font-semibold text-slate-600 hover:text-slate-900">
+                New pitch
+              </button>
+            ) : null}
+          </div>
+          {pitches.length === 0 ? (
+            <div className="mt-3 text-xs text-slate-500">Save a memo after your first cross-exam and it will show up here.</div>
+          ) : (
+            <div className="mt-3 space-y-2">
+              {pitches.map((pitch) => {
+                const last = pitch.attempts.at(-1);
+                return (
+                  <button
+                    key={pitch.id}
+                    type="button"
+                    onClick={() => openPitch(pitch)}
+                    className={`block w-full rounded-lg border px-3 py-2 text-left transition hover:border-slate-300 ${
+                      pitch.id === activeId ? "border-slate-900" : "border-slate-200"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-semibold text-slate-900">
+                        {pitch.setup.direction === "long" ? "Long" : "Short"} {pitch.setup.ticker}
+                      </span>
+                      {last ? <Badge tone="neutral">{last.scorecard.overallScore0to10}/10</Badge> : null}
+                    </div>
+                    <div className="mt-0.5 text-xs text-slate-500">
+                      {pitch.attempts.length} {pitch.attempts.length === 1 ? "attempt" : "attempts"} · updated{" "}
+                      {formatDateTime(pitch.updatedAt)}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 import { getServerSession } from "next-auth/next";
 import { redirect } from "next/navigation";
 import { authOptions } from "@/auth";
+import { loadFirmProfiles } from "@/lib/firm-profiles";
 import PracticeClient from "./practice-client";
 
 export default async function PracticePage() {
   const session = await getServerSession(authOptions);
   if (!session) redirect("/api/auth/signin");
-  return <PracticeClient />;
+  return <PracticeClient firms={loadFirmProfiles().map((profile) => profile.firm)} />;
 }
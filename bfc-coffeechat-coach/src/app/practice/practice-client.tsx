@@ -1,8 +1,11 @@
 "use client";
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { motion } from "framer-motion";
+import type { CoffeeChatTurn } from "@/lib/coffee-chats";
 import {
+  type CoffeeChatScorecard,
   firmTypesByTrack,
   generateScenario,
   groupsByTrack,
@@ -10,6 +13,17 @@ import {
   Scenario,
   vibes,
 } from "@/lib/networking-scenarios";
+import {
+  analyzeDelivery,
+  countFillers,
+  createAnswerTimeline,
+  type DeliveryMetrics,
+  estimateSpeakingSeconds,
+} from "@/lib/delivery";
+import { type AudioRecording, canRecordAudio, startRecording, transcribeRecording } from "@/lib/audio-recorder";
+import { readTextStream, takeCompleteSentences } from "@/lib/streaming";
+import { CoffeeChatScorecardView } from "@/components/coffee-chat-scorecard";
+import { DeliveryStats } from "@/components/delivery-stats";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -22,6 +36,7 @@ type Phase = "opening" | "user_intro" | "exploration" | "fit" | "user_questions"
 type ScenarioPayload = {
   track: string;
   firmType: string;
+  firm?: string;
   group: string;
   interviewerVibe: string;
   difficulty: string;
@@ -48,6 +63,16 @@ type LiveCoach = {
   bullets: string[];
 };
 
+type PhaseTransition = {
+  from: Phase;
+  to: Phase;
+  afterTurn: number;
+};
+
+function collapseWhitespace(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
 const roleTracks: RoleTrack[] = [
   "Investment Banking",
   "Private Equity",
@@ -79,6 +104,8 @@ const PERSONAS = [
   { name: "Taylor", title: "VP" },
 ];
 
+const MAX_RECORDING_MS = 3 * 60 * 1000;
+
 function getSpeechRecognition(): SpeechRecognition | null {
   if (typeof window === "undefined") return null;
   const SpeechRecognitionImpl = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -86,8 +113,18 @@ function getSpeechRecognition(): SpeechRecognition | null {
   return new SpeechRecognitionImpl();
 }
 
-export default function PracticeClient() {
+type Props = {
+  /** Firms with a profile in data/firms/, offered as a named target. */
+  firms: string[];
+};
+
+export default function PracticeClient({ firms }: Props) {
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const recordingRef = useRef<AudioRecording | null>(null);
+  const recordingStartedAtRef = useRef(0);
+  const timelineRef = useRef(createAnswerTimeline());
+  // Interviewer playback time since the last answer, for the talk-time ratio.
+  const interviewerTalkMsRef = useRef(0);
   const ttsAudioRef = useRef<HTMLAudioElement | null>(null);
   const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const currentUserTurnRef = useRef("");
@@ -102,9 +139,15 @@ export default function PracticeClient() {
   const pausedRef = useRef(false);
   const holdToTalkRef = useRef(false);
   const isTranscribingRef = useRef(false);
+  // Transcript log for saving the chat: every message with its phase and coaching.
+  const chatLogRef = useRef<CoffeeChatTurn[]>([]);
+  const phaseTransitionsRef = useRef<PhaseTransition[]>([]);
+  const pendingLiveCoachRef = useRef<LiveCoach | null>(null);
+  const chatIdRef = useRef<string | null>(null);
 
   const [scenario, setScenario] = useState<Scenario>(DEFAULT_SCENARIO);
   const [difficulty, setDifficulty] = useState<Difficulty>("Standard");
+  const [targetFirm, setTargetFirm] = useState("");
   const [phase, setPhase] = useState<Phase>("opening");
   const [messages, setMessages] = useState<Message[]>([]);
   const [userTurns, setUserTurns] = useState(0);
@@ -116,6 +159,7 @@ export default function PracticeClient() {
   const [holdToTalk, setHoldToTalk] = useState(false);
 
   const [speechSupported, setSpeechSupported] = useState(true);
+  const [recordingSupported, setRecordingSupported] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcriptInterim, setTranscriptInterim] = useState("");
   const [speechError, setSpeechError] = useState<string | null>(null);
@@ -129,7 +173,9 @@ export default function PracticeClient() {
   const [liveCoach, setLiveCoach] = useState<LiveCoach | null>(null);
   const [liveCoachError, setLiveCoachError] = useState<string | null>(null);
   const [turnReview, setTurnReview] = useState<string>("");
-  const [finalSummary, setFinalSummary] = useState<string>("");
+  const [delivery, setDelivery] = useState<DeliveryMetrics | null>(null);
+  const [scorecard, setScorecard] = useState<CoffeeChatScorecard | null>(null);
+  const [savedChatId, setSavedChatId] = useState<string | null>(null);
 
   const debugTts = process.env.NEXT_PUBLIC_DEBUG_TTS === "true";
   const debugEnabled = process.env.NEXT_PUBLIC_DEBUG_INTERVIEW === "true";
@@ -156,19 +202,22 @@ export default function PracticeClient() {
     return {
       name: base.name,
       title: base.title,
-      firm: scenario.firmType,
+      firm: targetFirm || scenario.firmType,
       group: scenario.group,
     };
-  }, [scenario]);
+  }, [scenario, targetFirm]);
 
   useEffect(() => {
     setSpeechSupported(
       typeof window !== "undefined" &&
         ("SpeechRecognition" in window || "webkitSpeechRecognition" in window)
     );
+    setRecordingSupported(canRecordAudio());
     return () => {
       recognitionRef.current?.stop();
       recognitionRef.current = null;
+      recordingRef.current?.cancel();
+      recordingRef.current = null;
       if (silenceTimerRef.current) {
         clearTimeout(silenceTimerRef.current);
       }
@@ -215,79 +264,97 @@ export default function PracticeClient() {
     }
   }, []);
 
-  /**
-   * speak() returns a Promise that resolves when audio playback ENDS (not when
-   * it starts). This ensures callers can sequence: speak → then start listening,
-   * preventing the microphone from picking up TTS audio output.
-   */
-  const speak = useCallback(
-    (text: string): Promise<void> => {
-      const trimmed = text.trim();
-      if (!trimmed) return Promise.resolve();
-      setTtsError(null);
+  /** Fetches TTS audio for one utterance; resolves to an object URL, or null after reporting the error. */
+  const fetchSpeech = useCallback(async (text: string): Promise<string | null> => {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    const speakText = trimmed.length > 280 ? `${trimmed.slice(0, 277)}...` : trimmed;
+    try {
+      const res = await fetch("/api/tts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: speakText }),
+      });
 
-      const speakText = trimmed.length > 280 ? `${trimmed.slice(0, 277)}...` : trimmed;
+      setTtsStatus(res.status);
+      setTtsContentType(res.headers.get("content-type") || "-");
 
+      if (!res.ok) {
+        const errorText = await res.text();
+        let payload: { error?: string } = {};
+        try {
+          payload = errorText ? (JSON.parse(errorText) as { error?: string }) : {};
+        } catch {
+          payload = {};
+        }
+        throw new Error(payload.error || errorText || res.statusText);
+      }
+
+      const blob = await res.blob();
+      setTtsBytes(blob.size);
+      return URL.createObjectURL(blob);
+    } catch (err) {
+      setTtsError(err instanceof Error ? err.message : "TTS failed.");
+      setInterviewState("listening");
+      return null;
+    }
+  }, []);
+
+  /** Plays fetched audio; resolves when playback ends or fails. */
+  const playSpeech = useCallback(
+    (audioUrl: string | null): Promise<void> => {
+      if (!audioUrl) return Promise.resolve();
       return new Promise<void>((resolve) => {
         void (async () => {
+          const audioEl = ensureTtsAudio();
+          audioEl.pause();
+          audioEl.currentTime = 0;
+          audioEl.src = audioUrl;
+          setInterviewState("speaking");
           try {
-            const res = await fetch("/api/tts", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ text: speakText }),
-            });
-
-            setTtsStatus(res.status);
-            setTtsContentType(res.headers.get("content-type") || "-");
-
-            if (!res.ok) {
-              const errorText = await res.text();
-              let payload: { error?: string } = {};
-              try {
-                payload = errorText ? (JSON.parse(errorText) as { error?: string }) : {};
-              } catch {
-                payload = {};
-              }
-              throw new Error(payload.error || errorText || res.statusText);
-            }
-
-            const blob = await res.blob();
-            setTtsBytes(blob.size);
-            const audioUrl = URL.createObjectURL(blob);
-            const audioEl = ensureTtsAudio();
-            audioEl.pause();
-            audioEl.currentTime = 0;
-            audioEl.src = audioUrl;
-            setInterviewState("speaking");
-            try {
-              await audioEl.play();
-              setAudioNeedsClick(false);
-            } catch {
-              setAudioNeedsClick(true);
-              setInterviewState("listening");
-              resolve();
-              return;
-            }
-            audioEl.onended = () => {
-              URL.revokeObjectURL(audioUrl);
-              setInterviewState("listening");
-              resolve();
-            };
-            audioEl.onerror = () => {
-              setInterviewState("listening");
-              resolve();
-            };
-          } catch (err) {
-            setTtsError(err instanceof Error ? err.message : "TTS failed.");
+            await audioEl.play();
+            setAudioNeedsClick(false);
+          } catch {
+            setAudioNeedsClick(true);
             setInterviewState("listening");
             resolve();
+            return;
           }
+          const playStartedAt = Date.now();
+          audioEl.onended = () => {
+            interviewerTalkMsRef.current += Date.now() - playStartedAt;
+            URL.revokeObjectURL(audioUrl);
+            setInterviewState("listening");
+            resolve();
+          };
+          audioEl.onerror = () => {
+            setInterviewState("listening");
+            resolve();
+          };
         })();
       });
     },
     [ensureTtsAudio]
   );
 
+  /**
+   * Speaks sentences as they stream in. Each sentence's audio is fetched as
+   * soon as it is queued and played in order, so the interviewer starts
+   * talking after the first sentence rather than the whole reply. The
+   * returned promise from finished() resolves when playback ENDS, so callers
+   * can start listening without the mic picking up TTS output.
+   */
+  const createSpeechQueue = useCallback(() => {
+    let playback = Promise.resolve();
+    return {
+      push(sentence: string) {
+        const audio = fetchSpeech(sentence);
+        playback = playback.then(async () => playSpeech(await audio));
+      },
+      finished: () => playback,
+    };
+  }, [fetchSpeech, playSpeech]);
+
   const retryAudio = useCallback(async () => {
     if (!ttsAudioRef.current) return;
     try {
@@ -305,6 +372,8 @@ export default function PracticeClient() {
     }
     recognitionRef.current?.stop();
     recognitionRef.current = null;
+    recordingRef.current?.cancel();
+    recordingRef.current = null;
     isTranscribingRef.current = false;
     setIsTranscribing(false);
     setTranscriptInterim("");
@@ -314,6 +383,7 @@ export default function PracticeClient() {
     () => ({
       track: scenario.track,
       firmType: scenario.firmType,
+      firm: targetFirm || undefined,
       group: scenario.group,
       interviewerVibe: scenario.person.vibe,
       difficulty,
@@ -321,7 +391,7 @@ export default function PracticeClient() {
       persona,
       phase,
     }),
-    [scenario, difficulty, persona, phase]
+    [scenario, targetFirm, difficulty, persona, phase]
   );
 
   const callInterviewer = useCallback(
@@ -333,7 +403,7 @@ export default function PracticeClient() {
       try {
         const res = await fetch("/api/interviewer", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
           body: JSON.stringify({
             messages: nextMessages,
             scenario: scenarioPayload,
@@ -342,15 +412,14 @@ export default function PracticeClient() {
           }),
         });
 
-        const text = await res.text();
-        let payload: Record<string, unknown> = {};
-        try {
-          payload = text ? (JSON.parse(text) as Record<string, unknown>) : {};
-        } catch {
-          payload = {};
-        }
-
         if (!res.ok) {
+          const text = await res.text();
+          let payload: Record<string, unknown> = {};
+          try {
+            payload = text ? (JSON.parse(text) as Record<string, unknown>) : {};
+          } catch {
+            payload = {};
+          }
           const requestId = payload.requestId as string | undefined;
           const errorMessage =
             (payload.error as string) ||
@@ -362,19 +431,51 @@ export default function PracticeClient() {
           return;
         }
 
-        const interviewerText = (payload.interviewerText as string) || "";
+        // Stop listening before TTS to prevent mic picking up speaker audio
+        stopTranscription();
+        setTtsError(null);
+        const queue = createSpeechQueue();
+        let streamed = "";
+        let unspoken = "";
+        let bubbleShown = false;
+        const showInterviewerText = (content: string) => {
+          // The first delta adds the bubble; later ones replace its text.
+          const replace = bubbleShown;
+          bubbleShown = true;
+          setMessages((prev) => [...(replace ? prev.slice(0, -1) : prev), { role: "interviewer", content }]);
+        };
+
+        const final = await readTextStream<{ interviewerText?: string }>(res, (delta) => {
+          streamed += delta;
+          const { sentences, rest } = takeCompleteSentences(unspoken + delta);
+          sentences.forEach((sentence) => queue.push(sentence));
+          unspoken = rest;
+          if (streamed.trim()) showInterviewerText(streamed.trim());
+        });
+
+        const interviewerText = final.interviewerText?.trim() || "";
         if (!interviewerText) {
           setInterviewError("Empty interviewer response.");
           setInterviewState("error");
           return;
         }
-
-        setMessages((prev) => [...prev, { role: "interviewer", content: interviewerText }]);
+        // The route trims long replies at a sentence end; speak whatever part of the final text was not queued yet.
+        const spoken = streamed.slice(0, streamed.length - unspoken.length).trim();
+        const remainder = interviewerText.startsWith(spoken) ? interviewerText.slice(spoken.length).trim() : "";
+        if (remainder) queue.push(remainder);
+
+        showInterviewerText(interviewerText);
+        chatLogRef.current.push({
+          role: "interviewer",
+          content: interviewerText,
+          phase: scenarioPayload.phase,
+          at: new Date().toISOString(),
+          liveCoach: null,
+          turnReview: null,
+          delivery: null,
+        });
         lastInterviewerTextRef.current = interviewerText;
-        // Stop listening before TTS to prevent mic picking up speaker audio
-        stopTranscription();
-        // speak() now resolves when audio playback finishes
-        await speak(interviewerText);
+        await queue.finished();
         // Only start recognition after audio ends and if not paused/idle
         if (interviewStateRef.current !== "idle" && !pausedRef.current) {
           startTranscriptionRef.current();
@@ -386,7 +487,7 @@ export default function PracticeClient() {
         inFlightRef.current = false;
       }
     },
-    [scenarioPayload, speak, stopTranscription]
+    [createSpeechQueue, scenarioPayload, stopTranscription]
   );
 
   const callLiveCoach = useCallback(
@@ -427,6 +528,22 @@ export default function PracticeClient() {
           const parsed = payload as LiveCoach;
           if (parsed?.tone && parsed?.clarity && parsed?.structure && parsed?.referral) {
             setLiveCoach(parsed);
+            const classification: LiveCoach = {
+              tone: parsed.tone,
+              clarity: parsed.clarity,
+              structure: parsed.structure,
+              referral: parsed.referral,
+              bullets: Array.isArray(parsed.bullets) ? parsed.bullets : [],
+            };
+            // Classifications can land after the turn was finalized; attach
+            // them to that turn instead of the one in progress.
+            const chunk = collapseWhitespace(lastUserTurn);
+            const lastUser = chatLogRef.current.findLast((turn) => turn.role === "user");
+            if (!currentUserTurnRef.current.includes(chunk) && lastUser?.content.includes(chunk)) {
+              lastUser.liveCoach = classification;
+            } else {
+              pendingLiveCoachRef.current = classification;
+            }
           }
         }
       } catch {
@@ -472,6 +589,10 @@ export default function PracticeClient() {
         const payload = text ? (JSON.parse(text) as Record<string, unknown>) : {};
         if (res.ok && payload.turnReview) {
           setTurnReview(payload.turnReview as string);
+          const turn = chatLogRef.current.findLast(
+            (entry) => entry.role === "user" && entry.content === lastUserTurn
+          );
+          if (turn) turn.turnReview = payload.turnReview as string;
         }
       } catch {
         // Non-blocking
@@ -490,20 +611,56 @@ export default function PracticeClient() {
         });
         const text = await res.text();
         const payload = text ? (JSON.parse(text) as Record<string, unknown>) : {};
-        if (res.ok && payload.finalSummary) {
-          setFinalSummary(payload.finalSummary as string);
+        if (res.ok && payload.scorecard) {
+          setScorecard(payload.scorecard as CoffeeChatScorecard);
+          return payload.scorecard as CoffeeChatScorecard;
         }
       } catch {
         // Non-blocking
       }
+      return null;
     },
     [messages, scenarioPayload]
   );
 
+  const saveChat = useCallback(
+    async (finalScorecard: CoffeeChatScorecard | null) => {
+      if (!chatLogRef.current.some((turn) => turn.role === "user")) return;
+      try {
+        const res = await fetch("/api/coffee-chats", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            id: chatIdRef.current ?? undefined,
+            scenario: {
+              track: scenarioPayload.track,
+              firmType: scenarioPayload.firmType,
+              group: scenarioPayload.group,
+              interviewerVibe: scenarioPayload.interviewerVibe,
+              difficulty: scenarioPayload.difficulty,
+              goal: scenarioPayload.goal,
+              persona: scenarioPayload.persona,
+            },
+            turns: chatLogRef.current,
+            phaseTransitions: phaseTransitionsRef.current,
+            scorecard: finalScorecard,
+          }),
+        });
+        const text = await res.text();
+        const payload = text ? (JSON.parse(text) as Record<string, unknown>) : {};
+        if (res.ok && typeof payload.id === "string") {
+          chatIdRef.current = payload.id;
+          setSavedChatId(payload.id);
+        }
+      } catch {
+        // Non-blocking
+      }
+    },
+    [scenarioPayload]
+  );
+
   const buildFeedback = useCallback((text: string) => {
-    const lower = text.toLowerCase();
-    const fillerWords = ["um", "uh", "like", "you know", "sort of", "kind of"];
-    const fillerCount = fillerWords.reduce((sum, word) => sum + (lower.split(word).length - 1), 0);
+    const fillerCount = countFillers(text).total;
     const longAnswer = text.length > 600;
     const entitlement = /(i deserve|i should|get me|give me)/i.test(text);
     const questions = (text.match(/\?/g) || []).length;
@@ -562,17 +719,50 @@ export default function PracticeClient() {
     const userMessage: Message = { role: "user", content: normalized };
     const nextMessages: Message[] = [...messages, userMessage];
     setMessages(nextMessages);
-    setTurnReview(buildFeedback(normalized));
+    const heuristicReview = buildFeedback(normalized);
+    setTurnReview(heuristicReview);
+    const interviewerText = lastInterviewerTextRef.current;
+    const answerDelivery = analyzeDelivery(
+      {
+        text: normalized,
+        segments: timelineRef.current.segments(),
+        interviewerSeconds:
+          interviewerTalkMsRef.current > 0
+            ? interviewerTalkMsRef.current / 1000
+            : interviewerText
+              ? estimateSpeakingSeconds(interviewerText)
+              : null,
+      },
+      "coffee_chat"
+    );
+    timelineRef.current.reset();
+    interviewerTalkMsRef.current = 0;
+    setDelivery(answerDelivery);
+    chatLogRef.current.push({
+      role: "user",
+      content: normalized,
+      phase,
+      at: new Date().toISOString(),
+      liveCoach: pendingLiveCoachRef.current,
+      turnReview: heuristicReview,
+      delivery: answerDelivery,
+    });
+    pendingLiveCoachRef.current = null;
     void callTurnCoach(normalized);
     turnIndexRef.current += 1;
     setTurnIndex(turnIndexRef.current);
     await callInterviewer(nextMessages);
 
-    if (phase === "opening") setPhase("user_intro");
-    else if (phase === "user_intro") setPhase("exploration");
-    else if (phase === "exploration" && userTurns >= 1) setPhase("fit");
-    else if (phase === "fit" && userTurns >= 2) setPhase("user_questions");
-    else if (phase === "user_questions" && userTurns >= 3) setPhase("close");
+    let nextPhase: Phase = phase;
+    if (phase === "opening") nextPhase = "user_intro";
+    else if (phase === "user_intro") nextPhase = "exploration";
+    else if (phase === "exploration" && userTurns >= 1) nextPhase = "fit";
+    else if (phase === "fit" && userTurns >= 2) nextPhase = "user_questions";
+    else if (phase === "user_questions" && userTurns >= 3) nextPhase = "close";
+    if (nextPhase !== phase) {
+      phaseTransitionsRef.current.push({ from: phase, to: nextPhase, afterTurn: turnIndexRef.current });
+      setPhase(nextPhase);
+    }
 
     setUserTurns((prev) => prev + 1);
   }, [
@@ -586,13 +776,72 @@ export default function PracticeClient() {
     userTurns,
   ]);
 
+  /**
+   * Ends a fallback recording: uploads the answer to /api/stt and finalizes
+   * the turn with the transcript, as a pause does with SpeechRecognition.
+   */
+  const finishRecording = useCallback(async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    isTranscribingRef.current = false;
+    setIsTranscribing(false);
+    setTranscriptInterim("Transcribing...");
+    try {
+      const audio = await recording.stop();
+      const { text, words } = await transcribeRecording(audio, lastInterviewerTextRef.current || undefined);
+      if (words?.length) timelineRef.current.addWords(words, recordingStartedAtRef.current);
+      const trimmed = text.trim();
+      if (trimmed) {
+        hasUserSpokenRef.current = true;
+        currentUserTurnRef.current = `${currentUserTurnRef.current} ${trimmed}`.trim();
+        queueLiveCoach(trimmed);
+      }
+      if (interviewStateRef.current !== "listening" || pausedRef.current) return;
+      if (currentUserTurnRef.current.trim()) {
+        void finalizeTurn();
+      } else if (!holdToTalkRef.current) {
+        // Nothing intelligible was said; keep listening.
+        startTranscriptionRef.current();
+      }
+    } catch (err) {
+      setSpeechError(err instanceof Error ? err.message : "Transcription failed.");
+    } finally {
+      setTranscriptInterim("");
+    }
+  }, [finalizeTurn, queueLiveCoach]);
+
   const startTranscription = useCallback(() => {
     setSpeechError(null);
+    if (isTranscribingRef.current) return;
     if (!speechSupported) {
-      setSpeechError("Speech recognition not supported—use Chrome or enable fallback.");
+      if (!recordingSupported) {
+        setSpeechError("Speech input is not supported in this browser—try Chrome.");
+        return;
+      }
+      isTranscribingRef.current = true;
+      setIsTranscribing(true);
+      setInterviewState("listening");
+      startRecording({
+        onSilence: holdToTalkRef.current ? undefined : () => void finishRecording(),
+        maxMs: MAX_RECORDING_MS,
+      })
+        .then((recording) => {
+          // Stopped while the permission prompt was open.
+          if (!isTranscribingRef.current) {
+            recording.cancel();
+            return;
+          }
+          recordingStartedAtRef.current = Date.now();
+          recordingRef.current = recording;
+        })
+        .catch(() => {
+          setSpeechError("Microphone blocked. Click the lock icon → allow microphone → reload.");
+          isTranscribingRef.current = false;
+          setIsTranscribing(false);
+        });
       return;
     }
-    if (isTranscribingRef.current) return;
 
     const recognition = getSpeechRecognition();
     if (!recognition) {
@@ -613,6 +862,7 @@ export default function PracticeClient() {
         const chunk = result[0]?.transcript ?? "";
         if (chunk.trim()) {
           hasUserSpokenRef.current = true;
+          timelineRef.current.heard();
         }
         if (result.isFinal) {
           finalText += chunk;
@@ -629,6 +879,7 @@ export default function PracticeClient() {
 
       const trimmedFinal = finalText.trim();
       if (trimmedFinal) {
+        timelineRef.current.addFinal(trimmedFinal);
         currentUserTurnRef.current = `${currentUserTurnRef.current} ${trimmedFinal}`.trim();
         queueLiveCoach(trimmedFinal);
         if (!holdToTalkRef.current) {
@@ -679,7 +930,7 @@ export default function PracticeClient() {
     isTranscribingRef.current = true;
     setIsTranscribing(true);
     setInterviewState("listening");
-  }, [finalizeTurn, queueLiveCoach, speechSupported, stopSpeaking]);
+  }, [finalizeTurn, finishRecording, queueLiveCoach, recordingSupported, speechSupported, stopSpeaking]);
 
   useEffect(() => {
     startTranscriptionRef.current = startTranscription;
@@ -701,9 +952,17 @@ export default function PracticeClient() {
     currentUserTurnRef.current = "";
     setInterviewError(null);
     setTranscriptInterim("");
-    setFinalSummary("");
+    setScorecard(null);
     setTurnReview("");
+    setDelivery(null);
+    timelineRef.current.reset();
+    interviewerTalkMsRef.current = 0;
     setPhase("opening");
+    chatLogRef.current = [];
+    phaseTransitionsRef.current = [];
+    pendingLiveCoachRef.current = null;
+    chatIdRef.current = null;
+    setSavedChatId(null);
     if (!holdToTalk) {
       startTranscription();
     }
@@ -732,8 +991,9 @@ export default function PracticeClient() {
     currentUserTurnRef.current = "";
     setInterviewState("idle");
     setInterviewError(null);
-    await callFinalCoach();
-  }, [callFinalCoach, finalizeTurn, stopSpeaking, stopTranscription]);
+    const finalScorecard = await callFinalCoach();
+    await saveChat(finalScorecard);
+  }, [callFinalCoach, finalizeTurn, saveChat, stopSpeaking, stopTranscription]);
 
   const pauseInterview = useCallback(() => {
     if (introTimeoutRef.current) {
@@ -758,6 +1018,10 @@ export default function PracticeClient() {
 
   const handleHoldEnd = () => {
     if (!holdToTalk) return;
+    if (recordingRef.current) {
+      void finishRecording();
+      return;
+    }
     stopTranscription();
   };
 
@@ -856,6 +1120,12 @@ export default function PracticeClient() {
                   options={groupOptions}
                   onChange={(value) => setScenario((prev) => ({ ...prev, group: value }))}
                 />
+                <Select
+                  label="Target firm"
+                  value={targetFirm}
+                  options={[{ value: "", label: "Any firm" }, ...firms.map((value) => ({ value, label: value }))]}
+                  onChange={setTargetFirm}
+                />
                 <Select
                   label="Interviewer vibe"
                   value={scenario.person.vibe}
@@ -879,7 +1149,7 @@ export default function PracticeClient() {
                 <div className="font-semibold">Scenario preview</div>
                 <div className="mt-2 text-slate-900">
                   <span className="font-medium">{scenario.person.title}</span> ({scenario.person.yearsExp} yrs) •{" "}
-                  {scenario.firmType} • {scenario.group} •{" "}
+                  {targetFirm ? `${targetFirm} (${scenario.firmType})` : scenario.firmType} • {scenario.group} •{" "}
                   <span className="text-slate-600">vibe:</span>{" "}
                   <span className="font-medium text-slate-900">{scenario.person.vibe}</span>
                 </div>
@@ -1013,7 +1283,9 @@ export default function PracticeClient() {
               ) : null}
               {!speechSupported ? (
                 <div className="mt-3 text-sm text-amber-700">
-                  Speech recognition not supported—use Chrome or enable fallback.
+                  {recordingSupported
+                    ? "Live captions are not available in this browser—answers are recorded and transcribed when you pause."
+                    : "Speech input is not supported in this browser—try Chrome."}
                 </div>
               ) : null}
               {speechError ? (
@@ -1133,6 +1405,29 @@ export default function PracticeClient() {
             </Card>
           </motion.div>
 
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            whileHover={{ y: -2 }}
+            transition={{ duration: 0.3 }}
+          >
+            <Card className="p-6">
+              <div className="flex items-center justify-between">
+                <div className="text-base font-semibold text-slate-900">Delivery</div>
+                <Badge tone="neutral">Last answer</Badge>
+              </div>
+              <div className="mt-4 text-sm text-slate-700">
+                {delivery ? (
+                  <DeliveryStats metrics={delivery} />
+                ) : (
+                  <div className="py-4 text-center text-sm text-slate-400">
+                    Pace, fillers and pauses appear after each answer.
+                  </div>
+                )}
+              </div>
+            </Card>
+          </motion.div>
+
           <motion.div
             initial={{ opacity: 0, y: 8 }}
             animate={{ opacity: 1, y: 0 }}
@@ -1160,14 +1455,26 @@ export default function PracticeClient() {
           >
             <Card className="p-6">
               <div className="flex items-center justify-between">
-                <div className="text-base font-semibold text-slate-900">Final summary</div>
+                <div className="text-base font-semibold text-slate-900">Scorecard</div>
                 <Badge tone="neutral">End of call</Badge>
               </div>
-              <div className="mt-4 min-h-[200px] whitespace-pre-wrap text-sm text-slate-800">
-                {finalSummary || (
-                  <span className="block py-6 text-center text-slate-400">Final summary appears after ending the interview.</span>
+              <div className="mt-4 min-h-[200px]">
+                {scorecard ? (
+                  <CoffeeChatScorecardView scorecard={scorecard} />
+                ) : (
+                  <span className="block py-6 text-center text-sm text-slate-400">
+                    Your scorecard appears after ending the interview.
+                  </span>
                 )}
               </div>
+              {savedChatId ? (
+                <Link
+                  href={`/history/chats/${savedChatId}`}
+                  className="mt-4 inline-flex text-sm font-semibold text-slate-700 underline-offset-4 hover:underline"
+                >
+                  Saved — replay this chat →
+                </Link>
+              ) : null}
               {debugEnabled && showDebug ? (
                 <div className="mt-4 rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-700">
                   <div className="font-semibold text-slate-900">Debug</div>
@@ -0,0 +1,16 @@
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { listInterviewSessions } from "@/lib/interview-sessions";
+import { buildProgressReport } from "@/lib/progress";
+import ProgressClient from "./progress-client";
+
+export const dynamic = "force-dynamic";
+
+export default async function ProgressPage() {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) redirect("/api/auth/signin");
+  const report = buildProgressReport(await listInterviewSessions(email));
+  return <ProgressClient report={report} />;
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import Link from "next/link";
+import { motion } from "framer-motion";
+import type { ProgressBucket, ProgressPoint, ProgressReport } from "@/lib/progress";
+import { formatDateTime, formatStage } from "@/lib/format";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+type Props = {
+  report: ProgressReport;
+};
+
+function scoreColor(score: number) {
+  if (score >= 7) return "bg-emerald-400";
+  if (score >= 4) return "bg-amber-400";
+  return "bg-red-400";
+}
+
+function Sparkline({ points, height = 32 }: { points: ProgressPoint[]; height?: number }) {
+  const width = 120;
+  if (points.length < 2) {
+    return <div className="text-[10px] text-slate-400">Not enough data</div>;
+  }
+  const step = width / (points.length - 1);
+  const coords = points.map((point, idx) => `${idx * step},${height - (point.score / 10) * height}`);
+  const threshold = height - 0.5 * height;
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+      <line x1={0} x2={width} y1={threshold} y2={threshold} className="stroke-slate-200" strokeDasharray="3 3" />
+      <polyline points={coords.join(" ")} fill="none" className="stroke-slate-900" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+function BucketTable({ title, buckets, formatLabel }: { title: string; buckets: ProgressBucket[]; formatLabel?: (label: string) => string }) {
+  return (
+    <Card className="p-6">
+      <div className="text-base font-semibold text-slate-900">{title}</div>
+      {buckets.length === 0 ? (
+        <div className="mt-4 py-4 text-center text-sm text-slate-400">No graded answers yet.</div>
+      ) : (
+        <div className="mt-4 space-y-3">
+          {buckets.map((bucket) => (
+            <div key={bucket.key} className="grid grid-cols-[1fr_auto] items-center gap-4 text-sm md:grid-cols-[10rem_1fr_auto]">
+              <div className="font-medium capitalize text-slate-800">
+                {formatLabel ? formatLabel(bucket.label) : bucket.label}
+                <span className="ml-1 text-xs font-normal text-slate-400">({bucket.count})</span>
+              </div>
+              <div className="hidden items-center gap-3 md:flex">
+                <div className="h-1.5 flex-1 rounded-full bg-slate-200">
+                  <div
+                    className={`h-1.5 rounded-full ${scoreColor(bucket.average)}`}
+                    style={{ width: `${bucket.average * 10}%` }}
+                  />
+                </div>
+                <Sparkline points={bucket.points} height={20} />
+              </div>
+              <div className="text-right text-xs text-slate-600">
+                <span className="font-semibold text-slate-900">{bucket.average}</span> avg ·{" "}
+                <span className="font-semibold text-slate-900">{bucket.recentAverage}</span> recent
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export default function ProgressClient({ report }: Props) {
+  if (report.totalAnswers === 0) {
+    return (
+      <div className="mx-auto w-full max-w-4xl px-6 pb-16 pt-10">
+        <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Progress</div>
+        <h1 className="mt-1 text-2xl font-semibold text-slate-900">Your progress</h1>
+        <Card className="mt-6 p-10 text-center text-sm text-slate-500">
+          <div>No graded answers yet. Your dashboard fills in as you complete mock interviews.</div>
+          <Link href="/mock-interview" className="mt-4 inline-flex">
+            <Button type="button">Start a mock interview</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-5xl px-6 pb-16 pt-10">
+      <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Progress</div>
+      <h1 className="mt-1 text-2xl font-semibold text-slate-900">Your progress</h1>
+
+      <div className="mt-6 grid gap-4 md:grid-cols-3">
+        <Card className="p-5">
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Average score</div>
+          <div className="mt-2 text-3xl font-semibold text-slate-900">{report.overallAverage}/10</div>
+        </Card>
+        <Card className="p-5">
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Graded answers</div>
+          <div className="mt-2 text-3xl font-semibold text-slate-900">{report.totalAnswers}</div>
+        </Card>
+        <Card className="p-5">
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Interviews</div>
+          <div className="mt-2 text-3xl font-semibold text-slate-900">{report.totalSessions}</div>
+        </Card>
+      </div>
+
+      {report.flags.length > 0 ? (
+        <motion.div initial={{ opacity: 0, y: 6 }} animate={{ opacity: 1, y: 0 }}>
+          <Card className="mt-6 border-amber-200 bg-amber-50 p-6">
+            <div className="text-base font-semibold text-amber-900">Needs attention</div>
+            <ul className="mt-3 space-y-2 text-sm text-amber-900">
+              {report.flags.map((flag) => (
+                <li key={`${flag.dimension}-${flag.key}`} className="flex items-start gap-2">
+                  <Badge tone="warning" className="capitalize">{flag.dimension}</Badge>
+                  <span>{formatStage(flag.message)}</span>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        </motion.div>
+      ) : null}
+
+      <Card className="mt-6 p-6">
+        <div className="flex items-center justify-between">
+          <div className="text-base font-semibold text-slate-900">Score over time</div>
+          <Badge tone="neutral">Per interview</Badge>
+        </div>
+        <div className="mt-4 flex items-end gap-1.5">
+          {report.overTime.map((point) => (
+            <div key={point.at} className="group flex flex-1 flex-col items-center gap-1" title={`${formatDateTime(point.at)}: ${point.score}/10`}>
+              <div className="flex h-32 w-full max-w-10 items-end rounded bg-slate-100">
+                <div className={`w-full rounded ${scoreColor(point.score)}`} style={{ height: `${point.score * 10}%` }} />
+              </div>
+              <div className="text-[10px] text-slate-400">{point.score}</div>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <div className="mt-6 grid gap-6">
+        <BucketTable title="By question type" buckets={report.byType} formatLabel={formatStage} />
+        <div className="grid gap-6 lg:grid-cols-2">
+          <BucketTable title="By interview mode" buckets={report.byMode} />
+          <BucketTable title="By firm" buckets={report.byFirm} />
+        </div>
+      </div>
+
+      <Card className="mt-6 p-6">
+        <div className="text-base font-semibold text-slate-900">Recurring gaps</div>
+        {report.recurringGaps.length === 0 ? (
+          <div className="mt-4 py-4 text-center text-sm text-slate-400">No gap has come up more than once yet.</div>
+        ) : (
+          <ul className="mt-4 space-y-3 text-sm">
+            {report.recurringGaps.map((gap) => (
+              <li key={gap.label} className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="font-medium text-slate-900">{gap.label}</div>
+                  <div className="mt-0.5 text-xs text-slate-500">Latest: “{gap.example}”</div>
+                </div>
+                <Badge tone="warning">{gap.count}×</Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+}
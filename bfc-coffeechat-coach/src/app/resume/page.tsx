@@ -0,0 +1,15 @@
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { getResume } from "@/lib/resumes";
+import ResumeClient from "./resume-client";
+
+export const dynamic = "force-dynamic";
+
+export default async function ResumePage() {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) redirect("/api/auth/signin");
+  const resume = await getResume(email);
+  return <ResumeClient initialResume={resume} />;
+}
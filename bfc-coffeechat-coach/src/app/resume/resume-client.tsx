@@ -0,0 +1,213 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import type { ResumeRecord } from "@/lib/resumes";
+import { formatDateTime } from "@/lib/format";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+type Props = {
+  initialResume: ResumeRecord | null;
+};
+
+function parseJsonRecord(text: string) {
+  if (!text) return {} as Record<string, unknown>;
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+function errorMessage(payload: Record<string, unknown>, fallback: string) {
+  const msg = (payload.error as string) || fallback;
+  const requestId = payload.requestId as string | undefined;
+  return requestId ? `${msg} (Request ID: ${requestId})` : msg;
+}
+
+export default function ResumeClient({ initialResume }: Props) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [resume, setResume] = useState(initialResume);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function upload(file: File) {
+    setBusy(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/resume", { method: "POST", body: form });
+      const payload = parseJsonRecord(await res.text());
+      if (!res.ok) throw new Error(errorMessage(payload, res.statusText));
+      setResume(payload.resume as ResumeRecord);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setBusy(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  }
+
+  async function remove() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/resume", { method: "DELETE" });
+      const payload = parseJsonRecord(await res.text());
+      if (!res.ok) throw new Error(errorMessage(payload, res.statusText));
+      setResume(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Delete failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const profile = resume?.profile;
+
+  return (
+    <div className="mx-auto w-full max-w-4xl px-6 pb-16 pt-10">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900">Resume</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Upload a PDF or DOCX. Mock interviews then ask about your own deals and experience, and the coffee chat
+            interviewer follows up on what you mention.
+          </p>
+          <p className="mt-1 text-xs text-slate-500">
+            The text of your resume is sent to the app&apos;s AI provider to structure it, and is included in interview
+            prompts while “Ask about my resume” is on. Delete it here at any time.
+          </p>
+        </div>
+        <Link href="/mock-interview" className="text-sm font-semibold text-slate-600 hover:text-slate-900">
+          Start a mock interview →
+        </Link>
+      </div>
+
+      {error ? (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      ) : null}
+
+      <Card className="mt-6 flex flex-wrap items-center justify-between gap-4 p-6">
+        <div className="text-sm text-slate-700">
+          {resume ? (
+            <>
+              <span className="font-semibold text-slate-900">{resume.fileName}</span>
+              <span className="text-slate-500"> · updated {formatDateTime(resume.updatedAt)}</span>
+              {resume.parsedBy === "heuristic" ? (
+                <Badge tone="warning" className="ml-2" title="The model was unavailable, so sections were split by heading.">
+                  Basic parse
+                </Badge>
+              ) : null}
+            </>
+          ) : (
+            "No resume on file."
+          )}
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void upload(file);
+            }}
+          />
+          <Button type="button" onClick={() => inputRef.current?.click()} disabled={busy}>
+            {busy ? "Working..." : resume ? "Replace" : "Upload resume"}
+          </Button>
+          {resume ? (
+            <Button type="button" variant="ghost" onClick={() => void remove()} disabled={busy}>
+              Delete
+            </Button>
+          ) : null}
+        </div>
+      </Card>
+
+      {profile ? (
+        <div className="mt-6 space-y-6">
+          {profile.name ? <div className="text-lg font-semibold text-slate-900">{profile.name}</div> : null}
+
+          {profile.education.length > 0 ? (
+            <Card className="p-6">
+              <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Education</div>
+              <div className="mt-3 space-y-3">
+                {profile.education.map((entry, idx) => (
+                  <div key={`${entry.school}-${idx}`} className="text-sm text-slate-700">
+                    <div className="font-semibold text-slate-900">
+                      {[entry.school, entry.degree].filter(Boolean).join(" · ")}
+                    </div>
+                    {entry.dates ? <div className="text-xs text-slate-500">{entry.dates}</div> : null}
+                    {entry.details.length > 0 ? (
+                      <ul className="mt-1 list-disc space-y-0.5 pl-5">
+                        {entry.details.map((detail) => (
+                          <li key={detail}>{detail}</li>
+                        ))}
+                      </ul>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            </Card>
+          ) : null}
+
+          {profile.experiences.length > 0 ? (
+            <Card className="p-6">
+              <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Experience</div>
+              <div className="mt-3 space-y-4">
+                {profile.experiences.map((entry, idx) => (
+                  <div key={`${entry.organization}-${idx}`} className="text-sm text-slate-700">
+                    <div className="font-semibold text-slate-900">
+                      {[entry.role, entry.organization].filter(Boolean).join(" · ")}
+                    </div>
+                    {entry.dates ? <div className="text-xs text-slate-500">{entry.dates}</div> : null}
+                    {entry.bullets.length > 0 ? (
+                      <ul className="mt-1 list-disc space-y-0.5 pl-5">
+                        {entry.bullets.map((bullet) => (
+                          <li key={bullet}>{bullet}</li>
+                        ))}
+                      </ul>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            </Card>
+          ) : null}
+
+          {profile.deals.length > 0 ? (
+            <Card className="p-6">
+              <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Deals</div>
+              <div className="mt-3 space-y-3">
+                {profile.deals.map((deal, idx) => (
+                  <div key={`${deal.name}-${idx}`} className="text-sm text-slate-700">
+                    <div className="font-semibold text-slate-900">{deal.name}</div>
+                    {deal.role ? <div className="text-xs text-slate-500">{deal.role}</div> : null}
+                    {deal.details && deal.details !== deal.name ? <div className="mt-1">{deal.details}</div> : null}
+                  </div>
+                ))}
+              </div>
+            </Card>
+          ) : null}
+
+          {profile.skills.length > 0 ? (
+            <Card className="p-6">
+              <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Skills</div>
+              <div className="mt-3 flex flex-wrap gap-2">
+                {profile.skills.map((skill) => (
+                  <Badge key={skill} tone="neutral">
+                    {skill}
+                  </Badge>
+                ))}
+              </div>
+            </Card>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/auth";
+import { listStories } from "@/lib/story-bank";
+import StoriesClient from "./stories-client";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  searchParams: Promise<{ id?: string }>;
+};
+
+export default async function StoriesPage({ searchParams }: Props) {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) redirect("/api/auth/signin");
+  const { id } = await searchParams;
+  const stories = await listStories(email);
+  const initialId = stories.some((story) => story.id === id) ? (id as string) : null;
+  return <StoriesClient stories={stories} initialId={initialId} />;
+}
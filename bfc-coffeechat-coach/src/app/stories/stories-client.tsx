@@ -0,0 +1,356 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { StoryRecord } from "@/lib/story-bank";
+import {
+  type StarPart,
+  type StarStoryInput,
+  type StoryCompetency,
+  starPartLabels,
+  starPartSchema,
+  starStoryInputSchema,
+  storyCompetencyLabels,
+  storyCompetencySchema,
+} from "@/lib/star-stories";
+import { formatDateTime } from "@/lib/format";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select } from "@/components/ui/select";
+
+type Props = {
+  stories: StoryRecord[];
+  initialId: string | null;
+};
+
+function parseJsonRecord(text: string) {
+  if (!text) return {} as Record<string, unknown>;
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+async function sendJson(url: string, method: "POST" | "DELETE", body: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const payload = parseJsonRecord(await res.text());
+  if (!res.ok) {
+    const msg = (payload.error as string) || res.statusText;
+    const requestId = payload.requestId as string | undefined;
+    throw new Error(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+  }
+  return payload;
+}
+
+const emptyDraft: StarStoryInput = { title: "", competencies: [], situation: "", task: "", action: "", result: "" };
+
+const partPlaceholders: Record<StarPart, string> = {
+  situation: "Where you were and what was going on, in two sentences",
+  task: "What you were responsible for, and what was at stake",
+  action: "What you did, step by step, in the first person",
+  result: "What happened, with a number if there is one, and what you took from it",
+};
+
+const inputClass =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-slate-900";
+
+function draftFrom(record: StoryRecord | undefined): StarStoryInput {
+  if (!record) return emptyDraft;
+  const { title, competencies, situation, task, action, result } = record;
+  return { title, competencies, situation, task, action, result };
+}
+
+const filterOptions = [
+  { value: "all", label: "All competencies" },
+  ...storyCompetencySchema.options.map((competency) => ({ value: competency, label: storyCompetencyLabels[competency] })),
+];
+
+export default function StoriesClient({ stories: initialStories, initialId }: Props) {
+  const [stories, setStories] = useState(initialStories);
+  const [activeId, setActiveId] = useState<string | null>(initialId);
+  const [draft, setDraft] = useState<StarStoryInput>(() =>
+    draftFrom(initialStories.find((story) => story.id === initialId))
+  );
+  const [filter, setFilter] = useState<StoryCompetency | "all">("all");
+  const [dirty, setDirty] = useState(false);
+  const [busy, setBusy] = useState<"saving" | "coaching" | "deleting" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeStory = stories.find((story) => story.id === activeId) ?? null;
+  const feedback = dirty ? null : activeStory?.feedback ?? null;
+  const visibleStories = filter === "all" ? stories : stories.filter((story) => story.competencies.includes(filter));
+
+  const openStory = (record: StoryRecord | null) => {
+    setActiveId(record?.id ?? null);
+    setDraft(draftFrom(record ?? undefined));
+    setDirty(false);
+    setError(null);
+  };
+
+  const updateDraft = (update: Partial<StarStoryInput>) => {
+    setDraft((prev) => ({ ...prev, ...update }));
+    setDirty(true);
+  };
+
+  const toggleCompetency = (competency: StoryCompetency) => {
+    updateDraft({
+      competencies: draft.competencies.includes(competency)
+        ? draft.competencies.filter((item) => item !== competency)
+        : storyCompetencySchema.options.filter((item) => item === competency || draft.competencies.includes(item)),
+    });
+  };
+
+  const storeRecord = (record: StoryRecord) => {
+    setStories((prev) => [record, ...prev.filter((story) => story.id !== record.id)]);
+    setActiveId(record.id);
+  };
+
+  /** Saves the draft if it changed; returns the saved story's id, or null if it did not validate or save. */
+  const save = async () => {
+    if (activeId && !dirty) return activeId;
+    const parsed = starStoryInputSchema.safeParse(draft);
+    if (!parsed.success) {
+      setError("Give the story a title, at least one competency and all four STAR parts before saving.");
+      return null;
+    }
+    setBusy("saving");
+    setError(null);
+    try {
+      const payload = await sendJson("/api/stories", "POST", { id: activeId ?? undefined, story: parsed.data });
+      const record = payload.story as StoryRecord;
+      storeRecord(record);
+      setDraft(draftFrom(record));
+      setDirty(false);
+      return record.id;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the story.");
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const coach = async () => {
+    const id = await save();
+    if (!id) return;
+    setBusy("coaching");
+    setError(null);
+    try {
+      const payload = await sendJson("/api/stories/coach", "POST", { id });
+      storeRecord(payload.story as StoryRecord);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to get feedback.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = async () => {
+    if (!activeId) return;
+    setBusy("deleting");
+    setError(null);
+    try {
+      await sendJson("/api/stories", "DELETE", { id: activeId });
+      setStories((prev) => prev.filter((story) => story.id !== activeId));
+      openStory(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete the story.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-5xl px-6 pb-16 pt-10">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900">Story bank</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Write your behavioral stories once in STAR form and sharpen them with coach feedback. In mock interviews, the
+            grader checks whether your answer retells a stored story and whether it holds up against it.
+          </p>
+        </div>
+        <Link href="/mock-interview" className="text-sm font-semibold text-slate-600 hover:text-slate-900">
+          Practice in a mock interview →
+        </Link>
+      </div>
+
+      {error ? (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      ) : null}
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[1fr_280px]">
+        <div className="space-y-6">
+          <Card className="space-y-4 p-6">
+            <label className="flex flex-col gap-2 text-sm">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Title</span>
+              <input
+                value={draft.title}
+                onChange={(event) => updateDraft({ title: event.target.value })}
+                placeholder="e.g. Rebuilding the fund's pitch process"
+                maxLength={120}
+                className={inputClass}
+              />
+            </label>
+            <div className="space-y-2">
+              <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Competencies</div>
+              <div className="flex flex-wrap gap-2">
+                {storyCompetencySchema.options.map((competency) => {
+                  const selected = draft.competencies.includes(competency);
+                  return (
+                    <button
+                      key={competency}
+                      type="button"
+                      onClick={() => toggleCompetency(competency)}
+                      className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                        selected
+                          ? "border-slate-900 bg-slate-900 text-white"
+                          : "border-slate-200 bg-white text-slate-600 hover:border-slate-300"
+                      }`}
+                    >
+                      {storyCompetencyLabels[competency]}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            {starPartSchema.options.map((part) => (
+              <label key={part} className="flex flex-col gap-2 text-sm">
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{starPartLabels[part]}</span>
+                <textarea
+                  value={draft[part]}
+                  onChange={(event) => updateDraft({ [part]: event.target.value })}
+                  placeholder={partPlaceholders[part]}
+                  rows={part === "action" ? 5 : 3}
+                  maxLength={1500}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+            <div className="flex flex-wrap items-center gap-2">
+              <Button type="button" onClick={() => void save()} disabled={busy !== null || (Boolean(activeId) && !dirty)}>
+                {busy === "saving" ? "Saving..." : activeId && !dirty ? "Saved" : "Save story"}
+              </Button>
+              <Button type="button" variant="secondary" onClick={() => void coach()} disabled={busy !== null}>
+                {busy === "coaching" ? "Coaching..." : "Get coach feedback"}
+              </Button>
+              {activeId ? (
+                <Button type="button" variant="ghost" onClick={() => void remove()} disabled={busy !== null}>
+                  {busy === "deleting" ? "Deleting..." : "Delete"}
+                </Button>
+              ) : null}
+            </div>
+          </Card>
+
+          {feedback ? (
+            <Card className="space-y-4 p-6 text-sm text-slate-700">
+              <div className="flex items-center justify-between">
+                <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Coach feedback</div>
+                <Badge tone={feedback.score0to10 >= 7 ? "success" : feedback.score0to10 >= 4 ? "neutral" : "warning"}>
+                  {feedback.score0to10}/10
+                </Badge>
+              </div>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <div className="font-semibold text-slate-900">Strengths</div>
+                  <ul className="mt-1 list-disc space-y-1 pl-4">
+                    {feedback.strengths.map((item, idx) => (
+                      <li key={idx}>{item}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <div className="font-semibold text-slate-900">Gaps</div>
+                  <ul className="mt-1 list-disc space-y-1 pl-4">
+                    {feedback.gaps.map((item, idx) => (
+                      <li key={idx}>{item}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+              <div className="space-y-3 rounded-lg border border-slate-100 bg-slate-50 p-3">
+                <div className="flex items-center justify-between">
+                  <div className="font-semibold text-slate-900">Tightened version</div>
+                  <button
+                    type="button"
+                    onClick={() => updateDraft(feedback.revised)}
+                    className="text-xs font-semibold text-slate-600 hover:text-slate-900"
+                  >
+                    Use all
+                  </button>
+                </div>
+                {starPartSchema.options.map((part) => (
+                  <div key={part}>
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="font-semibold uppercase tracking-wide text-slate-500">{starPartLabels[part]}</span>
+                      {feedback.revised[part] !== draft[part] ? (
+                        <button
+                          type="button"
+                          onClick={() => updateDraft({ [part]: feedback.revised[part] })}
+                          className="font-semibold text-slate-600 hover:text-slate-900"
+                        >
+                          Use this
+                        </button>
+                      ) : null}
+                    </div>
+                    <div className="mt-1 whitespace-pre-wrap">{feedback.revised[part]}</div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          ) : null}
+        </div>
+
+        <Card className="h-fit space-y-3 p-5">
+          <div className="flex items-center justify-between">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Your stories</div>
+            {activeId ? (
+              <button type="button" onClick={() => openStory(null)} className="text-xs font-semibold text-slate-600 hover:text-slate-900">
+                New story
+              </button>
+            ) : null}
+          </div>
+          <Select
+            label="Competency"
+            value={filter}
+            options={filterOptions}
+            onChange={(value) => setFilter(value as StoryCompetency | "all")}
+          />
+          {visibleStories.length === 0 ? (
+            <div className="text-xs text-slate-500">
+              {stories.length === 0 ? "Saved stories show up here." : "No stories tagged with this competency yet."}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {visibleStories.map((story) => (
+                <button
+                  key={story.id}
+                  type="button"
+                  onClick={() => openStory(story)}
+                  className={`block w-full rounded-lg border px-3 py-2 text-left transition hover:border-slate-300 ${
+                    story.id === activeId ? "border-slate-900" : "border-slate-200"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold text-slate-900">{story.title}</span>
+                    {story.feedback ? <Badge tone="neutral">{story.feedback.score0to10}/10</Badge> : null}
+                  </div>
+                  <div className="mt-0.5 text-xs text-slate-500">
+                    {story.competencies.map((competency) => storyCompetencyLabels[competency]).join(", ")} · updated{" "}
+                    {formatDateTime(story.updatedAt)}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
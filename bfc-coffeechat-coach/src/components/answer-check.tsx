@@ -0,0 +1,40 @@
+import type { AnswerCheck } from "@/lib/answer-key";
+import { Badge } from "@/components/ui/badge";
+
+const statusTones = {
+  correct: "success",
+  incorrect: "warning",
+  missing: "neutral",
+} as const;
+
+type AnswerCheckListProps = {
+  check: AnswerCheck;
+};
+
+/** Each keyed figure or statement impact with what the answer said about it. */
+export function AnswerCheckList({ check }: AnswerCheckListProps) {
+  return (
+    <div className="rounded-lg border border-slate-100 bg-slate-50 p-3">
+      <div className="flex items-center justify-between">
+        <div className="font-semibold text-slate-900">Answer key</div>
+        <span className="text-xs font-semibold text-slate-600">
+          {check.correct}/{check.total} right
+        </span>
+      </div>
+      <div className="mt-2 space-y-1.5">
+        {check.results.map((result) => (
+          <div key={result.label} className="flex items-start justify-between gap-3 text-xs">
+            <div>
+              <div className="font-medium text-slate-800">{result.label}</div>
+              <div className="text-slate-500">
+                Key: {result.expected}
+                {result.heard ? ` · You said: ${result.heard}` : ""}
+              </div>
+            </div>
+            <Badge tone={statusTones[result.status]}>{result.status}</Badge>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
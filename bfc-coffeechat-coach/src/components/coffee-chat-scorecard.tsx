@@ -0,0 +1,105 @@
+import { type CoffeeChatScorecard, coffeeChatRubric, rubricKeySchema } from "@/lib/networking-scenarios";
+import { Badge } from "@/components/ui/badge";
+
+function ratingClass(rating: number) {
+  if (rating >= 4) return "bg-emerald-400";
+  if (rating >= 3) return "bg-amber-400";
+  return "bg-red-400";
+}
+
+function referTone(percent: number) {
+  if (percent >= 60) return "success";
+  if (percent >= 35) return "neutral";
+  return "warning";
+}
+
+type CoffeeChatScorecardViewProps = {
+  scorecard: CoffeeChatScorecard;
+};
+
+/** Rubric ratings with evidence, referral odds and next steps from /api/coach/final. */
+export function CoffeeChatScorecardView({ scorecard }: CoffeeChatScorecardViewProps) {
+  return (
+    <div className="space-y-5 text-sm text-slate-700">
+      <div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Would refer</span>
+          <Badge tone={referTone(scorecard.wouldReferPercent)}>{scorecard.wouldReferPercent}%</Badge>
+        </div>
+        <div className="mt-1.5 h-2 w-full rounded-full bg-slate-200">
+          <div
+            className="h-2 rounded-full bg-slate-900"
+            style={{ width: `${scorecard.wouldReferPercent}%` }}
+          />
+        </div>
+        <div className="mt-1.5 text-xs text-slate-600">{scorecard.wouldReferRationale}</div>
+      </div>
+
+      <div className="space-y-3">
+        {rubricKeySchema.options.map((key) => {
+          const entry = scorecard.ratings[key];
+          return (
+            <div key={key} className="border-t border-slate-100 pt-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {coffeeChatRubric[key].label}
+                </span>
+                <div className="flex items-center gap-1" aria-label={`${entry.rating1to5} out of 5`}>
+                  {[1, 2, 3, 4, 5].map((step) => (
+                    <span
+                      key={step}
+                      className={`block h-2 w-5 rounded-full ${
+                        step <= entry.rating1to5 ? ratingClass(entry.rating1to5) : "bg-slate-200"
+                      }`}
+                    />
+                  ))}
+                  <span className="ml-1.5 text-xs font-semibold text-slate-700">{entry.rating1to5}/5</span>
+                </div>
+              </div>
+              <div className="mt-1 text-xs text-slate-600">{entry.fix}</div>
+              {entry.evidence.length > 0 ? (
+                <div className="mt-1.5 space-y-1">
+                  {entry.evidence.map((quote, idx) => (
+                    <div key={idx} className="border-l-2 border-slate-200 pl-2 text-xs italic text-slate-500">
+                      “{quote}”
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="border-t border-slate-100 pt-3">
+        <div className="font-semibold text-slate-900">Top improvements</div>
+        <ol className="mt-1 list-decimal space-y-1 pl-4">
+          {scorecard.topImprovements.map((point, idx) => (
+            <li key={idx}>{point}</li>
+          ))}
+        </ol>
+      </div>
+
+      <div>
+        <div className="font-semibold text-slate-900">30-second intro rewrite</div>
+        <div className="mt-1 rounded-lg border border-emerald-100 bg-emerald-50 p-3 text-emerald-900">
+          {scorecard.introRewrite}
+        </div>
+      </div>
+
+      <div>
+        <div className="font-semibold text-slate-900">Questions to ask next time</div>
+        <ul className="mt-1 list-disc space-y-1 pl-4">
+          {scorecard.suggestedQuestions.map((question, idx) => (
+            <li key={idx}>{question}</li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <div className="font-semibold text-slate-900">Referral ask</div>
+        <div className="mt-1 rounded-lg border border-slate-100 bg-slate-50 p-3">{scorecard.referralAskScript}</div>
+      </div>
+    </div>
+  );
+}
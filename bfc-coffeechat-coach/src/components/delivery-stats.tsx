@@ -0,0 +1,77 @@
+import { DELIVERY_LIMITS, type DeliveryMetrics } from "@/lib/delivery";
+import { Badge } from "@/components/ui/badge";
+
+type DeliveryStatsProps = {
+  metrics: Pick<
+    DeliveryMetrics,
+    | "wordsPerMinute"
+    | "fillerCount"
+    | "fillersPer100Words"
+    | "topFillers"
+    | "hedgeCount"
+    | "longPauseCount"
+    | "longestPauseSeconds"
+    | "talkRatio"
+    | "flags"
+  >;
+};
+
+/** Pace, fillers, hedges, pauses and talk share for one answer or a whole session. */
+export function DeliveryStats({ metrics }: DeliveryStatsProps) {
+  const stats = [
+    {
+      label: "Pace",
+      value: metrics.wordsPerMinute === null ? "—" : `${metrics.wordsPerMinute} wpm`,
+      warn:
+        metrics.wordsPerMinute !== null &&
+        (metrics.wordsPerMinute > DELIVERY_LIMITS.fastWpm || metrics.wordsPerMinute < DELIVERY_LIMITS.slowWpm),
+    },
+    {
+      label: "Fillers",
+      value: `${metrics.fillerCount} (${metrics.fillersPer100Words}/100)`,
+      warn:
+        metrics.fillerCount >= DELIVERY_LIMITS.minFillers &&
+        metrics.fillersPer100Words > DELIVERY_LIMITS.fillersPer100Words,
+    },
+    { label: "Hedges", value: `${metrics.hedgeCount}`, warn: metrics.hedgeCount >= DELIVERY_LIMITS.hedges },
+    {
+      label: "Long pauses",
+      value:
+        metrics.longPauseCount > 0 && metrics.longestPauseSeconds !== null
+          ? `${metrics.longPauseCount} (max ${metrics.longestPauseSeconds}s)`
+          : `${metrics.longPauseCount}`,
+      warn: metrics.longPauseCount > 0,
+    },
+    {
+      label: "Your talk share",
+      value: metrics.talkRatio === null ? "—" : `${Math.round(metrics.talkRatio * 100)}%`,
+      warn: false,
+    },
+  ];
+
+  return (
+    <div className="space-y-3">
+      {stats.map((stat) => (
+        <div key={stat.label} className="flex items-center justify-between">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{stat.label}</span>
+          <Badge tone={stat.warn ? "warning" : "neutral"}>{stat.value}</Badge>
+        </div>
+      ))}
+      {metrics.topFillers.length > 0 ? (
+        <div className="text-xs text-slate-500">
+          Most common: {metrics.topFillers.map((f) => `“${f.phrase}” ×${f.count}`).join(", ")}
+        </div>
+      ) : null}
+      {metrics.flags.length > 0 ? (
+        <div className="space-y-1.5 border-t border-slate-100 pt-3">
+          {metrics.flags.map((flag, idx) => (
+            <div key={idx} className="flex items-start gap-2 text-xs text-slate-600">
+              <span className="mt-0.5 block h-1.5 w-1.5 flex-shrink-0 rounded-full bg-amber-400" />
+              {flag}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { formatStage } from "@/lib/format";
+import {
+  type FinalReport,
+  type HireRecommendation,
+  hireBarByPressure,
+  hireRecommendationLabels,
+  type InterviewModeConfig,
+  questionTypeOptions,
+} from "@/lib/mock-interview";
+import { Badge } from "@/components/ui/badge";
+
+export const recommendationTones: Record<HireRecommendation, "neutral" | "success" | "warning"> = {
+  hire: "success",
+  lean_hire: "neutral",
+  lean_no_hire: "warning",
+  no_hire: "warning",
+};
+
+const scoreClasses = {
+  good: { circle: "bg-emerald-500", bar: "bg-emerald-400" },
+  fair: { circle: "bg-amber-500", bar: "bg-amber-400" },
+  poor: { circle: "bg-red-500", bar: "bg-red-400" },
+};
+
+function scoreClassesFor(score: number) {
+  if (score >= 7) return scoreClasses.good;
+  if (score >= 4) return scoreClasses.fair;
+  return scoreClasses.poor;
+}
+
+type FinalReportViewProps = {
+  report: FinalReport;
+  pressureLevel: InterviewModeConfig["pressureLevel"];
+};
+
+/** Scores, recommendation and study plan from /api/mock-interview/end. */
+export function FinalReportView({ report, pressureLevel }: FinalReportViewProps) {
+  const categories = questionTypeOptions.flatMap((type) => {
+    const entry = report.categoryScores[type];
+    return entry ? [{ type, ...entry }] : [];
+  });
+
+  return (
+    <div className="space-y-4 text-sm text-slate-700">
+      <div className="flex items-center gap-3">
+        <div
+          className={`flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full text-lg font-bold text-white ${
+            scoreClassesFor(report.overallScore0to10).circle
+          }`}
+        >
+          {report.overallScore0to10}
+        </div>
+        <div className="flex-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge tone={recommendationTones[report.recommendation]}>
+              {hireRecommendationLabels[report.recommendation]}
+            </Badge>
+            <span className="text-xs text-slate-500">
+              Bar for {pressureLevel} pressure: {hireBarByPressure[pressureLevel]}/10
+            </span>
+          </div>
+          <div className="mt-1 text-xs text-slate-600">{report.recommendationRationale}</div>
+        </div>
+      </div>
+
+      {report.partial ? (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          Partial report: based on {report.partial.graded} of {report.partial.planned} planned questions, because the
+          interview ended early.
+        </div>
+      ) : null}
+
+      {categories.length > 0 ? (
+        <div className="space-y-2">
+          {categories.map((category) => (
+            <div key={category.type} title={category.comment}>
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-semibold uppercase tracking-wide text-slate-500">{formatStage(category.type)}</span>
+                <span className="font-semibold text-slate-700">{category.score0to10}/10</span>
+              </div>
+              <div className="mt-1 h-1.5 w-full rounded-full bg-slate-200">
+                <div
+                  className={`h-1.5 rounded-full ${scoreClassesFor(category.score0to10).bar}`}
+                  style={{ width: `${category.score0to10 * 10}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div>
+          <div className="font-semibold text-slate-900">Top strengths</div>
+          <ul className="mt-1 list-disc space-y-1 pl-4">
+            {report.strengths.map((point, idx) => (
+              <li key={idx}>{point}</li>
+            ))}
+          </ul>
+        </div>
+        <div>
+          <div className="font-semibold text-slate-900">Top gaps</div>
+          <ul className="mt-1 list-disc space-y-1 pl-4">
+            {report.gaps.map((point, idx) => (
+              <li key={idx}>{point}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-slate-100 bg-slate-50 p-3">
+        <div className="font-semibold text-slate-900">Study plan</div>
+        <ol className="mt-2 list-decimal space-y-1.5 pl-4">
+          {report.studyPlan.map((step, idx) => (
+            <li key={idx}>
+              <span className="font-medium text-slate-900">{step.topic}</span>
+              {step.questionType ? (
+                <span className="text-xs text-slate-500"> · {formatStage(step.questionType)}</span>
+              ) : null}
+              <div className="text-xs text-slate-600">{step.action}</div>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
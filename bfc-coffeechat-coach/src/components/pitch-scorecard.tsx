@@ -0,0 +1,93 @@
+import {
+  type PitchScorecard,
+  pitchRubric,
+  pitchRubricKeySchema,
+  pmVerdictLabels,
+} from "@/lib/stock-pitch";
+import { Badge } from "@/components/ui/badge";
+
+function ratingClass(rating: number) {
+  if (rating >= 4) return "bg-emerald-400";
+  if (rating >= 3) return "bg-amber-400";
+  return "bg-red-400";
+}
+
+const verdictTones = {
+  would_invest: "success",
+  needs_work: "neutral",
+  pass: "warning",
+} as const;
+
+type PitchScorecardViewProps = {
+  scorecard: PitchScorecard;
+};
+
+/** Rubric ratings per pitch component, the PM's verdict and the answers to rework, from /api/pitch/grade. */
+export function PitchScorecardView({ scorecard }: PitchScorecardViewProps) {
+  return (
+    <div className="space-y-5 text-sm text-slate-700">
+      <div>
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">PM verdict</span>
+          <div className="flex items-center gap-2">
+            <Badge tone="neutral">{scorecard.overallScore0to10}/10</Badge>
+            <Badge tone={verdictTones[scorecard.pmVerdict]}>{pmVerdictLabels[scorecard.pmVerdict]}</Badge>
+          </div>
+        </div>
+        <div className="mt-1.5 text-xs italic text-slate-600">“{scorecard.pmVerdictRationale}”</div>
+      </div>
+
+      <div className="space-y-3">
+        {pitchRubricKeySchema.options.map((key) => {
+          const entry = scorecard.ratings[key];
+          return (
+            <div key={key} className="border-t border-slate-100 pt-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {pitchRubric[key].label}
+                </span>
+                <div className="flex items-center gap-1" aria-label={`${entry.rating1to5} out of 5`}>
+                  {[1, 2, 3, 4, 5].map((step) => (
+                    <span
+                      key={step}
+                      className={`block h-2 w-5 rounded-full ${
+                        step <= entry.rating1to5 ? ratingClass(entry.rating1to5) : "bg-slate-200"
+                      }`}
+                    />
+                  ))}
+                  <span className="ml-1.5 text-xs font-semibold text-slate-700">{entry.rating1to5}/5</span>
+                </div>
+              </div>
+              <div className="mt-1 text-xs text-slate-600">{entry.fix}</div>
+              {entry.evidence.length > 0 ? (
+                <div className="mt-1.5 space-y-1">
+                  {entry.evidence.map((quote, idx) => (
+                    <div key={idx} className="border-l-2 border-slate-200 pl-2 text-xs italic text-slate-500">
+                      “{quote}”
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+
+      {scorecard.weakestAnswers.length > 0 ? (
+        <div className="border-t border-slate-100 pt-3">
+          <div className="font-semibold text-slate-900">Answers to rework</div>
+          <div className="mt-2 space-y-3">
+            {scorecard.weakestAnswers.map((entry, idx) => (
+              <div key={idx}>
+                <div className="text-xs font-semibold text-slate-800">{entry.question}</div>
+                <div className="mt-1 rounded-lg border border-emerald-100 bg-emerald-50 p-3 text-emerald-900">
+                  {entry.betterAnswer}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
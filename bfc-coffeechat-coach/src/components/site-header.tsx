@@ -37,6 +37,46 @@ export default function SiteHeader() {
               Mock Interview
             </motion.span>
           </Link>
+          <Link
+            href="/drill"
+            className="focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-200"
+          >
+            <motion.span whileHover={{ y: -1 }} className="inline-flex hover:text-slate-50">
+              Drill
+            </motion.span>
+          </Link>
+          <Link
+            href="/history"
+            className="focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-200"
+          >
+            <motion.span whileHover={{ y: -1 }} className="inline-flex hover:text-slate-50">
+              History
+            </motion.span>
+          </Link>
+          <Link
+            href="/progress"
+            className="focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-200"
+          >
+            <motion.span whileHover={{ y: -1 }} className="inline-flex hover:text-slate-50">
+              Progress
+            </motion.span>
+          </Link>
+          <Link
+            href="/resume"
+            className="focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-200"
+          >
+            <motion.span whileHover={{ y: -1 }} className="inline-flex hover:text-slate-50">
+              Resume
+            </motion.span>
+          </Link>
+          <Link
+            href="/stories"
+            className="focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-200"
+          >
+            <motion.span whileHover={{ y: -1 }} className="inline-flex hover:text-slate-50">
+              Stories
+            </motion.span>
+          </Link>
         </nav>
         <div className="ml-auto">
           {signedIn ? (
@@ -0,0 +1,41 @@
+import Link from "next/link";
+import { type StoryComparison, storyVerdictLabels } from "@/lib/star-stories";
+import { Badge } from "@/components/ui/badge";
+
+const verdictTones = {
+  improves: "success",
+  matches: "neutral",
+  weaker: "warning",
+  no_match: "neutral",
+} as const;
+
+type StoryComparisonNoteProps = {
+  comparison: StoryComparison;
+};
+
+/** How a behavioral answer held up against the story-bank version it retold. */
+export function StoryComparisonNote({ comparison }: StoryComparisonNoteProps) {
+  return (
+    <div className="rounded-lg border border-slate-100 bg-slate-50 p-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="font-semibold text-slate-900">
+          {comparison.storyId ? (
+            <Link href={`/stories?id=${comparison.storyId}`} className="underline">
+              {comparison.storyTitle}
+            </Link>
+          ) : (
+            "Story bank"
+          )}
+        </div>
+        <Badge tone={verdictTones[comparison.verdict]}>{storyVerdictLabels[comparison.verdict]}</Badge>
+      </div>
+      {comparison.notes.length > 0 ? (
+        <ul className="mt-2 space-y-1 text-xs text-slate-600">
+          {comparison.notes.map((note, idx) => (
+            <li key={idx}>{note}</li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import z from "zod/v4";
+import { describeAnswerKey } from "@/lib/answer-key";
+import { capText, type PlanItem, questionTypeSchema } from "@/lib/mock-interview";
+import type { QuestionRecord, QuestionType } from "@/lib/question-bank";
+
+/* ------------------------------------------------------------------ */
+/*  Adaptive difficulty: retarget the next question after each grade   */
+/* ------------------------------------------------------------------ */
+
+export const ADAPTIVE_THRESHOLDS = {
+  /** Two answers of the same type below this ease the next question. */
+  weak: 5,
+  /** Two answers in a row at or above this escalate the next question. */
+  strong: 8,
+};
+
+const DEFAULT_DIFFICULTY = 2;
+
+/**
+ * Where a strong streak moves the topic. Types without an entry stay put
+ * and get a harder question of the same type instead.
+ */
+const escalationPath: Partial<Record<QuestionType, QuestionType>> = {
+  accounting: "lbo",
+  valuation: "lbo",
+  lbo: "merger_math",
+};
+
+const difficultySchema = z.number().int().min(1).max(3);
+
+export const adaptationSchema = z.object({
+  /** The graded answer that triggered the change. */
+  afterQIndex: z.number().int().min(1),
+  direction: z.enum(["easier", "harder"]),
+  reason: z.string(),
+  from: z.object({ type: questionTypeSchema, difficulty: difficultySchema, question: z.string() }),
+  to: z.object({ type: questionTypeSchema, difficulty: difficultySchema, question: z.string() }),
+  at: z.string(),
+});
+
+export type Adaptation = z.infer<typeof adaptationSchema>;
+
+export type AnsweredQuestion = {
+  qIndex: number;
+  type: QuestionType;
+  difficulty: 1 | 2 | 3;
+  score: number;
+};
+
+export type AdaptationTarget = {
+  direction: Adaptation["direction"];
+  type: QuestionType;
+  /** Preferred difficulty. */
+  difficulty: 1 | 2 | 3;
+  /** Bounds the replacement must fall within. */
+  minDifficulty: 1 | 2 | 3;
+  maxDifficulty: 1 | 2 | 3;
+  reason: string;
+};
+
+function clampDifficulty(value: number) {
+  return Math.max(1, Math.min(3, value)) as 1 | 2 | 3;
+}
+
+export function planItemDifficulty(item: Pick<PlanItem, "difficulty">) {
+  return clampDifficulty(item.difficulty ?? DEFAULT_DIFFICULTY);
+}
+
+function formatType(type: QuestionType) {
+  return type.replace(/_/g, " ");
+}
+
+function formatScores(entries: AnsweredQuestion[]) {
+  return entries.map((entry) => `${entry.score}/10`).join(", ");
+}
+
+/**
+ * Decides what the next question should be from the answers so far, in
+ * qIndex order. Returns null when the planned question already fits.
+ */
+export function decideAdaptation(
+  answered: AnsweredQuestion[],
+  next: PlanItem,
+  allowedTypes: QuestionType[]
+): AdaptationTarget | null {
+  const last = answered.at(-1);
+  if (!last) return null;
+  const nextDifficulty = planItemDifficulty(next);
+
+  const sameType = answered.filter((entry) => entry.type === last.type).slice(-2);
+  if (sameType.length === 2 && sameType.every((entry) => entry.score < ADAPTIVE_THRESHOLDS.weak)) {
+    // Never harder than where they struggled; one step down when the bank has it.
+    const ceiling = clampDifficulty(Math.min(...sameType.map((entry) => entry.difficulty)));
+    const difficulty = clampDifficulty(ceiling - 1);
+    if (next.type === last.type && nextDifficulty <= difficulty) return null;
+    return {
+      direction: "easier",
+      type: last.type,
+      difficulty,
+      minDifficulty: 1,
+      maxDifficulty: ceiling,
+      reason: `Two weak ${formatType(last.type)} answers (${formatScores(sameType)}), so the next question is a more basic ${formatType(last.type)} one.`,
+    };
+  }
+
+  const recent = answered.slice(-2);
+  if (recent.length === 2 && recent.every((entry) => entry.score >= ADAPTIVE_THRESHOLDS.strong)) {
+    const escalated = escalationPath[last.type];
+    if (escalated && allowedTypes.includes(escalated)) {
+      // Moving up the topic ladder is the step up, so any difficulty will do.
+      if (next.type === escalated) return null;
+      return {
+        direction: "harder",
+        type: escalated,
+        difficulty: last.difficulty,
+        minDifficulty: 1,
+        maxDifficulty: 3,
+        reason: `Two strong answers in a row (${formatScores(recent)}), so the next question moves on to ${formatType(escalated)}.`,
+      };
+    }
+    if (last.difficulty === 3) return null;
+    const difficulty = clampDifficulty(last.difficulty + 1);
+    if (next.type === last.type && nextDifficulty >= difficulty) return null;
+    return {
+      direction: "harder",
+      type: last.type,
+      difficulty,
+      minDifficulty: difficulty,
+      maxDifficulty: 3,
+      reason: `Two strong answers in a row (${formatScores(recent)}), so the next question is a harder ${formatType(last.type)} one.`,
+    };
+  }
+
+  return null;
+}
+
+/** Classifier confidence an adaptive pick needs; officer-relabelled records carry none. */
+const ADAPTIVE_MIN_CONFIDENCE = 0.8;
+
+// Adaptive picks skip the planner's rewording, so the prompt is read out as
+// written. Only prompts with a sentence that opens like a question qualify.
+const QUESTION_LEAD =
+  /(^|[.?!]\s+)(what|what's|how|why|walk|explain|tell|describe|if|would|can|could|is|are|do|does|should|which|when|where|who|give|talk|pitch|calculate|estimate|suppose|assume|imagine|compare|define|name)\b/i;
+// Contributor shorthand: arrows, "+" lists, trailing dots and notes about the interview.
+const SHORTHAND = /-+>|[+&;]|\.\.|\b(question|questions|asked|ask|e\.g|etc|stuff|lol)\b/i;
+
+/** True when the bank prompt can go to the interviewer without a rewrite. */
+export function isInterviewReady(question: QuestionRecord) {
+  if (question.classification && question.classification.confidence < ADAPTIVE_MIN_CONFIDENCE) return false;
+  const prompt = question.prompt.trim();
+  return (
+    prompt.length <= 280 && (QUESTION_LEAD.test(prompt) || prompt.endsWith("?")) && !SHORTHAND.test(prompt)
+  );
+}
+
+/**
+ * Picks a bank question within the target's bounds, preferring its exact
+ * difficulty, then the interview's firm and stage. Skips concepts already
+ * in the plan and prompts that are not interview-ready.
+ */
+export function pickAdaptiveSeed(
+  questions: QuestionRecord[],
+  target: Omit<AdaptationTarget, "direction" | "reason">,
+  context: { firm: string; stage: string; excludeIds: string[] }
+) {
+  const excluded = new Set(context.excludeIds);
+  const candidates = questions.filter(
+    (question) =>
+      question.questionType === target.type &&
+      question.difficulty >= target.minDifficulty &&
+      question.difficulty <= target.maxDifficulty &&
+      !excluded.has(question.id) &&
+      !excluded.has(question.canonicalId ?? question.id) &&
+      isInterviewReady(question)
+  );
+  const score = (question: QuestionRecord) =>
+    Math.abs(question.difficulty - target.difficulty) * 4 +
+    (question.firm === context.firm ? 0 : 2) +
+    (question.stage === context.stage ? 0 : 1);
+  let best: QuestionRecord | null = null;
+  for (const candidate of candidates) {
+    if (!best || score(candidate) < score(best)) best = candidate;
+  }
+  return best;
+}
+
+const rubricByType: Record<QuestionType, { rubric: string; outline: string }> = {
+  behavioral: {
+    rubric: "- Clear situation and task\n- Specific actions the candidate took\n- Quantified result and reflection",
+    outline: "- Situation in one sentence\n- Task and the candidate's role\n- Two or three concrete actions\n- Result with a number",
+  },
+  accounting: {
+    rubric: "- Correct direction of each change\n- Walks all three statements in order\n- Ties back to cash",
+    outline: "- Income statement effect\n- Cash flow statement effect\n- Balance sheet effect and check that it balances",
+  },
+  valuation: {
+    rubric: "- Names the right methodology\n- Correct mechanics and inputs\n- States the key assumptions",
+    outline: "- Lead with the method\n- Walk through the mechanics\n- Call out the assumptions that drive the answer",
+  },
+  lbo: {
+    rubric: "- Sources and uses\n- Debt paydown and exit\n- Returns math and the levers behind it",
+    outline: "- Entry price and financing\n- Cash flow and debt paydown\n- Exit value, equity proceeds, IRR and MOIC",
+  },
+  merger_math: {
+    rubric: "- Correct accretion/dilution logic\n- Compares cost of each consideration to the target's yield\n- Accounts for synergies and fees",
+    outline: "- State accretive or dilutive up front\n- Compare after-tax cost of funding to the earnings yield\n- Adjust for synergies",
+  },
+  market: {
+    rubric: "- Clear thesis\n- Supporting data and catalyst\n- Risks and what would change the view",
+    outline: "- One-sentence view\n- Two or three supporting points\n- Catalyst\n- Key risk",
+  },
+  brainteaser: {
+    rubric: "- Breaks the problem into steps\n- Sound arithmetic\n- Sanity-checks the answer",
+    outline: "- Restate the problem\n- Lay out the approach\n- Work the numbers\n- Check the result",
+  },
+  other: {
+    rubric: "- Direct answer up front\n- Specific, accurate detail\n- Clear structure",
+    outline: "- Answer first\n- Supporting detail\n- Takeaway",
+  },
+};
+
+/**
+ * Builds a plan item straight from a bank question, with a rubric for its
+ * type. Bank notes are contributor credits, so they stay out of the rubric.
+ * A keyed question's outline lists the keyed answers instead.
+ */
+export function planItemFromSeed(seed: QuestionRecord, qIndex: number): PlanItem {
+  const template = rubricByType[seed.questionType];
+  return {
+    qIndex,
+    type: seed.questionType,
+    interviewerQuestion: capText(seed.prompt, 280),
+    expectedRubric: template.rubric,
+    idealAnswerOutline: seed.answerKey ? describeAnswerKey(seed.answerKey) : template.outline,
+    difficulty: seed.difficulty,
+    seedId: seed.canonicalId ?? seed.id,
+    ...(seed.askedAtFirms ? { askedAtFirms: seed.askedAtFirms } : {}),
+    ...(seed.answerKey ? { answerKey: seed.answerKey } : {}),
+  };
+}
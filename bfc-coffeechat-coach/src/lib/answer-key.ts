@@ -0,0 +1,328 @@
+import z from "zod/v4";
+
+/* ------------------------------------------------------------------ */
+/*  Answer keys: deterministic checks for numeric technical questions  */
+/* ------------------------------------------------------------------ */
+
+export const financialStatementSchema = z.enum(["income_statement", "cash_flow_statement", "balance_sheet"]);
+
+export type FinancialStatement = z.infer<typeof financialStatementSchema>;
+
+export const financialStatementLabels: Record<FinancialStatement, string> = {
+  income_statement: "Income statement",
+  cash_flow_statement: "Cash flow statement",
+  balance_sheet: "Balance sheet",
+};
+
+/** Phrases that name the item in an answer, matched case-insensitively as whole words. */
+const keywordsSchema = z.array(z.string().min(1)).min(1);
+
+export const answerKeySchema = z.object({
+  /** Figures the answer must state, compared by magnitude in the question's own units. */
+  values: z
+    .array(
+      z.object({
+        label: z.string().min(1),
+        keywords: keywordsSchema,
+        expected: z.number(),
+        tolerance: z.number().min(0).default(0),
+      })
+    )
+    .default([]),
+  /** Line items the answer must move in the right direction, and by the right amount when one is given. */
+  statementImpacts: z
+    .array(
+      z.object({
+        statement: financialStatementSchema,
+        item: z.string().min(1),
+        keywords: keywordsSchema,
+        direction: z.enum(["up", "down", "unchanged"]),
+        amount: z.number().min(0).optional(),
+        tolerance: z.number().min(0).default(0),
+      })
+    )
+    .default([]),
+});
+
+export type AnswerKey = z.infer<typeof answerKeySchema>;
+
+export const answerCheckSchema = z.object({
+  results: z.array(
+    z.object({
+      label: z.string(),
+      status: z.enum(["correct", "incorrect", "missing"]),
+      expected: z.string(),
+      /** What the answer said about the item, when it said anything. */
+      heard: z.string().nullable(),
+    })
+  ),
+  correct: z.number().int().min(0),
+  total: z.number().int().min(0),
+});
+
+export type AnswerCheck = z.infer<typeof answerCheckSchema>;
+
+type Direction = "up" | "down" | "unchanged";
+
+type SpokenNumber = {
+  text: string;
+  /** The figure as written, and scaled by any million/billion/k suffix. */
+  values: number[];
+  negative: boolean;
+};
+
+const UNITS = ["zero", "", "two", "three", "four", "five", "six", "seven", "eight", "nine"];
+const TEENS = ["ten", "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen"];
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+
+const SCALES: Record<string, number> = {
+  hundred: 1e2,
+  thousand: 1e3,
+  k: 1e3,
+  million: 1e6,
+  mm: 1e6,
+  m: 1e6,
+  billion: 1e9,
+  bn: 1e9,
+  b: 1e9,
+};
+
+// Speech-to-text writes small numbers out; "one" is left alone because it is usually a pronoun.
+function spellOutNumbers(text: string) {
+  const unitPattern = UNITS.filter(Boolean).join("|");
+  return text
+    .replace(new RegExp(`\\b(${TENS.filter(Boolean).join("|")})[\\s-](${unitPattern})\\b`, "g"), (_, tens, unit) =>
+      String(TENS.indexOf(tens) * 10 + UNITS.indexOf(unit))
+    )
+    .replace(new RegExp(`\\b(${[...UNITS.filter(Boolean), ...TEENS, ...TENS.filter(Boolean)].join("|")})\\b`, "g"), (word) => {
+      if (TEENS.includes(word)) return String(10 + TEENS.indexOf(word));
+      if (TENS.includes(word)) return String(TENS.indexOf(word) * 10);
+      return String(UNITS.indexOf(word));
+    });
+}
+
+const NUMBER_PATTERN =
+  /(?<![a-z0-9.])(minus\s+|negative\s+|-\s?)?(\()?\$?\s?(\d+(?:,\d{3})*(?:\.\d+)?|\.\d+)(\))?(?:\s*(hundred|thousand|million|billion)\b|(k|mm|m|bn|b)\b)?/g;
+
+function extractNumbers(text: string): SpokenNumber[] {
+  return Array.from(text.matchAll(NUMBER_PATTERN)).map((match) => {
+    const raw = Number(match[3].replace(/,/g, ""));
+    const scale = SCALES[match[5] ?? match[6] ?? ""] ?? 1;
+    return {
+      text: match[0].trim(),
+      values: scale === 1 ? [raw] : [raw, raw * scale],
+      negative: Boolean(match[1]) || (Boolean(match[2]) && Boolean(match[4])),
+    };
+  });
+}
+
+/**
+ * True when every figure in `source` also appears in `rephrased`, so a key
+ * written for one question still fits a rewording of it.
+ */
+export function keepsFigures(source: string, rephrased: string) {
+  const figures = new Set(extractNumbers(spellOutNumbers(rephrased.toLowerCase())).flatMap((spoken) => spoken.values));
+  return extractNumbers(spellOutNumbers(source.toLowerCase())).every((spoken) =>
+    spoken.values.some((value) => figures.has(value))
+  );
+}
+
+function matchesAmount(spoken: SpokenNumber, expected: number, tolerance: number) {
+  return spoken.values.some((value) => Math.abs(Math.abs(value) - Math.abs(expected)) <= tolerance + 1e-9);
+}
+
+const UP_WORDS =
+  /\b(increase[sd]?|increasing|up|rise[sn]?|rising|rose|higher|grows?|grew|growing|gains?|raise[sd]?|raising|borrows?|borrowed|accretive|accretion|accretes)\b/;
+const DOWN_WORDS =
+  /\b(decrease[sd]?|decreasing|down|falls?|falling|fell|lower|declines?|declined|drops?|dropped|reduce[sd]?|reducing|dilutive|dilution|dilutes)\b/;
+const UNCHANGED_WORDS =
+  /\b(no change|unchanged|no impact|no effect|not affected|unaffected|doesn'?t change|does not change|stays the same|flat)\b/;
+
+function readDirection(text: string): Direction | null {
+  if (UNCHANGED_WORDS.test(text)) return "unchanged";
+  const up = UP_WORDS.test(text);
+  const down = DOWN_WORDS.test(text);
+  if (up === down) return null;
+  return up ? "up" : "down";
+}
+
+// Named first so "cash flow statement" does not count as a mention of cash;
+// keywords should not be statement names for the same reason.
+const STATEMENT_NAMES = /\b(income statement|cash flow statement|statement of cash flows|cash flows?|balance sheet|p&l)\b/g;
+const STATEMENT_MARK = "\ue000";
+const PERIOD_REFERENCES = /\b(year|yr|day|month|quarter|q|y)\s?\d+\b/g;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function keywordMark(index: number) {
+  return String.fromCharCode(0xe100 + index);
+}
+
+type Mention = {
+  /** Indexes into the flattened check list. */
+  checks: Set<number>;
+  /** The clause naming the item. */
+  own: string;
+  /** That clause plus the clauses after it in the same sentence that name nothing else. */
+  all: string;
+};
+
+/**
+ * Splits the answer into clauses and groups each clause that names a keyed
+ * item with the unlabelled clauses that follow it, so "net income falls by
+ * $10 times (1 - t), so $6" counts the $6 toward net income.
+ */
+function findMentions(answer: string, keywordsByCheck: string[][]): Mention[] {
+  const keywords = keywordsByCheck
+    .flatMap((keywords, check) => keywords.map((keyword) => ({ keyword: keyword.toLowerCase(), check })))
+    .sort((a, b) => b.keyword.length - a.keyword.length);
+  const distinct = Array.from(new Set(keywords.map((entry) => entry.keyword)));
+  const checksByMark = new Map<string, Set<number>>();
+
+  let text = spellOutNumbers(answer.toLowerCase())
+    .replace(PERIOD_REFERENCES, " ")
+    .replace(STATEMENT_NAMES, ` ${STATEMENT_MARK} `);
+  distinct.forEach((keyword, index) => {
+    const mark = keywordMark(index);
+    checksByMark.set(mark, new Set(keywords.filter((entry) => entry.keyword === keyword).map((entry) => entry.check)));
+    text = text.replace(new RegExp(`(?<![a-z0-9])${escapeRegExp(keyword)}(?![a-z0-9])`, "g"), ` ${mark} `);
+  });
+
+  const mentions: Mention[] = [];
+  for (const sentence of text.split(/[.!?;:\n]+(?=\s|$)/)) {
+    let current: Mention | null = null;
+    const clauses = sentence.split(/,\s|\s(?:but|so|and|while|whereas|with|which|then|because|since|as)\s/);
+    for (const clause of clauses) {
+      const marks = Array.from(checksByMark.keys()).filter((mark) => clause.includes(mark));
+      if (marks.length > 0) {
+        current = { checks: new Set(marks.flatMap((mark) => Array.from(checksByMark.get(mark) ?? []))), own: clause, all: clause };
+        mentions.push(current);
+      } else if (clause.includes(STATEMENT_MARK)) {
+        current = null;
+      } else if (current) {
+        current.all += ` ${clause}`;
+      }
+    }
+  }
+  return mentions;
+}
+
+type Verdict = { status: "correct" | "incorrect" | "missing"; heard: string | null };
+
+function bestVerdict(verdicts: Verdict[]): Verdict {
+  return (
+    verdicts.find((verdict) => verdict.status === "correct") ??
+    verdicts.find((verdict) => verdict.status === "incorrect") ??
+    verdicts.find((verdict) => verdict.heard !== null) ?? { status: "missing", heard: null }
+  );
+}
+
+function formatAmount(value: number) {
+  return Number.isInteger(value) ? String(value) : String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Checks the figures and statement impacts in an answer against a key.
+ * Only what the answer states counts: a keyed item the answer never names
+ * is missing, and one named with the wrong number or direction is incorrect.
+ */
+export function checkAnswerKey(key: AnswerKey, answer: string): AnswerCheck {
+  const mentions = findMentions(answer, [
+    ...key.values.map((value) => value.keywords),
+    ...key.statementImpacts.map((impact) => impact.keywords),
+  ]);
+  const mentionsOf = (check: number) => mentions.filter((mention) => mention.checks.has(check));
+
+  const valueResults = key.values.map((value, index) => {
+    const verdicts = mentionsOf(index).map((mention): Verdict => {
+      const numbers = extractNumbers(mention.all);
+      if (numbers.length === 0) return { status: "missing", heard: null };
+      const hit = numbers.find((spoken) => matchesAmount(spoken, value.expected, value.tolerance));
+      return hit ? { status: "correct", heard: hit.text } : { status: "incorrect", heard: numbers[0].text };
+    });
+    return { label: value.label, expected: formatAmount(value.expected), ...bestVerdict(verdicts) };
+  });
+
+  const impactResults = key.statementImpacts.map((impact, index) => {
+    const verdicts = mentionsOf(key.values.length + index).map((mention): Verdict => {
+      const numbers = extractNumbers(mention.all);
+      const signed = numbers.find((spoken) => spoken.negative);
+      const worded = readDirection(mention.own) ?? readDirection(mention.all);
+      const direction = worded ?? (signed ? "down" : null);
+      const hit =
+        impact.amount === undefined
+          ? undefined
+          : numbers.find((spoken) => matchesAmount(spoken, impact.amount ?? 0, impact.tolerance));
+      // Only quote a figure when the key has one, and skip the word when a minus sign carried it.
+      const shown = impact.amount === undefined ? undefined : (hit ?? numbers[0]);
+      const heard = [worded, shown?.text].filter(Boolean).join(" ") || null;
+      if (direction !== null && direction !== impact.direction) return { status: "incorrect", heard };
+      if (direction === null) return { status: "missing", heard };
+      if (impact.amount === undefined || impact.direction === "unchanged" || hit) return { status: "correct", heard };
+      return numbers.length > 0 ? { status: "incorrect", heard } : { status: "missing", heard };
+    });
+    const label = `${financialStatementLabels[impact.statement]}: ${impact.item}`;
+    const expected =
+      impact.amount === undefined || impact.direction === "unchanged"
+        ? impact.direction
+        : `${impact.direction} ${formatAmount(impact.amount)}`;
+    return { label, expected, ...bestVerdict(verdicts) };
+  });
+
+  const results = [...valueResults, ...impactResults];
+  return {
+    results,
+    correct: results.filter((result) => result.status === "correct").length,
+    total: results.length,
+  };
+}
+
+/** One bullet per keyed item, for use as an ideal answer outline. */
+export function describeAnswerKey(key: AnswerKey) {
+  return [
+    ...key.values.map((value) => `- ${value.label}: ${formatAmount(value.expected)}`),
+    ...key.statementImpacts.map((impact) => {
+      const change =
+        impact.amount === undefined || impact.direction === "unchanged"
+          ? impact.direction
+          : `${impact.direction} ${formatAmount(impact.amount)}`;
+      return `- ${financialStatementLabels[impact.statement]}: ${impact.item} ${change}`;
+    }),
+  ].join("\n");
+}
+
+/** The most an answer can score when it gets none of the keyed items right. */
+const MIN_KEYED_SCORE = 3;
+
+/**
+ * Caps the score by the share of keyed items the answer got right and
+ * returns gap lines for the rest, in the same shape as `timingPenalty`.
+ */
+export function answerCheckAdjustment(check: AnswerCheck) {
+  const gaps = check.results.flatMap((result) => {
+    if (result.status === "correct") return [];
+    if (result.status === "missing") {
+      return [
+        result.heard
+          ? `${result.label}: said "${result.heard}" but the key needs ${result.expected}.`
+          : `${result.label}: not stated; the key is ${result.expected}.`,
+      ];
+    }
+    return [`${result.label}: said "${result.heard}", but the key is ${result.expected}.`];
+  });
+  const share = check.total === 0 ? 1 : check.correct / check.total;
+  const cap = Math.round((MIN_KEYED_SCORE + (10 - MIN_KEYED_SCORE) * share) * 2) / 2;
+  return { cap, gaps };
+}
+
+export function formatAnswerCheckForPrompt(check: AnswerCheck) {
+  const lines = check.results.map((result) => {
+    const heard = result.heard ? `; answer said "${result.heard}"` : "";
+    return `- ${result.label}: ${result.status} (key: ${result.expected}${heard})`;
+  });
+  return `Answer key check (computed from the figures in the answer; treat it as correct and do not contradict it):
+${lines.join("\n")}
+The answer got ${check.correct} of ${check.total} keyed items right. Focus your feedback on the reasoning behind them.`;
+}
@@ -0,0 +1,145 @@
+import type { TranscriptWord } from "@/lib/stt";
+
+/* ------------------------------------------------------------------ */
+/*  MediaRecorder fallback for browsers without SpeechRecognition      */
+/* ------------------------------------------------------------------ */
+
+export type SttResponse = {
+  text: string;
+  words: TranscriptWord[];
+  durationSeconds: number | null;
+  requestId?: string;
+};
+
+export type AudioRecording = {
+  /** Stops recording and resolves with the clip. */
+  stop: () => Promise<Blob>;
+  /** Stops recording and drops the audio. */
+  cancel: () => void;
+};
+
+type RecordingOptions = {
+  /**
+   * Called once when the speaker has gone quiet for `silenceMs` after saying
+   * something, mirroring the pause that ends a turn with SpeechRecognition.
+   */
+  onSilence?: () => void;
+  silenceMs?: number;
+  /** Hard stop so a forgotten microphone does not produce an upload the route rejects. */
+  maxMs?: number;
+};
+
+// Preferred first; Safari only records audio/mp4.
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+const CHUNK_MS = 1000;
+const SPEECH_RMS = 0.02;
+const POLL_MS = 100;
+
+export function canRecordAudio() {
+  return (
+    typeof window !== "undefined" &&
+    typeof window.MediaRecorder !== "undefined" &&
+    Boolean(navigator.mediaDevices?.getUserMedia)
+  );
+}
+
+function pickMimeType() {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+/** Measures input level with an AnalyserNode and reports the first long pause after speech. */
+function watchSilence(stream: MediaStream, silenceMs: number, onSilence: () => void) {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  let heardSpeech = false;
+  let quietSince = 0;
+
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    const rms = Math.sqrt(sum / samples.length);
+    const now = Date.now();
+    if (rms >= SPEECH_RMS) {
+      heardSpeech = true;
+      quietSince = now;
+    } else if (heardSpeech && now - quietSince >= silenceMs) {
+      clearInterval(interval);
+      onSilence();
+    }
+  }, POLL_MS);
+
+  return () => {
+    clearInterval(interval);
+    void context.close().catch(() => undefined);
+  };
+}
+
+/** Asks for the microphone and starts recording. Rejects if permission is denied. */
+export async function startRecording(options: RecordingOptions = {}): Promise<AudioRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const stopWatching = options.onSilence
+    ? watchSilence(stream, options.silenceMs ?? 1500, options.onSilence)
+    : () => undefined;
+  const maxTimer = options.maxMs && options.onSilence ? setTimeout(options.onSilence, options.maxMs) : null;
+
+  const release = () => {
+    stopWatching();
+    if (maxTimer) clearTimeout(maxTimer);
+    stream.getTracks().forEach((track) => track.stop());
+  };
+
+  recorder.start(CHUNK_MS);
+
+  return {
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        if (recorder.state === "inactive") {
+          release();
+          resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || "audio/webm" }));
+          return;
+        }
+        recorder.onstop = () => {
+          release();
+          resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || "audio/webm" }));
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== "inactive") recorder.stop();
+      release();
+    },
+  };
+}
+
+/** Uploads a clip to /api/stt. Errors carry the route's message and request id. */
+export async function transcribeRecording(audio: Blob, prompt?: string): Promise<SttResponse> {
+  const form = new FormData();
+  form.append("audio", audio);
+  if (prompt) form.append("prompt", prompt);
+  const res = await fetch("/api/stt", { method: "POST", body: form });
+  const text = await res.text();
+  let payload: Record<string, unknown> = {};
+  try {
+    payload = text ? (JSON.parse(text) as Record<string, unknown>) : {};
+  } catch {
+    payload = {};
+  }
+  if (!res.ok) {
+    const msg = (payload.error as string) || res.statusText;
+    const requestId = payload.requestId as string | undefined;
+    throw new Error(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+  }
+  return payload as SttResponse;
+}
@@ -19,3 +19,17 @@ export function isAllowedEmail(email?: string | null) {
   ]);
   return allowed.has(normalized);
 }
+
+/**
+ * Club officers who can curate the question bank. Listed in ADMIN_EMAILS;
+ * an admin must also pass the regular allowlist.
+ */
+export function isAdminEmail(email?: string | null) {
+  const normalized = (email || "").toLowerCase();
+  if (!normalized || !isAllowedEmail(normalized)) return false;
+  const admins = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(normalized);
+}
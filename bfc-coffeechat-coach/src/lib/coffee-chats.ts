@@ -0,0 +1,118 @@
+import z from "zod/v4";
+import { deliveryMetricsSchema } from "@/lib/delivery";
+import { coffeeChatScorecardSchema } from "@/lib/networking-scenarios";
+import { createFileStore, type RecordStore } from "@/lib/storage";
+
+/* ------------------------------------------------------------------ */
+/*  Persisted coffee chat transcripts                                  */
+/* ------------------------------------------------------------------ */
+
+export const coffeeChatPhaseSchema = z.enum([
+  "opening",
+  "user_intro",
+  "exploration",
+  "fit",
+  "user_questions",
+  "close",
+]);
+
+export type CoffeeChatPhase = z.infer<typeof coffeeChatPhaseSchema>;
+
+export const coffeeChatScenarioSchema = z.object({
+  track: z.string(),
+  firmType: z.string(),
+  group: z.string(),
+  interviewerVibe: z.string(),
+  difficulty: z.string(),
+  goal: z.literal("referral"),
+  persona: z.object({
+    name: z.string(),
+    title: z.string(),
+    firm: z.string(),
+    group: z.string(),
+  }),
+});
+
+export const liveCoachResultSchema = z.object({
+  tone: z.string(),
+  clarity: z.string(),
+  structure: z.string(),
+  referral: z.string(),
+  bullets: z.array(z.string()),
+});
+
+export const coffeeChatTurnSchema = z.object({
+  role: z.enum(["user", "interviewer"]),
+  content: z.string(),
+  phase: coffeeChatPhaseSchema,
+  at: z.string(),
+  liveCoach: liveCoachResultSchema.nullable().default(null),
+  turnReview: z.string().nullable().default(null),
+  delivery: deliveryMetricsSchema.nullable().default(null),
+});
+
+export type CoffeeChatTurn = z.infer<typeof coffeeChatTurnSchema>;
+
+export const phaseTransitionSchema = z.object({
+  from: coffeeChatPhaseSchema,
+  to: coffeeChatPhaseSchema,
+  afterTurn: z.number().int().min(0),
+});
+
+export const coffeeChatRecordSchema = z.object({
+  id: z.string(),
+  userEmail: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  scenario: coffeeChatScenarioSchema,
+  turns: z.array(coffeeChatTurnSchema),
+  phaseTransitions: z.array(phaseTransitionSchema).default([]),
+  /** Plain-text summary from chats saved before the scorecard existed. */
+  finalSummary: z.string().nullable().default(null),
+  scorecard: coffeeChatScorecardSchema.nullable().default(null),
+});
+
+export type CoffeeChatRecord = z.infer<typeof coffeeChatRecordSchema>;
+
+export type CoffeeChatInput = Pick<
+  CoffeeChatRecord,
+  "scenario" | "turns" | "phaseTransitions" | "finalSummary" | "scorecard"
+>;
+
+let store: RecordStore<CoffeeChatRecord> | null = null;
+
+export function getCoffeeChatStore() {
+  if (!store) {
+    store = createFileStore("coffee-chats", coffeeChatRecordSchema);
+  }
+  return store;
+}
+
+/** Returns the chat only when it belongs to the given user. */
+export async function getCoffeeChat(id: string, userEmail: string) {
+  const chat = await getCoffeeChatStore().get(id);
+  return chat && chat.userEmail === userEmail ? chat : null;
+}
+
+export async function listCoffeeChats(userEmail: string) {
+  return getCoffeeChatStore().listByUser(userEmail);
+}
+
+/**
+ * Creates a chat record, or replaces the contents of an existing one when
+ * `id` is given. Returns null if `id` does not belong to the user.
+ */
+export async function saveCoffeeChat(userEmail: string, input: CoffeeChatInput, id?: string) {
+  const now = new Date().toISOString();
+  const existing = id ? await getCoffeeChat(id, userEmail) : null;
+  if (id && !existing) return null;
+  const record: CoffeeChatRecord = {
+    id: existing?.id ?? crypto.randomUUID(),
+    userEmail,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    ...input,
+  };
+  await getCoffeeChatStore().put(record);
+  return record;
+}
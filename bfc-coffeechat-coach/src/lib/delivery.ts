@@ -0,0 +1,351 @@
+import z from "zod/v4";
+
+/* ------------------------------------------------------------------ */
+/*  Delivery analytics: pace, fillers, pauses, hedges and talk ratio   */
+/* ------------------------------------------------------------------ */
+
+export type DeliveryContext = "interview" | "coffee_chat";
+
+/** A stretch of speech with times in seconds from the start of the answer. */
+export type SpokenSegment = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+const phraseCountSchema = z.object({
+  phrase: z.string(),
+  count: z.number().int().min(0),
+});
+
+export const deliveryMetricsSchema = z.object({
+  wordCount: z.number().int().min(0),
+  speakingSeconds: z.number().min(0).nullable(),
+  wordsPerMinute: z.number().min(0).nullable(),
+  fillerCount: z.number().int().min(0),
+  fillersPer100Words: z.number().min(0),
+  topFillers: z.array(phraseCountSchema),
+  hedgeCount: z.number().int().min(0),
+  hedges: z.array(phraseCountSchema),
+  longPauseCount: z.number().int().min(0),
+  longestPauseSeconds: z.number().min(0).nullable(),
+  interviewerSeconds: z.number().min(0).nullable(),
+  /** Candidate share of talk time, 0-1. */
+  talkRatio: z.number().min(0).max(1).nullable(),
+  flags: z.array(z.string()),
+});
+
+export type DeliveryMetrics = z.infer<typeof deliveryMetricsSchema>;
+
+export const deliverySummarySchema = deliveryMetricsSchema
+  .omit({ interviewerSeconds: true })
+  .extend({ answerCount: z.number().int().min(0) });
+
+export type DeliverySummary = z.infer<typeof deliverySummarySchema>;
+
+/** A gap this long inside an answer reads as losing the thread rather than a breath. */
+export const LONG_PAUSE_SECONDS = 2.5;
+/** Where a metric starts to hurt: conversational interview pace is roughly 130-170 wpm. */
+export const DELIVERY_LIMITS = {
+  slowWpm: 110,
+  fastWpm: 180,
+  fillersPer100Words: 3,
+  minFillers: 2,
+  hedges: 3,
+};
+// Below this, a words-per-minute figure is mostly noise.
+const MIN_TIMED_SECONDS = 3;
+// ElevenLabs voices read at roughly this pace; used when playback time is unknown.
+const INTERVIEWER_WPM = 160;
+
+type PhraseRule = {
+  phrase: string;
+  tokens: string[];
+  /** Returns false when the phrase is doing real work in the sentence, e.g. "what kind of". */
+  accept?: (previous: string | undefined) => boolean;
+};
+
+function rule(phrase: string, accept?: PhraseRule["accept"]): PhraseRule {
+  return { phrase, tokens: phrase.split(" "), accept };
+}
+
+const LIKE_FILLER_AFTER = new Set([
+  "and", "so", "but", "then", "was", "were", "is", "it's", "been", "be", "just", "literally",
+  "basically", "i'm", "we're", "they're", "you're", "there's", "yeah", "oh", "um", "uh", "like",
+]);
+const NOUN_DETERMINERS = new Set([
+  "what", "which", "this", "that", "these", "those", "the", "a", "any", "some", "same", "every", "one",
+]);
+
+const FILLER_RULES: PhraseRule[] = [
+  rule("um"),
+  rule("uh"),
+  rule("er"),
+  rule("hmm"),
+  rule("you know", (previous) => !["do", "did", "don't", "if", "would", "you'd"].includes(previous ?? "")),
+  rule("i mean", (previous) => previous !== "what"),
+  rule("sort of", (previous) => !NOUN_DETERMINERS.has(previous ?? "")),
+  rule("kind of", (previous) => !NOUN_DETERMINERS.has(previous ?? "")),
+  rule("basically"),
+  rule("literally"),
+  rule("like", (previous) => previous === undefined || LIKE_FILLER_AFTER.has(previous)),
+];
+
+const HEDGE_RULES: PhraseRule[] = [
+  rule("i'm not sure"),
+  rule("i'm not 100% sure"),
+  rule("if that makes sense"),
+  rule("does that make sense"),
+  rule("i feel like"),
+  rule("i think"),
+  rule("i guess"),
+  rule("i believe"),
+  rule("i suppose"),
+  rule("i would say"),
+  rule("i'd say"),
+  rule("more or less"),
+  rule("a little bit"),
+  rule("maybe"),
+  rule("probably"),
+  rule("perhaps"),
+  rule("hopefully"),
+  rule("somewhat"),
+];
+
+/** Collapses recognizer spellings such as "umm" or "uhh" so they count as one filler. */
+function normalizeToken(token: string) {
+  if (/^u+m+$/.test(token)) return "um";
+  if (/^u+h+$/.test(token)) return "uh";
+  if (/^e+r+m*$/.test(token)) return "er";
+  if (/^h+m+$/.test(token)) return "hmm";
+  return token;
+}
+
+export function tokenizeSpeech(text: string) {
+  return (text.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z0-9][a-z0-9'%]*/g) || []).map(normalizeToken);
+}
+
+/** Longest-match scan, so "i'm not sure" is one hedge rather than also matching a shorter rule. */
+function countPhrases(tokens: string[], rules: PhraseRule[]) {
+  const ordered = [...rules].sort((a, b) => b.tokens.length - a.tokens.length);
+  const counts = new Map<string, number>();
+  let i = 0;
+  while (i < tokens.length) {
+    const match = ordered.find(
+      (candidate) =>
+        candidate.tokens.every((token, offset) => tokens[i + offset] === token) &&
+        (!candidate.accept || candidate.accept(tokens[i - 1]))
+    );
+    if (match) {
+      counts.set(match.phrase, (counts.get(match.phrase) ?? 0) + 1);
+      i += match.tokens.length;
+    } else {
+      i += 1;
+    }
+  }
+  return [...counts.entries()]
+    .map(([phrase, count]) => ({ phrase, count }))
+    .sort((a, b) => b.count - a.count || a.phrase.localeCompare(b.phrase));
+}
+
+function sumCounts(counts: Array<{ count: number }>) {
+  return counts.reduce((sum, item) => sum + item.count, 0);
+}
+
+export function countFillers(text: string) {
+  const fillers = countPhrases(tokenizeSpeech(text), FILLER_RULES);
+  return { total: sumCounts(fillers), fillers };
+}
+
+export function estimateSpeakingSeconds(text: string) {
+  return (tokenizeSpeech(text).length / INTERVIEWER_WPM) * 60;
+}
+
+function round(value: number, digits = 1) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function deliveryFlags(
+  metrics: Omit<DeliveryMetrics, "flags" | "interviewerSeconds">,
+  context: DeliveryContext
+) {
+  const flags: string[] = [];
+  if (metrics.wordsPerMinute !== null && metrics.wordsPerMinute > DELIVERY_LIMITS.fastWpm) {
+    flags.push(`Fast pace (${Math.round(metrics.wordsPerMinute)} wpm). Slow down and land each point.`);
+  } else if (metrics.wordsPerMinute !== null && metrics.wordsPerMinute < DELIVERY_LIMITS.slowWpm) {
+    flags.push(`Slow pace (${Math.round(metrics.wordsPerMinute)} wpm). Tighten the answer and keep momentum.`);
+  }
+  if (
+    metrics.fillerCount >= DELIVERY_LIMITS.minFillers &&
+    metrics.fillersPer100Words > DELIVERY_LIMITS.fillersPer100Words
+  ) {
+    const top = metrics.topFillers[0]?.phrase;
+    flags.push(`${metrics.fillersPer100Words} fillers per 100 words${top ? `, mostly "${top}"` : ""}. Pause instead.`);
+  }
+  if (metrics.hedgeCount >= DELIVERY_LIMITS.hedges) {
+    flags.push(`${metrics.hedgeCount} hedges. State the answer, then qualify it once if needed.`);
+  }
+  if (metrics.longPauseCount > 0) {
+    flags.push(
+      `${metrics.longPauseCount} long pause${metrics.longPauseCount === 1 ? "" : "s"} (longest ${metrics.longestPauseSeconds}s). Use a framework to keep your place.`
+    );
+  }
+  if (metrics.talkRatio !== null) {
+    if (context === "coffee_chat" && metrics.talkRatio > 0.7) {
+      flags.push(`You did ${Math.round(metrics.talkRatio * 100)}% of the talking. Leave room for their story.`);
+    } else if (context === "interview" && metrics.talkRatio < 0.5) {
+      flags.push("Answers are short next to the questions. Add a concrete example.");
+    }
+  }
+  return flags;
+}
+
+/**
+ * Measures one answer. Timings come from the speech recognizer: word
+ * timestamps from /api/stt, or one segment per SpeechRecognition result.
+ * Without timings only the text-based metrics are filled in.
+ */
+export function analyzeDelivery(
+  input: { text: string; segments?: SpokenSegment[]; interviewerSeconds?: number | null },
+  context: DeliveryContext
+): DeliveryMetrics {
+  const tokens = tokenizeSpeech(input.text);
+  const wordCount = tokens.length;
+  const topFillers = countPhrases(tokens, FILLER_RULES);
+  const hedges = countPhrases(tokens, HEDGE_RULES);
+  const fillerCount = sumCounts(topFillers);
+
+  const segments = [...(input.segments ?? [])].sort((a, b) => a.start - b.start);
+  let speakingSeconds: number | null = null;
+  let longPauseCount = 0;
+  let longestPause = 0;
+  if (segments.length > 0) {
+    speakingSeconds = Math.max(0, Math.max(...segments.map((s) => s.end)) - segments[0].start);
+    let spokenUntil = segments[0].end;
+    for (const segment of segments.slice(1)) {
+      const gap = segment.start - spokenUntil;
+      if (gap >= LONG_PAUSE_SECONDS) longPauseCount += 1;
+      longestPause = Math.max(longestPause, gap);
+      spokenUntil = Math.max(spokenUntil, segment.end);
+    }
+  }
+  const timed = speakingSeconds !== null && speakingSeconds >= MIN_TIMED_SECONDS;
+  const interviewerSeconds = input.interviewerSeconds ?? null;
+
+  const metrics = {
+    wordCount,
+    speakingSeconds: speakingSeconds === null ? null : round(speakingSeconds),
+    wordsPerMinute: timed ? Math.round(wordCount / ((speakingSeconds as number) / 60)) : null,
+    fillerCount,
+    fillersPer100Words: wordCount > 0 ? round((fillerCount / wordCount) * 100) : 0,
+    topFillers: topFillers.slice(0, 3),
+    hedgeCount: sumCounts(hedges),
+    hedges,
+    longPauseCount,
+    longestPauseSeconds: segments.length > 1 ? round(Math.max(0, longestPause)) : null,
+    talkRatio:
+      timed && interviewerSeconds !== null && interviewerSeconds > 0
+        ? round((speakingSeconds as number) / ((speakingSeconds as number) + interviewerSeconds), 2)
+        : null,
+  };
+  return { ...metrics, interviewerSeconds: interviewerSeconds === null ? null : round(interviewerSeconds), flags: deliveryFlags(metrics, context) };
+}
+
+function mergeCounts(lists: Array<Array<{ phrase: string; count: number }>>) {
+  const counts = new Map<string, number>();
+  lists.flat().forEach(({ phrase, count }) => counts.set(phrase, (counts.get(phrase) ?? 0) + count));
+  return [...counts.entries()]
+    .map(([phrase, count]) => ({ phrase, count }))
+    .sort((a, b) => b.count - a.count || a.phrase.localeCompare(b.phrase));
+}
+
+/** Rolls per-answer metrics up for a whole session. Rates are weighted by words and time, not averaged per answer. */
+export function summarizeDelivery(answers: DeliveryMetrics[], context: DeliveryContext): DeliverySummary {
+  const wordCount = answers.reduce((sum, a) => sum + a.wordCount, 0);
+  const fillerCount = answers.reduce((sum, a) => sum + a.fillerCount, 0);
+  const timed = answers.filter((a) => a.wordsPerMinute !== null && a.speakingSeconds !== null);
+  const timedWords = timed.reduce((sum, a) => sum + a.wordCount, 0);
+  const timedSeconds = timed.reduce((sum, a) => sum + (a.speakingSeconds ?? 0), 0);
+  const talk = answers.filter((a) => a.talkRatio !== null && a.speakingSeconds !== null && a.interviewerSeconds !== null);
+  const candidateSeconds = talk.reduce((sum, a) => sum + (a.speakingSeconds ?? 0), 0);
+  const interviewerSeconds = talk.reduce((sum, a) => sum + (a.interviewerSeconds ?? 0), 0);
+  const hedges = mergeCounts(answers.map((a) => a.hedges));
+  const pauses = answers.map((a) => a.longestPauseSeconds).filter((p): p is number => p !== null);
+
+  const metrics = {
+    answerCount: answers.length,
+    wordCount,
+    speakingSeconds: timed.length > 0 ? round(timedSeconds) : null,
+    wordsPerMinute: timedSeconds > 0 ? Math.round(timedWords / (timedSeconds / 60)) : null,
+    fillerCount,
+    fillersPer100Words: wordCount > 0 ? round((fillerCount / wordCount) * 100) : 0,
+    topFillers: mergeCounts(answers.map((a) => a.topFillers)).slice(0, 3),
+    hedgeCount: sumCounts(hedges),
+    hedges,
+    longPauseCount: answers.reduce((sum, a) => sum + a.longPauseCount, 0),
+    longestPauseSeconds: pauses.length > 0 ? Math.max(...pauses) : null,
+    talkRatio:
+      candidateSeconds + interviewerSeconds > 0
+        ? round(candidateSeconds / (candidateSeconds + interviewerSeconds), 2)
+        : null,
+  };
+  return { ...metrics, flags: deliveryFlags(metrics, context) };
+}
+
+/** Plain-text block for model prompts. */
+export function formatDeliveryForPrompt(summary: DeliverySummary) {
+  const lines = [
+    `- Answers measured: ${summary.answerCount}`,
+    `- Pace: ${summary.wordsPerMinute === null ? "not timed" : `${summary.wordsPerMinute} words per minute`}`,
+    `- Fillers: ${summary.fillerCount} (${summary.fillersPer100Words} per 100 words)${
+      summary.topFillers.length > 0 ? `, most common: ${summary.topFillers.map((f) => `"${f.phrase}"`).join(", ")}` : ""
+    }`,
+    `- Hedges: ${summary.hedgeCount}`,
+    `- Long pauses (${LONG_PAUSE_SECONDS}s+): ${summary.longPauseCount}`,
+  ];
+  if (summary.talkRatio !== null) {
+    lines.push(`- Candidate share of talk time: ${Math.round(summary.talkRatio * 100)}%`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Collects timings for the answer in progress. SpeechRecognition results are
+ * recorded as segments running from the first interim result to the final
+ * one; /api/stt word timestamps are shifted onto the same clock.
+ */
+export function createAnswerTimeline() {
+  let startedAt: number | null = null;
+  let pendingSince: number | null = null;
+  let segments: SpokenSegment[] = [];
+  const seconds = (at: number) => (at - (startedAt ?? at)) / 1000;
+
+  return {
+    /** Call on every recognition result, interim or final. */
+    heard(now = Date.now()) {
+      startedAt ??= now;
+      pendingSince ??= now;
+    },
+    addFinal(text: string, now = Date.now()) {
+      startedAt ??= now;
+      const start = seconds(pendingSince ?? now);
+      segments.push({ text, start, end: Math.max(start, seconds(now)) });
+      pendingSince = null;
+    },
+    /** Adds /api/stt word timestamps for a recording that started at `recordingStartedAt`. */
+    addWords(words: Array<{ word: string; start: number; end: number }>, recordingStartedAt: number) {
+      startedAt ??= recordingStartedAt;
+      const offset = seconds(recordingStartedAt);
+      words.forEach((w) => segments.push({ text: w.word, start: offset + w.start, end: offset + w.end }));
+    },
+    segments: () => [...segments],
+    reset() {
+      startedAt = null;
+      pendingSince = null;
+      segments = [];
+    },
+  };
+}
+
+export type AnswerTimeline = ReturnType<typeof createAnswerTimeline>;
@@ -0,0 +1,259 @@
+import { createHash } from "crypto";
+import z from "zod/v4";
+import { questionTypeSchema } from "@/lib/mock-interview";
+import { promptFingerprint, type QuestionRecord } from "@/lib/question-bank";
+import { createFileStore, type RecordStore } from "@/lib/storage";
+
+/* ------------------------------------------------------------------ */
+/*  Spaced-repetition drill deck (SM-2) over the question bank         */
+/* ------------------------------------------------------------------ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+
+export const drillFiltersSchema = z.object({
+  firm: z.string().default("All"),
+  questionType: z.union([questionTypeSchema, z.literal("all")]).default("all"),
+  difficulty: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal("all")]).default("all"),
+});
+
+export type DrillFilters = z.infer<typeof drillFiltersSchema>;
+
+export const drillCardStateSchema = z.object({
+  ease: z.number(),
+  intervalDays: z.number(),
+  repetitions: z.number().int(),
+  dueAt: z.string(),
+  lastScore: z.number(),
+  lastReviewedAt: z.string(),
+  reviews: z.number().int(),
+  lapses: z.number().int().default(0),
+  /**
+   * promptFingerprint of the question the card was reviewed on. Question ids
+   * are positional and shift on rebuild; absent on cards saved before this.
+   */
+  promptFingerprint: z.string().optional(),
+});
+
+export type DrillCardState = z.infer<typeof drillCardStateSchema>;
+
+export const drillDeckSchema = z.object({
+  id: z.string(),
+  userEmail: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  cards: z.record(z.string(), drillCardStateSchema),
+});
+
+export type DrillDeck = z.infer<typeof drillDeckSchema>;
+
+export type DrillCard = Pick<QuestionRecord, "id" | "firm" | "group" | "stage" | "questionType" | "difficulty" | "prompt" | "askedAtFirms"> & {
+  isNew: boolean;
+  state: DrillCardState | null;
+};
+
+export type DrillStats = {
+  dueNow: number;
+  newAvailable: number;
+  learned: number;
+  reviewedToday: number;
+};
+
+let store: RecordStore<DrillDeck> | null = null;
+
+function getDrillStore() {
+  if (!store) {
+    store = createFileStore("drill-decks", drillDeckSchema);
+  }
+  return store;
+}
+
+// One deck per user, keyed by a hash so the email never appears in a file name.
+function deckIdFor(userEmail: string) {
+  return createHash("sha256").update(userEmail.toLowerCase()).digest("hex").slice(0, 32);
+}
+
+/**
+ * Re-keys cards after a rebuild shifted question ids: a card stays on its id
+ * while the fingerprint still matches, moves to the question that now has its
+ * fingerprint, and is dropped when that question left the bank. Cards saved
+ * without a fingerprint are stamped with the question currently at their id.
+ */
+export function reconcileDrillDeck(deck: DrillDeck, questions: QuestionRecord[]): DrillDeck {
+  const fingerprints = new Map(questions.map((question) => [question.id, promptFingerprint(question.prompt)]));
+  const idsByFingerprint = new Map<string, string>();
+  for (const [id, fingerprint] of fingerprints) {
+    if (!idsByFingerprint.has(fingerprint)) idsByFingerprint.set(fingerprint, id);
+  }
+
+  const cards: DrillDeck["cards"] = {};
+  for (const [id, state] of Object.entries(deck.cards)) {
+    const current = fingerprints.get(id);
+    const fingerprint = state.promptFingerprint ?? current;
+    const nextId = fingerprint === current ? id : fingerprint && idsByFingerprint.get(fingerprint);
+    if (!nextId || !fingerprint) continue;
+    // Two cards can land on one question when ids shifted onto each other; keep the later review.
+    const existing = cards[nextId];
+    if (!existing || existing.lastReviewedAt < state.lastReviewedAt) {
+      cards[nextId] = { ...state, promptFingerprint: fingerprint };
+    }
+  }
+  return { ...deck, cards };
+}
+
+export async function loadDrillDeck(userEmail: string, questions: QuestionRecord[]): Promise<DrillDeck> {
+  const existing = await getDrillStore().get(deckIdFor(userEmail));
+  if (existing && existing.userEmail === userEmail) return reconcileDrillDeck(existing, questions);
+  const now = new Date().toISOString();
+  return { id: deckIdFor(userEmail), userEmail, createdAt: now, updatedAt: now, cards: {} };
+}
+
+// Reviews read, modify and rewrite the whole deck, so updates to the same
+// user's deck run one at a time (two tabs can submit answers together).
+const updateQueues = new Map<string, Promise<unknown>>();
+
+export function updateDrillDeck<T>(
+  userEmail: string,
+  questions: QuestionRecord[],
+  update: (deck: DrillDeck) => T
+) {
+  const id = deckIdFor(userEmail);
+  const task = async () => {
+    const deck = await loadDrillDeck(userEmail, questions);
+    const result = update(deck);
+    await getDrillStore().put({ ...deck, updatedAt: new Date().toISOString() });
+    return { deck, result };
+  };
+  const run = (updateQueues.get(id) ?? Promise.resolve()).then(task, task);
+  const settled = run.catch(() => undefined);
+  updateQueues.set(id, settled);
+  void settled.then(() => {
+    if (updateQueues.get(id) === settled) updateQueues.delete(id);
+  });
+  return run;
+}
+
+/** Maps a 0-10 grade onto SM-2's 0-5 recall quality. */
+export function qualityFromScore(score0to10: number) {
+  return Math.max(0, Math.min(5, Math.round(score0to10 / 2)));
+}
+
+/** Schedules the next review of `question` and stores it on the deck. */
+export function recordDrillReview(deck: DrillDeck, question: QuestionRecord, score0to10: number, now = new Date()) {
+  const state = {
+    ...scheduleReview(deck.cards[question.id] ?? null, score0to10, now),
+    promptFingerprint: promptFingerprint(question.prompt),
+  };
+  deck.cards[question.id] = state;
+  return state;
+}
+
+/**
+ * SM-2: quality below 3 resets the card to a one-day interval; otherwise the
+ * interval grows 1 → 6 → previous × ease. Ease moves with every review and
+ * never drops below 1.3.
+ */
+export function scheduleReview(
+  previous: DrillCardState | null,
+  score0to10: number,
+  now = new Date()
+): DrillCardState {
+  const quality = qualityFromScore(score0to10);
+  const ease = previous?.ease ?? DEFAULT_EASE;
+  const repetitions = previous?.repetitions ?? 0;
+  const intervalDays = previous?.intervalDays ?? 0;
+
+  const nextEase = Math.max(MIN_EASE, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  let nextRepetitions = 0;
+  let nextInterval = 1;
+  if (quality >= 3) {
+    nextRepetitions = repetitions + 1;
+    nextInterval =
+      nextRepetitions === 1 ? 1 : nextRepetitions === 2 ? 6 : Math.round(intervalDays * nextEase);
+  }
+
+  return {
+    ease: Math.round(nextEase * 100) / 100,
+    intervalDays: nextInterval,
+    repetitions: nextRepetitions,
+    dueAt: new Date(now.getTime() + nextInterval * DAY_MS).toISOString(),
+    lastScore: score0to10,
+    lastReviewedAt: now.toISOString(),
+    reviews: (previous?.reviews ?? 0) + 1,
+    lapses: (previous?.lapses ?? 0) + (quality < 3 && previous ? 1 : 0),
+  };
+}
+
+export function filterDrillQuestions(questions: QuestionRecord[], filters: DrillFilters) {
+  return questions.filter((question) => {
+    if (filters.firm !== "All" && question.firm !== filters.firm) return false;
+    if (filters.questionType !== "all" && question.questionType !== filters.questionType) return false;
+    if (filters.difficulty !== "all" && question.difficulty !== filters.difficulty) return false;
+    return true;
+  });
+}
+
+function toCard(question: QuestionRecord, state: DrillCardState | null): DrillCard {
+  return {
+    id: question.id,
+    firm: question.firm,
+    group: question.group,
+    stage: question.stage,
+    questionType: question.questionType,
+    difficulty: question.difficulty,
+    prompt: question.prompt,
+    askedAtFirms: question.askedAtFirms,
+    isNew: state === null,
+    state,
+  };
+}
+
+/**
+ * Picks the next card: the most overdue review first, otherwise a random
+ * unseen question. `excludeIds` keeps the card just answered from coming
+ * straight back when it was rescheduled for today.
+ */
+export function pickNextDrillCard(
+  questions: QuestionRecord[],
+  deck: DrillDeck,
+  filters: DrillFilters,
+  excludeIds: string[] = [],
+  now = new Date()
+): { card: DrillCard | null; stats: DrillStats } {
+  const pool = filterDrillQuestions(questions, filters);
+  const nowIso = now.toISOString();
+  const today = nowIso.slice(0, 10);
+  const due: QuestionRecord[] = [];
+  const unseen: QuestionRecord[] = [];
+  let learned = 0;
+
+  for (const question of pool) {
+    const state = deck.cards[question.id];
+    if (!state) {
+      unseen.push(question);
+    } else if (state.dueAt <= nowIso) {
+      due.push(question);
+    } else {
+      learned += 1;
+    }
+  }
+
+  const reviewedToday = Object.values(deck.cards).filter((state) => state.lastReviewedAt.startsWith(today)).length;
+  const stats = { dueNow: due.length, newAvailable: unseen.length, learned, reviewedToday };
+
+  const dueCandidates = due
+    .filter((question) => !excludeIds.includes(question.id))
+    .sort((a, b) => deck.cards[a.id].dueAt.localeCompare(deck.cards[b.id].dueAt));
+  if (dueCandidates.length > 0) {
+    return { card: toCard(dueCandidates[0], deck.cards[dueCandidates[0].id]), stats };
+  }
+
+  const newCandidates = unseen.filter((question) => !excludeIds.includes(question.id));
+  if (newCandidates.length > 0) {
+    const next = newCandidates[Math.floor(Math.random() * newCandidates.length)];
+    return { card: toCard(next, null), stats };
+  }
+
+  return { card: null, stats };
+}
@@ -0,0 +1,25 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { type ExerciseParams, exerciseParamsSchema } from "@/lib/modeling-exercises";
+
+/* ------------------------------------------------------------------ */
+/*  Signed worksheet inputs                                            */
+/* ------------------------------------------------------------------ */
+
+// Without NEXTAUTH_SECRET (local dev) tokens only last as long as the process.
+const fallbackSecret = randomBytes(32).toString("hex");
+
+/** Token handed out with an exercise; grading only accepts params that carry one. */
+export function signExerciseParams(userEmail: string, params: ExerciseParams) {
+  // Parsing fixes the key order, so the issued and the submitted params serialize the same way.
+  const canonical = JSON.stringify([userEmail, exerciseParamsSchema.parse(params)]);
+  return createHmac("sha256", process.env.NEXTAUTH_SECRET || fallbackSecret)
+    .update(canonical)
+    .digest("base64url");
+}
+
+/** True when `token` was issued to this user for exactly these params. */
+export function verifyExerciseParams(userEmail: string, params: ExerciseParams, token: string) {
+  const expected = Buffer.from(signExerciseParams(userEmail, params));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import z from "zod/v4";
+
+/* ------------------------------------------------------------------ */
+/*  Firm knowledge base: one JSON profile per firm under data/firms/   */
+/* ------------------------------------------------------------------ */
+
+const MAX_PROMPT_CHARS = 2500;
+
+export const firmProfileInputSchema = z.object({
+  firm: z.string().trim().min(1).max(80),
+  /** Other names the firm goes by, matched case-insensitively with data/firm-aliases.json. */
+  aliases: z.array(z.string().trim().min(1).max(80)).max(10).default([]),
+  overview: z.string().trim().max(1000).default(""),
+  groups: z
+    .array(z.object({ name: z.string().trim().min(1).max(80), notes: z.string().trim().max(300).default("") }))
+    .max(30)
+    .default([]),
+  culture: z.array(z.string().trim().min(1).max(300)).max(12).default([]),
+  notableDeals: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(200),
+        year: z.string().trim().max(10).default(""),
+        /** Who the firm advised and on what side. */
+        role: z.string().trim().max(200).default(""),
+      })
+    )
+    .max(20)
+    .default([]),
+  offices: z.array(z.string().trim().min(1).max(80)).max(30).default([]),
+  recruitingTimeline: z
+    .array(z.object({ stage: z.string().trim().min(1).max(80), timing: z.string().trim().min(1).max(300) }))
+    .max(10)
+    .default([]),
+});
+
+export type FirmProfileInput = z.infer<typeof firmProfileInputSchema>;
+
+export const firmProfileSchema = firmProfileInputSchema.extend({
+  updatedAt: z.string(),
+  updatedBy: z.string(),
+});
+
+export type FirmProfile = z.infer<typeof firmProfileSchema>;
+
+let cachedProfiles: FirmProfile[] | null = null;
+
+function firmsDir() {
+  return path.join(process.cwd(), "data", "firms");
+}
+
+export function firmSlug(firm: string) {
+  return firm
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function normalizeName(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function loadFirmAliases(): Record<string, string> {
+  const filePath = path.join(process.cwd(), "data", "firm-aliases.json");
+  if (!fs.existsSync(filePath)) return {};
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as Record<string, string>;
+}
+
+/** Every valid profile, sorted by firm name. Invalid files are skipped with a warning. */
+export function loadFirmProfiles() {
+  if (cachedProfiles) return cachedProfiles;
+  const dir = firmsDir();
+  const names = fs.existsSync(dir) ? fs.readdirSync(dir).filter((name) => name.endsWith(".json")) : [];
+  const profiles: FirmProfile[] = [];
+  for (const name of names) {
+    try {
+      const parsed = firmProfileSchema.safeParse(JSON.parse(fs.readFileSync(path.join(dir, name), "utf8")));
+      if (parsed.success) {
+        profiles.push(parsed.data);
+      } else {
+        console.warn(`[firm-profiles] ignoring invalid profile ${name}`);
+      }
+    } catch {
+      console.warn(`[firm-profiles] ignoring unreadable profile ${name}`);
+    }
+  }
+  cachedProfiles = profiles.sort((a, b) => a.firm.localeCompare(b.firm));
+  return cachedProfiles;
+}
+
+/**
+ * Finds the profile for a firm as the question bank or a user names it:
+ * by name, by one of the profile's aliases, or through data/firm-aliases.json.
+ */
+export function findFirmProfile(name: string | undefined) {
+  if (!name) return null;
+  const wanted = normalizeName(name);
+  const canonical = normalizeName(loadFirmAliases()[wanted] ?? name);
+  return (
+    loadFirmProfiles().find(
+      (profile) =>
+        normalizeName(profile.firm) === canonical ||
+        profile.aliases.some((alias) => normalizeName(alias) === wanted)
+    ) ?? null
+  );
+}
+
+// Saves read, modify and rewrite files, so they run one at a time.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Creates or replaces the profile stored under the firm's slug. An edit that
+ * renames the firm passes the old slug, and the file under it is removed.
+ */
+export function saveFirmProfile(actor: string, input: FirmProfileInput, previousSlug?: string) {
+  const run = writeQueue.then(async () => {
+    const profile: FirmProfile = { ...input, updatedAt: new Date().toISOString(), updatedBy: actor };
+    const slug = firmSlug(input.firm);
+    const file = path.join(firmsDir(), `${slug}.json`);
+    await fs.promises.mkdir(firmsDir(), { recursive: true });
+    const tmp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.promises.writeFile(tmp, `${JSON.stringify(profile, null, 2)}\n`);
+    await fs.promises.rename(tmp, file);
+    if (previousSlug && previousSlug !== slug) {
+      await fs.promises.rm(path.join(firmsDir(), `${previousSlug}.json`), { force: true });
+    }
+    cachedProfiles = null;
+    return profile;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/** Plain-text profile for prompts, capped so a long profile cannot crowd out the rest. */
+export function formatFirmProfileForPrompt(profile: FirmProfile) {
+  const lines = [`Firm: ${profile.firm}`];
+  if (profile.overview) lines.push(`Overview: ${profile.overview}`);
+  if (profile.groups.length > 0) {
+    lines.push("Groups:", ...profile.groups.map((group) => `- ${group.name}${group.notes ? `: ${group.notes}` : ""}`));
+  }
+  if (profile.culture.length > 0) lines.push("Culture:", ...profile.culture.map((note) => `- ${note}`));
+  if (profile.notableDeals.length > 0) {
+    lines.push(
+      "Notable deals:",
+      ...profile.notableDeals.map(
+        (deal) => `- ${deal.name}${deal.year ? ` (${deal.year})` : ""}${deal.role ? `: ${deal.role}` : ""}`
+      )
+    );
+  }
+  if (profile.offices.length > 0) lines.push(`Offices: ${profile.offices.join(", ")}`);
+  if (profile.recruitingTimeline.length > 0) {
+    lines.push("Recruiting:", ...profile.recruitingTimeline.map((step) => `- ${step.stage}: ${step.timing}`));
+  }
+  const text = lines.join("\n");
+  return text.length > MAX_PROMPT_CHARS ? `${text.slice(0, MAX_PROMPT_CHARS).trimEnd()}\n…` : text;
+}
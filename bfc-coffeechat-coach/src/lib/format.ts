@@ -0,0 +1,21 @@
+/**
+ * Dates are rendered on the server and hydrated on the client, so pin the
+ * locale and time zone to keep both renders identical.
+ */
+const dateTimeFormat = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+  year: "numeric",
+  hour: "numeric",
+  minute: "2-digit",
+  timeZone: "America/Los_Angeles",
+});
+
+export function formatDateTime(iso: string) {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : dateTimeFormat.format(date);
+}
+
+export function formatStage(stage: string) {
+  return stage.replace(/_/g, " ");
+}
@@ -0,0 +1,156 @@
+import z from "zod/v4";
+import { type Adaptation, adaptationSchema } from "@/lib/adaptive-difficulty";
+import { answerCheckSchema } from "@/lib/answer-key";
+import { deliverySummarySchema } from "@/lib/delivery";
+import {
+  answerTimingSchema,
+  finalReportSchema,
+  gradeResponseSchema,
+  planItemSchema,
+  settingsSchema,
+  type MockInterviewSettings,
+  type PlanItem,
+} from "@/lib/mock-interview";
+import { storyComparisonSchema } from "@/lib/star-stories";
+import { createFileStore, type RecordStore } from "@/lib/storage";
+
+/* ------------------------------------------------------------------ */
+/*  Persisted mock interview sessions                                  */
+/* ------------------------------------------------------------------ */
+
+export const sessionGradeSchema = z.object({
+  qIndex: z.number().int().min(1),
+  userAnswer: z.string(),
+  grade: gradeResponseSchema,
+  /** Present for answers given in timed mode. */
+  timing: answerTimingSchema.nullable().default(null),
+  /** Present for questions with an answer key. */
+  answerCheck: answerCheckSchema.nullable().default(null),
+  /** Present for behavioral answers given while the user had stored stories. */
+  storyComparison: storyComparisonSchema.nullable().default(null),
+  gradedAt: z.string(),
+});
+
+export type SessionGrade = z.infer<typeof sessionGradeSchema>;
+
+export const interviewSessionSchema = z.object({
+  id: z.string(),
+  userEmail: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  status: z.enum(["in_progress", "completed"]),
+  settings: settingsSchema,
+  interviewMode: z.string(),
+  plan: z.array(planItemSchema),
+  grades: z.array(sessionGradeSchema).default([]),
+  /** Questions swapped by adaptive mode, in the order they happened. */
+  adaptations: z.array(adaptationSchema).default([]),
+  conversation: z
+    .array(z.object({ role: z.enum(["interviewer", "user"]), content: z.string() }))
+    .default([]),
+  finalSummary: z.string().nullable().default(null),
+  report: finalReportSchema.nullable().default(null),
+  delivery: deliverySummarySchema.nullable().default(null),
+});
+
+export type InterviewSession = z.infer<typeof interviewSessionSchema>;
+
+let store: RecordStore<InterviewSession> | null = null;
+
+export function getInterviewSessionStore() {
+  if (!store) {
+    store = createFileStore("interview-sessions", interviewSessionSchema);
+  }
+  return store;
+}
+
+export async function createInterviewSession(input: {
+  userEmail: string;
+  settings: MockInterviewSettings;
+  interviewMode: string;
+  plan: PlanItem[];
+}) {
+  const now = new Date().toISOString();
+  const session: InterviewSession = {
+    id: crypto.randomUUID(),
+    userEmail: input.userEmail,
+    createdAt: now,
+    updatedAt: now,
+    status: "in_progress",
+    settings: input.settings,
+    interviewMode: input.interviewMode,
+    plan: input.plan,
+    grades: [],
+    adaptations: [],
+    conversation: [],
+    finalSummary: null,
+    report: null,
+    delivery: null,
+  };
+  await getInterviewSessionStore().put(session);
+  return session;
+}
+
+/** Returns the session only when it belongs to the given user. */
+export async function getInterviewSession(id: string, userEmail: string) {
+  const session = await getInterviewSessionStore().get(id);
+  return session && session.userEmail === userEmail ? session : null;
+}
+
+export async function listInterviewSessions(userEmail: string) {
+  return getInterviewSessionStore().listByUser(userEmail);
+}
+
+// Updates read, modify and rewrite the whole session, so updates to the
+// same session run one at a time (grades and the final report can overlap).
+const updateQueues = new Map<string, Promise<unknown>>();
+
+export function updateInterviewSession(
+  id: string,
+  userEmail: string,
+  update: (session: InterviewSession) => InterviewSession
+) {
+  const task = async () => {
+    const session = await getInterviewSession(id, userEmail);
+    if (!session) return null;
+    const next = { ...update(session), updatedAt: new Date().toISOString() };
+    await getInterviewSessionStore().put(next);
+    return next;
+  };
+  const run = (updateQueues.get(id) ?? Promise.resolve()).then(task, task);
+  const settled = run.catch(() => undefined);
+  updateQueues.set(id, settled);
+  void settled.then(() => {
+    if (updateQueues.get(id) === settled) updateQueues.delete(id);
+  });
+  return run;
+}
+
+export async function recordSessionGrade(
+  id: string,
+  userEmail: string,
+  entry: Omit<SessionGrade, "gradedAt">
+) {
+  return updateInterviewSession(id, userEmail, (session) => ({
+    ...session,
+    // Re-grading a question replaces the earlier grade.
+    grades: [
+      ...session.grades.filter((grade) => grade.qIndex !== entry.qIndex),
+      { ...entry, gradedAt: new Date().toISOString() },
+    ].sort((a, b) => a.qIndex - b.qIndex),
+  }));
+}
+
+/** Swaps in an adapted plan item and logs why it changed. */
+export async function recordSessionAdaptation(
+  id: string,
+  userEmail: string,
+  adaptation: Adaptation,
+  planItem: PlanItem
+) {
+  return updateInterviewSession(id, userEmail, (session) => ({
+    ...session,
+    plan: session.plan.map((item) => (item.qIndex === planItem.qIndex ? planItem : item)),
+    adaptations: [...session.adaptations, adaptation],
+  }));
+}
@@ -0,0 +1,379 @@
+import type { LlmMessage, LlmRoute } from "@/lib/llm";
+import { classifyQuestionLocally, type QuestionClassificationInput } from "@/lib/question-heuristics";
+import { parseResumeLocally } from "@/lib/resume-profile";
+
+/**
+ * Deterministic responses for the "local" provider. Each fixture reads the
+ * same prompt the real model would get and answers in the shape the route
+ * expects, so the whole app can run offline with stable output.
+ */
+
+function hashText(text: string) {
+  let hash = 0;
+  for (let i = 0; i < text.length; i += 1) {
+    hash = (hash << 5) - hash + text.charCodeAt(i);
+    hash |= 0;
+  }
+  return Math.abs(hash);
+}
+
+function pickStable<T>(items: T[], seed: string) {
+  return items[hashText(seed) % items.length];
+}
+
+function lastContent(messages: LlmMessage[], role: LlmMessage["role"]) {
+  for (let i = messages.length - 1; i >= 0; i -= 1) {
+    if (messages[i].role === role) return messages[i].content;
+  }
+  return "";
+}
+
+function matchLine(text: string, pattern: RegExp) {
+  return text.match(pattern)?.[1]?.trim() || "";
+}
+
+function sectionAfter(text: string, heading: string) {
+  const idx = text.lastIndexOf(heading);
+  return idx === -1 ? "" : text.slice(idx + heading.length).trim();
+}
+
+function wordCount(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+const interviewerQuestions = [
+  "Thanks for sharing that. What drew you to this group specifically?",
+  "That makes sense. What have you done so far to learn about the role?",
+  "Interesting. Which deal or trend in the sector has caught your attention lately?",
+  "Got it. What questions do you have for me about the team?",
+  "Great chatting with you. Anything else I can help with before we wrap up?",
+];
+
+function planFixture(prompt: string) {
+  const targetCount = Number.parseInt(matchLine(prompt, /Create a plan of (\d+) questions/), 10) || 4;
+  const resumeCount = Number.parseInt(matchLine(prompt, /^Resume questions: (\d+)$/m), 10) || 0;
+  const resumeLines = (prompt.split("Candidate resume:\n")[1] ?? "")
+    .split("\n\n")[0]
+    .split("\n")
+    .filter((line) => /^\s+- /.test(line))
+    .map((line) => line.replace(/^\s+- /, "").trim());
+  const seeds = Array.from(prompt.matchAll(/^\d+\. \[(\w+)\] (.+)$/gm)).map((match) => ({
+    type: match[1],
+    prompt: match[2].trim(),
+  }));
+  const pool = seeds.length > 0 ? seeds : [{ type: "behavioral", prompt: "Walk me through your resume." }];
+  const plan = Array.from({ length: targetCount }, (_, idx) => {
+    const resumeItem = idx < resumeCount ? resumeLines[idx % resumeLines.length] : undefined;
+    if (resumeItem) {
+      return {
+        qIndex: idx + 1,
+        type: "behavioral",
+        interviewerQuestion: `You mentioned "${resumeItem}". Walk me through your role and the key numbers.`,
+        expectedRubric: "- Clear ownership of the work\n- Specific figures\n- What they would do differently",
+        idealAnswerOutline: "- Set up the situation\n- Walk through what you did and the numbers\n- Close with the result",
+        resumeItem,
+      };
+    }
+    const seedIdx = Math.max(0, idx - resumeCount) % pool.length;
+    const seed = pool[seedIdx];
+    return {
+      qIndex: idx + 1,
+      type: seed.type,
+      interviewerQuestion: seed.prompt,
+      expectedRubric: "- Direct answer up front\n- Correct mechanics\n- Clear structure",
+      idealAnswerOutline: "- State the answer\n- Explain the reasoning step by step\n- Close with a takeaway",
+      seedIndex: seeds.length > 0 ? seedIdx + 1 : undefined,
+    };
+  });
+  return JSON.stringify({ plan });
+}
+
+function storyCoachFixture(prompt: string) {
+  const story = sectionAfter(prompt, "Story:");
+  const part = (label: string) => matchLine(story, new RegExp(`^${label}: (.+)$`, "m"));
+  const result = part("Result");
+  const hasNumber = /\d/.test(result);
+  return JSON.stringify({
+    score0to10: Math.max(3, Math.min(9, Math.round(wordCount(story) / 15) + (hasNumber ? 2 : 0))),
+    strengths: ["The story has a clear situation and a defined task."],
+    gaps: [hasNumber ? "Cut the situation to two sentences." : "Put a number on the result."],
+    revised: {
+      situation: part("Situation"),
+      task: part("Task"),
+      action: part("Action"),
+      result: hasNumber ? result : `${result} [number]`,
+    },
+  });
+}
+
+// Compares against the first listed story by length alone: longer tellings count as improvements.
+function storyComparisonFixture(prompt: string, answerWords: number) {
+  const stored = sectionAfter(prompt, "story bank (id in brackets):").split("\n\n")[0];
+  const storyId = matchLine(stored, /^\[([^\]]+)\]/m);
+  if (!storyId) return undefined;
+  const storedWords = wordCount(stored.split("\n").slice(1).join(" "));
+  const verdict = answerWords > storedWords * 1.1 ? "improves" : answerWords < storedWords * 0.7 ? "weaker" : "matches";
+  return {
+    storyId,
+    verdict,
+    notes: [verdict === "weaker" ? "The stored version had more detail on the result." : "Kept the core of the stored story."],
+  };
+}
+
+function gradeFixture(prompt: string) {
+  const answer = sectionAfter(prompt, "User answer:");
+  const words = wordCount(answer);
+  const score0to10 = Math.max(2, Math.min(9, Math.round(words / 12)));
+  return JSON.stringify({
+    score0to10,
+    strengths: [words > 40 ? "Answer covered the core mechanics." : "Answer was concise."],
+    gaps: [words > 40 ? "Lead with the conclusion before the detail." : "Add more specifics and structure."],
+    correctedAnswerOutline: "- Lead with the answer\n- Walk through the mechanics\n- Tie back to the question",
+    nextBestSentence: "To summarize, the key driver here is the impact on cash flow.",
+    storyComparison: storyComparisonFixture(prompt, words),
+  });
+}
+
+function reportFixture(prompt: string) {
+  const types = Array.from(new Set(Array.from(prompt.matchAll(/^\d+\. \[(\w+)\] /gm)).map((match) => match[1])));
+  const grades = Array.from(prompt.matchAll(/^- Q\d+: ([\d.]+)\/10/gm)).map((match) => Number(match[1]));
+  const overall = grades.length > 0 ? Math.round((grades.reduce((a, b) => a + b, 0) / grades.length) * 10) / 10 : 6;
+  return JSON.stringify({
+    overallScore0to10: overall,
+    categoryScores: Object.fromEntries(
+      (types.length > 0 ? types : ["behavioral"]).map((type) => [
+        type,
+        { score0to10: overall, comment: "Covered the basics; tighten structure and add specifics." },
+      ])
+    ),
+    recommendation: "lean_hire",
+    recommendationRationale: "Solid fundamentals, but answers need sharper structure to clear the bar.",
+    strengths: ["Stayed composed and answered every question."],
+    gaps: ["Lead with the answer before the detail.", "Quantify impact in every story."],
+    studyPlan: [
+      { topic: "Answer structure", action: "Practice 60-second answers that open with the conclusion." },
+      { topic: types[0] || "behavioral", action: "Drill five questions of this type and compare against the outlines." },
+    ],
+  });
+}
+
+function scorecardFixture(prompt: string) {
+  const userLines = Array.from(prompt.matchAll(/^User: (.+)$/gm)).map((match) => match[1].trim());
+  const firstSentence = (line: string) => line.split(/(?<=[.!?])\s/)[0];
+  const asked = userLines.filter((line) => line.includes("?")).length;
+  const averageWords = userLines.length > 0 ? userLines.reduce((sum, line) => sum + wordCount(line), 0) / userLines.length : 0;
+  const structure = averageWords > 90 ? 2 : averageWords > 15 ? 4 : 3;
+  const rapport = Math.min(5, 2 + asked);
+  const rating = (rating1to5: number, line: string | undefined, fix: string) => ({
+    rating1to5,
+    evidence: line ? [firstSentence(line)] : [],
+    fix,
+  });
+  return JSON.stringify({
+    ratings: {
+      tone: rating(4, userLines[0], "Keep the warmth, and trim apologetic openers."),
+      structure: rating(structure, userLines[1], "Answer in two or three sentences, then stop."),
+      content: rating(3, userLines[1], "Name one concrete deal or experience that shows why this group."),
+      rapport: rating(rapport, userLines.find((line) => line.includes("?")), "Follow up on something they said before changing topic."),
+      referral_path: rating(2, userLines.at(-1), "Ask for the referral explicitly once you have earned it."),
+    },
+    wouldReferPercent: Math.min(85, 20 + asked * 10 + userLines.length * 5),
+    wouldReferRationale: "Friendly and engaged, but the ask for help never became specific.",
+    topImprovements: [
+      "Lead with a crisp 30-second story.",
+      "Ask one question that shows you researched the group.",
+      "Close with a specific, low-pressure referral ask.",
+    ],
+    introRewrite:
+      "I'm a finance student focused on technology deals, and my internship building comps sharpened my interest in advisory work.",
+    suggestedQuestions: [
+      "What differentiates this team on live deals?",
+      "How do analysts get staffed across sectors?",
+      "What separates top first-years here?",
+    ],
+    referralAskScript:
+      "Near the end, once they have offered advice: \"This was really helpful. Would you be comfortable referring me for the analyst role?\"",
+  });
+}
+
+function liveCoachFixture(prompt: string) {
+  const answer = sectionAfter(prompt, "Last user answer:");
+  const long = answer.length > 500;
+  const asked = answer.includes("?");
+  return JSON.stringify({
+    tone: "warm",
+    clarity: long ? "rambling" : "clear",
+    structure: asked ? "has story" : "missing story",
+    referral: "building",
+    bullets: [
+      long ? "Tighten the answer to 20-30 seconds." : "Keep the tone warm and concise.",
+      asked ? "Good use of a question—stay focused." : "Add one specific question to show curiosity.",
+    ],
+  });
+}
+
+const pmQuestions = [
+  "What exactly is the market missing here, and why hasn't it priced it in already?",
+  "Walk me through the price target. What multiple, on what earnings, and why is that multiple right?",
+  "What's the catalyst, and when does it hit? Why won't this just sit there for two years?",
+  "Give me the other side's best argument. What would make you close the position?",
+  "If you had to size this today, how big and where is your stop?",
+];
+
+function pitchCrossExamFixture(prompt: string) {
+  if (/^That was the last question\./m.test(prompt)) {
+    return "Alright, I've heard enough. Thanks for walking me through it.";
+  }
+  const questionNumber = Number.parseInt(matchLine(prompt, /^Ask question (\d+) of/m), 10) || 1;
+  return pmQuestions[(questionNumber - 1) % pmQuestions.length];
+}
+
+function pitchGradeFixture(prompt: string) {
+  const ticker = matchLine(prompt, /^Ticker: (.+)$/m) || "the stock";
+  const direction = matchLine(prompt, /^Direction: (.+)$/m) || "long";
+  const section = (label: string) => matchLine(prompt, new RegExp(`^${label}: (.+)$`, "m"));
+  const answers = Array.from(prompt.matchAll(/^Candidate: (.+)$/gm)).map((match) => match[1].trim());
+  const averageWords = answers.length > 0 ? answers.reduce((sum, line) => sum + wordCount(line), 0) / answers.length : 0;
+  const firstSentence = (text: string) => text.split(/(?<=[.!?])\s/)[0];
+  const rating = (rating1to5: number, text: string | undefined, fix: string) => ({
+    rating1to5,
+    evidence: text ? [firstSentence(text)] : [],
+    fix,
+  });
+  const valuationHasNumbers = /\d/.test(section("Valuation"));
+  return JSON.stringify({
+    ratings: {
+      thesis: rating(3, section("Thesis"), "State the variant view in one sentence before the supporting points."),
+      valuation: rating(valuationHasNumbers ? 3 : 2, section("Valuation"), "Show the multiple, the earnings it applies to and the implied upside."),
+      catalyst: rating(3, section("Catalyst"), "Put a date on the catalyst and say what the print has to show."),
+      risks: rating(2, section("Risks"), "Size the main risk and name the signal that would make you exit."),
+      defense: rating(averageWords > 25 ? 3 : 2, answers[0], "Answer the question first, then defend it with one number."),
+    },
+    overallScore0to10: 5,
+    pmVerdict: "needs_work",
+    pmVerdictRationale: "Interesting idea, but I don't yet know why the market is wrong or when it finds out.",
+    weakestAnswers: [
+      {
+        question: pmQuestions[3],
+        betterAnswer: "The bear case is that margins have peaked. I'd close the position if gross margin falls two quarters in a row.",
+      },
+    ],
+    memo: {
+      headline: `${direction === "short" ? "Short" : "Long"} ${ticker}: the market is mispricing the next leg of earnings`,
+      thesis: section("Thesis"),
+      valuation: section("Valuation"),
+      catalysts: section("Catalyst"),
+      risks: section("Risks"),
+      openQuestions: "- Size the downside case\n- Confirm the catalyst timing",
+    },
+  });
+}
+
+// The "local" classifier is the keyword heuristic model, so offline rebuilds still get labels.
+function classifyFixture(prompt: string) {
+  let questions: QuestionClassificationInput[] = [];
+  try {
+    questions = JSON.parse(sectionAfter(prompt, "Questions (JSON):")) as QuestionClassificationInput[];
+  } catch {
+    questions = [];
+  }
+  return JSON.stringify({ labels: questions.map((question) => classifyQuestionLocally(question)) });
+}
+
+function mockInterviewerFixture(route: LlmRoute, prompt: string) {
+  if (route === "mock_interview_start") {
+    const question = matchLine(prompt, /^Question: (.+)$/m);
+    return `Thanks for making the time today. Let's dive in. ${question}`.trim();
+  }
+  const followUp = matchLine(prompt, /^Ask a brief follow-up on: (.+)$/m);
+  if (followUp) {
+    return `Thanks. Can you go one level deeper on that? ${followUp}`;
+  }
+  if (/^That was the last question\./m.test(prompt)) {
+    return "Thanks, that covers everything I had for today. I appreciate your time.";
+  }
+  const next = matchLine(prompt, /^Ask the next question: (.+)$/m);
+  return `Got it, thank you. Next question: ${next || "Walk me through your resume."}`;
+}
+
+export function generateFixtureText(route: LlmRoute, messages: LlmMessage[]) {
+  const prompt = lastContent(messages, "user");
+
+  switch (route) {
+    case "mock_interview_plan":
+      return planFixture(prompt);
+    case "mock_interview_grade":
+    case "drill_grade":
+      return gradeFixture(prompt);
+    case "mock_interview_report":
+      return reportFixture(prompt);
+    case "coach_live":
+      return liveCoachFixture(prompt);
+    case "question_classify":
+      return classifyFixture(prompt);
+    case "pitch_cross_exam":
+      return pitchCrossExamFixture(prompt);
+    case "pitch_grade":
+      return pitchGradeFixture(prompt);
+    case "story_coach":
+      return storyCoachFixture(prompt);
+    case "resume_parse":
+      return JSON.stringify(parseResumeLocally(sectionAfter(prompt, "Resume text:")));
+    case "mock_interview_start":
+    case "mock_interview_turn":
+      return mockInterviewerFixture(route, prompt);
+    case "interviewer": {
+      const userTurns = messages.filter((msg) => msg.role === "user").length;
+      return interviewerQuestions[Math.min(userTurns - 1, interviewerQuestions.length - 1)] ||
+        interviewerQuestions[0];
+    }
+    case "mock_interview_feedback":
+      return [
+        "- Content: covers the core idea; add one concrete number.",
+        "- Structure: lead with the answer, then the reasoning.",
+        "- Depth: name the second-order effect.",
+        "- Phrasing: swap hedges for direct statements.",
+        "- Focus: practice a 60-second version.",
+      ].join("\n");
+    case "coach_turn":
+      return [
+        "Strength: clear intent and a friendly tone.",
+        "Fix: anchor your story with one specific example.",
+        "Better phrasing: \"What I enjoyed most was...\" instead of \"I guess I liked...\"",
+        `Next question: ${pickStable(interviewerQuestions, prompt)}`,
+      ].join("\n");
+    case "coach":
+      return [
+        "**What went well**",
+        "- Warm opening",
+        "- Clear interest in the group",
+        "",
+        "**Better next question**",
+        "- What does success look like for a first-year analyst on your team?",
+        "",
+        "**Referral ask**",
+        "- If it makes sense after I learn more, would you be open to a referral down the line?",
+      ].join("\n");
+    case "coach_final":
+      return scorecardFixture(prompt);
+    case "mock_interview_end":
+      return [
+        "Top 3 improvements:",
+        "1. Lead with the answer before the detail.",
+        "2. Quantify impact in every story.",
+        "3. Close each answer with a one-line takeaway.",
+        "",
+        "Suggested 30-second intro rewrite:",
+        "I'm a finance student focused on technology deals, and my internship building comps sharpened my interest in advisory work.",
+        "",
+        "Best 3 questions:",
+        "- What differentiates this team on live deals?",
+        "- How do analysts get staffed across sectors?",
+        "- What separates top first-years here?",
+        "",
+        "Overall: solid foundation; tighten structure and specificity.",
+      ].join("\n");
+    default:
+      return "";
+  }
+}
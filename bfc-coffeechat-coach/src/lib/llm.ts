@@ -0,0 +1,459 @@
+import z from "zod/v4";
+import { generateFixtureText } from "@/lib/llm-fixtures";
+import { readSseEvents } from "@/lib/streaming";
+import { anthropicUrl, openaiUrl } from "@/lib/upstream";
+
+/* ------------------------------------------------------------------ */
+/*  Provider layer shared by every API route that calls a model        */
+/* ------------------------------------------------------------------ */
+
+export type LlmProviderName = "openai" | "anthropic" | "local";
+
+export type LlmRoute =
+  | "coach"
+  | "coach_turn"
+  | "coach_live"
+  | "coach_final"
+  | "interviewer"
+  | "mock_interview_plan"
+  | "mock_interview_start"
+  | "mock_interview_turn"
+  | "mock_interview_feedback"
+  | "mock_interview_grade"
+  | "mock_interview_end"
+  | "mock_interview_report"
+  | "drill_grade"
+  | "pitch_cross_exam"
+  | "pitch_grade"
+  | "resume_parse"
+  | "story_coach"
+  | "question_classify";
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type LlmRequest = {
+  route: LlmRoute;
+  messages: LlmMessage[];
+  json?: boolean;
+  maxOutputTokens?: number;
+  timeoutMs?: number;
+  retries?: number;
+};
+
+export type LlmResult = {
+  text: string;
+  provider: LlmProviderName;
+  model: string;
+  raw: unknown;
+};
+
+export type LlmJsonResult<T> = LlmResult & { data: T };
+
+export type LlmStreamResult = {
+  provider: LlmProviderName;
+  model: string;
+  /** Text deltas in arrival order. Upstream failures mid-stream throw an LlmError from the iterator. */
+  chunks: AsyncIterable<string>;
+};
+
+export type LlmRouteConfig = {
+  provider: LlmProviderName;
+  model: string;
+  reasoningEffort?: "low" | "medium" | "high";
+};
+
+type ProviderRequest = LlmRequest & { model: string; reasoningEffort?: LlmRouteConfig["reasoningEffort"] };
+
+type LlmProvider = {
+  generate: (request: ProviderRequest) => Promise<{ text: string; raw: unknown }>;
+  /** Resolves once the upstream accepted the request, so config and HTTP errors surface before streaming starts. */
+  stream: (request: ProviderRequest) => Promise<AsyncIterable<string>>;
+};
+
+/**
+ * Errors carry the HTTP status the route should answer with, so routes can
+ * pass them straight through: 500 for local misconfiguration, 502 for
+ * anything that went wrong upstream or in the model output.
+ */
+export class LlmError extends Error {
+  status: number;
+  kind: "config" | "upstream" | "invalid_output";
+
+  constructor(message: string, kind: LlmError["kind"], status: number) {
+    super(message);
+    this.name = "LlmError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+const providerNames: LlmProviderName[] = ["openai", "anthropic", "local"];
+
+const defaultModels: Record<LlmProviderName, string> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-sonnet-4-5-20250929",
+  local: "local-fixture",
+};
+
+const routeDefaults: Record<LlmRoute, Omit<LlmRouteConfig, "provider">> = {
+  coach: { model: "gpt-5", reasoningEffort: "low" },
+  coach_turn: { model: "gpt-4o-mini" },
+  coach_live: { model: "gpt-4o-mini" },
+  coach_final: { model: "gpt-4o-mini" },
+  interviewer: { model: "gpt-4o-mini" },
+  mock_interview_plan: { model: "gpt-4o-mini" },
+  mock_interview_start: { model: "gpt-4o-mini" },
+  mock_interview_turn: { model: "gpt-4o-mini" },
+  mock_interview_feedback: { model: "gpt-4o-mini" },
+  mock_interview_grade: { model: "gpt-4o-mini" },
+  mock_interview_end: { model: "gpt-4o-mini" },
+  mock_interview_report: { model: "gpt-4o-mini" },
+  drill_grade: { model: "gpt-4o-mini" },
+  pitch_cross_exam: { model: "gpt-4o-mini" },
+  pitch_grade: { model: "gpt-4o-mini" },
+  resume_parse: { model: "gpt-4o-mini" },
+  story_coach: { model: "gpt-4o-mini" },
+  question_classify: { model: "gpt-4o-mini" },
+};
+
+function readProvider(value: string | undefined) {
+  const normalized = (value || "").trim().toLowerCase();
+  return providerNames.includes(normalized as LlmProviderName)
+    ? (normalized as LlmProviderName)
+    : null;
+}
+
+/**
+ * Resolves provider and model for a route. Route-specific variables such as
+ * LLM_MOCK_INTERVIEW_GRADE_PROVIDER / LLM_MOCK_INTERVIEW_GRADE_MODEL win over
+ * the global LLM_PROVIDER / LLM_MODEL, which win over the built-in defaults.
+ * LLM_MODEL only applies while the route uses the LLM_PROVIDER provider, so
+ * a route moved to another provider never gets a model name it cannot serve.
+ */
+export function resolveRouteConfig(route: LlmRoute): LlmRouteConfig {
+  const envKey = `LLM_${route.toUpperCase()}`;
+  const globalProvider = readProvider(process.env.LLM_PROVIDER) || "openai";
+  const provider = readProvider(process.env[`${envKey}_PROVIDER`]) || globalProvider;
+  const defaults = routeDefaults[route];
+  const model =
+    process.env[`${envKey}_MODEL`]?.trim() ||
+    (provider === globalProvider ? process.env.LLM_MODEL?.trim() : "") ||
+    (provider === "openai" ? defaults.model : defaultModels[provider]);
+  return { provider, model, reasoningEffort: defaults.reasoningEffort };
+}
+
+async function fetchWithTimeout(url: string, options: RequestInit, timeoutMs?: number) {
+  if (!timeoutMs) return fetch(url, options);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...options, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function postRequest(url: string, init: RequestInit, request: ProviderRequest) {
+  const retries = request.retries ?? 0;
+  let response: Response | null = null;
+  try {
+    for (let attempt = 0; attempt <= retries; attempt += 1) {
+      response = await fetchWithTimeout(url, init, request.timeoutMs);
+      if (response.status >= 500 && attempt < retries) {
+        continue;
+      }
+      break;
+    }
+  } catch {
+    throw new LlmError("Upstream request failed", "upstream", 502);
+  }
+
+  if (!response) {
+    throw new LlmError("Upstream request failed", "upstream", 502);
+  }
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new LlmError(errorText || response.statusText, "upstream", 502);
+  }
+  return response;
+}
+
+async function postJson(url: string, init: RequestInit, request: ProviderRequest) {
+  const response = await postRequest(url, init, request);
+  try {
+    return (await response.json()) as unknown;
+  } catch {
+    throw new LlmError("Upstream returned invalid JSON", "upstream", 502);
+  }
+}
+
+/** Reads an upstream SSE body, handing each parsed JSON payload to `pick` for its text delta. */
+async function* streamDeltas(response: Response, pick: (event: string, payload: Record<string, unknown>) => string) {
+  if (!response.body) {
+    throw new LlmError("Upstream returned an empty stream", "upstream", 502);
+  }
+  try {
+    for await (const { event, data } of readSseEvents(response.body)) {
+      if (data === "[DONE]") return;
+      let payload: Record<string, unknown>;
+      try {
+        payload = JSON.parse(data) as Record<string, unknown>;
+      } catch {
+        continue;
+      }
+      const delta = pick(event, payload);
+      if (delta) yield delta;
+    }
+  } catch (err) {
+    if (err instanceof LlmError) throw err;
+    throw new LlmError("Upstream stream interrupted", "upstream", 502);
+  }
+}
+
+function upstreamStreamError(payload: Record<string, unknown>) {
+  const error = payload.error as { message?: string } | undefined;
+  const response = payload.response as { error?: { message?: string } } | undefined;
+  return new LlmError(error?.message || response?.error?.message || "Upstream stream failed", "upstream", 502);
+}
+
+export function extractOutputText(data: unknown) {
+  const payload = data as {
+    output_text?: string;
+    output?: Array<{ type?: string; content?: Array<{ text?: string }> }>;
+  };
+  const direct = typeof payload?.output_text === "string" ? payload.output_text.trim() : "";
+  if (direct) return direct;
+  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
+  const parts: string[] = [];
+  for (const item of outputItems) {
+    const content = Array.isArray(item?.content) ? item.content : [];
+    for (const part of content) {
+      if (typeof part?.text === "string") {
+        parts.push(part.text);
+      }
+    }
+  }
+  return parts.join("").trim();
+}
+
+export function parseJsonFromText(text: string) {
+  if (!text) return null;
+  // Strip markdown code fences if present
+  const stripped = text.replace(/^```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/i, "").trim();
+  try {
+    return JSON.parse(stripped);
+  } catch {
+    const start = stripped.indexOf("{");
+    const end = stripped.lastIndexOf("}");
+    if (start !== -1 && end !== -1 && end > start) {
+      try {
+        return JSON.parse(stripped.slice(start, end + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+function openaiInit(request: ProviderRequest, stream: boolean): RequestInit {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new LlmError("Missing OPENAI_API_KEY", "config", 500);
+  }
+  const supportsReasoning = /^(gpt-5|o\d)/.test(request.model);
+  return {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: request.model,
+      input: request.messages,
+      ...(request.reasoningEffort && supportsReasoning
+        ? { reasoning: { effort: request.reasoningEffort } }
+        : {}),
+      ...(request.maxOutputTokens ? { max_output_tokens: request.maxOutputTokens } : {}),
+      ...(request.json ? { text: { format: { type: "json_object" } } } : {}),
+      ...(stream ? { stream: true } : {}),
+    }),
+  };
+}
+
+const openaiProvider: LlmProvider = {
+  async generate(request) {
+    const data = await postJson(openaiUrl("responses"), openaiInit(request, false), request);
+    return { text: extractOutputText(data), raw: data };
+  },
+  async stream(request) {
+    const response = await postRequest(openaiUrl("responses"), openaiInit(request, true), request);
+    return streamDeltas(response, (event, payload) => {
+      const type = (payload.type as string | undefined) || event;
+      if (type === "error" || type === "response.failed") throw upstreamStreamError(payload);
+      return type === "response.output_text.delta" && typeof payload.delta === "string" ? payload.delta : "";
+    });
+  },
+};
+
+/**
+ * The Messages API wants turns that alternate user/assistant and start with
+ * a user turn. Consecutive turns from one role are merged, a leading
+ * assistant turn (an interviewer opening) is folded into a user preamble,
+ * and an empty conversation gets a short user turn to answer.
+ */
+function anthropicMessages(messages: LlmMessage[]) {
+  const turns: Array<{ role: "user" | "assistant"; content: string }> = [];
+  for (const msg of messages) {
+    if (msg.role === "system") continue;
+    const last = turns[turns.length - 1];
+    if (last && last.role === msg.role) {
+      last.content = `${last.content}\n\n${msg.content}`;
+    } else {
+      turns.push({ role: msg.role, content: msg.content });
+    }
+  }
+  if (turns[0]?.role === "assistant") {
+    const opening = turns.shift()!;
+    const preamble = `(You already said: "${opening.content}")`;
+    if (turns[0]) {
+      turns[0].content = `${preamble}\n\n${turns[0].content}`;
+    } else {
+      turns.push({ role: "user", content: `${preamble}\n\nContinue.` });
+    }
+  }
+  if (turns.length === 0) turns.push({ role: "user", content: "Begin." });
+  return turns;
+}
+
+function anthropicInit(request: ProviderRequest, stream: boolean): RequestInit {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new LlmError("Missing ANTHROPIC_API_KEY", "config", 500);
+  }
+  // The Messages API takes the system prompt separately and has no JSON
+  // mode, so JSON requests get an explicit instruction instead.
+  const system = request.messages
+    .filter((msg) => msg.role === "system")
+    .map((msg) => msg.content)
+    .concat(request.json ? ["Respond with a single valid JSON object and nothing else."] : [])
+    .join("\n\n");
+  return {
+    method: "POST",
+    headers: {
+      "x-api-key": apiKey,
+      "anthropic-version": "2023-06-01",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: request.model,
+      max_tokens: request.maxOutputTokens || 1024,
+      ...(system ? { system } : {}),
+      messages: anthropicMessages(request.messages),
+      ...(stream ? { stream: true } : {}),
+    }),
+  };
+}
+
+const anthropicProvider: LlmProvider = {
+  async generate(request) {
+    const data = await postJson(anthropicUrl("messages"), anthropicInit(request, false), request);
+    const payload = data as { content?: Array<{ type?: string; text?: string }> };
+    const content = Array.isArray(payload?.content) ? payload.content : [];
+    const text = content
+      .map((part) => (part?.type === "text" && typeof part.text === "string" ? part.text : ""))
+      .join("")
+      .trim();
+    return { text, raw: data };
+  },
+  async stream(request) {
+    const response = await postRequest(anthropicUrl("messages"), anthropicInit(request, true), request);
+    return streamDeltas(response, (event, payload) => {
+      if (payload.type === "error") throw upstreamStreamError(payload);
+      const delta = payload.delta as { type?: string; text?: string } | undefined;
+      return payload.type === "content_block_delta" && delta?.type === "text_delta" ? delta.text || "" : "";
+    });
+  },
+};
+
+const localProvider: LlmProvider = {
+  async generate(request) {
+    const text = generateFixtureText(request.route, request.messages);
+    return { text, raw: { provider: "local", route: request.route, output_text: text } };
+  },
+  async stream(request) {
+    const text = generateFixtureText(request.route, request.messages);
+    // Word-sized chunks exercise the same progressive rendering as a real stream.
+    return (async function* () {
+      for (const chunk of text.match(/\S+\s*/g) || []) yield chunk;
+    })();
+  },
+};
+
+const providers: Record<LlmProviderName, LlmProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+};
+
+export async function generateText(request: LlmRequest): Promise<LlmResult> {
+  const config = resolveRouteConfig(request.route);
+  const { text, raw } = await providers[config.provider].generate({
+    ...request,
+    model: config.model,
+    reasoningEffort: config.reasoningEffort,
+  });
+  return { text, provider: config.provider, model: config.model, raw };
+}
+
+/**
+ * Streams a text completion. Errors that happen before the first token
+ * (missing key, upstream HTTP error) reject here like generateText does, so
+ * routes can still answer with a normal JSON error before opening a stream.
+ */
+export async function streamText(request: LlmRequest): Promise<LlmStreamResult> {
+  const config = resolveRouteConfig(request.route);
+  const chunks = await providers[config.provider].stream({
+    ...request,
+    model: config.model,
+    reasoningEffort: config.reasoningEffort,
+  });
+  return { provider: config.provider, model: config.model, chunks };
+}
+
+export async function generateJson<S extends z.ZodType>(
+  schema: S,
+  request: LlmRequest
+): Promise<LlmJsonResult<z.output<S>>> {
+  const result = await generateText({ ...request, json: true });
+  if (!result.text) {
+    throw new LlmError("Empty model response", "invalid_output", 502);
+  }
+  const parsed = parseJsonFromText(result.text);
+  if (parsed === null) {
+    throw new LlmError("Could not parse model response as JSON", "invalid_output", 502);
+  }
+  const validated = schema.safeParse(parsed);
+  if (!validated.success) {
+    throw new LlmError("Model response did not match the expected shape", "invalid_output", 502);
+  }
+  return { ...result, data: validated.data };
+}
+
+export function buildDebugMeta(result: Pick<LlmResult, "raw" | "model" | "provider">) {
+  const payload = result.raw as {
+    output?: Array<{ type?: string }>;
+    refusal?: unknown;
+  };
+  const outputItems = Array.isArray(payload?.output) ? payload.output : [];
+  return {
+    modelUsed: result.model,
+    providerUsed: result.provider,
+    outputKeys: Object.keys((payload as Record<string, unknown>) || {}),
+    outputItemTypes: outputItems.map((item) => item?.type).filter(Boolean),
+    hadRefusal: Boolean(payload?.refusal),
+  };
+}
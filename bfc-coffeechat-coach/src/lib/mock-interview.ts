@@ -1,4 +1,6 @@
 import z from "zod/v4";
+import { answerKeySchema } from "@/lib/answer-key";
+import type { ExerciseKind } from "@/lib/modeling-exercises";
 import type { QuestionRecord, QuestionStage, QuestionType } from "@/lib/question-bank";
 
 const allowedStages = ["first_round", "second_round", "superday"] as const;
@@ -31,10 +33,144 @@ export const settingsSchema = z.object({
   questionTypes: z.array(z.union([questionTypeSchema, z.literal("all")])),
   randomize: z.boolean(),
   followUps: z.boolean(),
+  /** Retarget each next question from the grades so far. */
+  adaptive: z.boolean().optional(),
+  /** Mix generated three-statement drills into the accounting questions. */
+  statementDrills: z.boolean().optional(),
+  /** Ask about the uploaded resume as well as the question bank. */
+  useResume: z.boolean().optional(),
+  /** Per-question and whole-interview clocks; null or absent when untimed. */
+  timed: z
+    .object({
+      perQuestionSeconds: z.number().int().min(15).max(600),
+      totalMinutes: z.number().int().min(1).max(120),
+    })
+    .nullable()
+    .optional(),
 }).passthrough();
 
 export type MockInterviewSettings = z.infer<typeof settingsSchema>;
 
+export const planItemSchema = z.object({
+  qIndex: z.number().int().min(1),
+  type: questionTypeSchema,
+  interviewerQuestion: z.string().min(1),
+  expectedRubric: z.string().min(1),
+  idealAnswerOutline: z.string().min(1),
+  /** Named firms that asked the seed question this item was rephrased from. */
+  askedAtFirms: z.number().int().min(0).optional(),
+  /** Difficulty (1-3) of the seed question. */
+  difficulty: z.number().int().min(1).max(3).optional(),
+  /** Canonical id of the seed question, so adaptive mode does not repeat a concept. */
+  seedId: z.string().optional(),
+  /** Copied from the seed question when it has one; checked before the model grades. */
+  answerKey: answerKeySchema.optional(),
+  /** For questions written from the candidate's resume, the line they dig into. */
+  resumeItem: z.string().optional(),
+});
+
+export type PlanItem = z.infer<typeof planItemSchema>;
+
+export const gradeResponseSchema = z.object({
+  score0to10: z.number().min(0).max(10),
+  strengths: z.array(z.string()).min(1),
+  gaps: z.array(z.string()).min(1),
+  correctedAnswerOutline: z.string().min(1),
+  nextBestSentence: z.string().min(1),
+});
+
+export type GradeResponse = z.infer<typeof gradeResponseSchema>;
+
+/** How long one answer took, measured on the client while the mic was open. */
+export const answerTimingSchema = z.object({
+  /** Null when nothing was said before the answer ended. */
+  timeToFirstWordSeconds: z.number().min(0).nullable(),
+  answerSeconds: z.number().min(0),
+  budgetSeconds: z.number().int().min(1),
+  /** The clock ran out and the interviewer cut in. */
+  cutIn: z.boolean(),
+});
+
+export type AnswerTiming = z.infer<typeof answerTimingSchema>;
+
+/** Starting later than this counts as a slow start in timed mode. */
+export const SLOW_START_SECONDS = 5;
+
+/**
+ * Points taken off a timed answer: one for running out the clock and half
+ * for a slow start. Returns the deduction and the gap lines that explain it.
+ */
+export function timingPenalty(timing: AnswerTiming) {
+  const gaps: string[] = [];
+  let points = 0;
+  if (timing.cutIn) {
+    points += 1;
+    gaps.push(`Ran past the ${timing.budgetSeconds}-second budget; lead with the answer so the key point lands in time.`);
+  }
+  if (timing.timeToFirstWordSeconds !== null && timing.timeToFirstWordSeconds > SLOW_START_SECONDS) {
+    points += 0.5;
+    gaps.push(
+      `Took ${Math.round(timing.timeToFirstWordSeconds)} seconds to start; open with a framing sentence while you think.`
+    );
+  }
+  return { points, gaps };
+}
+
+export function formatTiming(timing: AnswerTiming) {
+  const parts = [
+    timing.timeToFirstWordSeconds === null
+      ? "no answer"
+      : `first word after ${Math.round(timing.timeToFirstWordSeconds)}s`,
+    `${Math.round(timing.answerSeconds)}s of ${timing.budgetSeconds}s`,
+  ];
+  if (timing.cutIn) parts.push("cut off");
+  return parts.join(", ");
+}
+
+export const hireRecommendationSchema = z.enum(["hire", "lean_hire", "lean_no_hire", "no_hire"]);
+
+export type HireRecommendation = z.infer<typeof hireRecommendationSchema>;
+
+export const finalReportSchema = z.object({
+  overallScore0to10: z.number().min(0).max(10),
+  /** Only the question types the interview covered. */
+  categoryScores: z.partialRecord(
+    questionTypeSchema,
+    z.object({
+      score0to10: z.number().min(0).max(10),
+      comment: z.string().min(1),
+    })
+  ),
+  recommendation: hireRecommendationSchema,
+  recommendationRationale: z.string().min(1),
+  strengths: z.array(z.string()).min(1).max(5),
+  gaps: z.array(z.string()).min(1).max(5),
+  /** Highest priority first. */
+  studyPlan: z
+    .array(
+      z.object({
+        topic: z.string().min(1),
+        action: z.string().min(1),
+        questionType: questionTypeSchema.optional(),
+      })
+    )
+    .min(1)
+    .max(6),
+  /** Set by the server when fewer answers were graded than the plan had questions. */
+  partial: z
+    .object({ graded: z.number().int().min(0), planned: z.number().int().min(0) })
+    .nullable()
+    .default(null),
+});
+
+export type FinalReport = z.infer<typeof finalReportSchema>;
+
+export function averageGradeScore(entries: Array<{ grade: Pick<GradeResponse, "score0to10"> }>) {
+  if (entries.length === 0) return null;
+  const total = entries.reduce((sum, entry) => sum + entry.grade.score0to10, 0);
+  return Math.round((total / entries.length) * 10) / 10;
+}
+
 export type ConversationMessage = {
   role: "interviewer" | "user";
   content: string;
@@ -122,6 +258,12 @@ export type InterviewModeConfig = {
   defaultNumQuestions: number;
   pressureLevel: "low" | "medium" | "high";
   gradingFocus: string;
+  /** Clocks switched on by default for this mode. */
+  timeBudget: { perQuestionSeconds: number; totalMinutes: number } | null;
+  /** Worksheet exercises offered alongside the verbal interview. */
+  exercises: ExerciseKind[];
+  /** Offers the stock pitch cross-examination at /pitch. */
+  stockPitch: boolean;
 };
 
 export const interviewModeConfigs: Record<InterviewMode, InterviewModeConfig> = {
@@ -133,6 +275,9 @@ export const interviewModeConfigs: Record<InterviewMode, InterviewModeConfig> =
     defaultNumQuestions: 6,
     pressureLevel: "low",
     gradingFocus: "",
+    timeBudget: null,
+    exercises: [],
+    stockPitch: false,
   },
   ib_first_round: {
     label: "IB First Round",
@@ -146,6 +291,9 @@ Follow-up style: Probe for specificity on deal experience, motivation, and cultu
     pressureLevel: "medium",
     gradingFocus:
       "Grade behavioral answers using STAR method (Situation, Task, Action, Result). For technicals, accept directionally correct answers with clear reasoning.",
+    timeBudget: null,
+    exercises: [],
+    stockPitch: false,
   },
   ib_superday: {
     label: "IB Superday",
@@ -160,6 +308,9 @@ Pace: Move quickly between questions. If the candidate struggles, give a brief h
     pressureLevel: "high",
     gradingFocus:
       "Grade technical accuracy strictly. Partial credit for correct framework even if numbers are wrong. Deduct for hand-waving or 'it depends' without follow-through.",
+    timeBudget: { perQuestionSeconds: 90, totalMinutes: 30 },
+    exercises: ["paper_lbo", "quick_dcf"],
+    stockPitch: false,
   },
   pe_interview: {
     label: "PE Interview",
@@ -174,6 +325,9 @@ Key questions: 'Pitch me a company', 'Walk me through an LBO', 'What makes a goo
     pressureLevel: "high",
     gradingFocus:
       "Grade on investment thinking depth. Strong answers demonstrate understanding of value creation, risk assessment, and operational improvement. Penalize pure banking-speak without investor lens.",
+    timeBudget: null,
+    exercises: ["paper_lbo"],
+    stockPitch: false,
   },
   hf_interview: {
     label: "HF Interview",
@@ -188,9 +342,51 @@ Key questions: Stock pitches (must include thesis, valuation, catalyst, risks),
     pressureLevel: "high",
     gradingFocus:
       "Grade on conviction, analytical rigor, and ability to defend under pressure. Strong pitches have clear thesis, quantified valuation, identified catalyst, and honest risk assessment. Penalize wishy-washy answers.",
+    timeBudget: null,
+    exercises: [],
+    stockPitch: true,
   },
 };
 
+/**
+ * Overall score a candidate needs for a "hire" at each pressure level. A
+ * superday or buy-side loop expects more than a first screen.
+ */
+export const hireBarByPressure: Record<InterviewModeConfig["pressureLevel"], number> = {
+  low: 6,
+  medium: 7,
+  high: 8,
+};
+
+/** Maps an overall score onto the recommendation scale, one point per step below the bar. */
+export function recommendationFor(
+  overallScore: number,
+  pressureLevel: InterviewModeConfig["pressureLevel"]
+): HireRecommendation {
+  const bar = hireBarByPressure[pressureLevel];
+  if (overallScore >= bar) return "hire";
+  if (overallScore >= bar - 1) return "lean_hire";
+  if (overallScore >= bar - 2) return "lean_no_hire";
+  return "no_hire";
+}
+
+export const hireRecommendationLabels: Record<HireRecommendation, string> = {
+  hire: "Hire",
+  lean_hire: "Lean hire",
+  lean_no_hire: "Lean no hire",
+  no_hire: "No hire",
+};
+
+/** One sentence tying the recommendation to the score, e.g. "6.8/10 against the 8/10 bar for high-pressure interviews: lean no hire." */
+export function recommendationSummary(
+  overallScore: number,
+  pressureLevel: InterviewModeConfig["pressureLevel"]
+) {
+  const bar = hireBarByPressure[pressureLevel];
+  const recommendation = hireRecommendationLabels[recommendationFor(overallScore, pressureLevel)].toLowerCase();
+  return `${overallScore}/10 against the ${bar}/10 bar for ${pressureLevel}-pressure interviews: ${recommendation}.`;
+}
+
 export const interviewModeOptions = Object.entries(interviewModeConfigs).map(
   ([value, config]) => ({ value: value as InterviewMode, label: config.label })
 );
@@ -0,0 +1,306 @@
+import z from "zod/v4";
+
+/* ------------------------------------------------------------------ */
+/*  Paper LBO and quick DCF worksheets with computed solutions         */
+/* ------------------------------------------------------------------ */
+
+export const exerciseKindSchema = z.enum(["paper_lbo", "quick_dcf"]);
+
+export type ExerciseKind = z.infer<typeof exerciseKindSchema>;
+
+export const exerciseKindLabels: Record<ExerciseKind, string> = {
+  paper_lbo: "Paper LBO",
+  quick_dcf: "Quick DCF",
+};
+
+/** Both models run for this many years. */
+export const EXERCISE_YEARS = 5;
+
+export const paperLboParamsSchema = z.object({
+  kind: z.literal("paper_lbo"),
+  /** $M. */
+  ltmEbitda: z.number().positive(),
+  entryMultiple: z.number().positive(),
+  exitMultiple: z.number().positive(),
+  /** Opening debt as a multiple of LTM EBITDA. */
+  leverage: z.number().min(0),
+  growthPercent: z.number(),
+  interestPercent: z.number().min(0),
+  taxPercent: z.number().min(0).max(100),
+  /** D&A as a share of EBITDA; capex equals D&A. */
+  daPercent: z.number().min(0).max(100),
+});
+
+export const quickDcfParamsSchema = z.object({
+  kind: z.literal("quick_dcf"),
+  /** Last year's unlevered free cash flow, $M. */
+  baseFcf: z.number().positive(),
+  growthPercent: z.number(),
+  waccPercent: z.number().positive(),
+  terminalGrowthPercent: z.number(),
+  /** $M. */
+  netDebt: z.number(),
+  /** Millions of shares. */
+  sharesOutstanding: z.number().positive(),
+});
+
+export const exerciseParamsSchema = z
+  .discriminatedUnion("kind", [paperLboParamsSchema, quickDcfParamsSchema])
+  .refine((params) => params.kind !== "quick_dcf" || params.waccPercent > params.terminalGrowthPercent, {
+    message: "WACC must exceed terminal growth",
+  });
+
+export type ExerciseParams = z.infer<typeof exerciseParamsSchema>;
+export type PaperLboParams = z.infer<typeof paperLboParamsSchema>;
+export type QuickDcfParams = z.infer<typeof quickDcfParamsSchema>;
+
+export type WorksheetUnit = "$" | "x" | "%";
+
+export type WorksheetField = {
+  key: string;
+  label: string;
+  /** Fields in the same group are shown together; "schedule" groups are laid out by year. */
+  group: string;
+  unit: WorksheetUnit;
+  year?: number;
+};
+
+export type Exercise = {
+  params: ExerciseParams;
+  prompt: string;
+  givens: Array<{ label: string; value: string }>;
+  fields: WorksheetField[];
+};
+
+export const worksheetInputsSchema = z.record(z.string(), z.number().nullable());
+
+export type WorksheetInputs = z.infer<typeof worksheetInputsSchema>;
+
+export const worksheetStepSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  group: z.string(),
+  unit: z.enum(["$", "x", "%"]),
+  year: z.number().int().optional(),
+  /** "carried" means the step is right given the candidate's own earlier numbers. */
+  status: z.enum(["correct", "carried", "incorrect", "blank"]),
+  expected: z.number(),
+  entered: z.number().nullable(),
+});
+
+export type WorksheetStep = z.infer<typeof worksheetStepSchema>;
+
+export const worksheetGradeSchema = z.object({
+  steps: z.array(worksheetStepSchema),
+  correct: z.number().int().min(0),
+  carried: z.number().int().min(0),
+  total: z.number().int().min(0),
+  score0to10: z.number().min(0).max(10),
+});
+
+export type WorksheetGrade = z.infer<typeof worksheetGradeSchema>;
+
+/**
+ * Receives each step's value as the model computes it and returns the value
+ * to carry forward, so the same model yields the solution and the
+ * follow-through expectations from a candidate's own inputs.
+ */
+type Take = (key: string, computed: number) => number;
+
+const years = Array.from({ length: EXERCISE_YEARS }, (_, idx) => idx + 1);
+
+function lboFields(): WorksheetField[] {
+  return [
+    { key: "entryEv", label: "Entry enterprise value", group: "Entry", unit: "$" },
+    { key: "entryDebt", label: "Debt raised", group: "Entry", unit: "$" },
+    { key: "entryEquity", label: "Sponsor equity", group: "Entry", unit: "$" },
+    ...years.flatMap((year): WorksheetField[] => [
+      { key: `ebitdaY${year}`, label: "EBITDA", group: "Debt schedule", unit: "$", year },
+      { key: `fcfY${year}`, label: "Free cash flow", group: "Debt schedule", unit: "$", year },
+      { key: `debtY${year}`, label: "Ending debt", group: "Debt schedule", unit: "$", year },
+    ]),
+    { key: "exitEv", label: "Exit enterprise value", group: "Exit and returns", unit: "$" },
+    { key: "exitEquity", label: "Exit equity value", group: "Exit and returns", unit: "$" },
+    { key: "moic", label: "MOIC", group: "Exit and returns", unit: "x" },
+    { key: "irr", label: "IRR", group: "Exit and returns", unit: "%" },
+  ];
+}
+
+function runPaperLbo(params: PaperLboParams, take: Take) {
+  const entryEv = take("entryEv", params.ltmEbitda * params.entryMultiple);
+  const entryDebt = take("entryDebt", params.ltmEbitda * params.leverage);
+  const entryEquity = take("entryEquity", entryEv - entryDebt);
+  let debt = entryDebt;
+  let cash = 0;
+  let ebitda = params.ltmEbitda;
+  for (const year of years) {
+    ebitda = take(`ebitdaY${year}`, ebitda * (1 + params.growthPercent / 100));
+    // Interest on the opening balance; D&A equals capex, so it only matters for tax.
+    const interest = debt * (params.interestPercent / 100);
+    const pretax = ebitda * (1 - params.daPercent / 100) - interest;
+    const fcf = take(`fcfY${year}`, pretax * (1 - params.taxPercent / 100));
+    cash += Math.max(0, fcf - debt);
+    debt = take(`debtY${year}`, Math.max(0, debt - fcf));
+  }
+  const exitEv = take("exitEv", ebitda * params.exitMultiple);
+  const exitEquity = take("exitEquity", exitEv - debt + cash);
+  const moic = take("moic", entryEquity > 0 ? exitEquity / entryEquity : 0);
+  take("irr", moic > 0 ? (Math.pow(moic, 1 / EXERCISE_YEARS) - 1) * 100 : -100);
+}
+
+function dcfFields(): WorksheetField[] {
+  return [
+    ...years.map((year): WorksheetField => ({ key: `fcfY${year}`, label: "Free cash flow", group: "Projection", unit: "$", year })),
+    { key: "pvFcf", label: "PV of projected cash flows", group: "Valuation", unit: "$" },
+    { key: "terminalValue", label: `Terminal value (year ${EXERCISE_YEARS})`, group: "Valuation", unit: "$" },
+    { key: "pvTerminalValue", label: "PV of terminal value", group: "Valuation", unit: "$" },
+    { key: "enterpriseValue", label: "Enterprise value", group: "Valuation", unit: "$" },
+    { key: "equityValue", label: "Equity value", group: "Valuation", unit: "$" },
+    { key: "sharePrice", label: "Value per share", group: "Valuation", unit: "$" },
+  ];
+}
+
+function runQuickDcf(params: QuickDcfParams, take: Take) {
+  const wacc = params.waccPercent / 100;
+  let fcf = params.baseFcf;
+  let pvSum = 0;
+  for (const year of years) {
+    fcf = take(`fcfY${year}`, fcf * (1 + params.growthPercent / 100));
+    pvSum += fcf / Math.pow(1 + wacc, year);
+  }
+  const pvFcf = take("pvFcf", pvSum);
+  const terminalValue = take(
+    "terminalValue",
+    (fcf * (1 + params.terminalGrowthPercent / 100)) / (wacc - params.terminalGrowthPercent / 100)
+  );
+  const pvTerminalValue = take("pvTerminalValue", terminalValue / Math.pow(1 + wacc, EXERCISE_YEARS));
+  const enterpriseValue = take("enterpriseValue", pvFcf + pvTerminalValue);
+  const equityValue = take("equityValue", enterpriseValue - params.netDebt);
+  take("sharePrice", equityValue / params.sharesOutstanding);
+}
+
+function runModel(params: ExerciseParams, take: Take) {
+  if (params.kind === "paper_lbo") runPaperLbo(params, take);
+  else runQuickDcf(params, take);
+}
+
+export function worksheetFields(kind: ExerciseKind) {
+  return kind === "paper_lbo" ? lboFields() : dcfFields();
+}
+
+export function solveExercise(params: ExerciseParams) {
+  const solution: Record<string, number> = {};
+  runModel(params, (key, computed) => {
+    solution[key] = computed;
+    return computed;
+  });
+  return solution;
+}
+
+function formatMultiple(value: number) {
+  return `${value.toFixed(1)}x`;
+}
+
+function describeExercise(params: ExerciseParams): Pick<Exercise, "prompt" | "givens"> {
+  if (params.kind === "paper_lbo") {
+    return {
+      prompt: `Paper LBO. A sponsor buys a company with $${params.ltmEbitda}M of LTM EBITDA at ${formatMultiple(params.entryMultiple)}, funded with ${formatMultiple(params.leverage)} of debt and the rest in equity. EBITDA grows ${params.growthPercent}% a year. Debt costs ${params.interestPercent}% on the opening balance each year, D&A is ${params.daPercent}% of EBITDA and equal to capex, working capital does not change, and the tax rate is ${params.taxPercent}%. Every dollar of free cash flow repays debt. The sponsor exits after ${EXERCISE_YEARS} years at ${formatMultiple(params.exitMultiple)} EBITDA. Ignore fees. What are the MOIC and IRR?`,
+      givens: [
+        { label: "LTM EBITDA", value: `$${params.ltmEbitda}M` },
+        { label: "Entry multiple", value: formatMultiple(params.entryMultiple) },
+        { label: "Leverage", value: `${formatMultiple(params.leverage)} EBITDA` },
+        { label: "EBITDA growth", value: `${params.growthPercent}% a year` },
+        { label: "Interest rate", value: `${params.interestPercent}%` },
+        { label: "D&A (= capex)", value: `${params.daPercent}% of EBITDA` },
+        { label: "Tax rate", value: `${params.taxPercent}%` },
+        { label: "Exit", value: `Year ${EXERCISE_YEARS} at ${formatMultiple(params.exitMultiple)}` },
+      ],
+    };
+  }
+  return {
+    prompt: `Quick DCF. Last year's unlevered free cash flow was $${params.baseFcf}M and grows ${params.growthPercent}% a year for the next ${EXERCISE_YEARS} years. WACC is ${params.waccPercent}%. Use the perpetuity growth method with ${params.terminalGrowthPercent}% terminal growth, discounting year-end cash flows. Net debt is $${params.netDebt}M and there are ${params.sharesOutstanding}M shares outstanding. What is the company worth per share?`,
+    givens: [
+      { label: "Last year's UFCF", value: `$${params.baseFcf}M` },
+      { label: "FCF growth", value: `${params.growthPercent}% a year` },
+      { label: "WACC", value: `${params.waccPercent}%` },
+      { label: "Terminal growth", value: `${params.terminalGrowthPercent}%` },
+      { label: "Net debt", value: `$${params.netDebt}M` },
+      { label: "Shares outstanding", value: `${params.sharesOutstanding}M` },
+    ],
+  };
+}
+
+export function buildExercise(params: ExerciseParams): Exercise {
+  return { params, ...describeExercise(params), fields: worksheetFields(params.kind) };
+}
+
+function pick<T>(items: readonly T[], random: () => number) {
+  return items[Math.floor(random() * items.length)];
+}
+
+/** Draws round-number inputs that keep the math doable on paper. */
+export function generateExercise(kind: ExerciseKind, random: () => number = Math.random): Exercise {
+  if (kind === "paper_lbo") {
+    const entryMultiple = pick([8, 9, 10, 11, 12], random);
+    return buildExercise({
+      kind,
+      ltmEbitda: pick([50, 80, 100, 120, 150, 200], random),
+      entryMultiple,
+      exitMultiple: entryMultiple + pick([-1, 0, 0, 1], random),
+      leverage: pick([4, 5, 6], random),
+      growthPercent: pick([3, 5, 8, 10], random),
+      interestPercent: pick([6, 8, 10], random),
+      taxPercent: 25,
+      daPercent: pick([10, 20], random),
+    });
+  }
+  return buildExercise({
+    kind,
+    baseFcf: pick([50, 80, 100, 150], random),
+    growthPercent: pick([4, 6, 8, 10], random),
+    waccPercent: pick([8, 9, 10, 11, 12], random),
+    terminalGrowthPercent: pick([2, 2.5, 3], random),
+    netDebt: pick([100, 200, 300, 500], random),
+    sharesOutstanding: pick([20, 25, 40, 50], random),
+  });
+}
+
+/** Paper math rounds, so dollar figures get 2% and rates half a point. */
+function withinTolerance(unit: WorksheetUnit, entered: number, expected: number) {
+  if (unit === "x") return Math.abs(entered - expected) <= 0.1;
+  if (unit === "%") return Math.abs(entered - expected) <= 0.5;
+  return Math.abs(entered - expected) <= Math.max(0.5, Math.abs(expected) * 0.02);
+}
+
+/**
+ * Grades each step against the solution. A wrong step that follows
+ * correctly from the candidate's own earlier numbers counts as carried and
+ * earns half credit, the way an interviewer would treat a slip early on.
+ */
+export function gradeWorksheet(params: ExerciseParams, inputs: WorksheetInputs): WorksheetGrade {
+  const solution = solveExercise(params);
+  const ownExpected: Record<string, number> = {};
+  runModel(params, (key, computed) => {
+    ownExpected[key] = computed;
+    const entered = inputs[key];
+    return typeof entered === "number" ? entered : computed;
+  });
+
+  const steps = worksheetFields(params.kind).map((field): WorksheetStep => {
+    const entered = typeof inputs[field.key] === "number" ? (inputs[field.key] as number) : null;
+    const expected = solution[field.key];
+    let status: WorksheetStep["status"] = "blank";
+    if (entered !== null) {
+      if (withinTolerance(field.unit, entered, expected)) status = "correct";
+      else if (withinTolerance(field.unit, entered, ownExpected[field.key])) status = "carried";
+      else status = "incorrect";
+    }
+    return { ...field, status, expected: Math.round(expected * 100) / 100, entered };
+  });
+
+  const correct = steps.filter((step) => step.status === "correct").length;
+  const carried = steps.filter((step) => step.status === "carried").length;
+  const total = steps.length;
+  const score0to10 = total === 0 ? 0 : Math.round(((correct + carried * 0.5) / total) * 100) / 10;
+  return { steps, correct, carried, total, score0to10 };
+}
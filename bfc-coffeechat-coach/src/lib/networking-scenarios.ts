@@ -1,3 +1,5 @@
+import z from "zod/v4";
+
 export type RoleTrack =
   | "Investment Banking"
   | "Private Equity"
@@ -63,6 +65,41 @@ const twists = [
   "They dislike arrogance and are sensitive to tone.",
 ];
 
+/**
+ * What the coach evaluates after every answer and scores at the end of the
+ * call. `buildInstructions` and the final scorecard both read from this list.
+ */
+export const rubricKeySchema = z.enum(["tone", "structure", "content", "rapport", "referral_path"]);
+
+export type RubricKey = z.infer<typeof rubricKeySchema>;
+
+export const coffeeChatRubric: Record<RubricKey, { label: string; criteria: string }> = {
+  tone: { label: "Tone", criteria: "warmth, humility, confidence without arrogance" },
+  structure: { label: "Structure", criteria: "concise, easy to follow, no rambling" },
+  content: { label: "Content", criteria: "specificity, credibility, motivation fit" },
+  rapport: { label: "Rapport", criteria: "curiosity, active listening, follow-ups" },
+  referral_path: { label: "Referral path", criteria: "are they earning trust + asking correctly at the end" },
+};
+
+export const rubricRatingSchema = z.object({
+  rating1to5: z.number().int().min(1).max(5),
+  /** Verbatim quotes from the candidate's turns. */
+  evidence: z.array(z.string()).max(3),
+  fix: z.string(),
+});
+
+export const coffeeChatScorecardSchema = z.object({
+  ratings: z.record(rubricKeySchema, rubricRatingSchema),
+  wouldReferPercent: z.number().int().min(0).max(100),
+  wouldReferRationale: z.string(),
+  topImprovements: z.array(z.string()).min(1).max(3),
+  introRewrite: z.string(),
+  suggestedQuestions: z.array(z.string()).min(1).max(3),
+  referralAskScript: z.string(),
+});
+
+export type CoffeeChatScorecard = z.infer<typeof coffeeChatScorecardSchema>;
+
 function pick<T>(arr: T[]) {
   return arr[Math.floor(Math.random() * arr.length)];
 }
@@ -122,11 +159,7 @@ COACHING STYLE
 - Tough: blunt, high standards, call out weak answers and vagueness.
 
 WHAT TO EVALUATE (for panel tool)
-- Tone: warmth, humility, confidence without arrogance
-- Structure: concise, easy to follow, no rambling
-- Content: specificity, credibility, motivation fit
-- Rapport: curiosity, active listening, follow-ups
-- Referral path: are they earning trust + asking correctly at the end
+${rubricKeySchema.options.map((key) => `- ${coffeeChatRubric[key].label}: ${coffeeChatRubric[key].criteria}`).join("\n")}
 
 OUTPUT BEHAVIOR
 - Speak as the other person in the coffee chat.
@@ -0,0 +1,75 @@
+import z from "zod/v4";
+import { pitchMemoSchema, pitchScorecardSchema, pitchSetupSchema, pitchTurnSchema } from "@/lib/stock-pitch";
+import { createFileStore, type RecordStore } from "@/lib/storage";
+
+/* ------------------------------------------------------------------ */
+/*  Persisted stock pitches and their memos                            */
+/* ------------------------------------------------------------------ */
+
+export const pitchAttemptSchema = z.object({
+  at: z.string(),
+  setup: pitchSetupSchema,
+  transcript: z.array(pitchTurnSchema),
+  scorecard: pitchScorecardSchema,
+});
+
+export type PitchAttempt = z.infer<typeof pitchAttemptSchema>;
+
+/** One stock idea: the memo the candidate keeps editing and every cross-exam it went through. */
+export const pitchMemoRecordSchema = z.object({
+  id: z.string(),
+  userEmail: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  setup: pitchSetupSchema,
+  memo: pitchMemoSchema,
+  attempts: z.array(pitchAttemptSchema).default([]),
+});
+
+export type PitchMemoRecord = z.infer<typeof pitchMemoRecordSchema>;
+
+let store: RecordStore<PitchMemoRecord> | null = null;
+
+export function getPitchMemoStore() {
+  if (!store) {
+    store = createFileStore("pitch-memos", pitchMemoRecordSchema);
+  }
+  return store;
+}
+
+/** Returns the pitch only when it belongs to the given user. */
+export async function getPitchMemo(id: string, userEmail: string) {
+  const record = await getPitchMemoStore().get(id);
+  return record && record.userEmail === userEmail ? record : null;
+}
+
+export async function listPitchMemos(userEmail: string) {
+  return getPitchMemoStore().listByUser(userEmail);
+}
+
+/**
+ * Creates a pitch, or updates the memo of an existing one when `id` is
+ * given. A graded attempt, if passed, is appended to the pitch's history.
+ * Returns null if `id` does not belong to the user.
+ */
+export async function savePitchMemo(
+  userEmail: string,
+  input: Pick<PitchMemoRecord, "setup" | "memo"> & { attempt?: Omit<PitchAttempt, "at"> },
+  id?: string
+) {
+  const now = new Date().toISOString();
+  const existing = id ? await getPitchMemo(id, userEmail) : null;
+  if (id && !existing) return null;
+  const attempts = existing?.attempts ?? [];
+  const record: PitchMemoRecord = {
+    id: existing?.id ?? crypto.randomUUID(),
+    userEmail,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    setup: input.setup,
+    memo: input.memo,
+    attempts: input.attempt ? [...attempts, { ...input.attempt, at: now }] : attempts,
+  };
+  await getPitchMemoStore().put(record);
+  return record;
+}
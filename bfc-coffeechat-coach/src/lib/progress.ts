@@ -0,0 +1,202 @@
+import type { InterviewSession } from "@/lib/interview-sessions";
+import { type InterviewMode, interviewModeConfigs } from "@/lib/mock-interview";
+import type { QuestionType } from "@/lib/question-bank";
+
+/* ------------------------------------------------------------------ */
+/*  Progress report built from stored mock interview grades            */
+/* ------------------------------------------------------------------ */
+
+const WEAK_THRESHOLD = 5;
+const RECENT_WINDOW = 5;
+const MIN_GRADES_TO_FLAG = 3;
+
+export type ProgressPoint = {
+  at: string;
+  score: number;
+};
+
+export type ProgressBucket = {
+  key: string;
+  label: string;
+  count: number;
+  average: number;
+  recentAverage: number;
+  points: ProgressPoint[];
+};
+
+export type ProgressFlag = {
+  dimension: "type" | "mode" | "firm";
+  key: string;
+  message: string;
+};
+
+export type RecurringGap = {
+  label: string;
+  count: number;
+  example: string;
+};
+
+export type ProgressReport = {
+  totalSessions: number;
+  totalAnswers: number;
+  overallAverage: number | null;
+  overTime: ProgressPoint[];
+  byType: ProgressBucket[];
+  byMode: ProgressBucket[];
+  byFirm: ProgressBucket[];
+  recurringGaps: RecurringGap[];
+  flags: ProgressFlag[];
+};
+
+type GradedAnswer = {
+  at: string;
+  score: number;
+  type: QuestionType;
+  mode: string;
+  firm: string;
+  gaps: string[];
+};
+
+/**
+ * Gap phrasing varies from grade to grade, so recurring gaps are grouped by
+ * theme. Gaps that match no theme are only counted when repeated verbatim.
+ */
+const gapThemes: Array<{ label: string; pattern: RegExp }> = [
+  { label: "Lead with the answer", pattern: /lead with|conclusion|bottom line|answer first|up front|upfront/i },
+  { label: "Be more specific / quantify", pattern: /specific|quantif|number|metric|concrete|data point/i },
+  { label: "Structure the answer", pattern: /structur|organi[sz]|framework|step[- ]by[- ]step|logical flow/i },
+  { label: "Be more concise", pattern: /concise|rambl|too long|wordy|tighten|brevity/i },
+  { label: "Technical accuracy", pattern: /mechanic|formula|calculat|incorrect|wrong|inaccura|math/i },
+  { label: "Use a concrete example (STAR)", pattern: /example|star\b|situation|result|outcome/i },
+  { label: "Address risks and counterpoints", pattern: /risk|bear case|downside|counter|mitigat/i },
+  { label: "Valuation assumptions", pattern: /wacc|terminal|multiple|discount rate|assumption/i },
+  { label: "Show motivation and fit", pattern: /motivation|why (this|the) firm|fit|passion|interest in/i },
+];
+
+function round1(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function mean(values: number[]) {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function collectAnswers(sessions: InterviewSession[]): GradedAnswer[] {
+  const answers: GradedAnswer[] = [];
+  for (const session of sessions) {
+    const typeByIndex = new Map(session.plan.map((item) => [item.qIndex, item.type]));
+    for (const entry of session.grades) {
+      answers.push({
+        at: entry.gradedAt,
+        score: entry.grade.score0to10,
+        type: typeByIndex.get(entry.qIndex) ?? "other",
+        mode: session.interviewMode,
+        firm: session.settings.firm,
+        gaps: entry.grade.gaps,
+      });
+    }
+  }
+  return answers.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+function bucketBy(
+  answers: GradedAnswer[],
+  keyOf: (answer: GradedAnswer) => string,
+  labelOf: (key: string) => string
+): ProgressBucket[] {
+  const groups = new Map<string, GradedAnswer[]>();
+  for (const answer of answers) {
+    const key = keyOf(answer);
+    groups.set(key, [...(groups.get(key) ?? []), answer]);
+  }
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const scores = group.map((answer) => answer.score);
+      return {
+        key,
+        label: labelOf(key),
+        count: group.length,
+        average: round1(mean(scores)),
+        recentAverage: round1(mean(scores.slice(-RECENT_WINDOW))),
+        points: group.map((answer) => ({ at: answer.at, score: answer.score })),
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+}
+
+function flagWeak(dimension: ProgressFlag["dimension"], buckets: ProgressBucket[]): ProgressFlag[] {
+  const flags: ProgressFlag[] = [];
+  for (const bucket of buckets) {
+    if (bucket.count < MIN_GRADES_TO_FLAG) continue;
+    const recentCount = Math.min(bucket.count, RECENT_WINDOW);
+    if (bucket.recentAverage < WEAK_THRESHOLD) {
+      flags.push({
+        dimension,
+        key: bucket.key,
+        message: `${bucket.label} trending below ${WEAK_THRESHOLD} (avg ${bucket.recentAverage} over last ${recentCount})`,
+      });
+    } else if (bucket.count > RECENT_WINDOW && bucket.recentAverage <= bucket.average - 1.5) {
+      flags.push({
+        dimension,
+        key: bucket.key,
+        message: `${bucket.label} slipping (last ${recentCount} avg ${bucket.recentAverage} vs ${bucket.average} overall)`,
+      });
+    }
+  }
+  return flags;
+}
+
+function findRecurringGaps(answers: GradedAnswer[]): RecurringGap[] {
+  const counts = new Map<string, RecurringGap>();
+  // Newest first, so each group keeps its most recent wording as the example.
+  for (const answer of [...answers].reverse()) {
+    for (const gap of answer.gaps) {
+      const theme = gapThemes.find((candidate) => candidate.pattern.test(gap));
+      const label = theme?.label ?? gap.trim().replace(/[.\s]+$/, "");
+      const key = label.toLowerCase();
+      const existing = counts.get(key);
+      if (existing) {
+        existing.count += 1;
+      } else {
+        counts.set(key, { label, count: 1, example: gap });
+      }
+    }
+  }
+  return Array.from(counts.values())
+    .filter((gap) => gap.count >= 2)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 8);
+}
+
+function overTimeFor(sessions: InterviewSession[]): ProgressPoint[] {
+  return sessions
+    .filter((session) => session.grades.length > 0)
+    .map((session) => ({
+      at: session.createdAt,
+      score: round1(mean(session.grades.map((entry) => entry.grade.score0to10))),
+    }))
+    .sort((a, b) => a.at.localeCompare(b.at));
+}
+
+export function buildProgressReport(sessions: InterviewSession[]): ProgressReport {
+  const answers = collectAnswers(sessions);
+  const byType = bucketBy(answers, (answer) => answer.type, (key) => key);
+  const byMode = bucketBy(
+    answers,
+    (answer) => answer.mode,
+    (key) => interviewModeConfigs[key as InterviewMode]?.label ?? key
+  );
+  const byFirm = bucketBy(answers, (answer) => answer.firm, (key) => key);
+
+  return {
+    totalSessions: sessions.filter((session) => session.grades.length > 0).length,
+    totalAnswers: answers.length,
+    overallAverage: answers.length > 0 ? round1(mean(answers.map((answer) => answer.score))) : null,
+    overTime: overTimeFor(sessions),
+    byType,
+    byMode,
+    byFirm,
+    recurringGaps: findRecurringGaps(answers),
+    flags: [...flagWeak("type", byType), ...flagWeak("mode", byMode), ...flagWeak("firm", byFirm)],
+  };
+}
@@ -0,0 +1,310 @@
+import { promises as fs } from "fs";
+import path from "path";
+import z from "zod/v4";
+import { questionTypeSchema } from "@/lib/mock-interview";
+import {
+  type ManualQuestionRecord,
+  loadGeneratedQuestions,
+  loadManualQuestions,
+  promptFingerprint,
+  questionBankPath,
+  resetQuestionBankCache,
+  resolveManualOverrides,
+} from "@/lib/question-bank";
+import { questionStageOptions } from "@/lib/question-heuristics";
+import { LOW_CONFIDENCE_THRESHOLD } from "@/lib/question-classifier";
+import { getDataDir } from "@/lib/storage";
+
+/* ------------------------------------------------------------------ */
+/*  Admin edits to the question bank, persisted in the manual layer    */
+/* ------------------------------------------------------------------ */
+
+const MANUAL_FILE = "question-bank.manual.json";
+const AUDIT_FILE = "question-bank.audit.jsonl";
+const PAGE_SIZE = 50;
+
+const difficultySchema = z.union([z.literal(1), z.literal(2), z.literal(3)]);
+const idsSchema = z.array(z.string().min(1).max(120)).min(1).max(200);
+
+const tagChangesSchema = z.object({
+  questionType: questionTypeSchema.optional(),
+  difficulty: difficultySchema.optional(),
+  stage: z.enum(questionStageOptions).optional(),
+  group: z.string().trim().min(1).max(80).optional(),
+});
+
+const recordChangesSchema = tagChangesSchema.extend({
+  prompt: z.string().trim().min(3).max(2000).optional(),
+  notes: z.string().trim().max(2000).optional(),
+  firm: z.string().trim().min(1).max(80).optional(),
+});
+
+export const questionEditSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("update"), id: z.string().min(1), changes: recordChangesSchema }),
+  z.object({ action: z.literal("retag"), ids: idsSchema, changes: tagChangesSchema }),
+  z.object({ action: z.literal("delete"), ids: idsSchema }),
+  z.object({ action: z.literal("merge"), keepId: z.string().min(1), duplicateIds: idsSchema.max(20) }),
+  z.object({ action: z.literal("restore"), ids: idsSchema }),
+]);
+
+export type QuestionEdit = z.infer<typeof questionEditSchema>;
+
+export const questionSearchSchema = z.object({
+  query: z.string().max(200).default(""),
+  firm: z.string().default("All"),
+  questionType: z.union([questionTypeSchema, z.literal("all")]).default("all"),
+  status: z.enum(["all", "edited", "deleted", "needs_review"]).default("all"),
+  page: z.number().int().min(0).default(0),
+});
+
+export type QuestionSearch = z.infer<typeof questionSearchSchema>;
+
+export type AdminQuestion = ManualQuestionRecord & {
+  edited: boolean;
+};
+
+export type QuestionAuditEntry = {
+  id: string;
+  at: string;
+  actor: string;
+  action: QuestionEdit["action"];
+  ids: string[];
+  summary: string;
+  before: ManualQuestionRecord[];
+  after: ManualQuestionRecord[];
+};
+
+// Edits read, modify and rewrite one file, so they run one at a time.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>) {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+// The audit log is runtime data, so it lives with the other stores instead of in data/.
+function auditPath() {
+  return path.join(getDataDir(), AUDIT_FILE);
+}
+
+async function writeManual(records: ManualQuestionRecord[]) {
+  const file = questionBankPath(MANUAL_FILE);
+  const tmp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(records, null, 2));
+  await fs.rename(tmp, file);
+}
+
+/**
+ * Every record the admin can see: generated, overridden and deleted.
+ * Generated records carry their fingerprint so overrides made from them can
+ * find the question again after a rebuild renumbers it. Stale overrides are
+ * hidden but kept in the file.
+ */
+function loadAdminQuestions() {
+  const generated = loadGeneratedQuestions();
+  const { overrides: manual, stale } = resolveManualOverrides(generated, loadManualQuestions());
+  const byId = new Map<string, AdminQuestion>(
+    generated.map((record) => [
+      record.id,
+      { sourceFingerprint: promptFingerprint(record.prompt), ...record, edited: false },
+    ])
+  );
+  for (const override of manual) {
+    byId.set(override.id, { ...override, edited: true });
+  }
+  return { manual, stale, byId };
+}
+
+function stripAdminFields(question: AdminQuestion): ManualQuestionRecord {
+  const record: ManualQuestionRecord & { edited?: boolean } = { ...question };
+  delete record.edited;
+  return record;
+}
+
+export function searchAdminQuestions(search: QuestionSearch) {
+  const query = search.query.trim().toLowerCase();
+  const matches = Array.from(loadAdminQuestions().byId.values()).filter((question) => {
+    if (search.firm !== "All" && question.firm !== search.firm) return false;
+    if (search.questionType !== "all" && question.questionType !== search.questionType) return false;
+    if (search.status === "edited" && (!question.edited || question.deleted)) return false;
+    if (search.status === "deleted" && !question.deleted) return false;
+    if (search.status !== "deleted" && search.status !== "all" && question.deleted) return false;
+    if (
+      search.status === "needs_review" &&
+      (!question.classification || question.classification.confidence >= LOW_CONFIDENCE_THRESHOLD)
+    ) {
+      return false;
+    }
+    if (!query) return true;
+    return (
+      question.id.toLowerCase().includes(query) ||
+      question.prompt.toLowerCase().includes(query) ||
+      question.notes.toLowerCase().includes(query)
+    );
+  });
+  return {
+    total: matches.length,
+    pageSize: PAGE_SIZE,
+    results: matches.slice(search.page * PAGE_SIZE, (search.page + 1) * PAGE_SIZE),
+  };
+}
+
+function describeEdit(edit: QuestionEdit) {
+  switch (edit.action) {
+    case "update":
+      return `Edited ${Object.keys(edit.changes).join(", ") || "nothing"} on ${edit.id}`;
+    case "retag":
+      return `Retagged ${edit.ids.length} question(s): ${Object.entries(edit.changes)
+        .map(([key, value]) => `${key} → ${value}`)
+        .join(", ")}`;
+    case "delete":
+      return `Deleted ${edit.ids.length} question(s)`;
+    case "merge":
+      return `Merged ${edit.duplicateIds.length} duplicate(s) into ${edit.keepId}`;
+    case "restore":
+      return `Restored ${edit.ids.length} question(s) to the generated version`;
+  }
+}
+
+/** Raised for edits that reference unknown ids or contradict themselves; routes answer 400. */
+export class QuestionEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuestionEditError";
+  }
+}
+
+function requireQuestion(byId: Map<string, AdminQuestion>, id: string) {
+  const question = byId.get(id);
+  if (!question) throw new QuestionEditError(`Unknown question id: ${id}`);
+  return question;
+}
+
+// Labels set by an officer are reviewed by definition, so the classifier's confidence no longer applies.
+function withChanges(question: AdminQuestion, changes: Partial<ManualQuestionRecord>) {
+  const next: ManualQuestionRecord = { ...stripAdminFields(question), ...changes };
+  const retagged = ["questionType", "difficulty", "stage", "group"].some((key) => key in changes);
+  if (retagged) delete next.classification;
+  return next;
+}
+
+/**
+ * Applies one edit to the manual layer and appends an audit entry holding
+ * the before and after versions of every touched record.
+ */
+export function applyQuestionEdit(actor: string, edit: QuestionEdit) {
+  return serialized(async () => {
+    const { manual, stale, byId } = loadAdminQuestions();
+    const overrides = new Map<string, ManualQuestionRecord>(manual.map((record) => [record.id, record]));
+    const before: ManualQuestionRecord[] = [];
+    const after: ManualQuestionRecord[] = [];
+    const touch = (question: AdminQuestion, next: ManualQuestionRecord | null) => {
+      before.push(stripAdminFields(question));
+      if (next) {
+        overrides.set(next.id, next);
+        after.push(next);
+      } else {
+        overrides.delete(question.id);
+      }
+    };
+
+    switch (edit.action) {
+      case "update": {
+        const question = requireQuestion(byId, edit.id);
+        touch(question, withChanges(question, edit.changes));
+        break;
+      }
+      case "retag":
+        for (const id of edit.ids) {
+          const question = requireQuestion(byId, id);
+          touch(question, withChanges(question, edit.changes));
+        }
+        break;
+      case "delete":
+        for (const id of edit.ids) {
+          const question = requireQuestion(byId, id);
+          touch(question, { ...stripAdminFields(question), deleted: true });
+        }
+        break;
+      case "merge": {
+        if (edit.duplicateIds.includes(edit.keepId)) {
+          throw new QuestionEditError("The kept question cannot also be a duplicate.");
+        }
+        const keep = requireQuestion(byId, edit.keepId);
+        const duplicates = edit.duplicateIds.map((id) => requireQuestion(byId, id));
+        const otherFirms = Array.from(
+          new Set(duplicates.map((question) => question.firm).filter((firm) => firm !== keep.firm))
+        );
+        const mergedNote = `Merged ${duplicates.map((question) => question.id).join(", ")}${
+          otherFirms.length > 0 ? `; also asked at ${otherFirms.join(", ")}` : ""
+        }`;
+        touch(keep, {
+          ...stripAdminFields(keep),
+          notes: [keep.notes, mergedNote].filter(Boolean).join("; "),
+        });
+        for (const duplicate of duplicates) {
+          touch(duplicate, { ...stripAdminFields(duplicate), deleted: true, mergedInto: keep.id });
+        }
+        break;
+      }
+      case "restore": {
+        const generated = new Map(loadGeneratedQuestions().map((record) => [record.id, record]));
+        for (const id of edit.ids) {
+          const question = requireQuestion(byId, id);
+          if (!question.edited) continue;
+          // Manual-only questions have nothing to fall back to, so restoring just undeletes them.
+          const original = generated.get(id);
+          if (original) {
+            touch(question, null);
+            after.push(original);
+          } else {
+            const undeleted = stripAdminFields(question);
+            delete undeleted.deleted;
+            delete undeleted.mergedInto;
+            touch(question, undeleted);
+          }
+        }
+        break;
+      }
+    }
+
+    await writeManual([...overrides.values(), ...stale]);
+    resetQuestionBankCache();
+
+    const entry: QuestionAuditEntry = {
+      id: crypto.randomUUID(),
+      at: new Date().toISOString(),
+      actor,
+      action: edit.action,
+      ids: before.map((record) => record.id),
+      summary: describeEdit(edit),
+      before,
+      after,
+    };
+    await fs.mkdir(getDataDir(), { recursive: true });
+    await fs.appendFile(auditPath(), `${JSON.stringify(entry)}\n`);
+    return { entry, records: after };
+  });
+}
+
+/** Newest audit entries first. */
+export async function listQuestionAudit(limit = 50): Promise<QuestionAuditEntry[]> {
+  let text = "";
+  try {
+    text = await fs.readFile(auditPath(), "utf8");
+  } catch {
+    return [];
+  }
+  const entries: QuestionAuditEntry[] = [];
+  for (const line of text.split("\n").reverse()) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as QuestionAuditEntry);
+    } catch {
+      continue;
+    }
+    if (entries.length >= limit) break;
+  }
+  return entries;
+}
@@ -1,5 +1,8 @@
+import { createHash } from "crypto";
 import fs from "fs";
 import path from "path";
+import z from "zod/v4";
+import { type AnswerKey, answerKeySchema } from "@/lib/answer-key";
 
 export type QuestionStage =
   | "coffee_chat"
@@ -29,6 +32,18 @@ export type QuestionRecord = {
   prompt: string;
   notes: string;
   source: string;
+  /** Id of the first record in this record's near-duplicate cluster (its own id when unique). */
+  canonicalId?: string;
+  /** Named firms whose contributors reported a question from the same cluster. */
+  askedAtFirms?: number;
+  /** Exact figures and statement impacts from data/question-bank.answer-keys.json. */
+  answerKey?: AnswerKey;
+  /** Present when the record was labelled by the classification pass. */
+  classification?: {
+    source: "llm" | "heuristic";
+    model: string;
+    confidence: number;
+  };
 };
 
 export type QuestionBankMeta = {
@@ -38,6 +53,22 @@ export type QuestionBankMeta = {
   countsByStage: Record<string, number>;
 };
 
+/**
+ * Overrides from data/question-bank.manual.json, merged over the generated
+ * bank by `id`. Deleted entries stay in the file so a rebuild of the PDF does
+ * not bring the question back.
+ */
+export type ManualQuestionRecord = QuestionRecord & {
+  deleted?: boolean;
+  /** Set when the record was folded into another as a duplicate. */
+  mergedInto?: string;
+  /**
+   * promptFingerprint of the generated question this override edits. Absent
+   * on questions that only exist in the manual layer.
+   */
+  sourceFingerprint?: string;
+};
+
 let cachedQuestions: QuestionRecord[] | null = null;
 let cachedMeta: QuestionBankMeta | null = null;
 
@@ -46,16 +77,157 @@ function readJson<T>(filePath: string): T {
   return JSON.parse(data) as T;
 }
 
+export function questionBankPath(file: string) {
+  return path.join(process.cwd(), "data", file);
+}
+
+export function loadGeneratedQuestions() {
+  return readJson<QuestionRecord[]>(questionBankPath("question-bank.json"));
+}
+
+export function loadManualQuestions(): ManualQuestionRecord[] {
+  const filePath = questionBankPath("question-bank.manual.json");
+  if (!fs.existsSync(filePath)) return [];
+  const manual = readJson<ManualQuestionRecord[]>(filePath);
+  return Array.isArray(manual) ? manual : [];
+}
+
+/**
+ * Short hash of a prompt with case, punctuation and spacing normalized.
+ * Ids are positional ("evercore-12") and shift when the build keeps or drops
+ * a line, so data keyed by id also stores this to check it still points at
+ * the same question. scripts/build-question-bank.cjs computes the same hash.
+ */
+export function promptFingerprint(prompt: string) {
+  const normalized = prompt.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+/**
+ * Finds the generated question each override belongs to. Ids are positional,
+ * so an override whose id now holds a different prompt moves to the record
+ * with its sourceFingerprint, and is left out (`stale`) when no record has
+ * it. Overrides without a fingerprint apply by id.
+ */
+export function resolveManualOverrides(records: QuestionRecord[], manual: ManualQuestionRecord[]) {
+  const byId = new Map<string, ManualQuestionRecord>(records.map((record) => [record.id, record]));
+  // Builds bake the manual layer into the generated bank, so a record can also carry the fingerprint itself.
+  const matches = (record: ManualQuestionRecord, fingerprint: string) =>
+    record.sourceFingerprint === fingerprint || promptFingerprint(record.prompt) === fingerprint;
+  const overrides: ManualQuestionRecord[] = [];
+  const stale: ManualQuestionRecord[] = [];
+  for (const override of manual) {
+    if (!override?.id) continue;
+    const fingerprint = override.sourceFingerprint;
+    const current = byId.get(override.id);
+    if (!fingerprint || (current && matches(current, fingerprint))) {
+      overrides.push(override);
+      continue;
+    }
+    const moved = records.find((record) => matches(record, fingerprint));
+    if (moved) {
+      overrides.push({ ...override, id: moved.id });
+    } else {
+      console.warn(`[question-bank] ignoring manual override for ${override.id}: its question is no longer in the bank`);
+      stale.push(override);
+    }
+  }
+  return { overrides, stale };
+}
+
+/** Same merge as the build script's mergeManual, plus deletions. */
+export function applyManualOverrides(records: QuestionRecord[], manual: ManualQuestionRecord[]) {
+  const byId = new Map<string, QuestionRecord>(records.map((record) => [record.id, record]));
+  for (const override of resolveManualOverrides(records, manual).overrides) {
+    const generated = byId.get(override.id);
+    if (override.deleted) {
+      byId.delete(override.id);
+    } else {
+      // Overrides saved before clustering keep the cluster of the generated record.
+      byId.set(override.id, {
+        canonicalId: generated?.canonicalId,
+        askedAtFirms: generated?.askedAtFirms,
+        ...override,
+      });
+    }
+  }
+  return Array.from(byId.values());
+}
+
+const storedAnswerKeySchema = answerKeySchema.extend({
+  /** promptFingerprint of the question the key was written for. */
+  promptFingerprint: z.string().min(1),
+});
+
+type StoredAnswerKey = z.infer<typeof storedAnswerKeySchema>;
+
+/**
+ * Answer keys from data/question-bank.answer-keys.json, by question id. Kept
+ * out of the generated bank so a rebuild from the PDF does not drop them.
+ * Keys that fail validation are skipped with a warning.
+ */
+export function loadAnswerKeys() {
+  const filePath = questionBankPath("question-bank.answer-keys.json");
+  const keys = new Map<string, StoredAnswerKey>();
+  if (!fs.existsSync(filePath)) return keys;
+  const raw = readJson<Record<string, unknown>>(filePath);
+  for (const [id, value] of Object.entries(raw ?? {})) {
+    const parsed = storedAnswerKeySchema.safeParse(value);
+    if (parsed.success) {
+      keys.set(id, parsed.data);
+    } else {
+      console.warn(`[question-bank] ignoring invalid answer key for ${id}`);
+    }
+  }
+  return keys;
+}
+
+/** Attaches each key to its question, skipping keys whose question id now holds a different prompt. */
+export function applyAnswerKeys(records: QuestionRecord[], keys: Map<string, StoredAnswerKey>) {
+  if (keys.size === 0) return records;
+  return records.map((record) => {
+    const stored = keys.get(record.id);
+    if (!stored) return record;
+    const { promptFingerprint: expected, ...answerKey } = stored;
+    if (expected !== promptFingerprint(record.prompt)) {
+      console.warn(`[question-bank] ignoring stale answer key for ${record.id}: the prompt no longer matches`);
+      return record;
+    }
+    return { ...record, answerKey };
+  });
+}
+
+export function buildQuestionBankMeta(records: QuestionRecord[]): QuestionBankMeta {
+  const firms = Array.from(new Set(records.map((r) => r.firm).filter((firm) => firm !== "Other"))).sort();
+  const countsByFirm: Record<string, number> = {};
+  const countsByType: Record<string, number> = {};
+  const countsByStage: Record<string, number> = {};
+  for (const record of records) {
+    countsByFirm[record.firm] = (countsByFirm[record.firm] || 0) + 1;
+    countsByType[record.questionType] = (countsByType[record.questionType] || 0) + 1;
+    countsByStage[record.stage] = (countsByStage[record.stage] || 0) + 1;
+  }
+  return { firms, countsByFirm, countsByType, countsByStage };
+}
+
 export function loadQuestionBank() {
   if (cachedQuestions) return cachedQuestions;
-  const filePath = path.join(process.cwd(), "data", "question-bank.json");
-  cachedQuestions = readJson<QuestionRecord[]>(filePath);
+  cachedQuestions = applyAnswerKeys(
+    applyManualOverrides(loadGeneratedQuestions(), loadManualQuestions()),
+    loadAnswerKeys()
+  );
   return cachedQuestions;
 }
 
 export function loadQuestionBankMeta() {
   if (cachedMeta) return cachedMeta;
-  const filePath = path.join(process.cwd(), "data", "question-bank.meta.json");
-  cachedMeta = readJson<QuestionBankMeta>(filePath);
+  // Derived from the merged bank so admin edits show up without a rebuild.
+  cachedMeta = buildQuestionBankMeta(loadQuestionBank());
   return cachedMeta;
 }
+
+/** Drops the in-memory copies after the manual layer changes. */
+export function resetQuestionBankCache() {
+  cachedQuestions = null;
+  cachedMeta = null;
+}
@@ -0,0 +1,172 @@
+import { createHash } from "crypto";
+import z from "zod/v4";
+import { generateJson, LlmError, resolveRouteConfig } from "@/lib/llm";
+import { questionTypeSchema } from "@/lib/mock-interview";
+import {
+  classifyQuestionLocally,
+  questionGroupOptions,
+  questionStageOptions,
+  type QuestionClassificationInput,
+} from "@/lib/question-heuristics";
+
+/* ------------------------------------------------------------------ */
+/*  Batch classification of question bank records, cached by content   */
+/* ------------------------------------------------------------------ */
+
+// Bump when the prompt or label set changes so cached labels are redone.
+export const CLASSIFIER_VERSION = 1;
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+const BATCH_SIZE = 25;
+
+export const questionLabelSchema = z.object({
+  id: z.string(),
+  questionType: questionTypeSchema,
+  difficulty: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  stage: z.enum(questionStageOptions),
+  group: z.enum(questionGroupOptions),
+  confidence: z.number().min(0).max(1),
+});
+
+const classificationResponseSchema = z.object({
+  labels: z.array(questionLabelSchema),
+});
+
+export type QuestionLabel = Omit<z.infer<typeof questionLabelSchema>, "id"> & {
+  source: "llm" | "heuristic";
+  model: string;
+};
+
+/** Labels keyed by content hash, so an unchanged question is never sent twice. */
+export type ClassificationCache = Record<string, QuestionLabel>;
+
+export type ClassificationStats = {
+  cached: number;
+  classified: number;
+  fallbacks: number;
+  failedBatches: number;
+  lowConfidence: number;
+  /** Questions left unlabeled because `cacheOnly` was set. */
+  uncached: number;
+};
+
+export function contentHash(input: QuestionClassificationInput) {
+  return createHash("sha256")
+    .update(JSON.stringify([CLASSIFIER_VERSION, input.prompt, input.notes, input.group]))
+    .digest("hex")
+    .slice(0, 20);
+}
+
+function heuristicLabel(input: QuestionClassificationInput): QuestionLabel {
+  const { questionType, difficulty, stage, group, confidence } = classifyQuestionLocally(input);
+  return { questionType, difficulty, stage, group, confidence, source: "heuristic", model: "keyword-heuristics" };
+}
+
+function buildPrompt(batch: QuestionClassificationInput[]) {
+  return [
+    "Classify interview questions for an investment banking / private equity question bank.",
+    `For each question return: id, questionType (${questionTypeSchema.options.join(", ")}),`,
+    "difficulty (1 = recall or fit, 2 = conceptual technical, 3 = multi-step math or modeling),",
+    `stage (${questionStageOptions.join(", ")}; use unknown unless the question or notes say so),`,
+    `group (${questionGroupOptions.join(", ")}; infer from the group/location field, unknown if unclear),`,
+    "and confidence from 0 to 1 for the labels as a whole.",
+    'Return JSON only: {"labels":[{"id":"...","questionType":"...","difficulty":1,"stage":"...","group":"...","confidence":0.8}]}',
+    "",
+    "Questions (JSON):",
+    JSON.stringify(batch.map(({ id, prompt, notes, group }) => ({ id, prompt, notes, group }))),
+  ].join("\n");
+}
+
+async function classifyBatch(batch: QuestionClassificationInput[]) {
+  const result = await generateJson(classificationResponseSchema, {
+    route: "question_classify",
+    messages: [
+      { role: "system", content: "You label interview questions. Return strict JSON only." },
+      { role: "user", content: buildPrompt(batch) },
+    ],
+    maxOutputTokens: 4000,
+    timeoutMs: 60000,
+    retries: 1,
+  });
+  const source: QuestionLabel["source"] = result.provider === "local" ? "heuristic" : "llm";
+  return new Map(
+    result.data.labels.map(({ id, ...label }): [string, QuestionLabel] => [id, { ...label, source, model: result.model }])
+  );
+}
+
+export type ClassifyOptions = {
+  /** Ignore the cache and label everything again. */
+  refresh?: boolean;
+  /** Only apply cached labels (of any source); never call the provider. */
+  cacheOnly?: boolean;
+  onProgress?: (done: number, total: number) => void;
+};
+
+/**
+ * Labels every question, reusing cached labels for unchanged content. With
+ * `cacheOnly`, questions without a cached label are left out of `labels`. A batch
+ * that fails (missing key, upstream error, malformed output) falls back to
+ * the keyword heuristics so a rebuild never stalls on the provider. The
+ * returned cache only holds entries for the current questions.
+ */
+export async function classifyQuestions(
+  questions: QuestionClassificationInput[],
+  cache: ClassificationCache,
+  { refresh = false, cacheOnly = false, onProgress }: ClassifyOptions = {}
+) {
+  // Heuristic labels cached by an offline run are redone once a real provider is configured.
+  const offline = resolveRouteConfig("question_classify").provider === "local";
+  const labels = new Map<string, QuestionLabel>();
+  const nextCache: ClassificationCache = {};
+  const stats: ClassificationStats = {
+    cached: 0,
+    classified: 0,
+    fallbacks: 0,
+    failedBatches: 0,
+    lowConfidence: 0,
+    uncached: 0,
+  };
+  const pending: Array<QuestionClassificationInput & { hash: string }> = [];
+
+  for (const question of questions) {
+    const hash = contentHash(question);
+    const cached = refresh ? undefined : cache[hash];
+    if (cached && (offline || cacheOnly || cached.source === "llm")) {
+      labels.set(question.id, cached);
+      nextCache[hash] = cached;
+      stats.cached += 1;
+    } else if (cacheOnly) {
+      stats.uncached += 1;
+    } else {
+      pending.push({ ...question, hash });
+    }
+  }
+
+  for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+    const batch = pending.slice(start, start + BATCH_SIZE);
+    let batchLabels = new Map<string, QuestionLabel>();
+    try {
+      batchLabels = await classifyBatch(batch);
+    } catch (err) {
+      if (!(err instanceof LlmError)) throw err;
+      stats.failedBatches += 1;
+    }
+    for (const question of batch) {
+      const label = batchLabels.get(question.id);
+      if (label) {
+        stats.classified += 1;
+      } else {
+        stats.fallbacks += 1;
+      }
+      const resolved = label ?? heuristicLabel(question);
+      labels.set(question.id, resolved);
+      // Fallback labels are not cached so the next rebuild retries the provider.
+      if (label) nextCache[question.hash] = resolved;
+    }
+    onProgress?.(Math.min(start + BATCH_SIZE, pending.length), pending.length);
+  }
+
+  for (const label of labels.values()) {
+    if (label.confidence < LOW_CONFIDENCE_THRESHOLD) stats.lowConfidence += 1;
+  }
+  return { labels, cache: nextCache, stats };
+}
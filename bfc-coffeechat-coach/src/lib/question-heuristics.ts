@@ -0,0 +1,141 @@
+import type { QuestionStage, QuestionType } from "@/lib/question-bank";
+
+/* ------------------------------------------------------------------ */
+/*  Offline question classifier used by the "local" provider           */
+/* ------------------------------------------------------------------ */
+
+export const questionStageOptions = [
+  "coffee_chat",
+  "hirevue",
+  "first_round",
+  "second_round",
+  "superday",
+  "unknown",
+] as const satisfies readonly QuestionStage[];
+
+export const questionGroupOptions = [
+  "Technology",
+  "Healthcare",
+  "FIG",
+  "Industrials",
+  "Consumer & Retail",
+  "Energy & Power",
+  "Real Estate",
+  "Restructuring",
+  "M&A",
+  "Leveraged Finance",
+  "Capital Markets",
+  "Private Equity",
+  "Sales & Trading",
+  "Generalist",
+  "unknown",
+] as const;
+
+export type QuestionGroup = (typeof questionGroupOptions)[number];
+
+export type QuestionClassificationInput = {
+  id: string;
+  prompt: string;
+  notes: string;
+  group: string;
+};
+
+export type HeuristicLabel = {
+  id: string;
+  questionType: QuestionType;
+  difficulty: 1 | 2 | 3;
+  stage: QuestionStage;
+  group: QuestionGroup;
+  confidence: number;
+};
+
+/** Weighted cues per question type; the highest total wins. */
+const typeCues: Array<{ type: Exclude<QuestionType, "other">; weight: number; pattern: RegExp }> = [
+  { type: "lbo", weight: 3, pattern: /\b(lbo|leveraged buyout|paper lbo|irr|moic|sponsor returns?|exit multiple)\b/i },
+  { type: "lbo", weight: 1, pattern: /\b(pe firm|private equity|debt paydown|multiple expansion)\b/i },
+  { type: "merger_math", weight: 3, pattern: /\b(accretion|dilution|accretive|dilutive|pro forma eps|merger model)\b/i },
+  { type: "merger_math", weight: 2, pattern: /\b(synerg\w*|all[- ]stock|all[- ]cash|acquirer|target'?s? (p\/e|eps)|premium paid)\b/i },
+  { type: "valuation", weight: 3, pattern: /\b(dcf|wacc|terminal value|comps|comparable|precedents?|multiples?|enterprise value|equity value)\b/i },
+  { type: "valuation", weight: 2, pattern: /\b(valu\w+|cost of (equity|debt|capital)|beta|ufcf|lfcf|fcf|ev\/|p\/e|discount rate)\b/i },
+  { type: "accounting", weight: 3, pattern: /\b((3|three)[- ]statements?|financial statements|balance sheet|income statement|cash flow statement)\b/i },
+  { type: "accounting", weight: 2, pattern: /\b(depreciation|d&a|inventory|accounts (receivable|payable)|working capital|nwc|deferred (revenue|tax)|goodwill|pp&e|write[- ]?down|accrual|ebit to cfo)\b/i },
+  { type: "market", weight: 3, pattern: /\b(s&p|fed|interest rates?|inflation|recession|macro|yield curve|ipo market|m&a (market|outlook|activity))\b/i },
+  { type: "market", weight: 2, pattern: /\b(recent deal|deal you|trend|market|sector|industry|stock pitch|pitch (me )?a stock|follow(ing)?)\b/i },
+  { type: "brainteaser", weight: 3, pattern: /\b(brain ?teaser|clock|angle|how many|market sizing|probability|squared|coin|dice)\b/i },
+  { type: "brainteaser", weight: 1, pattern: /\b(estimate|guess)\b/i },
+  { type: "behavioral", weight: 3, pattern: /\b(tell me about (yourself|a time)|walk me through your resume|tmay|time (you|when|i)|strengths?|weakness\w*|conflict|leadership|mistake|failure|feedback)\b/i },
+  { type: "behavioral", weight: 2, pattern: /^(why|what (drives|sparked|makes)|where do you see)\b|\b(why (ib|banking|us|this|the firm|here)|fit|team|motivat\w*|interests?|hobb\w*|outside of (school|work)|questions for)\b/i },
+];
+
+const stageCues: Array<{ stage: Exclude<QuestionStage, "unknown">; pattern: RegExp }> = [
+  { stage: "hirevue", pattern: /\b(hire ?vue|hirvue|recorded|one take|seconds prep)\b/i },
+  { stage: "superday", pattern: /\b(super ?day|sd\b|final round)\b/i },
+  { stage: "second_round", pattern: /\b(second round|2nd round|2r\b)\b/i },
+  { stage: "first_round", pattern: /\b(first round|1st round|1r\b|screen(ing)?|recruiter call|phone)\b/i },
+  { stage: "coffee_chat", pattern: /\b(coffee chat|cc\b|networking)\b/i },
+];
+
+const groupCues: Array<{ group: Exclude<QuestionGroup, "unknown">; pattern: RegExp }> = [
+  { group: "Restructuring", pattern: /\b(rx|restructuring|distress\w*)\b/i },
+  { group: "Private Equity", pattern: /\b(pe|private equity|buyout|acof|growth equity|investing)\b/i },
+  { group: "Leveraged Finance", pattern: /\b(lev ?fin|leveraged finance|credit|debt capital|financing)\b/i },
+  { group: "Capital Markets", pattern: /\b(ecm|dcm|capital markets|capital solutions)\b/i },
+  { group: "Sales & Trading", pattern: /\b(s&t|sales|trading|equities|markets)\b/i },
+  { group: "Healthcare", pattern: /\b(hc|healthcare|health care|life sciences?|biotech|medtech|pharma)\b/i },
+  { group: "FIG", pattern: /\b(fig|financial institutions|fintech|insurance)\b/i },
+  { group: "Industrials", pattern: /\b(industrials?|aerospace|defense|business services|infrastructure)\b/i },
+  { group: "Consumer & Retail", pattern: /\b(consumer|retail|cr\b|food)\b/i },
+  { group: "Energy & Power", pattern: /\b(energy|power|oil|gas|nr\b|natural resources|utilities)\b/i },
+  { group: "Real Estate", pattern: /\b(real estate|reit|lodging|gaming)\b/i },
+  { group: "Technology", pattern: /\b(tech|technology|tmt|software|semis?|media|telecom|internet)\b/i },
+  { group: "M&A", pattern: /\b(m&a|mergers)\b/i },
+  { group: "Generalist", pattern: /\b(generalist|general|gbs|ib|investment banking)\b/i },
+];
+
+const NUMERIC_SETUP = /\$\s?\d|\d+(\.\d+)?\s?%|\d+x\b/i;
+
+function roundConfidence(value: number) {
+  return Math.round(Math.min(0.95, Math.max(0.05, value)) * 100) / 100;
+}
+
+function typeFor(prompt: string): { questionType: QuestionType; confidence: number } {
+  const totals = new Map<QuestionType, number>();
+  for (const cue of typeCues) {
+    if (cue.pattern.test(prompt)) totals.set(cue.type, (totals.get(cue.type) ?? 0) + cue.weight);
+  }
+  const ranked = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return { questionType: "other", confidence: 0.3 };
+  const [best, runnerUp] = ranked;
+  // A clear winner is more trustworthy than a narrow one.
+  const margin = best[1] - (runnerUp?.[1] ?? 0);
+  return { questionType: best[0], confidence: roundConfidence(0.45 + 0.1 * best[1] + 0.05 * margin) };
+}
+
+function difficultyFor(prompt: string, questionType: QuestionType): 1 | 2 | 3 {
+  const numeric = NUMERIC_SETUP.test(prompt);
+  if (questionType === "lbo" || questionType === "merger_math") return 3;
+  if (questionType === "valuation" || questionType === "accounting") return numeric ? 3 : 2;
+  if (questionType === "brainteaser") return numeric ? 2 : 1;
+  if (questionType === "market") return /\b(pitch|grill\w*|thesis)\b/i.test(prompt) ? 2 : 1;
+  return 1;
+}
+
+/**
+ * Labels a question with keyword cues. Deliberately conservative: it only
+ * claims a stage or group when the text names one, and confidence tracks how
+ * many cues agreed.
+ */
+export function classifyQuestionLocally(input: QuestionClassificationInput): HeuristicLabel {
+  const { questionType, confidence } = typeFor(input.prompt);
+  const context = `${input.prompt} ${input.notes}`;
+  const stage = stageCues.find((cue) => cue.pattern.test(context))?.stage ?? "unknown";
+  const group = groupCues.find((cue) => cue.pattern.test(input.group))?.group ?? "unknown";
+  return {
+    id: input.id,
+    questionType,
+    difficulty: difficultyFor(input.prompt, questionType),
+    stage,
+    group,
+    confidence,
+  };
+}
@@ -0,0 +1,227 @@
+import z from "zod/v4";
+
+/* ------------------------------------------------------------------ */
+/*  Structured resume profile                                          */
+/* ------------------------------------------------------------------ */
+
+// Missing fields default to empty rather than failing the parse; long lists
+// are cut to these sizes afterwards by capResumeProfile.
+const MAX_EDUCATION = 6;
+const MAX_EDUCATION_DETAILS = 8;
+const MAX_EXPERIENCES = 12;
+const MAX_BULLETS = 10;
+const MAX_DEALS = 15;
+const MAX_SKILLS = 30;
+
+export const resumeEducationSchema = z.object({
+  school: z.string().default(""),
+  degree: z.string().default(""),
+  dates: z.string().default(""),
+  details: z.array(z.string()).default([]),
+});
+
+export const resumeExperienceSchema = z.object({
+  organization: z.string().default(""),
+  role: z.string().default(""),
+  dates: z.string().default(""),
+  bullets: z.array(z.string()).default([]),
+});
+
+/** A transaction the candidate worked on, from a deal sheet or an experience bullet. */
+export const resumeDealSchema = z.object({
+  name: z.string().default(""),
+  /** What the candidate did on it. */
+  role: z.string().default(""),
+  details: z.string().default(""),
+});
+
+export const resumeProfileSchema = z.object({
+  name: z.string().default(""),
+  education: z.array(resumeEducationSchema).default([]),
+  experiences: z.array(resumeExperienceSchema).default([]),
+  deals: z.array(resumeDealSchema).default([]),
+  skills: z.array(z.string()).default([]),
+});
+
+export type ResumeProfile = z.infer<typeof resumeProfileSchema>;
+
+/** Cuts every list to its cap, so a long resume is trimmed instead of rejected. */
+export function capResumeProfile(profile: ResumeProfile): ResumeProfile {
+  return {
+    name: profile.name,
+    education: profile.education
+      .slice(0, MAX_EDUCATION)
+      .map((entry) => ({ ...entry, details: entry.details.slice(0, MAX_EDUCATION_DETAILS) })),
+    experiences: profile.experiences
+      .slice(0, MAX_EXPERIENCES)
+      .map((entry) => ({ ...entry, bullets: entry.bullets.slice(0, MAX_BULLETS) })),
+    deals: profile.deals.slice(0, MAX_DEALS),
+    skills: Array.from(new Set(profile.skills)).slice(0, MAX_SKILLS),
+  };
+}
+
+const MAX_PROMPT_CHARS = 3500;
+
+const MONTH = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const DATE_POINT = `(?:${MONTH}\\s+)?(?:19|20)\\d{2}`;
+const DATE_RANGE = new RegExp(
+  `(?:expected\\s+)?${DATE_POINT}(?:\\s*(?:[-–—]|to)\\s*(?:${DATE_POINT}|present|current))?`,
+  "i"
+);
+const BULLET = /^(?:[•●▪◦‣*·-]|o\s)\s*/;
+const EDUCATION_DETAIL = /^(?:gpa|cumulative gpa|relevant coursework|coursework|honors|awards|activities|study abroad)\b/i;
+
+type Section = "header" | "education" | "experience" | "deals" | "skills";
+
+const sectionHeadings: Array<[RegExp, Section]> = [
+  [/^education\b/i, "education"],
+  [/^(?:transaction|deal)s?(?:\s+experience)?\b|^selected transactions\b/i, "deals"],
+  [/^(?:work |professional |relevant |finance |investment )?experience\b|^employment\b/i, "experience"],
+  [/^(?:leadership|activities|extracurricular)/i, "experience"],
+  [/^(?:technical )?skills\b|^skills[,&\s]|^(?:additional|other) information\b|^interests\b|^languages\b/i, "skills"],
+];
+
+const DEAL_WORDS =
+  /\b(?:acqui\w+|merger|sale of|sell-side|buy-side|lbo|leveraged buyout|ipo|recap\w*|divest\w+|carve-out|financing|refinanc\w+|take-private|spin-off)\b/i;
+
+function headingFor(line: string): Section | null {
+  // Headings are short and carry no sentence punctuation.
+  if (line.length > 40 || /[.;]$/.test(line) || /:\s*\S/.test(line)) return null;
+  const text = line.replace(/[:\s]+$/, "");
+  for (const [pattern, section] of sectionHeadings) {
+    if (pattern.test(text)) return section;
+  }
+  return null;
+}
+
+function splitDates(line: string) {
+  const match = line.match(DATE_RANGE);
+  if (!match) return { text: line, dates: "" };
+  const text = line
+    .replace(match[0], " ")
+    .replace(/\s*[|,–—-]\s*$/, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  return { text, dates: match[0].trim() };
+}
+
+function dealFromBullet(bullet: string, role: string) {
+  const [head, ...rest] = bullet.split(/:\s+|\s+[–—]\s+/);
+  return rest.length > 0
+    ? { name: head.trim(), role, details: rest.join(" – ").trim() }
+    : { name: bullet.slice(0, 80).trim(), role, details: bullet };
+}
+
+/**
+ * Section-heading parser for resumes. It follows the usual finance layout
+ * (Education, Experience, Transactions, Skills) and is what the offline
+ * provider returns, plus the fallback when the model call fails.
+ */
+export function parseResumeLocally(text: string): ResumeProfile {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const profile: ResumeProfile = { name: "", education: [], experiences: [], deals: [], skills: [] };
+  let section: Section = "header";
+
+  for (const line of lines) {
+    const heading = headingFor(line);
+    if (heading) {
+      section = heading;
+      continue;
+    }
+    const isBullet = BULLET.test(line);
+    const content = line.replace(BULLET, "").trim();
+    if (!content) continue;
+
+    if (section === "header") {
+      if (!profile.name && !/[@\d]/.test(content) && content.split(" ").length <= 5) profile.name = content;
+      continue;
+    }
+
+    if (section === "education") {
+      const current = profile.education.at(-1);
+      const { text: rest, dates } = splitDates(content);
+      if (isBullet || EDUCATION_DETAIL.test(content)) {
+        if (current) current.details.push(content);
+      } else if (!current || current.degree) {
+        profile.education.push({ school: rest, degree: "", dates, details: [] });
+      } else {
+        current.degree = rest;
+        if (!current.dates) current.dates = dates;
+      }
+      continue;
+    }
+
+    if (section === "experience") {
+      const current = profile.experiences.at(-1);
+      const { text: rest, dates } = splitDates(content);
+      if (isBullet) {
+        if (current) current.bullets.push(content);
+      } else if (!current || current.bullets.length > 0 || current.role) {
+        profile.experiences.push({ organization: rest, role: "", dates, bullets: [] });
+      } else {
+        current.role = rest;
+        if (!current.dates) current.dates = dates;
+      }
+      continue;
+    }
+
+    if (section === "deals") {
+      profile.deals.push(dealFromBullet(content, ""));
+      continue;
+    }
+
+    if (section === "skills") {
+      const items = content
+        .replace(/^[A-Za-z &/]{2,30}:\s*/, "")
+        .split(/[,;|•]/)
+        .map((item) => item.trim())
+        .filter((item) => item.length > 1 && item.length <= 60);
+      profile.skills.push(...items);
+    }
+  }
+
+  // Deal bullets inside experiences count too, credited to the role they sit under.
+  for (const experience of profile.experiences) {
+    for (const bullet of experience.bullets) {
+      if (DEAL_WORDS.test(bullet) && /\$\s?\d/.test(bullet)) {
+        profile.deals.push(dealFromBullet(bullet, [experience.role, experience.organization].filter(Boolean).join(", ")));
+      }
+    }
+  }
+
+  return capResumeProfile(profile);
+}
+
+export function isEmptyResumeProfile(profile: ResumeProfile) {
+  return profile.education.length === 0 && profile.experiences.length === 0 && profile.deals.length === 0;
+}
+
+/** Plain-text profile for interviewer and planner prompts, capped so a long resume cannot crowd out the rest. */
+export function formatResumeForPrompt(profile: ResumeProfile) {
+  const lines: string[] = [];
+  if (profile.name) lines.push(`Name: ${profile.name}`);
+  if (profile.education.length > 0) {
+    lines.push("Education:");
+    for (const entry of profile.education) {
+      lines.push(`- ${[entry.school, entry.degree].filter(Boolean).join(", ")}${entry.dates ? ` (${entry.dates})` : ""}`);
+      lines.push(...entry.details.map((detail) => `  - ${detail}`));
+    }
+  }
+  if (profile.experiences.length > 0) {
+    lines.push("Experience:");
+    for (const entry of profile.experiences) {
+      lines.push(`- ${[entry.role, entry.organization].filter(Boolean).join(", ")}${entry.dates ? ` (${entry.dates})` : ""}`);
+      lines.push(...entry.bullets.map((bullet) => `  - ${bullet}`));
+    }
+  }
+  if (profile.deals.length > 0) {
+    lines.push("Deals:");
+    lines.push(...profile.deals.map((deal) => `- ${deal.name}${deal.role ? ` [${deal.role}]` : ""}: ${deal.details}`));
+  }
+  if (profile.skills.length > 0) lines.push(`Skills: ${profile.skills.join(", ")}`);
+  const text = lines.join("\n");
+  return text.length > MAX_PROMPT_CHARS ? `${text.slice(0, MAX_PROMPT_CHARS).trimEnd()}\n…` : text;
+}
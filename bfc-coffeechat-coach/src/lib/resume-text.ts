@@ -0,0 +1,38 @@
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+
+/* ------------------------------------------------------------------ */
+/*  Text extraction for uploaded resumes                               */
+/* ------------------------------------------------------------------ */
+
+// Extraction runs on this server, but /api/resume then sends the text to
+// the configured LLM provider to structure it.
+
+export type ResumeFileKind = "pdf" | "docx";
+
+const kindsByMimeType: Record<string, ResumeFileKind> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+};
+
+/** Browsers leave the type empty for some DOCX files, so the extension is checked too. */
+export function resumeFileKind(file: { type: string; name?: string }): ResumeFileKind | null {
+  const byType = kindsByMimeType[file.type.toLowerCase()];
+  if (byType) return byType;
+  const extension = file.name?.toLowerCase().split(".").pop();
+  return extension === "pdf" || extension === "docx" ? extension : null;
+}
+
+export async function extractResumeText(data: ArrayBuffer, kind: ResumeFileKind) {
+  if (kind === "docx") {
+    const { value } = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+    return value;
+  }
+  const parser = new PDFParse({ data: new Uint8Array(data) });
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,59 @@
+import { createHash } from "crypto";
+import z from "zod/v4";
+import { resumeProfileSchema } from "@/lib/resume-profile";
+import { createFileStore, type RecordStore } from "@/lib/storage";
+
+/* ------------------------------------------------------------------ */
+/*  Persisted resume profile, one per user                             */
+/* ------------------------------------------------------------------ */
+
+export const resumeRecordSchema = z.object({
+  id: z.string(),
+  userEmail: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  fileName: z.string(),
+  /** "heuristic" when the section parser stood in for the model. */
+  parsedBy: z.enum(["model", "heuristic"]),
+  profile: resumeProfileSchema,
+});
+
+export type ResumeRecord = z.infer<typeof resumeRecordSchema>;
+
+let store: RecordStore<ResumeRecord> | null = null;
+
+function getResumeStore() {
+  if (!store) {
+    store = createFileStore("resumes", resumeRecordSchema);
+  }
+  return store;
+}
+
+// One resume per user, keyed by a hash so the email never appears in a file name.
+function resumeIdFor(userEmail: string) {
+  return createHash("sha256").update(userEmail.toLowerCase()).digest("hex").slice(0, 32);
+}
+
+export async function getResume(userEmail: string) {
+  const record = await getResumeStore().get(resumeIdFor(userEmail));
+  return record && record.userEmail === userEmail ? record : null;
+}
+
+/** Replaces the user's resume. */
+export async function saveResume(userEmail: string, input: Pick<ResumeRecord, "fileName" | "parsedBy" | "profile">) {
+  const now = new Date().toISOString();
+  const existing = await getResume(userEmail);
+  const record: ResumeRecord = {
+    id: resumeIdFor(userEmail),
+    userEmail,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    ...input,
+  };
+  await getResumeStore().put(record);
+  return record;
+}
+
+export async function deleteResume(userEmail: string) {
+  await getResumeStore().remove(resumeIdFor(userEmail));
+}
@@ -0,0 +1,182 @@
+import z from "zod/v4";
+
+/* ------------------------------------------------------------------ */
+/*  STAR story bank                                                    */
+/* ------------------------------------------------------------------ */
+
+export const storyCompetencySchema = z.enum([
+  "leadership",
+  "teamwork",
+  "conflict",
+  "failure",
+  "initiative",
+  "pressure",
+]);
+
+export type StoryCompetency = z.infer<typeof storyCompetencySchema>;
+
+export const storyCompetencyLabels: Record<StoryCompetency, string> = {
+  leadership: "Leadership",
+  teamwork: "Teamwork",
+  conflict: "Conflict",
+  failure: "Failure",
+  initiative: "Initiative",
+  pressure: "Working under pressure",
+};
+
+// Matched against the interviewer's question to put the likely stories first.
+const competencyKeywords: Record<StoryCompetency, RegExp> = {
+  leadership: /\b(?:lead|led|leader\w*|in charge|took charge|manag\w+|motivat\w+)\b/i,
+  teamwork: /\b(?:team\w*|collaborat\w+|group|worked with)\b/i,
+  conflict: /\b(?:conflict|disagree\w*|difficult (?:person|coworker|teammate|client)|push(?:ed)? back|tension)\b/i,
+  failure: /\b(?:fail\w*|mistake|setback|went wrong|weakness|regret|learn(?:ed|t)? from)\b/i,
+  initiative: /\b(?:initiative|above and beyond|proactive\w*|started|built|own(?:ed|ership)?)\b/i,
+  pressure: /\b(?:pressure|deadline|stress\w*|tight timeline|juggl\w+|prioriti\w+|multiple tasks)\b/i,
+};
+
+export const starPartSchema = z.enum(["situation", "task", "action", "result"]);
+
+export type StarPart = z.infer<typeof starPartSchema>;
+
+export const starPartLabels: Record<StarPart, string> = {
+  situation: "Situation",
+  task: "Task",
+  action: "Action",
+  result: "Result",
+};
+
+const starText = z.string().trim().min(1).max(1500);
+
+export const starStoryInputSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  competencies: z.array(storyCompetencySchema).min(1).max(storyCompetencySchema.options.length),
+  situation: starText,
+  task: starText,
+  action: starText,
+  result: starText,
+});
+
+export type StarStoryInput = z.infer<typeof starStoryInputSchema>;
+
+/** Coach feedback on a drafted story, with a tightened version the user can apply. */
+export const storyFeedbackSchema = z.object({
+  score0to10: z.number().min(0).max(10),
+  strengths: z.array(z.string()).max(4),
+  gaps: z.array(z.string()).max(4),
+  revised: z.object({
+    situation: z.string(),
+    task: z.string(),
+    action: z.string(),
+    result: z.string(),
+  }),
+});
+
+export type StoryFeedback = z.infer<typeof storyFeedbackSchema>;
+
+/**
+ * How a behavioral answer compares with the stored story it retells.
+ * `storyId` and `storyTitle` are empty when the answer told none of the
+ * stored stories. The grader returns everything but the title.
+ */
+export const storyVerdictSchema = z.enum(["improves", "matches", "weaker", "no_match"]);
+
+export const storyComparisonSchema = z.object({
+  storyId: z.string(),
+  storyTitle: z.string().default(""),
+  verdict: storyVerdictSchema,
+  notes: z.array(z.string()).max(3),
+});
+
+export type StoryComparison = z.infer<typeof storyComparisonSchema>;
+
+export const storyVerdictLabels: Record<StoryComparison["verdict"], string> = {
+  improves: "Improves on your stored story",
+  matches: "Matches your stored story",
+  weaker: "Weaker than your stored story",
+  no_match: "None of your stored stories",
+};
+
+export function competenciesForQuestion(question: string) {
+  return storyCompetencySchema.options.filter((competency) => competencyKeywords[competency].test(question));
+}
+
+/**
+ * Orders stories for a question: those tagged with a competency the
+ * question asks about come first, then the most recently edited.
+ */
+export function rankStoriesForQuestion<T extends { competencies: StoryCompetency[]; updatedAt: string }>(
+  stories: T[],
+  question: string,
+  limit: number
+) {
+  const wanted = new Set(competenciesForQuestion(question));
+  const overlap = (story: T) => story.competencies.filter((competency) => wanted.has(competency)).length;
+  return [...stories]
+    .sort((a, b) => overlap(b) - overlap(a) || b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, limit);
+}
+
+export function formatStoryForPrompt(story: StarStoryInput & { id?: string }) {
+  const tags = story.competencies.map((competency) => storyCompetencyLabels[competency]).join(", ");
+  return [
+    `${story.id ? `[${story.id}] ` : ""}${story.title} (${tags})`,
+    ...starPartSchema.options.map((part) => `${starPartLabels[part]}: ${story[part]}`),
+  ].join("\n");
+}
+
+// Wordings graders use in place of the enum values.
+const verdictAliases: Record<string, StoryComparison["verdict"]> = {
+  improved: "improves",
+  improve: "improves",
+  better: "improves",
+  stronger: "improves",
+  match: "matches",
+  matched: "matches",
+  same: "matches",
+  similar: "matches",
+  weak: "weaker",
+  worse: "weaker",
+  none: "no_match",
+  no_story: "no_match",
+  nomatch: "no_match",
+};
+
+const looseStoryComparisonSchema = z.object({
+  storyId: z.union([z.string(), z.number()]).optional(),
+  verdict: z.string(),
+  notes: z.array(z.unknown()).optional(),
+});
+
+/**
+ * Reads the grader's story comparison without ever rejecting the grade:
+ * extra notes are dropped, a reworded verdict is mapped back to the enum,
+ * and anything else unreadable comes back as null.
+ */
+export function parseStoryComparison(value: unknown): Omit<StoryComparison, "storyTitle"> | null {
+  const parsed = looseStoryComparisonSchema.safeParse(value);
+  if (!parsed.success) return null;
+  const key = parsed.data.verdict.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  const verdict = storyVerdictSchema.safeParse(key).success
+    ? (key as StoryComparison["verdict"])
+    : verdictAliases[key];
+  if (!verdict) return null;
+  return {
+    storyId: String(parsed.data.storyId ?? ""),
+    verdict,
+    notes: (parsed.data.notes ?? [])
+      .filter((note): note is string => typeof note === "string" && note.trim().length > 0)
+      .slice(0, 3),
+  };
+}
+
+/** Drops a match to a story the grader was not shown, and fills in the title. */
+export function groundStoryComparison(
+  comparison: Omit<StoryComparison, "storyTitle">,
+  stories: Array<{ id: string; title: string }>
+): StoryComparison {
+  const story = stories.find((candidate) => candidate.id === comparison.storyId.replace(/^\[|\]$/g, ""));
+  if (!story || comparison.verdict === "no_match") {
+    return { storyId: "", storyTitle: "", verdict: "no_match", notes: comparison.notes };
+  }
+  return { ...comparison, storyId: story.id, storyTitle: story.title };
+}
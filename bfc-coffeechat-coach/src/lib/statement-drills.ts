@@ -0,0 +1,194 @@
+import type { AnswerKey, FinancialStatement } from "@/lib/answer-key";
+import type { QuestionRecord } from "@/lib/question-bank";
+
+/* ------------------------------------------------------------------ */
+/*  Generated three-statement drills with computed answer keys         */
+/* ------------------------------------------------------------------ */
+
+export const statementDrillKinds = ["depreciation", "inventory_writedown", "debt_issuance", "stock_comp"] as const;
+
+export type StatementDrillKind = (typeof statementDrillKinds)[number];
+
+export type StatementDrillParams = {
+  kind: StatementDrillKind;
+  amount: number;
+  /** Percent, e.g. 25. */
+  taxRate: number;
+  /** Depreciation only: a decrease flips every line. */
+  decrease?: boolean;
+  /** Debt issuance only: percent interest paid over the year. */
+  interestRate?: number;
+};
+
+// Generated records are tagged so they can be told apart from the bank.
+const STATEMENT_DRILL_SOURCE = "statement-drills";
+const ID_PREFIX = "drill-3s";
+
+const AMOUNTS = [10, 20, 50, 100, 200, 500];
+const TAX_RATES = [20, 25, 30, 40];
+const INTEREST_RATES = [5, 8, 10];
+
+const difficultyByKind: Record<StatementDrillKind, 1 | 2 | 3> = {
+  depreciation: 1,
+  inventory_writedown: 2,
+  debt_issuance: 2,
+  stock_comp: 3,
+};
+
+const keywords = {
+  operatingIncome: ["operating income", "ebit", "pre-tax income", "pretax income", "ebt"],
+  netIncome: ["net income"],
+  interest: ["interest expense", "interest"],
+  cfo: ["cash from operations", "cash from operating activities", "operating activities", "cfo"],
+  cff: ["cash from financing", "cash from financing activities", "financing activities", "cff"],
+  cash: ["cash"],
+  ppe: ["pp&e", "ppe", "pp and e", "p p and e", "property plant and equipment", "property, plant and equipment", "fixed assets"],
+  inventory: ["inventory"],
+  debt: ["debt", "borrowings", "loan"],
+  retainedEarnings: ["retained earnings"],
+  paidInCapital: ["apic", "additional paid-in capital", "paid-in capital", "common stock"],
+};
+
+type Line = {
+  statement: FinancialStatement;
+  item: string;
+  keywords: string[];
+  /** Signed change. */
+  delta: number;
+};
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function linesFor(params: StatementDrillParams): Line[] {
+  const tax = params.taxRate / 100;
+  switch (params.kind) {
+    case "depreciation": {
+      const x = params.decrease ? -params.amount : params.amount;
+      return [
+        { statement: "income_statement", item: "Operating income", keywords: keywords.operatingIncome, delta: -x },
+        { statement: "income_statement", item: "Net income", keywords: keywords.netIncome, delta: -x * (1 - tax) },
+        { statement: "cash_flow_statement", item: "Cash from operations", keywords: keywords.cfo, delta: x * tax },
+        { statement: "balance_sheet", item: "Cash", keywords: keywords.cash, delta: x * tax },
+        { statement: "balance_sheet", item: "PP&E", keywords: keywords.ppe, delta: -x },
+        { statement: "balance_sheet", item: "Retained earnings", keywords: keywords.retainedEarnings, delta: -x * (1 - tax) },
+      ];
+    }
+    case "inventory_writedown": {
+      const x = params.amount;
+      return [
+        { statement: "income_statement", item: "Operating income", keywords: keywords.operatingIncome, delta: -x },
+        { statement: "income_statement", item: "Net income", keywords: keywords.netIncome, delta: -x * (1 - tax) },
+        { statement: "cash_flow_statement", item: "Cash from operations", keywords: keywords.cfo, delta: x * tax },
+        { statement: "balance_sheet", item: "Cash", keywords: keywords.cash, delta: x * tax },
+        { statement: "balance_sheet", item: "Inventory", keywords: keywords.inventory, delta: -x },
+        { statement: "balance_sheet", item: "Retained earnings", keywords: keywords.retainedEarnings, delta: -x * (1 - tax) },
+      ];
+    }
+    case "debt_issuance": {
+      const x = params.amount;
+      const interest = (x * (params.interestRate ?? INTEREST_RATES[0])) / 100;
+      const afterTax = interest * (1 - tax);
+      return [
+        { statement: "income_statement", item: "Interest expense", keywords: keywords.interest, delta: interest },
+        { statement: "income_statement", item: "Net income", keywords: keywords.netIncome, delta: -afterTax },
+        { statement: "cash_flow_statement", item: "Cash from operations", keywords: keywords.cfo, delta: -afterTax },
+        { statement: "cash_flow_statement", item: "Cash from financing", keywords: keywords.cff, delta: x },
+        { statement: "balance_sheet", item: "Cash", keywords: keywords.cash, delta: x - afterTax },
+        { statement: "balance_sheet", item: "Debt", keywords: keywords.debt, delta: x },
+        { statement: "balance_sheet", item: "Retained earnings", keywords: keywords.retainedEarnings, delta: -afterTax },
+      ];
+    }
+    case "stock_comp": {
+      const x = params.amount;
+      return [
+        { statement: "income_statement", item: "Operating income", keywords: keywords.operatingIncome, delta: -x },
+        { statement: "income_statement", item: "Net income", keywords: keywords.netIncome, delta: -x * (1 - tax) },
+        { statement: "cash_flow_statement", item: "Cash from operations", keywords: keywords.cfo, delta: x * tax },
+        { statement: "balance_sheet", item: "Cash", keywords: keywords.cash, delta: x * tax },
+        { statement: "balance_sheet", item: "Common stock and APIC", keywords: keywords.paidInCapital, delta: x },
+        { statement: "balance_sheet", item: "Retained earnings", keywords: keywords.retainedEarnings, delta: -x * (1 - tax) },
+      ];
+    }
+  }
+}
+
+function promptFor(params: StatementDrillParams) {
+  const amount = `$${params.amount}`;
+  const tax = `a ${params.taxRate}% tax rate`;
+  switch (params.kind) {
+    case "depreciation":
+      return `Depreciation ${params.decrease ? "decreases" : "increases"} by ${amount}. Walk me through the three statements, assuming ${tax}.`;
+    case "inventory_writedown":
+      return `A company writes down ${amount} of inventory. Walk me through the three statements, assuming ${tax}.`;
+    case "debt_issuance":
+      return `A company raises ${amount} of debt at ${params.interestRate}% interest and pays one year of interest in cash. Walk me through the three statements at the end of that year, assuming ${tax}.`;
+    case "stock_comp":
+      return `A company records ${amount} of stock-based compensation, and it is tax-deductible. Walk me through the three statements, assuming ${tax}.`;
+  }
+}
+
+function idFor(params: StatementDrillParams) {
+  const parts = [ID_PREFIX, params.kind, params.decrease ? `minus${params.amount}` : String(params.amount), `t${params.taxRate}`];
+  if (params.interestRate !== undefined) parts.push(`r${params.interestRate}`);
+  return parts.join("-");
+}
+
+/** Computes the answer key: every line the scenario moves, with its direction and amount. */
+export function statementDrillKey(params: StatementDrillParams): AnswerKey {
+  return {
+    values: [],
+    statementImpacts: linesFor(params).map((line) => ({
+      statement: line.statement,
+      item: line.item,
+      keywords: line.keywords,
+      direction: line.delta > 0 ? "up" : line.delta < 0 ? "down" : "unchanged",
+      amount: round2(Math.abs(line.delta)),
+      tolerance: 0.05,
+    })),
+  };
+}
+
+/** Builds a question record in the bank's shape, with a computed answer key. */
+export function buildStatementDrill(params: StatementDrillParams): QuestionRecord {
+  return {
+    id: idFor(params),
+    firm: "Other",
+    group: "Generalist",
+    stage: "unknown",
+    questionType: "accounting",
+    difficulty: difficultyByKind[params.kind],
+    prompt: promptFor(params),
+    notes: "",
+    source: STATEMENT_DRILL_SOURCE,
+    answerKey: statementDrillKey(params),
+  };
+}
+
+function pick<T>(items: readonly T[], random: () => number) {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Generates `count` distinct drills, cycling through the scenario kinds
+ * from a random start so a short list still mixes them. Amounts and tax
+ * rates vary per drill.
+ */
+export function generateStatementDrills(count: number, random: () => number = Math.random): QuestionRecord[] {
+  const offset = Math.floor(random() * statementDrillKinds.length);
+  const drills = new Map<string, QuestionRecord>();
+  // A few extra draws cover repeats; the parameter space is far larger than any plan.
+  for (let idx = 0; drills.size < count && idx < count * 4; idx += 1) {
+    const kind = statementDrillKinds[(offset + idx) % statementDrillKinds.length];
+    const drill = buildStatementDrill({
+      kind,
+      amount: pick(AMOUNTS, random),
+      taxRate: pick(TAX_RATES, random),
+      ...(kind === "depreciation" ? { decrease: random() < 0.3 } : {}),
+      ...(kind === "debt_issuance" ? { interestRate: pick(INTEREST_RATES, random) } : {}),
+    });
+    if (!drills.has(drill.id)) drills.set(drill.id, drill);
+  }
+  return Array.from(drills.values());
+}
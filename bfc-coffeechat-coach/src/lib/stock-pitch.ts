@@ -0,0 +1,145 @@
+import z from "zod/v4";
+import { rubricRatingSchema } from "@/lib/networking-scenarios";
+
+/* ------------------------------------------------------------------ */
+/*  Stock pitch cross-examination                                      */
+/* ------------------------------------------------------------------ */
+
+/** PM questions before the cross-exam closes. */
+export const PITCH_CROSS_EXAM_QUESTIONS = 5;
+
+const MAX_SECTION_CHARS = 1500;
+
+export const pitchDirectionSchema = z.enum(["long", "short"]);
+
+export type PitchDirection = z.infer<typeof pitchDirectionSchema>;
+
+/** What the candidate declares before the PM starts asking. */
+export const pitchSetupSchema = z.object({
+  ticker: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9.-]{1,10}$/),
+  direction: pitchDirectionSchema,
+  thesis: z.string().trim().min(1).max(MAX_SECTION_CHARS),
+  valuation: z.string().trim().min(1).max(MAX_SECTION_CHARS),
+  catalyst: z.string().trim().min(1).max(MAX_SECTION_CHARS),
+  risks: z.string().trim().min(1).max(MAX_SECTION_CHARS),
+});
+
+export type PitchSetup = z.infer<typeof pitchSetupSchema>;
+
+export const pitchTurnSchema = z.object({
+  role: z.enum(["candidate", "pm"]),
+  content: z.string().min(1).max(2000),
+});
+
+export type PitchTurn = z.infer<typeof pitchTurnSchema>;
+
+/**
+ * One entry per pitch component plus how the candidate held up under
+ * questioning. The PM prompt, the grading prompt and the scorecard all read
+ * from this list.
+ */
+export const pitchRubricKeySchema = z.enum(["thesis", "valuation", "catalyst", "risks", "defense"]);
+
+export type PitchRubricKey = z.infer<typeof pitchRubricKeySchema>;
+
+export const pitchRubric: Record<PitchRubricKey, { label: string; criteria: string }> = {
+  thesis: { label: "Thesis", criteria: "a clear variant view: what the market is missing and why" },
+  valuation: { label: "Valuation", criteria: "a price target backed by a method, numbers and upside/downside" },
+  catalyst: { label: "Catalyst", criteria: "specific events with timing that close the gap to the target" },
+  risks: { label: "Risks", criteria: "the other side's best case, sized, with what would change the view" },
+  defense: { label: "Defense", criteria: "direct answers under pushback, conviction without dodging or caving" },
+};
+
+/** The write-up the candidate keeps and refines between pitches. */
+export const pitchMemoSchema = z.object({
+  headline: z.string().max(300),
+  thesis: z.string().max(4000),
+  valuation: z.string().max(4000),
+  catalysts: z.string().max(4000),
+  risks: z.string().max(4000),
+  /** Points the cross-exam exposed that still need work. */
+  openQuestions: z.string().max(4000),
+});
+
+export type PitchMemo = z.infer<typeof pitchMemoSchema>;
+
+export const pitchMemoFields: Array<{ key: keyof PitchMemo; label: string }> = [
+  { key: "headline", label: "Headline" },
+  { key: "thesis", label: "Thesis" },
+  { key: "valuation", label: "Valuation" },
+  { key: "catalysts", label: "Catalysts" },
+  { key: "risks", label: "Risks" },
+  { key: "openQuestions", label: "Open questions" },
+];
+
+export const pitchScorecardSchema = z.object({
+  ratings: z.record(pitchRubricKeySchema, rubricRatingSchema),
+  overallScore0to10: z.number().min(0).max(10),
+  pmVerdict: z.enum(["would_invest", "needs_work", "pass"]),
+  pmVerdictRationale: z.string(),
+  /** PM questions the candidate handled worst, with a stronger answer. */
+  weakestAnswers: z
+    .array(z.object({ question: z.string(), betterAnswer: z.string() }))
+    .max(3),
+  memo: pitchMemoSchema,
+});
+
+export type PitchScorecard = z.infer<typeof pitchScorecardSchema>;
+
+export const pmVerdictLabels: Record<PitchScorecard["pmVerdict"], string> = {
+  would_invest: "Would put money on it",
+  needs_work: "Needs work",
+  pass: "Pass",
+};
+
+/** Mean of the rubric ratings on a 0-10 scale, so the headline score matches the rubric. */
+export function pitchOverallScore(ratings: PitchScorecard["ratings"]) {
+  const values = pitchRubricKeySchema.options.map((key) => ratings[key].rating1to5);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.round(((mean - 1) / 4) * 100) / 10;
+}
+
+export function formatPitchSetup(setup: PitchSetup) {
+  return [
+    `Ticker: ${setup.ticker}`,
+    `Direction: ${setup.direction}`,
+    `Thesis: ${setup.thesis}`,
+    `Valuation: ${setup.valuation}`,
+    `Catalyst: ${setup.catalyst}`,
+    `Risks: ${setup.risks}`,
+  ].join("\n");
+}
+
+/** Seeds a new pitch from a saved memo, so the next attempt starts from the refined version. */
+export function setupFromMemo(setup: PitchSetup, memo: PitchMemo): PitchSetup {
+  return {
+    ticker: setup.ticker,
+    direction: setup.direction,
+    thesis: memo.thesis.slice(0, MAX_SECTION_CHARS) || setup.thesis,
+    valuation: memo.valuation.slice(0, MAX_SECTION_CHARS) || setup.valuation,
+    catalyst: memo.catalysts.slice(0, MAX_SECTION_CHARS) || setup.catalyst,
+    risks: memo.risks.slice(0, MAX_SECTION_CHARS) || setup.risks,
+  };
+}
+
+/** System prompt for the skeptical PM running the cross-examination. */
+export function buildPmSystemPrompt(setup: PitchSetup) {
+  const opposite = setup.direction === "long" ? "bear" : "bull";
+  return `You are a skeptical hedge fund portfolio manager hearing a stock pitch from a candidate.
+- Ask exactly 1 pointed question per turn, max 2 sentences. No praise, no coaching.
+- Attack the weakest part of the pitch first. Make them defend numbers, not adjectives.
+- Argue the ${opposite} case. Ask what the market is missing, why now, and what the stock is pricing in.
+- If an answer dodges, press on the same point once before moving on.
+- Cover every component over the cross-exam: ${pitchRubricKeySchema.options
+    .filter((key) => key !== "defense")
+    .map((key) => `${pitchRubric[key].label.toLowerCase()} (${pitchRubric[key].criteria})`)
+    .join("; ")}.
+- Never reveal you are following a script or grading.
+
+The pitch as declared:
+${formatPitchSetup(setup)}`;
+}
@@ -0,0 +1,90 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type z from "zod/v4";
+
+/* ------------------------------------------------------------------ */
+/*  Per-user record storage                                            */
+/* ------------------------------------------------------------------ */
+
+export type StoredRecord = {
+  id: string;
+  userEmail: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Minimal storage interface for per-user records. The default backend writes
+ * one JSON file per record under DATA_STORE_DIR (or .data/ in the project
+ * root); another backend only has to implement these four methods.
+ */
+export interface RecordStore<T extends StoredRecord> {
+  get(id: string): Promise<T | null>;
+  put(record: T): Promise<void>;
+  remove(id: string): Promise<void>;
+  listByUser(userEmail: string): Promise<T[]>;
+}
+
+const SAFE_ID = /^[A-Za-z0-9_-]{1,80}$/;
+
+export function getDataDir() {
+  return process.env.DATA_STORE_DIR || path.join(process.cwd(), ".data");
+}
+
+export function createFileStore<T extends StoredRecord>(
+  collection: string,
+  schema: z.ZodType<T>
+): RecordStore<T> {
+  const dir = () => path.join(getDataDir(), collection);
+  const fileFor = (id: string) => {
+    if (!SAFE_ID.test(id)) {
+      throw new Error(`Invalid record id: ${id}`);
+    }
+    return path.join(dir(), `${id}.json`);
+  };
+
+  async function readFile(file: string): Promise<T | null> {
+    try {
+      const parsed = schema.safeParse(JSON.parse(await fs.readFile(file, "utf8")));
+      return parsed.success ? parsed.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    async get(id) {
+      if (!SAFE_ID.test(id)) return null;
+      return readFile(fileFor(id));
+    },
+    async put(record) {
+      const file = fileFor(record.id);
+      await fs.mkdir(dir(), { recursive: true });
+      // Write-then-rename so a crash mid-write never leaves a truncated file.
+      // The tmp name is unique per write so concurrent puts never share one.
+      const tmp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(record, null, 2));
+      await fs.rename(tmp, file);
+    },
+    async remove(id) {
+      await fs.rm(fileFor(id), { force: true });
+    },
+    async listByUser(userEmail) {
+      let names: string[] = [];
+      try {
+        names = await fs.readdir(dir());
+      } catch {
+        return [];
+      }
+      const records: T[] = [];
+      for (const name of names) {
+        if (!name.endsWith(".json")) continue;
+        const record = await readFile(path.join(dir(), name));
+        if (record && record.userEmail === userEmail) {
+          records.push(record);
+        }
+      }
+      return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import z from "zod/v4";
+import { starStoryInputSchema, storyFeedbackSchema } from "@/lib/star-stories";
+import { createFileStore, type RecordStore } from "@/lib/storage";
+
+/* ------------------------------------------------------------------ */
+/*  Persisted STAR stories                                             */
+/* ------------------------------------------------------------------ */
+
+export const storyRecordSchema = starStoryInputSchema.extend({
+  id: z.string(),
+  userEmail: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  /** The latest coach feedback; cleared when the story text changes. */
+  feedback: storyFeedbackSchema.nullable().default(null),
+});
+
+export type StoryRecord = z.infer<typeof storyRecordSchema>;
+
+let store: RecordStore<StoryRecord> | null = null;
+
+export function getStoryStore() {
+  if (!store) {
+    store = createFileStore("stories", storyRecordSchema);
+  }
+  return store;
+}
+
+/** Returns the story only when it belongs to the given user. */
+export async function getStory(id: string, userEmail: string) {
+  const record = await getStoryStore().get(id);
+  return record && record.userEmail === userEmail ? record : null;
+}
+
+export async function listStories(userEmail: string) {
+  return getStoryStore().listByUser(userEmail);
+}
+
+/**
+ * Creates a story, or replaces the text of an existing one when `id` is
+ * given. Returns null if `id` does not belong to the user.
+ */
+export async function saveStory(userEmail: string, input: z.infer<typeof starStoryInputSchema>, id?: string) {
+  const now = new Date().toISOString();
+  const existing = id ? await getStory(id, userEmail) : null;
+  if (id && !existing) return null;
+  const unchanged =
+    existing &&
+    existing.situation === input.situation &&
+    existing.task === input.task &&
+    existing.action === input.action &&
+    existing.result === input.result;
+  const record: StoryRecord = {
+    id: existing?.id ?? crypto.randomUUID(),
+    userEmail,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    ...input,
+    feedback: unchanged ? existing.feedback : null,
+  };
+  await getStoryStore().put(record);
+  return record;
+}
+
+export async function saveStoryFeedback(id: string, userEmail: string, feedback: StoryRecord["feedback"]) {
+  const existing = await getStory(id, userEmail);
+  if (!existing) return null;
+  const record: StoryRecord = { ...existing, feedback };
+  await getStoryStore().put(record);
+  return record;
+}
+
+/** Returns false if the story does not belong to the user. */
+export async function deleteStory(id: string, userEmail: string) {
+  const existing = await getStory(id, userEmail);
+  if (!existing) return false;
+  await getStoryStore().remove(id);
+  return true;
+}
@@ -0,0 +1,115 @@
+/* ------------------------------------------------------------------ */
+/*  Server-Sent Events helpers shared by routes, providers and clients */
+/* ------------------------------------------------------------------ */
+
+export type SseEvent = {
+  event: string;
+  data: string;
+};
+
+export function encodeSseEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Wraps an async producer in a text/event-stream response. Whatever the
+ * producer sends is flushed to the client immediately; the stream closes when
+ * the producer settles, so producers report their own failures as events.
+ */
+export function sseResponse(produce: (send: (event: string, data: unknown) => void) => Promise<void>) {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+      try {
+        await produce(send);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/** Parses an SSE body into events. Multi-line `data:` fields are joined with newlines, per the spec. */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : (blocks.pop() ?? "");
+      for (const block of blocks) {
+        let event = "message";
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+        }
+        if (data.length > 0) yield { event, data: data.join("\n") };
+      }
+      if (done) return;
+    }
+  } finally {
+    // Also reached when the consumer stops early; cancelling tells the sender to stop.
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Client side of a streaming route: calls `onDelta` for each "delta" event and
+ * resolves with the "done" payload. A plain JSON response resolves as is. An
+ * "error" event rejects with the message and request id, formatted like the
+ * other errors in the UI.
+ */
+export async function readTextStream<T>(response: Response, onDelta: (text: string) => void): Promise<T> {
+  if (!response.body || !response.headers.get("content-type")?.includes("text/event-stream")) {
+    return (await response.json()) as T;
+  }
+  for await (const { event, data } of readSseEvents(response.body)) {
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(data) as Record<string, unknown>;
+    } catch {
+      continue;
+    }
+    if (event === "delta" && typeof payload.text === "string") {
+      onDelta(payload.text);
+    } else if (event === "done") {
+      return payload as T;
+    } else if (event === "error") {
+      const msg = (payload.error as string) || "Stream failed";
+      const requestId = payload.requestId as string | undefined;
+      throw new Error(requestId ? `${msg} (Request ID: ${requestId})` : msg);
+    }
+  }
+  throw new Error("The response ended before it finished.");
+}
+
+/**
+ * Splits streamed text into sentences that are safe to hand to TTS and the
+ * unfinished remainder. A sentence ends at . ? or ! followed by whitespace,
+ * so decimals like "$1.5bn" do not cut it short.
+ */
+export function takeCompleteSentences(text: string) {
+  const sentences: string[] = [];
+  // Sticky, so each sentence starts where the last one ended.
+  const pattern = /(?:[^.?!]|[.?!](?!\s))*[.?!]+["')\]]*\s+/y;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const sentence = match[0].trim();
+    if (sentence) sentences.push(sentence);
+    consumed = pattern.lastIndex;
+  }
+  return { sentences, rest: text.slice(consumed) };
+}
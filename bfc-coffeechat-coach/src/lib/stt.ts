@@ -0,0 +1,155 @@
+import { openaiUrl, whisperUrl } from "@/lib/upstream";
+
+/* ------------------------------------------------------------------ */
+/*  Speech-to-text backends behind /api/stt                            */
+/* ------------------------------------------------------------------ */
+
+export type SttProviderName = "openai" | "whisper";
+
+export type TranscriptWord = {
+  word: string;
+  /** Seconds from the start of the recording. */
+  start: number;
+  end: number;
+};
+
+export type Transcript = {
+  text: string;
+  words: TranscriptWord[];
+  durationSeconds: number | null;
+  provider: SttProviderName;
+  model: string;
+};
+
+export type SttRequest = {
+  audio: Blob;
+  filename: string;
+  /** Vocabulary hint, e.g. the question being answered, so terms like "EBITDA" come back spelled right. */
+  prompt?: string;
+  language?: string;
+  timeoutMs?: number;
+};
+
+/** Same contract as LlmError: `status` is what the route should answer with. */
+export class SttError extends Error {
+  status: number;
+  kind: "config" | "upstream" | "invalid_output";
+
+  constructor(message: string, kind: SttError["kind"], status: number) {
+    super(message);
+    this.name = "SttError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+type SttBackend = {
+  url: () => string;
+  /** Returns the bearer token, or null when the backend does not need one. */
+  apiKey: () => string | null;
+};
+
+const providerNames: SttProviderName[] = ["openai", "whisper"];
+
+const backends: Record<SttProviderName, SttBackend> = {
+  openai: {
+    url: () => openaiUrl("audio/transcriptions"),
+    apiKey: () => {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) throw new SttError("Missing OPENAI_API_KEY", "config", 500);
+      return apiKey;
+    },
+  },
+  whisper: {
+    url: () => whisperUrl("audio/transcriptions"),
+    apiKey: () => process.env.WHISPER_API_KEY || null,
+  },
+};
+
+/** STT_PROVIDER picks the backend (default openai); STT_MODEL overrides the model name it is sent. */
+export function resolveSttConfig() {
+  const normalized = (process.env.STT_PROVIDER || "").trim().toLowerCase();
+  const provider = providerNames.includes(normalized as SttProviderName)
+    ? (normalized as SttProviderName)
+    : "openai";
+  // whisper-1 is the OpenAI model that returns word timestamps; most
+  // self-hosted servers accept any name and use whatever they loaded.
+  const model = process.env.STT_MODEL?.trim() || "whisper-1";
+  return { provider, model };
+}
+
+type VerboseTranscription = {
+  text?: string;
+  duration?: number;
+  words?: Array<{ word?: string; start?: number; end?: number }>;
+  segments?: Array<{ text?: string; start?: number; end?: number }>;
+};
+
+/**
+ * Servers that ignore `timestamp_granularities` still return segments, so
+ * words are spread evenly across their segment instead.
+ */
+function wordsFromSegments(segments: NonNullable<VerboseTranscription["segments"]>) {
+  return segments.flatMap((segment) => {
+    const tokens = (segment.text || "").trim().split(/\s+/).filter(Boolean);
+    const start = segment.start ?? 0;
+    const step = tokens.length > 0 ? ((segment.end ?? start) - start) / tokens.length : 0;
+    return tokens.map((word, i) => ({ word, start: start + step * i, end: start + step * (i + 1) }));
+  });
+}
+
+function normalizeTranscription(data: VerboseTranscription) {
+  const words = Array.isArray(data.words)
+    ? data.words
+        .filter((w) => typeof w.word === "string" && w.word.trim())
+        .map((w) => ({ word: (w.word as string).trim(), start: w.start ?? 0, end: w.end ?? w.start ?? 0 }))
+    : wordsFromSegments(Array.isArray(data.segments) ? data.segments : []);
+  const text = typeof data.text === "string" ? data.text.trim() : words.map((w) => w.word).join(" ");
+  const durationSeconds =
+    typeof data.duration === "number" ? data.duration : words.length > 0 ? words[words.length - 1].end : null;
+  return { text, words, durationSeconds };
+}
+
+export async function transcribeAudio(request: SttRequest): Promise<Transcript> {
+  const { provider, model } = resolveSttConfig();
+  const backend = backends[provider];
+  const apiKey = backend.apiKey();
+
+  const form = new FormData();
+  form.append("file", request.audio, request.filename);
+  form.append("model", model);
+  form.append("response_format", "verbose_json");
+  form.append("timestamp_granularities[]", "word");
+  form.append("timestamp_granularities[]", "segment");
+  if (request.prompt) form.append("prompt", request.prompt);
+  if (request.language) form.append("language", request.language);
+
+  const controller = new AbortController();
+  const timeoutId = request.timeoutMs ? setTimeout(() => controller.abort(), request.timeoutMs) : null;
+  let response: Response;
+  try {
+    response = await fetch(backend.url(), {
+      method: "POST",
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      body: form,
+      signal: controller.signal,
+    });
+  } catch {
+    throw new SttError("Transcription request failed", "upstream", 502);
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new SttError((errorText || response.statusText).slice(0, 300), "upstream", 502);
+  }
+
+  let data: VerboseTranscription;
+  try {
+    data = (await response.json()) as VerboseTranscription;
+  } catch {
+    throw new SttError("Transcription returned invalid JSON", "invalid_output", 502);
+  }
+  return { ...normalizeTranscription(data), provider, model };
+}
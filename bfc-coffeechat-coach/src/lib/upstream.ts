@@ -0,0 +1,26 @@
+/**
+ * Base URLs for third-party APIs. Each can be overridden through the
+ * environment so local development and CI can point the app at
+ * scripts/mock-llm-server.mjs instead of the paid services.
+ */
+
+function joinUrl(base: string, path: string) {
+  return `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
+
+export function openaiUrl(path: string) {
+  return joinUrl(process.env.OPENAI_BASE_URL || "https://api.openai.com/v1", path);
+}
+
+export function anthropicUrl(path: string) {
+  return joinUrl(process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com/v1", path);
+}
+
+export function elevenLabsUrl(path: string) {
+  return joinUrl(process.env.ELEVENLABS_BASE_URL || "https://api.elevenlabs.io/v1", path);
+}
+
+/** Self-hosted whisper server speaking the OpenAI transcription API (faster-whisper-server, whisper.cpp). */
+export function whisperUrl(path: string) {
+  return joinUrl(process.env.WHISPER_BASE_URL || "http://localhost:8000/v1", path);
+}